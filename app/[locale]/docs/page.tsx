@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import { useAppStore } from "@/store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, KeyRound } from "lucide-react";
+import {
+  OperationCard,
+  type OpenApiOperation,
+} from "@/components/api-docs/OperationCard";
+import { listApiErrors } from "@/lib/api-error";
+
+/** OpenAPI 문서 (문서 페이지에서 사용하는 필드만) */
+interface OpenApiDocument {
+  info: { title: string; version: string };
+  tags: Array<{ name: string; description?: string }>;
+  paths: Record<string, Record<string, Omit<OpenApiOperation, "method" | "path"> & { tags: string[] }>>;
+}
+
+const SPEC_URL = "/api/openapi.json";
+
+/**
+ * API Docs Page
+ *
+ * /api 라우트 문서 (GET /api/openapi.json의 OpenAPI 문서로 생성)
+ */
+export default function DocsPage() {
+  const t = useTranslations("docs");
+  const tErrors = useTranslations("errors");
+  const { apiKey, apiKeyMode } = useAppStore();
+
+  const [spec, setSpec] = useState<OpenApiDocument | null>(null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    fetch(SPEC_URL)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        return response.json();
+      })
+      .then(setSpec)
+      .catch(() => setLoadError(true));
+  }, []);
+
+  const operationsByTag = (spec?.tags || []).map((tag) => ({
+    ...tag,
+    operations: Object.entries(spec!.paths).flatMap(([path, methods]) =>
+      Object.entries(methods)
+        .filter(([, operation]) => operation.tags.includes(tag.name))
+        .map(([method, operation]) => ({ ...operation, method, path }))
+    ),
+  }));
+
+  return (
+    <div className="container py-6 md:py-8 space-y-6 md:space-y-8">
+      {/* Header */}
+      <div className="space-y-4 md:flex md:items-center md:justify-between md:space-y-0">
+        <div>
+          <h1 className="text-3xl md:text-4xl font-bold tracking-tight">
+            {t("title")}
+          </h1>
+          <p className="mt-2 text-sm md:text-base text-muted-foreground">
+            {t("description")}
+          </p>
+        </div>
+        <Button asChild variant="outline" className="w-full md:w-auto">
+          <a href={SPEC_URL} target="_blank" rel="noreferrer">
+            <Download className="mr-2 h-4 w-4" />
+            {t("downloadSpec")}
+          </a>
+        </Button>
+      </div>
+
+      {/* Authentication */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <KeyRound className="h-5 w-5" />
+            {t("authentication")}
+          </CardTitle>
+          <CardDescription>
+            {apiKeyMode === "server"
+              ? t("authServerDescription")
+              : t("authDescription")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <pre className="overflow-x-auto rounded-md bg-muted p-3 text-xs">
+            x-api-key: &lt;GEMINI_API_KEY&gt;
+          </pre>
+          <p className="text-muted-foreground">
+            {apiKey ? t("tryItWithSavedKey") : t("tryItWithoutKey")}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Operations */}
+      {loadError && (
+        <p className="text-sm text-destructive">{t("loadError")}</p>
+      )}
+      {!spec && !loadError && (
+        <p className="text-sm text-muted-foreground">{t("loading")}</p>
+      )}
+      {operationsByTag.map((tag) => (
+        <section key={tag.name} className="space-y-3">
+          <div>
+            <h2 className="text-xl font-semibold">{tag.name}</h2>
+            {tag.description && (
+              <p className="text-sm text-muted-foreground">
+                {tag.description}
+              </p>
+            )}
+          </div>
+          {tag.operations.map((operation) => (
+            <OperationCard
+              key={operation.operationId}
+              operation={operation}
+              apiKey={apiKey}
+            />
+          ))}
+        </section>
+      ))}
+
+      {/* Error Codes */}
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">{t("errorCodes")}</h2>
+          <p className="text-sm text-muted-foreground">
+            {t("errorCodesDescription")}
+          </p>
+        </div>
+        <Card>
+          <CardContent className="overflow-x-auto p-0">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left">
+                  <th className="p-3 font-medium">code</th>
+                  <th className="p-3 font-medium">HTTP</th>
+                  <th className="p-3 font-medium">{t("errorMessage")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {listApiErrors().map((error) => (
+                  <tr key={error.code} className="border-b last:border-0">
+                    <td className="p-3">
+                      <code>{error.code}</code>
+                    </td>
+                    <td className="p-3">{error.status}</td>
+                    <td className="p-3 text-muted-foreground">
+                      {tErrors.has(error.code)
+                        ? tErrors.raw(error.code)
+                        : error.message}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </section>
+    </div>
+  );
+}
@@ -7,6 +7,8 @@ import { routing } from '@/i18n/routing';
 import "../globals.css";
 import { Providers } from "@/components/providers";
 import { LoadingOverlay } from "@/components/loading-overlay";
+import { UploadJobPoller } from "@/components/upload-job-poller";
+import { ServerConfigLoader } from "@/components/server-config-loader";
 import { Toaster } from "@/components/ui/toaster";
 import { AppHeader } from "@/components/app-header";
 import { AppFooter } from "@/components/app-footer";
@@ -63,6 +65,8 @@ export default async function LocaleLayout({
               <AppFooter />
             </div>
             <LoadingOverlay />
+            <UploadJobPoller />
+            <ServerConfigLoader />
             <Toaster />
           </Providers>
         </NextIntlClientProvider>
@@ -8,6 +8,7 @@ import {
   useStoresState,
   useDocumentsState,
   useUIState,
+  useUploadsState,
   useAppStore,
 } from "@/store";
 import { Button } from "@/components/ui/button";
@@ -30,10 +31,69 @@ import {
   Eye,
   Plus,
   X,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Layers,
+  RefreshCw,
+  FileArchive,
+  Globe,
+  Copy,
 } from "lucide-react";
 import { formatDate, formatFileSize } from "@/lib/utils";
+import { ApiRequestError } from "@/lib/api-request-error";
+import { useApiErrorMessage } from "@/hooks/use-api-error-message";
+import {
+  DEFAULT_CHUNKING_CONFIG,
+  MAX_TOKENS_PER_CHUNK,
+  MIN_TOKENS_PER_CHUNK,
+  readChunkingMetadata,
+  validateChunkingConfig,
+} from "@/lib/chunking";
+import {
+  ARCHIVE_METADATA_KEYS,
+  DUPLICATE_POLICIES,
+  MAX_ARCHIVE_USER_METADATA,
+  MAX_URL_USER_METADATA,
+  MAX_USER_METADATA,
+  URL_METADATA_KEYS,
+  findDuplicateClusters,
+  groupByContentHash,
+  isReservedMetadataKey,
+  readDocumentVersion,
+} from "@/lib/document-metadata";
+import { MAX_ARCHIVE_SIZE } from "@/lib/upload-form";
+import {
+  DEFAULT_CRAWL_PAGES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  type CrawlMode,
+} from "@/lib/web-crawl";
 import { DocumentDetailModal } from "@/components/DocumentDetailModal";
-import type { FileSearchDocument } from "@/types";
+import { ReplaceDocumentDialog } from "@/components/ReplaceDocumentDialog";
+import type {
+  ArchiveImportResponse,
+  ChunkingConfig,
+  DuplicatePolicy,
+  FileSearchDocument,
+  ReplaceDocumentResponse,
+  UploadFileResult,
+} from "@/types";
+
+/**
+ * 파일 내용의 SHA-256 (중복 미리보기용, Web Crypto를 쓸 수 없으면 null)
+ * 업로드할 때 서버에서 다시 계산해 확인합니다
+ */
+async function hashFile(file: File): Promise<string | null> {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await file.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
 
 /**
  * Documents Page
@@ -45,21 +105,59 @@ export default function DocumentsPage() {
   const router = useRouter();
   const t = useTranslations("documents");
   const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
   const storeId = decodeURIComponent(params.storeId as string);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
 
-  const { currentStore } = useStoresState();
+  const { currentStore, chunkingDefaults, setChunkingDefaults } =
+    useStoresState();
   const { documents, setDocuments, removeDocument } = useDocumentsState();
   const { setLoading, setError, clearError } = useUIState();
   const { apiKey, hasApiKey } = useAppStore();
+  const {
+    uploadJobs,
+    addUploadJobs,
+    removeUploadJob,
+    clearFinishedUploadJobs,
+  } = useUploadsState();
+  const storeUploadJobs = uploadJobs.filter((job) => job.storeName === storeId);
+  const doneJobIds = storeUploadJobs
+    .filter((job) => job.status === "done")
+    .map((job) => job.id)
+    .join(",");
+  const seenDoneJobIds = useRef(doneJobIds);
 
   const [uploadFiles, setUploadFiles] = useState<File[]>([]);
+  // 선택한 파일의 내용 해시 (파일명 → SHA-256)와 파일별 중복 정책
+  const [fileHashes, setFileHashes] = useState<Record<string, string>>({});
+  const [fileDuplicatePolicies, setFileDuplicatePolicies] = useState<
+    Record<string, DuplicatePolicy>
+  >({});
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>(
+    DUPLICATE_POLICIES[0]
+  );
+  // ZIP 아카이브 가져오기 (파일 선택과 동시에 사용하지 않음)
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
+  const [importReport, setImportReport] =
+    useState<ArchiveImportResponse | null>(null);
+  // URL 가져오기 (파일/아카이브 선택과 동시에 사용하지 않음)
+  const [urlImport, setUrlImport] = useState<{
+    url: string;
+    mode: CrawlMode;
+    maxDepth: number;
+    maxPages: number;
+    allowedDomains: string;
+  } | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<FileSearchDocument | null>(
     null
   );
   const [selectedDocument, setSelectedDocument] =
     useState<FileSearchDocument | null>(null);
   const [detailModalOpen, setDetailModalOpen] = useState(false);
+  const [replaceTarget, setReplaceTarget] = useState<FileSearchDocument | null>(
+    null
+  );
   const [customMetadata, setCustomMetadata] = useState<
     Array<{
       key: string;
@@ -67,6 +165,26 @@ export default function DocumentsPage() {
       type: "string" | "number" | "stringList";
     }>
   >([]);
+  // 아카이브/URL 가져오기는 출처 메타데이터(경로, URL과 날짜)를 함께 기록
+  const metadataLimit = archiveFile
+    ? MAX_ARCHIVE_USER_METADATA
+    : urlImport
+      ? MAX_URL_USER_METADATA
+      : MAX_USER_METADATA;
+  const storeChunkingDefault = chunkingDefaults[storeId];
+  const [chunking, setChunking] = useState<ChunkingConfig>(
+    storeChunkingDefault || DEFAULT_CHUNKING_CONFIG
+  );
+  // 같은 내용의 문서 (해시가 기록된 문서만)
+  const documentsByHash = groupByContentHash(documents);
+  const duplicateClusters = findDuplicateClusters(documents);
+  const duplicateDocumentNames = new Set(
+    duplicateClusters.flat().map((doc) => doc.name)
+  );
+  const isStoreChunkingDefault =
+    !!storeChunkingDefault &&
+    storeChunkingDefault.maxTokensPerChunk === chunking.maxTokensPerChunk &&
+    storeChunkingDefault.maxOverlapTokens === chunking.maxOverlapTokens;
 
   useEffect(() => {
     if (currentStore && hasApiKey()) {
@@ -74,13 +192,39 @@ export default function DocumentsPage() {
     }
   }, [currentStore]);
 
-  async function loadDocuments() {
+  // 스토어 기본 청킹 설정이 바뀌면 (hydration 포함) 업로드 설정에 반영
+  useEffect(() => {
+    if (storeChunkingDefault) {
+      setChunking(storeChunkingDefault);
+    }
+  }, [storeChunkingDefault]);
+
+  // 인덱싱이 새로 완료된 파일이 있으면 목록 새로고침 (문서 상태 갱신)
+  useEffect(() => {
+    const seen = seenDoneJobIds.current.split(",");
+    seenDoneJobIds.current = doneJobIds;
+    const hasNewlyDone = doneJobIds
+      .split(",")
+      .some((id) => id && !seen.includes(id));
+
+    if (hasNewlyDone && currentStore && hasApiKey()) {
+      loadDocuments(true);
+    }
+  }, [doneJobIds]);
+
+  /**
+   * 문서 목록 조회
+   * @param silent - 로딩 오버레이 없이 백그라운드로 새로고침
+   */
+  async function loadDocuments(silent = false) {
     if (!hasApiKey()) {
       return;
     }
 
-    setLoading(true, t("loadingDocuments"));
-    clearError();
+    if (!silent) {
+      setLoading(true, t("loadingDocuments"));
+      clearError();
+    }
 
     try {
       const headers: HeadersInit = {
@@ -93,16 +237,19 @@ export default function DocumentsPage() {
       const data = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
         );
       }
 
       setDocuments(data.data.data);
     } catch (error: any) {
-      setError(error.message || tCommon("networkError"));
+      setError(getErrorMessage(error, tCommon("networkError")));
     } finally {
-      setLoading(false);
+      if (!silent) {
+        setLoading(false);
+      }
     }
   }
 
@@ -138,11 +285,83 @@ export default function DocumentsPage() {
 
     // 기존 파일에 추가
     setUploadFiles([...uploadFiles, ...files]);
+    setArchiveFile(null);
+    setUrlImport(null);
 
     // Reset input so same file can be selected again after removal
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
+
+    // 내용이 같은 기존 문서 미리보기
+    void Promise.all(files.map(hashFile)).then((hashes) => {
+      const added: Record<string, string> = {};
+      files.forEach((file, idx) => {
+        const contentHash = hashes[idx];
+        if (contentHash) added[file.name] = contentHash;
+      });
+      setFileHashes((prev) => ({ ...prev, ...added }));
+    });
+  }
+
+  /**
+   * 선택한 파일과 내용이 같은 기존 문서 (같은 이름 우선)
+   */
+  function findExistingDuplicate(file: File): FileSearchDocument | undefined {
+    const group = documentsByHash.get(fileHashes[file.name] ?? "");
+    return group?.find((doc) => doc.displayName === file.name) || group?.[0];
+  }
+
+  /**
+   * 중복 정책 폼 필드 (파일별 정책은 선택한 파일만)
+   */
+  function appendDuplicatePolicyFields(formData: FormData) {
+    formData.append("duplicatePolicy", duplicatePolicy);
+    const perFile = Object.fromEntries(
+      Object.entries(fileDuplicatePolicies).filter(([name]) =>
+        uploadFiles.some((file) => file.name === name)
+      )
+    );
+    if (Object.keys(perFile).length > 0) {
+      formData.append("duplicatePolicies", JSON.stringify(perFile));
+    }
+  }
+
+  function handleArchiveSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+
+    // Reset input so same archive can be selected again
+    if (archiveInputRef.current) {
+      archiveInputRef.current.value = "";
+    }
+    if (!file) return;
+
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      setError(
+        t("errorArchiveSize", {
+          file: file.name,
+          max: MAX_ARCHIVE_SIZE / 1024 / 1024,
+        })
+      );
+      return;
+    }
+
+    setUploadFiles([]);
+    setUrlImport(null);
+    setArchiveFile(file);
+    setImportReport(null);
+  }
+
+  function handleStartUrlImport() {
+    setUploadFiles([]);
+    setArchiveFile(null);
+    setUrlImport({
+      url: "",
+      mode: "auto",
+      maxDepth: 0,
+      maxPages: DEFAULT_CRAWL_PAGES,
+      allowedDomains: "",
+    });
   }
 
   function handleRemoveFile(index: number) {
@@ -151,6 +370,10 @@ export default function DocumentsPage() {
 
   function handleClearAllFiles() {
     setUploadFiles([]);
+    setArchiveFile(null);
+    setUrlImport(null);
+    setFileHashes({});
+    setFileDuplicatePolicies({});
     setCustomMetadata([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
@@ -158,8 +381,8 @@ export default function DocumentsPage() {
   }
 
   function handleAddMetadata() {
-    if (customMetadata.length >= 20) {
-      setError(t("errorMetadataMax"));
+    if (customMetadata.length >= metadataLimit) {
+      setError(t("errorMetadataMax", { max: metadataLimit }));
       return;
     }
     setCustomMetadata([
@@ -189,24 +412,51 @@ export default function DocumentsPage() {
     );
   }
 
-  async function handleUpload() {
-    if (uploadFiles.length === 0) {
-      setError(t("errorSelectFile"));
-      return;
-    }
-
+  /**
+   * 업로드/가져오기 전 메타데이터와 청킹 설정 확인
+   * @returns 문제가 있으면 에러를 표시하고 false
+   */
+  function validateUploadSettings(): boolean {
     // Validate metadata
     for (const meta of customMetadata) {
       if (!meta.key.trim()) {
         setError(t("errorMetadataKeyEmpty"));
-        return;
+        return false;
       }
       if (!meta.value.trim()) {
         setError(t("errorMetadataValueEmpty"));
-        return;
+        return false;
+      }
+      if (isReservedMetadataKey(meta.key.trim())) {
+        setError(t("errorMetadataKeyReserved", { key: meta.key.trim() }));
+        return false;
       }
     }
 
+    // Validate chunking config
+    if (validateChunkingConfig(chunking)) {
+      setError(
+        t("errorChunkingInvalid", {
+          min: MIN_TOKENS_PER_CHUNK,
+          max: MAX_TOKENS_PER_CHUNK,
+        })
+      );
+      return false;
+    }
+
+    return true;
+  }
+
+  async function handleUpload() {
+    if (uploadFiles.length === 0) {
+      setError(t("errorSelectFile"));
+      return;
+    }
+
+    if (!validateUploadSettings()) {
+      return;
+    }
+
     if (!hasApiKey()) {
       router.push("/stores");
       return;
@@ -220,11 +470,14 @@ export default function DocumentsPage() {
       uploadFiles.forEach((file) => {
         formData.append("files", file);
       });
+      appendDuplicatePolicyFields(formData);
 
       // Add metadata if any
       if (customMetadata.length > 0) {
         formData.append("customMetadata", JSON.stringify(customMetadata));
       }
+      formData.append("maxTokensPerChunk", String(chunking.maxTokensPerChunk));
+      formData.append("maxOverlapTokens", String(chunking.maxOverlapTokens));
 
       const headers: HeadersInit = {
         "x-api-key": apiKey || "",
@@ -237,21 +490,45 @@ export default function DocumentsPage() {
       });
       const data = await response.json();
 
+      // 업로드가 시작된 파일은 인덱싱 상태 추적
+      const startedJobs = (data.data?.results || [])
+        .filter((r: UploadFileResult) => r.success && r.operationName)
+        .map((r: UploadFileResult) => ({
+          storeName: storeId,
+          fileName: r.fileName,
+          operationName: r.operationName!,
+        }));
+      if (startedJobs.length > 0) {
+        addUploadJobs(startedJobs);
+      }
+
       // 성공한 파일이 있으면 목록 새로고침
       if (data.data?.successCount > 0) {
         await loadDocuments();
       }
 
       if (data.success) {
-        // 모든 파일 업로드 성공
+        // 모든 파일 업로드 성공 (중복으로 건너뛴 파일 포함)
         setUploadFiles([]);
+        setFileHashes({});
+        setFileDuplicatePolicies({});
         setCustomMetadata([]);
         if (fileInputRef.current) {
           fileInputRef.current.value = "";
         }
       } else {
-        // 일부 또는 모든 파일 업로드 실패
-        setError(data.error || "파일 업로드에 실패했습니다");
+        // 일부 또는 모든 파일 업로드 실패 (파일별 사유를 현재 언어로 표시)
+        const failedResults: UploadFileResult[] = (
+          data.data?.results || []
+        ).filter((r: UploadFileResult) => !r.success);
+        setError(
+          [
+            getErrorMessage(data),
+            ...failedResults.map(
+              (r) => `• ${r.fileName}: ${getErrorMessage(r)}`
+            ),
+          ].join(failedResults.length > 0 ? "\n" : "")
+        );
 
         // 성공한 파일이 있으면 실패한 파일만 남기기
         if (data.data?.successCount > 0 && data.data?.results) {
@@ -267,7 +544,168 @@ export default function DocumentsPage() {
         }
       }
     } catch (error: any) {
-      setError(error.message || tCommon("networkError"));
+      setError(getErrorMessage(error, tCommon("networkError")));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImportArchive() {
+    if (!archiveFile || !validateUploadSettings()) {
+      return;
+    }
+
+    if (!hasApiKey()) {
+      router.push("/stores");
+      return;
+    }
+
+    setLoading(true, t("importingArchive", { file: archiveFile.name }));
+    clearError();
+    setImportReport(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("archive", archiveFile);
+      appendDuplicatePolicyFields(formData);
+      if (customMetadata.length > 0) {
+        formData.append("customMetadata", JSON.stringify(customMetadata));
+      }
+      formData.append("maxTokensPerChunk", String(chunking.maxTokensPerChunk));
+      formData.append("maxOverlapTokens", String(chunking.maxOverlapTokens));
+
+      const headers: HeadersInit = {
+        "x-api-key": apiKey || "",
+      };
+
+      const response = await fetch(`/api/stores/${storeId}/import`, {
+        method: "POST",
+        headers,
+        body: formData,
+      });
+      const data = await response.json();
+      const report: ArchiveImportResponse | undefined = data.data;
+
+      // 아카이브를 읽지 못한 경우 등 항목별 결과가 없는 에러
+      if (!report?.results) {
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
+        );
+      }
+
+      // 업로드가 시작된 항목은 인덱싱 상태 추적
+      const startedJobs = report.results
+        .filter((r) => r.success && r.operationName)
+        .map((r) => ({
+          storeName: storeId,
+          fileName: r.fileName,
+          operationName: r.operationName!,
+        }));
+      if (startedJobs.length > 0) {
+        addUploadJobs(startedJobs);
+      }
+
+      if (report.successCount > 0) {
+        await loadDocuments();
+      }
+
+      setImportReport(report);
+      if (data.success) {
+        setArchiveFile(null);
+        setCustomMetadata([]);
+      } else {
+        // 항목별 사유는 가져오기 결과 카드에 표시
+        setError(getErrorMessage(data));
+      }
+    } catch (error: any) {
+      setError(getErrorMessage(error, tCommon("networkError")));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleImportUrl() {
+    if (!urlImport) {
+      return;
+    }
+    if (!URL.canParse(urlImport.url.trim())) {
+      setError(t("errorUrlInvalid"));
+      return;
+    }
+    if (!validateUploadSettings()) {
+      return;
+    }
+
+    if (!hasApiKey()) {
+      router.push("/stores");
+      return;
+    }
+
+    setLoading(true, t("fetchingUrl", { url: urlImport.url.trim() }));
+    clearError();
+
+    try {
+      const formData = new FormData();
+      formData.append("url", urlImport.url.trim());
+      formData.append("mode", urlImport.mode);
+      formData.append("maxDepth", String(urlImport.maxDepth));
+      formData.append("maxPages", String(urlImport.maxPages));
+      if (urlImport.allowedDomains.trim()) {
+        formData.append("allowedDomains", urlImport.allowedDomains);
+      }
+      appendDuplicatePolicyFields(formData);
+      if (customMetadata.length > 0) {
+        formData.append("customMetadata", JSON.stringify(customMetadata));
+      }
+      formData.append("maxTokensPerChunk", String(chunking.maxTokensPerChunk));
+      formData.append("maxOverlapTokens", String(chunking.maxOverlapTokens));
+
+      const headers: HeadersInit = {
+        "x-api-key": apiKey || "",
+      };
+
+      const response = await fetch(`/api/stores/${storeId}/upload`, {
+        method: "POST",
+        headers,
+        body: formData,
+      });
+      const data = await response.json();
+      const results: UploadFileResult[] = data.data?.results || [];
+
+      // 업로드가 시작된 페이지는 인덱싱 상태 추적 (fileName은 페이지 URL)
+      const startedJobs = results
+        .filter((r) => r.success && r.operationName)
+        .map((r) => ({
+          storeName: storeId,
+          fileName: r.fileName,
+          operationName: r.operationName!,
+        }));
+      if (startedJobs.length > 0) {
+        addUploadJobs(startedJobs);
+      }
+
+      if (data.data?.successCount > 0) {
+        await loadDocuments();
+      }
+
+      if (data.success) {
+        setUrlImport(null);
+        setCustomMetadata([]);
+      } else {
+        // 가져오지 못한 페이지별 사유를 현재 언어로 표시
+        const failedResults = results.filter((r) => !r.success);
+        setError(
+          [
+            getErrorMessage(data),
+            ...failedResults.map(
+              (r) => `• ${r.fileName}: ${getErrorMessage(r)}`
+            ),
+          ].join(failedResults.length > 0 ? "\n" : "")
+        );
+      }
+    } catch (error: any) {
+      setError(getErrorMessage(error, tCommon("networkError")));
     } finally {
       setLoading(false);
     }
@@ -286,9 +724,11 @@ export default function DocumentsPage() {
       const headers: HeadersInit = {
         "x-api-key": apiKey || "",
       };
+      // 표시 이름이 같은 문서가 있을 수 있으므로 문서 ID로 삭제
+      const documentId = doc.name.split("/").pop() || doc.name;
 
       const response = await fetch(
-        `/api/stores/${storeId}/documents/${encodeURIComponent(doc.displayName)}`,
+        `/api/stores/${storeId}/documents/${encodeURIComponent(documentId)}`,
         {
           method: "DELETE",
           headers,
@@ -297,21 +737,34 @@ export default function DocumentsPage() {
       const data = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
         );
       }
 
-      removeDocument(doc.displayName);
+      removeDocument(doc.name);
       setDeleteConfirm(null);
       await loadDocuments(); // Refresh list
     } catch (error: any) {
-      setError(error.message || tCommon("networkError"));
+      setError(getErrorMessage(error, tCommon("networkError")));
     } finally {
       setLoading(false);
     }
   }
 
+  async function handleReplaced(result: ReplaceDocumentResponse) {
+    // 새 버전의 인덱싱 상태 추적
+    addUploadJobs([
+      {
+        storeName: storeId,
+        fileName: `${result.displayName} (v${result.version})`,
+        operationName: result.operationName,
+      },
+    ]);
+    await loadDocuments();
+  }
+
   function handleDocumentClick(doc: FileSearchDocument) {
     setSelectedDocument(doc);
     setDetailModalOpen(true);
@@ -326,211 +779,683 @@ export default function DocumentsPage() {
 
 
       <div className="grid gap-4 md:gap-6 lg:grid-cols-[400px_1fr]">
-        {/* Upload Section */}
-        <Card className="min-w-0 h-fit">
-          <CardHeader>
-            <CardTitle className="text-lg md:text-xl">
-              {t("fileUpload")}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="rounded-lg border-2 border-dashed p-4 md:p-6 text-center">
-              <Upload className="mx-auto mb-3 md:mb-4 h-10 md:h-12 w-10 md:w-12 text-muted-foreground" />
-              <input
-                ref={fileInputRef}
-                type="file"
-                multiple
-                accept=".md,.txt,.pdf,.csv,.json,.html,.doc,.docx,.xls,.xlsx"
-                onChange={handleFileSelect}
-                className="hidden"
-                id="file-upload"
-              />
-              <label
-                htmlFor="file-upload"
-                className="cursor-pointer text-sm text-muted-foreground hover:text-foreground block"
-              >
-                {t("clickToAdd")}
-                <br />
-                <span className="text-xs">{t("uploadHint")}</span>
-              </label>
-            </div>
-
-            {uploadFiles.length > 0 && (
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <p className="text-sm font-medium">
-                    {t("selectedFilesCount", { count: uploadFiles.length })}
-                  </p>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleClearAllFiles}
-                    className="h-auto py-1 text-xs text-destructive hover:text-destructive"
-                  >
-                    {t("deleteAll")}
-                  </Button>
-                </div>
-                <div className="max-h-[200px] space-y-1 overflow-y-auto">
-                  {uploadFiles.map((file, idx) => (
-                    <div
-                      key={idx}
-                      className="group flex items-center justify-between gap-2 rounded-md border p-2 text-sm transition-colors hover:bg-accent"
+        <div className="min-w-0 space-y-4 md:space-y-6">
+          {/* Upload Section */}
+          <Card className="min-w-0 h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg md:text-xl">
+                {t("fileUpload")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="rounded-lg border-2 border-dashed p-4 md:p-6 text-center">
+                <Upload className="mx-auto mb-3 md:mb-4 h-10 md:h-12 w-10 md:w-12 text-muted-foreground" />
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept=".md,.txt,.pdf,.csv,.json,.html,.doc,.docx,.xls,.xlsx"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                  id="file-upload"
+                />
+                <label
+                  htmlFor="file-upload"
+                  className="cursor-pointer text-sm text-muted-foreground hover:text-foreground block"
+                >
+                  {t("clickToAdd")}
+                  <br />
+                  <span className="text-xs">{t("uploadHint")}</span>
+                </label>
+                <input
+                  ref={archiveInputRef}
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={handleArchiveSelect}
+                  className="hidden"
+                  id="archive-upload"
+                />
+                <label
+                  htmlFor="archive-upload"
+                  className="mt-3 inline-flex cursor-pointer items-center gap-1 text-xs text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+                >
+                  <FileArchive className="h-3.5 w-3.5" />
+                  {t("importArchive")}
+                </label>
+                <button
+                  type="button"
+                  onClick={handleStartUrlImport}
+                  className="mt-3 ml-4 inline-flex cursor-pointer items-center gap-1 text-xs text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+                >
+                  <Globe className="h-3.5 w-3.5" />
+                  {t("importUrl")}
+                </button>
+              </div>
+
+              {(uploadFiles.length > 0 || archiveFile || urlImport) && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium">
+                      {archiveFile
+                        ? t("selectedArchive")
+                        : urlImport
+                          ? t("urlImportTitle")
+                          : t("selectedFilesCount", {
+                              count: uploadFiles.length,
+                            })}
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleClearAllFiles}
+                      className="h-auto py-1 text-xs text-destructive hover:text-destructive"
                     >
-                      <div className="flex min-w-0 flex-1 items-center justify-between gap-2">
-                        <span className="truncate text-xs md:text-sm">
-                          {file.name}
-                        </span>
+                      {t("deleteAll")}
+                    </Button>
+                  </div>
+                  {archiveFile && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                        <div className="flex min-w-0 items-center gap-2">
+                          <FileArchive className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <span className="truncate text-xs md:text-sm">
+                            {archiveFile.name}
+                          </span>
+                        </div>
                         <span className="text-xs text-muted-foreground whitespace-nowrap">
-                          {formatFileSize(file.size)}
+                          {formatFileSize(archiveFile.size)}
                         </span>
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-6 w-6 shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100"
-                        onClick={() => handleRemoveFile(idx)}
-                      >
-                        <Trash2 className="h-3 w-3 text-destructive" />
-                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        {t("archiveHint", {
+                          path: ARCHIVE_METADATA_KEYS.path,
+                          folder: ARCHIVE_METADATA_KEYS.folder,
+                        })}
+                      </p>
                     </div>
-                  ))}
-                </div>
+                  )}
+                  {urlImport && (
+                    <div className="space-y-3">
+                      <div>
+                        <Label
+                          htmlFor="importUrl"
+                          className="text-xs text-muted-foreground mb-1.5 block"
+                        >
+                          {t("urlLabel")}
+                        </Label>
+                        <Input
+                          id="importUrl"
+                          type="url"
+                          placeholder="https://help.example.com/sitemap.xml"
+                          value={urlImport.url}
+                          onChange={(e) =>
+                            setUrlImport({ ...urlImport, url: e.target.value })
+                          }
+                          className="h-10"
+                        />
+                      </div>
+                      <div className="grid grid-cols-3 gap-3">
+                        <div>
+                          <Label
+                            htmlFor="crawlMode"
+                            className="text-xs text-muted-foreground mb-1.5 block"
+                          >
+                            {t("crawlMode")}
+                          </Label>
+                          <select
+                            id="crawlMode"
+                            value={urlImport.mode}
+                            onChange={(e) =>
+                              setUrlImport({
+                                ...urlImport,
+                                mode: e.target.value as CrawlMode,
+                              })
+                            }
+                            className="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                          >
+                            <option value="auto">{t("crawlModeAuto")}</option>
+                            <option value="page">{t("crawlModePage")}</option>
+                            <option value="sitemap">
+                              {t("crawlModeSitemap")}
+                            </option>
+                          </select>
+                        </div>
+                        <div>
+                          <Label
+                            htmlFor="crawlDepth"
+                            className="text-xs text-muted-foreground mb-1.5 block"
+                          >
+                            {t("crawlDepth")}
+                          </Label>
+                          <Input
+                            id="crawlDepth"
+                            type="number"
+                            min={0}
+                            max={MAX_CRAWL_DEPTH}
+                            disabled={urlImport.mode === "sitemap"}
+                            value={urlImport.maxDepth}
+                            onChange={(e) =>
+                              setUrlImport({
+                                ...urlImport,
+                                maxDepth: e.target.valueAsNumber,
+                              })
+                            }
+                            className="h-10"
+                          />
+                        </div>
+                        <div>
+                          <Label
+                            htmlFor="crawlMaxPages"
+                            className="text-xs text-muted-foreground mb-1.5 block"
+                          >
+                            {t("crawlMaxPages")}
+                          </Label>
+                          <Input
+                            id="crawlMaxPages"
+                            type="number"
+                            min={1}
+                            max={MAX_CRAWL_PAGES}
+                            value={urlImport.maxPages}
+                            onChange={(e) =>
+                              setUrlImport({
+                                ...urlImport,
+                                maxPages: e.target.valueAsNumber,
+                              })
+                            }
+                            className="h-10"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <Label
+                          htmlFor="allowedDomains"
+                          className="text-xs text-muted-foreground mb-1.5 block"
+                        >
+                          {t("allowedDomains")}
+                        </Label>
+                        <Input
+                          id="allowedDomains"
+                          placeholder="example.com, docs.example.com"
+                          value={urlImport.allowedDomains}
+                          onChange={(e) =>
+                            setUrlImport({
+                              ...urlImport,
+                              allowedDomains: e.target.value,
+                            })
+                          }
+                          className="h-10"
+                        />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {t("urlImportHint", {
+                          url: URL_METADATA_KEYS.url,
+                          fetchedAt: URL_METADATA_KEYS.fetchedAt,
+                        })}
+                      </p>
+                    </div>
+                  )}
+                  <div className="max-h-[200px] space-y-1 overflow-y-auto">
+                    {uploadFiles.map((file, idx) => {
+                      const existing = findExistingDuplicate(file);
+                      return (
+                        <div
+                          key={idx}
+                          className="group flex items-center justify-between gap-2 rounded-md border p-2 text-sm transition-colors hover:bg-accent"
+                        >
+                          <div className="min-w-0 flex-1 space-y-1">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="truncate text-xs md:text-sm">
+                                {file.name}
+                              </span>
+                              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                {formatFileSize(file.size)}
+                              </span>
+                            </div>
+                            {existing && (
+                              <div className="flex items-center gap-2 text-xs text-amber-700 dark:text-amber-300">
+                                <Copy className="h-3 w-3 shrink-0" />
+                                <span className="min-w-0 flex-1 truncate">
+                                  {t("duplicateOf", {
+                                    name: existing.displayName,
+                                  })}
+                                </span>
+                                <select
+                                  aria-label={t("duplicatePolicy")}
+                                  value={
+                                    fileDuplicatePolicies[file.name] ??
+                                    duplicatePolicy
+                                  }
+                                  onChange={(e) =>
+                                    setFileDuplicatePolicies({
+                                      ...fileDuplicatePolicies,
+                                      [file.name]: e.target
+                                        .value as DuplicatePolicy,
+                                    })
+                                  }
+                                  className="h-6 rounded border border-input bg-background px-1 text-xs text-foreground"
+                                >
+                                  {DUPLICATE_POLICIES.map((policy) => (
+                                    <option key={policy} value={policy}>
+                                      {t(`duplicatePolicies.${policy}`)}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            )}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                            onClick={() => handleRemoveFile(idx)}
+                          >
+                            <Trash2 className="h-3 w-3 text-destructive" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
 
-                {/* Custom Metadata Section */}
-                <div className="space-y-4 pt-2">
-                  <div className="space-y-3">
+                  {/* Duplicate Policy Section */}
+                  <div className="space-y-3 pt-2">
                     <div>
-                      <Label className="text-base font-semibold">
-                        {t("customMetadata")}
+                      <Label
+                        htmlFor="duplicatePolicy"
+                        className="text-base font-semibold flex items-center gap-2"
+                      >
+                        <Copy className="h-4 w-4" />
+                        {t("duplicatePolicy")}
                       </Label>
                       <p className="text-sm text-muted-foreground mt-1">
-                        {t("customMetadataHint")}
+                        {t("duplicatePolicyHint")}
                       </p>
                     </div>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      onClick={handleAddMetadata}
-                      disabled={customMetadata.length >= 20}
-                      className="w-full"
+                    <select
+                      id="duplicatePolicy"
+                      value={duplicatePolicy}
+                      onChange={(e) =>
+                        setDuplicatePolicy(e.target.value as DuplicatePolicy)
+                      }
+                      className="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
                     >
-                      <Plus className="h-4 w-4 mr-2" />
-                      {t("addMetadata")}
-                    </Button>
+                      {DUPLICATE_POLICIES.map((policy) => (
+                        <option key={policy} value={policy}>
+                          {t(`duplicatePolicies.${policy}`)}
+                        </option>
+                      ))}
+                    </select>
                   </div>
 
-                  {customMetadata.length > 0 && (
-                    <div className="space-y-3 max-h-[300px] overflow-y-auto pr-1">
-                      {customMetadata.map((meta, idx) => (
-                        <div
-                          key={idx}
-                          className="flex gap-3 p-4 rounded-lg border bg-card"
+                  {/* Chunking Section */}
+                  <div className="space-y-3 pt-2">
+                    <div>
+                      <Label className="text-base font-semibold flex items-center gap-2">
+                        <Layers className="h-4 w-4" />
+                        {t("chunking")}
+                      </Label>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {t("chunkingHint")}
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label
+                          htmlFor="maxTokensPerChunk"
+                          className="text-xs text-muted-foreground mb-1.5 block"
                         >
-                          <div className="flex-1 space-y-3">
-                            <div>
-                              <Label className="text-xs text-muted-foreground mb-1.5 block">
-                                {t("metadataKey")}
-                              </Label>
-                              <Input
-                                placeholder={t("metadataKeyPlaceholder")}
-                                value={meta.key}
-                                onChange={(e) =>
-                                  handleMetadataChange(
-                                    idx,
-                                    "key",
-                                    e.target.value
-                                  )
-                                }
-                                className="h-10"
-                              />
-                            </div>
-                            <div>
-                              <Label className="text-xs text-muted-foreground mb-1.5 block">
-                                {t("metadataValue")}
-                              </Label>
-                              {meta.type === "stringList" ? (
+                          {t("maxTokensPerChunk")}
+                        </Label>
+                        <Input
+                          id="maxTokensPerChunk"
+                          type="number"
+                          min={MIN_TOKENS_PER_CHUNK}
+                          max={MAX_TOKENS_PER_CHUNK}
+                          value={chunking.maxTokensPerChunk}
+                          onChange={(e) =>
+                            setChunking({
+                              ...chunking,
+                              maxTokensPerChunk: e.target.valueAsNumber,
+                            })
+                          }
+                          className="h-10"
+                        />
+                      </div>
+                      <div>
+                        <Label
+                          htmlFor="maxOverlapTokens"
+                          className="text-xs text-muted-foreground mb-1.5 block"
+                        >
+                          {t("maxOverlapTokens")}
+                        </Label>
+                        <Input
+                          id="maxOverlapTokens"
+                          type="number"
+                          min={0}
+                          value={chunking.maxOverlapTokens}
+                          onChange={(e) =>
+                            setChunking({
+                              ...chunking,
+                              maxOverlapTokens: e.target.valueAsNumber,
+                            })
+                          }
+                          className="h-10"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {isStoreChunkingDefault ? (
+                        <span className="text-xs text-muted-foreground">
+                          {t("chunkingStoreDefault")}
+                        </span>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={!!validateChunkingConfig(chunking)}
+                          onClick={() => setChunkingDefaults(storeId, chunking)}
+                        >
+                          {t("saveChunkingDefault")}
+                        </Button>
+                      )}
+                      {storeChunkingDefault && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setChunkingDefaults(storeId, null);
+                            setChunking(DEFAULT_CHUNKING_CONFIG);
+                          }}
+                        >
+                          {t("resetChunkingDefault")}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Custom Metadata Section */}
+                  <div className="space-y-4 pt-2">
+                    <div className="space-y-3">
+                      <div>
+                        <Label className="text-base font-semibold">
+                          {t("customMetadata")}
+                        </Label>
+                        <p className="text-sm text-muted-foreground mt-1">
+                          {t("customMetadataHint", { max: metadataLimit })}
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleAddMetadata}
+                        disabled={customMetadata.length >= metadataLimit}
+                        className="w-full"
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        {t("addMetadata")}
+                      </Button>
+                    </div>
+
+                    {customMetadata.length > 0 && (
+                      <div className="space-y-3 max-h-[300px] overflow-y-auto pr-1">
+                        {customMetadata.map((meta, idx) => (
+                          <div
+                            key={idx}
+                            className="flex gap-3 p-4 rounded-lg border bg-card"
+                          >
+                            <div className="flex-1 space-y-3">
+                              <div>
+                                <Label className="text-xs text-muted-foreground mb-1.5 block">
+                                  {t("metadataKey")}
+                                </Label>
                                 <Input
-                                  placeholder={t(
-                                    "metadataValueListPlaceholder"
-                                  )}
-                                  value={meta.value}
+                                  placeholder={t("metadataKeyPlaceholder")}
+                                  value={meta.key}
                                   onChange={(e) =>
                                     handleMetadataChange(
                                       idx,
-                                      "value",
+                                      "key",
                                       e.target.value
                                     )
                                   }
                                   className="h-10"
                                 />
-                              ) : (
-                                <Input
-                                  type={
-                                    meta.type === "number" ? "number" : "text"
-                                  }
-                                  placeholder={t("metadataValuePlaceholder")}
-                                  value={meta.value}
+                              </div>
+                              <div>
+                                <Label className="text-xs text-muted-foreground mb-1.5 block">
+                                  {t("metadataValue")}
+                                </Label>
+                                {meta.type === "stringList" ? (
+                                  <Input
+                                    placeholder={t(
+                                      "metadataValueListPlaceholder"
+                                    )}
+                                    value={meta.value}
+                                    onChange={(e) =>
+                                      handleMetadataChange(
+                                        idx,
+                                        "value",
+                                        e.target.value
+                                      )
+                                    }
+                                    className="h-10"
+                                  />
+                                ) : (
+                                  <Input
+                                    type={
+                                      meta.type === "number" ? "number" : "text"
+                                    }
+                                    placeholder={t("metadataValuePlaceholder")}
+                                    value={meta.value}
+                                    onChange={(e) =>
+                                      handleMetadataChange(
+                                        idx,
+                                        "value",
+                                        e.target.value
+                                      )
+                                    }
+                                    className="h-10"
+                                  />
+                                )}
+                              </div>
+                              <div>
+                                <Label className="text-xs text-muted-foreground mb-1.5 block">
+                                  {t("metadataType")}
+                                </Label>
+                                <select
+                                  value={meta.type}
                                   onChange={(e) =>
                                     handleMetadataChange(
                                       idx,
-                                      "value",
+                                      "type",
                                       e.target.value
                                     )
                                   }
-                                  className="h-10"
-                                />
-                              )}
-                            </div>
-                            <div>
-                              <Label className="text-xs text-muted-foreground mb-1.5 block">
-                                {t("metadataType")}
-                              </Label>
-                              <select
-                                value={meta.type}
-                                onChange={(e) =>
-                                  handleMetadataChange(
-                                    idx,
-                                    "type",
-                                    e.target.value
-                                  )
-                                }
-                                className="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                              >
-                                <option value="string">
-                                  {t("metadataTypeString")}
-                                </option>
-                                <option value="number">
-                                  {t("metadataTypeNumber")}
-                                </option>
-                                <option value="stringList">
-                                  {t("metadataTypeStringList")}
-                                </option>
-                              </select>
+                                  className="w-full h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                >
+                                  <option value="string">
+                                    {t("metadataTypeString")}
+                                  </option>
+                                  <option value="number">
+                                    {t("metadataTypeNumber")}
+                                  </option>
+                                  <option value="stringList">
+                                    {t("metadataTypeStringList")}
+                                  </option>
+                                </select>
+                              </div>
                             </div>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleRemoveMetadata(idx)}
+                              className="h-10 w-10 shrink-0 mt-6"
+                            >
+                              <X className="h-5 w-5 text-destructive" />
+                            </Button>
                           </div>
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleRemoveMetadata(idx)}
-                            className="h-10 w-10 shrink-0 mt-6"
-                          >
-                            <X className="h-5 w-5 text-destructive" />
-                          </Button>
-                        </div>
-                      ))}
-                    </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {archiveFile ? (
+                    <Button onClick={handleImportArchive} className="w-full">
+                      <FileArchive className="mr-2 h-4 w-4" />
+                      {t("importButton")}
+                    </Button>
+                  ) : urlImport ? (
+                    <Button onClick={handleImportUrl} className="w-full">
+                      <Globe className="mr-2 h-4 w-4" />
+                      {t("fetchUrlButton")}
+                    </Button>
+                  ) : (
+                    <Button onClick={handleUpload} className="w-full">
+                      <Upload className="mr-2 h-4 w-4" />
+                      {t("uploadButton", { count: uploadFiles.length })}
+                    </Button>
                   )}
                 </div>
+              )}
+            </CardContent>
+          </Card>
 
-                <Button onClick={handleUpload} className="w-full">
-                  <Upload className="mr-2 h-4 w-4" />
-                  {t("uploadButton", { count: uploadFiles.length })}
+          {/* Archive Import Report */}
+          {importReport && (
+            <Card className="min-w-0 h-fit">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg md:text-xl">
+                  {t("importReport")}
+                </CardTitle>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => setImportReport(null)}
+                >
+                  <X className="h-4 w-4" />
                 </Button>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {t("importSummary", {
+                    success: importReport.successCount,
+                    failed: importReport.failCount,
+                    skipped: importReport.skippedCount,
+                  })}
+                </p>
+                {importReport.results.some(
+                  (r) => !r.success || r.duplicate?.policy === "skip"
+                ) && (
+                  <div className="max-h-[300px] space-y-1 overflow-y-auto">
+                    {importReport.results
+                      .filter(
+                        (r) => !r.success || r.duplicate?.policy === "skip"
+                      )
+                      .map((r) => (
+                        <div
+                          key={r.fileName}
+                          className="flex items-center gap-2 rounded-md border p-2 text-sm"
+                        >
+                          {r.duplicate ? (
+                            <Copy className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          ) : r.skipped ? (
+                            <File className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          ) : (
+                            <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                          )}
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate font-medium">{r.fileName}</p>
+                            <p
+                              className={`truncate text-xs ${
+                                r.skipped || r.duplicate
+                                  ? "text-muted-foreground"
+                                  : "text-destructive"
+                              }`}
+                            >
+                              {r.duplicate
+                                ? t("duplicateSkipped", {
+                                    name: r.duplicate.displayName,
+                                  })
+                                : r.skipped
+                                  ? t("importSkipped")
+                                  : getErrorMessage(r)}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Indexing Status */}
+          {storeUploadJobs.length > 0 && (
+            <Card className="min-w-0 h-fit">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg md:text-xl">
+                  {t("indexingStatus")}
+                </CardTitle>
+                {storeUploadJobs.some((job) => job.status !== "processing") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => clearFinishedUploadJobs(storeId)}
+                  >
+                    {t("clearFinished")}
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {storeUploadJobs.map((job) => (
+                    <div
+                      key={job.id}
+                      className="flex items-center gap-2 rounded-md border p-2 text-sm"
+                    >
+                      {job.status === "processing" && (
+                        <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+                      )}
+                      {job.status === "done" && (
+                        <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />
+                      )}
+                      {job.status === "failed" && (
+                        <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-medium">{job.fileName}</p>
+                        <p
+                          className={`truncate text-xs ${
+                            job.status === "failed"
+                              ? "text-destructive"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          {job.status === "failed" && job.error
+                            ? job.error
+                            : t(`indexingState.${job.status}`)}
+                        </p>
+                      </div>
+                      {job.status !== "processing" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeUploadJob(job.id)}
+                          className="h-7 w-7 shrink-0"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
 
         {/* Documents List */}
         <Card className="min-w-0">
@@ -552,62 +1477,114 @@ export default function DocumentsPage() {
               </div>
             ) : (
               <div className="space-y-2">
-                {documents.map((doc) => (
-                  <div
-                    key={doc.name}
-                    className="group flex items-center justify-between rounded-lg border p-3 md:p-4 transition-colors hover:bg-accent"
-                  >
+                {duplicateClusters.length > 0 && (
+                  <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-800 dark:bg-amber-950/30">
+                    <p className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-300">
+                      <Copy className="h-4 w-4 shrink-0" />
+                      {t("duplicateClusters", {
+                        count: duplicateClusters.length,
+                      })}
+                    </p>
+                    <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                      {duplicateClusters.map((cluster) => (
+                        <li key={cluster[0]!.name} className="truncate">
+                          {cluster.map((doc) => doc.displayName).join(" = ")}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {documents.map((doc) => {
+                  const docChunking = readChunkingMetadata(doc.customMetadata);
+                  const docVersion = readDocumentVersion(doc.customMetadata);
+                  return (
                     <div
-                      className="flex items-center gap-2 md:gap-3 flex-1 min-w-0 cursor-pointer"
-                      onClick={() => handleDocumentClick(doc)}
+                      key={doc.name}
+                      className="group flex items-center justify-between rounded-lg border p-3 md:p-4 transition-colors hover:bg-accent"
                     >
-                      <File className="h-4 md:h-5 w-4 md:w-5 text-primary flex-shrink-0" />
-                      <div className="min-w-0 flex-1">
-                        <p className="font-medium text-sm md:text-base truncate">
-                          {doc.displayName}
-                        </p>
-                        <div className="flex items-center gap-2 md:gap-3 text-xs text-muted-foreground">
-                          <span className="flex items-center gap-1">
-                            <Calendar className="h-3 w-3" />
-                            <span className="hidden sm:inline">
-                              {formatDate(doc.createTime)}
-                            </span>
-                            <span className="sm:hidden">
-                              {formatDate(doc.createTime).split(" ")[0]}
-                            </span>
-                          </span>
-                          {doc.sizeBytes && (
+                      <div
+                        className="flex items-center gap-2 md:gap-3 flex-1 min-w-0 cursor-pointer"
+                        onClick={() => handleDocumentClick(doc)}
+                      >
+                        <File className="h-4 md:h-5 w-4 md:w-5 text-primary flex-shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium text-sm md:text-base truncate">
+                            {doc.displayName}
+                            {docVersion > 1 && (
+                              <span className="ml-2 rounded bg-secondary px-1.5 py-0.5 text-xs font-normal text-muted-foreground">
+                                v{docVersion}
+                              </span>
+                            )}
+                            {duplicateDocumentNames.has(doc.name) && (
+                              <span className="ml-2 rounded bg-amber-100 px-1.5 py-0.5 text-xs font-normal text-amber-800 dark:bg-amber-900/40 dark:text-amber-300">
+                                {t("duplicateBadge")}
+                              </span>
+                            )}
+                          </p>
+                          <div className="flex items-center gap-2 md:gap-3 text-xs text-muted-foreground">
                             <span className="flex items-center gap-1">
-                              <HardDrive className="h-3 w-3" />
-                              {formatFileSize(doc.sizeBytes)}
+                              <Calendar className="h-3 w-3" />
+                              <span className="hidden sm:inline">
+                                {formatDate(doc.createTime)}
+                              </span>
+                              <span className="sm:hidden">
+                                {formatDate(doc.createTime).split(" ")[0]}
+                              </span>
                             </span>
-                          )}
+                            {doc.sizeBytes && (
+                              <span className="flex items-center gap-1">
+                                <HardDrive className="h-3 w-3" />
+                                {formatFileSize(doc.sizeBytes)}
+                              </span>
+                            )}
+                            {docChunking && (
+                              <span className="hidden sm:flex items-center gap-1">
+                                <Layers className="h-3 w-3" />
+                                {t("chunkingBadge", {
+                                  maxTokens: docChunking.maxTokensPerChunk,
+                                  overlap: docChunking.maxOverlapTokens,
+                                })}
+                              </span>
+                            )}
+                          </div>
                         </div>
                       </div>
+                      <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 md:h-10 md:w-10 opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                          onClick={() => handleDocumentClick(doc)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t("replace")}
+                          className="h-8 w-8 md:h-10 md:w-10 opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setReplaceTarget(doc);
+                          }}
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 md:h-10 md:w-10 opacity-100 md:opacity-0 md:group-hover:opacity-100"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleteConfirm(doc);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-1 md:gap-2 flex-shrink-0">
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 md:h-10 md:w-10 opacity-100 md:opacity-0 md:group-hover:opacity-100"
-                        onClick={() => handleDocumentClick(doc)}
-                      >
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="h-8 w-8 md:h-10 md:w-10 opacity-100 md:opacity-0 md:group-hover:opacity-100"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setDeleteConfirm(doc);
-                        }}
-                      >
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </CardContent>
@@ -616,11 +1593,21 @@ export default function DocumentsPage() {
 
       {/* Document Detail Modal */}
       <DocumentDetailModal
+        storeId={storeId}
         document={selectedDocument}
         open={detailModalOpen}
         onOpenChange={setDetailModalOpen}
       />
 
+      {/* Replace Document Modal */}
+      <ReplaceDocumentDialog
+        storeId={storeId}
+        document={replaceTarget}
+        open={!!replaceTarget}
+        onOpenChange={(open) => !open && setReplaceTarget(null)}
+        onReplaced={handleReplaced}
+      />
+
       {/* Delete Confirmation Modal */}
       <Dialog
         open={deleteConfirm !== null}
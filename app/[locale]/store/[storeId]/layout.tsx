@@ -6,6 +6,8 @@ import { useRouter } from "@/i18n/routing";
 import { StoreSidebar } from "@/components/store-sidebar";
 import { MobileStoreSidebar } from "@/components/mobile-store-sidebar";
 import { useStoresState, useUIState, useAppStore } from "@/store";
+import { ApiRequestError } from "@/lib/api-request-error";
+import { useApiErrorMessage } from "@/hooks/use-api-error-message";
 
 export default function StoreLayout({
   children,
@@ -19,10 +21,11 @@ export default function StoreLayout({
 
   const { currentStore, setCurrentStore } = useStoresState();
   const { setLoading, setError, clearError } = useUIState();
-  const { apiKey, hasApiKey, _hasHydrated } = useAppStore();
+  const { apiKey, apiKeyMode, hasApiKey, _hasHydrated } = useAppStore();
+  const getErrorMessage = useApiErrorMessage();
 
   useEffect(() => {
-    if (!_hasHydrated) return;
+    if (!_hasHydrated || !apiKeyMode) return;
 
     if (!hasApiKey()) {
       router.push("/stores");
@@ -30,7 +33,7 @@ export default function StoreLayout({
     }
 
     loadStore();
-  }, [_hasHydrated, storeId, apiKey]);
+  }, [_hasHydrated, apiKeyMode, storeId, apiKey]);
 
   async function loadStore() {
     if (currentStore?.name === storeId) return;
@@ -47,12 +50,12 @@ export default function StoreLayout({
       const data = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(data.error || "Failed to load store");
+        throw new ApiRequestError(data, "Failed to load store");
       }
 
       setCurrentStore(data.data);
     } catch (error: any) {
-      setError(error.message);
+      setError(getErrorMessage(error));
       setTimeout(() => router.push("/stores"), 2000);
     } finally {
       setLoading(false);
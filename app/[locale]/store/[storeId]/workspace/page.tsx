@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams } from "next/navigation";
 import { useRouter } from "@/i18n/routing";
 import { useTranslations } from "next-intl";
@@ -10,6 +10,7 @@ import {
   useUIState,
   useAppStore,
   useModelState,
+  usePresetsState,
 } from "@/store";
 import { SUPPORTED_MODELS } from "@/store/slices/modelSlice";
 import { Button } from "@/components/ui/button";
@@ -20,20 +21,79 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import ReactMarkdown from "react-markdown";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
 import {
   Send,
   ChevronDown,
   Settings,
   Sparkles,
+  Square,
+  MessagesSquare,
+  History,
 } from "lucide-react";
 import { AdvancedSettingsModal } from "@/components/workspace/AdvancedSettingsModal";
-import type { QueryHistoryItem, GenerationConfig } from "@/types";
+import { ThreadList } from "@/components/workspace/ThreadList";
+import { QueryHistoryPanel } from "@/components/workspace/QueryHistoryPanel";
+import { ChatMessageItem } from "@/components/workspace/ChatMessageItem";
+import { StoreMultiSelect } from "@/components/workspace/StoreMultiSelect";
+import { PresetSwitcher } from "@/components/workspace/PresetSwitcher";
+import { validateMetadataFilter } from "@/lib/metadata-filter";
+import { readQueryStream } from "@/lib/query-stream";
+import { ApiRequestError } from "@/lib/api-request-error";
+import { generateId, truncate } from "@/lib/utils";
+import { useApiErrorMessage } from "@/hooks/use-api-error-message";
+import type {
+  QueryHistoryItem,
+  GenerationConfig,
+  GroundingMetadata,
+  ChatMessage,
+  Content,
+} from "@/types";
+
+/** 요청에 포함할 최대 대화 턴 수 */
+const MAX_CONTEXT_MESSAGES = 20;
+
+/** 자동 생성되는 스레드 제목 길이 */
+const THREAD_TITLE_LENGTH = 40;
+
+/**
+ * 스레드 메시지를 요청용 contents로 변환
+ * 실패했거나 비어 있는 model 턴과 그 질문은 제외합니다
+ */
+function buildContents(messages: ChatMessage[]): Content[] {
+  const isUsable = (message?: ChatMessage) =>
+    !!message && !message.isError && !!message.text.trim();
+
+  const contents: Content[] = [];
+  messages.forEach((message, index) => {
+    if (!isUsable(message)) return;
+    const reply = messages[index + 1];
+    if (message.role === "user" && reply && !isUsable(reply)) return;
+    contents.push({ role: message.role, parts: [{ text: message.text }] });
+  });
+
+  const recent = contents.slice(-MAX_CONTEXT_MESSAGES);
+  while (recent.length > 0 && recent[0]?.role !== "user") {
+    recent.shift();
+  }
+  return recent;
+}
 
 /**
  * Workspace Page
  *
- * RAG 쿼리 실행 및 결과 표시
+ * 스토어별 멀티턴 대화로 RAG 쿼리 실행
+ * - 답변은 SSE로 스트리밍되어 도착하는 대로 렌더링
+ * - 대화 스레드 생성/이름 변경/삭제, 턴마다 그라운딩 정보 유지
+ * - 여러 스토어를 선택하면 /api/query로 함께 검색
+ * - 쿼리 히스토리 검색, 지난 답변 다시 보기, 현재 설정으로 다시 실행
+ * - 설정 프리셋 빠른 전환, 스토어 기본 프리셋 자동 적용
  */
 export default function WorkspacePage() {
   const params = useParams();
@@ -41,12 +101,21 @@ export default function WorkspacePage() {
   const storeId = decodeURIComponent(params.storeId as string);
   const t = useTranslations("workspace");
   const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
 
-  const { currentStore } = useStoresState();
-  const { addToHistory, currentResult, setCurrentResult } =
-    useQueryState();
-  const { setLoading, setError, clearError } = useUIState();
-  const { apiKey, hasApiKey } = useAppStore();
+  const { currentStore, stores } = useStoresState();
+  const {
+    addToHistory,
+    threads,
+    activeThreadIds,
+    createThread,
+    renameThread,
+    addMessage,
+    updateMessage,
+    selectedStoreIds,
+  } = useQueryState();
+  const { setError, clearError } = useUIState();
+  const { apiKey, hasApiKey, _hasHydrated } = useAppStore();
   const {
     selectedModel,
     setSelectedModel,
@@ -56,41 +125,142 @@ export default function WorkspacePage() {
     topP,
     topK,
     metadataFilter,
+    safetySettings,
   } = useModelState();
+  const { presets, defaultPresetIds, applyPreset } = usePresetsState();
 
   const [query, setQuery] = useState("");
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isThreadsOpen, setIsThreadsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(
+    null
+  );
+  // 스트리밍 중인 답변은 로컬 상태에만 두고 끝난 뒤 한 번만 스레드에 저장
+  // (스레드는 localStorage에 저장되므로 델타마다 저장하면 느려짐)
+  const [streamingText, setStreamingText] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement | null>(null);
+
+  const isStreaming = streamingMessageId !== null;
+  const activeThreadId = activeThreadIds[storeId] || null;
+  const activeThread =
+    threads.find(
+      (thread) => thread.id === activeThreadId && thread.storeName === storeId
+    ) || null;
+  const messages = activeThread?.messages || [];
+
+  // 삭제된 스토어는 제외 (스토어 목록을 불러온 경우에만 확인 가능)
+  const queryStoreIds = (selectedStoreIds[storeId] || [storeId]).filter(
+    (id) =>
+      id === storeId ||
+      stores.length === 0 ||
+      stores.some((store) => store.name === id)
+  );
+  const isMultiStore =
+    queryStoreIds.length > 1 || queryStoreIds[0] !== storeId;
 
-  async function handleExecuteQuery() {
-    if (!query.trim()) {
+  // 스토어를 열면 기본 프리셋 적용
+  const defaultPresetId = defaultPresetIds[storeId];
+  useEffect(() => {
+    if (!_hasHydrated || !defaultPresetId) return;
+    if (presets.some((preset) => preset.id === defaultPresetId)) {
+      applyPreset(defaultPresetId);
+    }
+  }, [_hasHydrated, storeId]);
+
+  // 새 메시지나 스트리밍 텍스트가 도착하면 맨 아래로 스크롤
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ block: "end" });
+  }, [messages, streamingText]);
+
+  /**
+   * 쿼리 실행
+   * rerun이 있으면 히스토리의 질문을 현재 설정으로 새 대화에서 다시 실행합니다
+   */
+  async function handleExecuteQuery(rerun?: QueryHistoryItem) {
+    if (isStreaming) {
+      return;
+    }
+
+    const submittedQuery = (rerun?.query ?? query).trim();
+    if (!submittedQuery) {
       setError(t("errorEmptyQuery"));
       return;
     }
 
+    const filterError = validateMetadataFilter(metadataFilter);
+    if (filterError) {
+      setError(t("filterInvalid", { error: filterError }));
+      setIsSettingsOpen(true);
+      return;
+    }
+
     if (!hasApiKey()) {
       router.push("/stores");
       return;
     }
 
-    setLoading(true, t("executingQuery"));
     clearError();
 
+    const timestamp = Date.now();
+    const title = truncate(submittedQuery, THREAD_TITLE_LENGTH);
+    const thread = rerun ? null : activeThread;
+    const threadMessages = thread?.messages || [];
+
+    // 활성 스레드가 없으면 첫 질문을 제목으로 새 스레드 시작
+    let threadId = thread?.id;
+    if (!threadId) {
+      threadId = createThread(storeId, title);
+    } else if (!thread?.title && threadMessages.length === 0) {
+      renameThread(threadId, title);
+    }
+
+    const userMessage: ChatMessage = {
+      id: generateId(),
+      role: "user",
+      text: submittedQuery,
+      timestamp,
+    };
+    const modelMessageId = generateId();
+    const contents = buildContents([...threadMessages, userMessage]);
+
+    addMessage(threadId, userMessage);
+    addMessage(threadId, {
+      id: modelMessageId,
+      role: "model",
+      text: "",
+      timestamp,
+    });
+    if (!rerun) {
+      setQuery("");
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStreamingMessageId(modelMessageId);
+    setStreamingText("");
+
+    let text = "";
+    let groundingMetadata: GroundingMetadata | null = null;
+
+    // Build generationConfig if any advanced options are set
+    const generationConfig: GenerationConfig = {};
+    if (temperature !== undefined) generationConfig.temperature = temperature;
+    if (maxOutputTokens !== undefined)
+      generationConfig.maxOutputTokens = maxOutputTokens;
+    if (topP !== undefined) generationConfig.topP = topP;
+    if (topK !== undefined) generationConfig.topK = topK;
+
     try {
       const headers: HeadersInit = {
         "Content-Type": "application/json",
+        Accept: "text/event-stream",
         "x-api-key": apiKey || "",
       };
 
-      // Build generationConfig if any advanced options are set
-      const generationConfig: GenerationConfig = {};
-      if (temperature !== undefined) generationConfig.temperature = temperature;
-      if (maxOutputTokens !== undefined)
-        generationConfig.maxOutputTokens = maxOutputTokens;
-      if (topP !== undefined) generationConfig.topP = topP;
-      if (topK !== undefined) generationConfig.topK = topK;
-
       const requestBody: any = {
-        query: query.trim(),
+        contents,
         metadataFilter: metadataFilter.trim() || null,
         model: selectedModel,
       };
@@ -102,161 +272,280 @@ export default function WorkspacePage() {
       if (Object.keys(generationConfig).length > 0) {
         requestBody.generationConfig = generationConfig;
       }
+      if (safetySettings.length > 0) {
+        requestBody.safetySettings = safetySettings;
+      }
 
-      const response = await fetch(`/api/stores/${storeId}/query`, {
+      if (isMultiStore) {
+        requestBody.storeIds = queryStoreIds;
+      }
+
+      const endpoint = isMultiStore
+        ? "/api/query"
+        : `/api/stores/${storeId}/query`;
+      const response = await fetch(endpoint, {
         method: "POST",
         headers,
         body: JSON.stringify(requestBody),
+        signal: abortController.signal,
       });
-      const data = await response.json();
 
-      if (!response.ok || !data.success) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`
+      // 스트림 시작 전 오류는 JSON으로 반환됨
+      if (!response.ok) {
+        const data = await response.json();
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
         );
       }
 
-      const result = {
-        text: data.data.text,
-        groundingMetadata: data.data.groundingMetadata,
-        timestamp: Date.now(),
-      };
-
-      setCurrentResult(result);
+      for await (const event of readQueryStream(response)) {
+        if (event.type === "delta") {
+          text += event.text;
+          setStreamingText(text);
+        } else if (event.type === "done") {
+          text = event.text;
+          groundingMetadata = event.groundingMetadata;
+          updateMessage(threadId, modelMessageId, { text, groundingMetadata });
+        } else {
+          throw new ApiRequestError(event, tCommon("error"));
+        }
+      }
+    } catch (error: any) {
+      // 사용자가 중지한 경우 지금까지 받은 답변을 유지
+      if (error.name !== "AbortError") {
+        setError(getErrorMessage(error, tCommon("networkError")));
+        updateMessage(threadId, modelMessageId, { text, isError: true });
+      } else if (!text) {
+        updateMessage(threadId, modelMessageId, { isError: true });
+      } else {
+        updateMessage(threadId, modelMessageId, { text });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
+      setStreamingText("");
+    }
 
-      // Add to history
+    if (text) {
+      // Add to history (답변, 인용, 모델과 설정 포함)
       const historyItem: QueryHistoryItem = {
-        id: Date.now().toString(),
-        query: query.trim(),
-        response: data.data.text,
-        timestamp: Date.now(),
+        id: generateId(),
+        query: submittedQuery,
+        response: text,
+        timestamp,
         storeName: storeId,
+        ...(isMultiStore && { storeIds: queryStoreIds }),
+        model: selectedModel,
+        settings: {
+          ...(systemInstruction.trim() && {
+            systemInstruction: systemInstruction.trim(),
+          }),
+          ...(Object.keys(generationConfig).length > 0 && { generationConfig }),
+          ...(safetySettings.length > 0 && { safetySettings }),
+          ...(metadataFilter.trim() && {
+            metadataFilter: metadataFilter.trim(),
+          }),
+        },
+        groundingMetadata,
       };
       addToHistory(historyItem);
-
-      // Clear query input
-      setQuery("");
-    } catch (error: any) {
-      setError(error.message || tCommon("networkError"));
-    } finally {
-      setLoading(false);
     }
   }
 
+  function handleRerun(item: QueryHistoryItem) {
+    setIsHistoryOpen(false);
+    handleExecuteQuery(item);
+  }
+
+  function handleStopStreaming() {
+    abortControllerRef.current?.abort();
+  }
+
   if (!currentStore) {
     return null;
   }
 
-  const hasResult = !!currentResult;
+  const hasMessages = messages.length > 0;
 
   return (
-    <div className="flex flex-col h-[calc(100vh-4rem)] relative">
-      <div className="flex-1 overflow-y-auto pb-32">
-        <div className="max-w-5xl mx-auto p-4 md:p-6 w-full">
-          {/* Header / Model Selector */}
-          <div className="flex justify-between items-center mb-8">
-            <div className="flex items-center gap-2">
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" className="text-lg font-medium gap-2">
-                    {selectedModel}
-                    <ChevronDown className="h-4 w-4 opacity-50" />
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="start">
-                  {SUPPORTED_MODELS.map((model) => (
-                    <DropdownMenuItem
-                      key={model}
-                      onClick={() => setSelectedModel(model)}
-                    >
-                      {model}
-                    </DropdownMenuItem>
-                  ))}
-                </DropdownMenuContent>
-              </DropdownMenu>
-            </div>
-            <div className="flex items-center gap-2">
-              <Button
-                variant="ghost"
-                size="icon"
-                onClick={() => setIsSettingsOpen(true)}
-              >
-                <Settings className="h-5 w-5" />
-              </Button>
-            </div>
-          </div>
+    <div className="flex h-[calc(100vh-4rem)]">
+      {/* Thread List (Desktop) */}
+      <aside className="hidden lg:flex w-64 shrink-0 flex-col border-r">
+        <ThreadList storeName={storeId} />
+      </aside>
 
-          {/* Main Content */}
-          {!hasResult ? (
-            <div className="flex flex-col items-center justify-center mt-20 md:mt-32 text-center space-y-6">
-              <div className="h-16 w-16 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center shadow-lg">
-                <Sparkles className="h-8 w-8 text-white" />
+      <div className="flex flex-col flex-1 min-w-0 relative">
+        <div className="flex-1 overflow-y-auto pb-32">
+          <div className="max-w-5xl mx-auto p-4 md:p-6 w-full">
+            {/* Header / Model Selector */}
+            <div className="flex justify-between items-center mb-8">
+              <div className="flex items-center gap-2">
+                <Sheet open={isThreadsOpen} onOpenChange={setIsThreadsOpen}>
+                  <SheetTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="lg:hidden"
+                      aria-label={t("threads")}
+                      title={t("threads")}
+                    >
+                      <MessagesSquare className="h-5 w-5" />
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent side="left" className="w-[300px] p-0 flex flex-col">
+                    <SheetHeader className="p-4 text-left border-b">
+                      <SheetTitle>{t("threads")}</SheetTitle>
+                    </SheetHeader>
+                    <div className="flex-1 min-h-0">
+                      <ThreadList
+                        storeName={storeId}
+                        onNavigate={() => setIsThreadsOpen(false)}
+                      />
+                    </div>
+                  </SheetContent>
+                </Sheet>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" className="text-lg font-medium gap-2">
+                      {selectedModel}
+                      <ChevronDown className="h-4 w-4 opacity-50" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {SUPPORTED_MODELS.map((model) => (
+                      <DropdownMenuItem
+                        key={model}
+                        onClick={() => setSelectedModel(model)}
+                      >
+                        {model}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <StoreMultiSelect storeId={storeId} />
+                <PresetSwitcher storeName={storeId} />
               </div>
-              <h1 className="text-3xl md:text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-purple-600">
-                {t("welcomeTitle")}
-              </h1>
-              <p className="text-muted-foreground max-w-md">
-                {t("welcomeDescription")}
-              </p>
-            </div>
-          ) : (
-            <div className="space-y-8">
-              {/* Result Display */}
-              <div className="prose prose-slate dark:prose-invert max-w-none">
-                <ReactMarkdown>{currentResult.text}</ReactMarkdown>
+              <div className="flex items-center gap-2">
+                <Sheet open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+                  <SheetTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={t("queryHistory")}
+                      title={t("queryHistory")}
+                    >
+                      <History className="h-5 w-5" />
+                    </Button>
+                  </SheetTrigger>
+                  <SheetContent
+                    side="right"
+                    className="w-[340px] sm:max-w-md p-0 flex flex-col"
+                  >
+                    <SheetHeader className="p-4 text-left border-b">
+                      <SheetTitle>{t("queryHistory")}</SheetTitle>
+                    </SheetHeader>
+                    <div className="flex-1 min-h-0">
+                      <QueryHistoryPanel
+                        storeName={storeId}
+                        onRerun={handleRerun}
+                      />
+                    </div>
+                  </SheetContent>
+                </Sheet>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setIsSettingsOpen(true)}
+                >
+                  <Settings className="h-5 w-5" />
+                </Button>
               </div>
+            </div>
 
-              {currentResult.groundingMetadata && (
-                <div className="border-t pt-4">
-                  <h4 className="mb-2 text-sm font-semibold">
-                    {t("groundingMetadataTitle")}
-                  </h4>
-                  <p className="text-xs text-muted-foreground">
-                    {t("groundingMetadataDescription")}
-                  </p>
+            {/* Main Content */}
+            {!hasMessages ? (
+              <div className="flex flex-col items-center justify-center mt-20 md:mt-32 text-center space-y-6">
+                <div className="h-16 w-16 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl flex items-center justify-center shadow-lg">
+                  <Sparkles className="h-8 w-8 text-white" />
                 </div>
-              )}
-            </div>
-          )}
+                <h1 className="text-3xl md:text-4xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-purple-600">
+                  {t("welcomeTitle")}
+                </h1>
+                <p className="text-muted-foreground max-w-md">
+                  {t("welcomeDescription")}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-8">
+                {/* Chat Transcript */}
+                {messages.map((message) => (
+                  <ChatMessageItem
+                    key={message.id}
+                    message={
+                      message.id === streamingMessageId
+                        ? { ...message, text: streamingText }
+                        : message
+                    }
+                    isStreaming={message.id === streamingMessageId}
+                  />
+                ))}
+                <div ref={transcriptEndRef} />
+              </div>
+            )}
+          </div>
         </div>
-      </div>
 
-      {/* Input Area (Sticky Bottom) */}
-      <div className="absolute bottom-0 left-0 right-0 bg-background/80 backdrop-blur-sm border-t p-4 md:p-6">
-        <div className="max-w-3xl mx-auto space-y-4">
-          <div className="relative rounded-2xl border border-input bg-background shadow-sm focus-within:ring-2 focus-within:ring-primary focus-within:border-primary transition-all duration-200">
-            <Input
-              id="query-input"
-              name="query"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              onKeyDown={(e) => {
-                if (e.key === "Enter" && !e.shiftKey) {
-                  e.preventDefault();
-                  handleExecuteQuery();
-                }
-              }}
-              placeholder={t("questionPlaceholder")}
-              className="border-0 focus-visible:ring-0 focus-visible:ring-offset-0 shadow-none py-6 pl-4 pr-12 text-base md:text-lg bg-transparent"
-            />
-            <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
-              <Button
-                onClick={handleExecuteQuery}
-                size="icon"
-                className={query.trim() ? "" : "opacity-50"}
-                disabled={!query.trim()}
-              >
-                <Send className="h-4 w-4" />
-              </Button>
+        {/* Input Area (Sticky Bottom) */}
+        <div className="absolute bottom-0 left-0 right-0 bg-background/80 backdrop-blur-sm border-t p-4 md:p-6">
+          <div className="max-w-3xl mx-auto space-y-4">
+            <div className="relative rounded-2xl border border-input bg-background shadow-sm focus-within:ring-2 focus-within:ring-primary focus-within:border-primary transition-all duration-200">
+              <Input
+                id="query-input"
+                name="query"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    handleExecuteQuery();
+                  }
+                }}
+                placeholder={t("questionPlaceholder")}
+                className="border-0 focus-visible:ring-0 focus-visible:ring-offset-0 shadow-none py-6 pl-4 pr-12 text-base md:text-lg bg-transparent"
+              />
+              <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+                {isStreaming ? (
+                  <Button
+                    onClick={handleStopStreaming}
+                    size="icon"
+                    variant="outline"
+                    aria-label={t("stopGenerating")}
+                    title={t("stopGenerating")}
+                  >
+                    <Square className="h-4 w-4 fill-current" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => handleExecuteQuery()}
+                    size="icon"
+                    className={query.trim() ? "" : "opacity-50"}
+                    disabled={!query.trim()}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      <AdvancedSettingsModal
-        open={isSettingsOpen}
-        onOpenChange={setIsSettingsOpen}
-      />
+        <AdvancedSettingsModal
+          open={isSettingsOpen}
+          onOpenChange={setIsSettingsOpen}
+          storeIds={queryStoreIds}
+        />
+      </div>
     </div>
   );
 }
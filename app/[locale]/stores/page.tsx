@@ -3,7 +3,12 @@
 import { useEffect, useState } from "react";
 import { useTranslations } from "next-intl";
 import { useRouter } from "@/i18n/routing";
-import { useStoresState, useUIState, useAppStore } from "@/store";
+import {
+  useStoresState,
+  useUIState,
+  useAppStore,
+  useUploadsState,
+} from "@/store";
 import { ApiKeyModal } from "@/components/ApiKeyModal";
 import { Button } from "@/components/ui/button";
 import {
@@ -22,9 +27,25 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Plus, Trash2, Database, FileText, Calendar } from "lucide-react";
-import { formatDate, formatFileSize } from "@/lib/utils";
-import type { FileSearchStore } from "@/types";
+import {
+  Plus,
+  Trash2,
+  Database,
+  FileText,
+  Calendar,
+  Download,
+  ArchiveRestore,
+  XCircle,
+  FileQuestion,
+} from "lucide-react";
+import { downloadJson, formatDate, formatFileSize } from "@/lib/utils";
+import { ApiRequestError } from "@/lib/api-request-error";
+import { useApiErrorMessage } from "@/hooks/use-api-error-message";
+import type {
+  FileSearchStore,
+  RestoreStoreResponse,
+  StoreManifest,
+} from "@/types";
 
 /**
  * Stores Page
@@ -34,11 +55,13 @@ import type { FileSearchStore } from "@/types";
 export default function StoresPage() {
   const t = useTranslations("stores");
   const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
   const router = useRouter();
   const { stores, setStores, setCurrentStore, isCacheValid, removeStore } =
     useStoresState();
   const { setLoading, setError, clearError } = useUIState();
-  const { apiKey, hasApiKey, _hasHydrated } = useAppStore();
+  const { apiKey, apiKeyMode, hasApiKey, _hasHydrated } = useAppStore();
+  const { addUploadJobs } = useUploadsState();
 
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
@@ -46,10 +69,16 @@ export default function StoresPage() {
   const [deleteConfirm, setDeleteConfirm] = useState<FileSearchStore | null>(
     null
   );
+  const [isRestoreModalOpen, setIsRestoreModalOpen] = useState(false);
+  const [restoreManifest, setRestoreManifest] = useState<File | null>(null);
+  const [restoreArchive, setRestoreArchive] = useState<File | null>(null);
+  const [restoreName, setRestoreName] = useState("");
+  const [restoreReport, setRestoreReport] =
+    useState<RestoreStoreResponse | null>(null);
 
   useEffect(() => {
-    // Wait for hydration to complete before checking API key
-    if (!_hasHydrated) {
+    // Wait for hydration and server config before checking API key
+    if (!_hasHydrated || !apiKeyMode) {
       return;
     }
 
@@ -59,7 +88,7 @@ export default function StoresPage() {
     } else {
       loadStores();
     }
-  }, [_hasHydrated, apiKey]);
+  }, [_hasHydrated, apiKeyMode, apiKey]);
 
   async function loadStores(force = false) {
     // Check cache first (skip if force refresh)
@@ -84,14 +113,15 @@ export default function StoresPage() {
       const data = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
         );
       }
 
       setStores(data.data.data);
     } catch (error: any) {
-      setError(error.message || tCommon("networkError"));
+      setError(getErrorMessage(error, tCommon("networkError")));
     } finally {
       setLoading(false);
     }
@@ -133,8 +163,9 @@ export default function StoresPage() {
       const data = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
         );
       }
 
@@ -142,7 +173,7 @@ export default function StoresPage() {
       setIsCreateModalOpen(false);
       setNewStoreName("");
     } catch (error: any) {
-      setError(error.message || tCommon("networkError"));
+      setError(getErrorMessage(error, tCommon("networkError")));
     } finally {
       setLoading(false);
       setIsCreating(false);
@@ -170,15 +201,124 @@ export default function StoresPage() {
       const data = await response.json();
 
       if (!response.ok || !data.success) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
         );
       }
 
       removeStore(store.displayName);
       setDeleteConfirm(null);
     } catch (error: any) {
-      setError(error.message || tCommon("networkError"));
+      setError(getErrorMessage(error, tCommon("networkError")));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /**
+   * 스토어 매니페스트를 JSON 파일로 다운로드 (파일 내용 제외)
+   */
+  async function handleExportManifest(store: FileSearchStore) {
+    if (!hasApiKey()) {
+      setIsApiKeyModalOpen(true);
+      return;
+    }
+
+    setLoading(true, t("exporting"));
+    clearError();
+
+    try {
+      const headers: HeadersInit = {
+        "x-api-key": apiKey || "",
+      };
+
+      const response = await fetch(`/api/stores/${store.name}/export`, {
+        headers,
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
+        );
+      }
+
+      const manifest: StoreManifest = data.data;
+      downloadJson(`${store.displayName}-manifest.json`, manifest);
+    } catch (error: any) {
+      setError(getErrorMessage(error, tCommon("networkError")));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function closeRestoreModal() {
+    setIsRestoreModalOpen(false);
+    setRestoreManifest(null);
+    setRestoreArchive(null);
+    setRestoreName("");
+    setRestoreReport(null);
+  }
+
+  /**
+   * 매니페스트와 원본 파일 ZIP으로 새 스토어 복원
+   */
+  async function handleRestoreStore() {
+    if (!restoreManifest || !restoreArchive) {
+      setError(t("restoreFilesRequired"));
+      return;
+    }
+
+    if (!hasApiKey()) {
+      setIsApiKeyModalOpen(true);
+      return;
+    }
+
+    setLoading(true, t("restoring"));
+    clearError();
+
+    try {
+      const formData = new FormData();
+      formData.append("manifest", restoreManifest);
+      formData.append("archive", restoreArchive);
+      if (restoreName.trim()) {
+        formData.append("displayName", restoreName.trim());
+      }
+
+      const response = await fetch("/api/stores/restore", {
+        method: "POST",
+        headers: { "x-api-key": apiKey || "" },
+        body: formData,
+      });
+      const data = await response.json();
+
+      // 일부 문서가 실패해도 스토어는 만들어졌으므로 결과를 표시
+      const report: RestoreStoreResponse | undefined = data.data;
+      if (!report?.results) {
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
+        );
+      }
+
+      // 업로드가 시작된 문서는 인덱싱 상태 추적
+      const startedJobs = report.results
+        .filter((r) => r.success && r.operationName)
+        .map((r) => ({
+          storeName: report.store.name,
+          fileName: r.fileName,
+          operationName: r.operationName!,
+        }));
+      if (startedJobs.length > 0) {
+        addUploadJobs(startedJobs);
+      }
+
+      setRestoreReport(report);
+      await loadStores(true);
+    } catch (error: any) {
+      setError(getErrorMessage(error, tCommon("networkError")));
     } finally {
       setLoading(false);
     }
@@ -212,14 +352,25 @@ export default function StoresPage() {
             {t("description")}
           </p>
         </div>
-        <Button
-          onClick={() => setIsCreateModalOpen(true)}
-          size="lg"
-          className="w-full md:w-auto"
-        >
-          <Plus className="mr-2 h-4 w-4" />
-          {t("addNewStore")}
-        </Button>
+        <div className="flex flex-col gap-2 md:flex-row">
+          <Button
+            variant="outline"
+            onClick={() => setIsRestoreModalOpen(true)}
+            size="lg"
+            className="w-full md:w-auto"
+          >
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+            {t("restoreStore")}
+          </Button>
+          <Button
+            onClick={() => setIsCreateModalOpen(true)}
+            size="lg"
+            className="w-full md:w-auto"
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            {t("addNewStore")}
+          </Button>
+        </div>
       </div>
 
       {/* Empty State */}
@@ -255,17 +406,29 @@ export default function StoresPage() {
                       {store.displayName}
                     </CardTitle>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="opacity-100 md:opacity-0 md:group-hover:opacity-100 flex-shrink-0"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      setDeleteConfirm(store);
-                    }}
-                  >
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
+                  <div className="flex flex-shrink-0 opacity-100 md:opacity-0 md:group-hover:opacity-100">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={t("exportManifest")}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleExportManifest(store);
+                      }}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setDeleteConfirm(store);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
                 </div>
                 <CardDescription className="flex items-center gap-1 text-xs">
                   <Calendar className="h-3 w-3" />
@@ -347,6 +510,133 @@ export default function StoresPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Restore Store Modal */}
+      <Dialog
+        open={isRestoreModalOpen}
+        onOpenChange={(open) => !open && closeRestoreModal()}
+      >
+        <DialogContent className="w-[calc(100%-2rem)] max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("restoreModalTitle")}</DialogTitle>
+            <DialogDescription className="text-sm">
+              {t("restoreModalDescription")}
+            </DialogDescription>
+          </DialogHeader>
+          {restoreReport ? (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {t("restoreSummary", {
+                  name: restoreReport.store.displayName,
+                  restored: restoreReport.successCount,
+                  missing: restoreReport.missingCount,
+                  failed: restoreReport.failCount,
+                })}
+              </p>
+              {restoreReport.results.some((r) => !r.success) && (
+                <div className="max-h-[200px] space-y-1 overflow-y-auto">
+                  {restoreReport.results
+                    .filter((r) => !r.success)
+                    .map((r) => (
+                      <div
+                        key={r.fileName}
+                        className="flex items-center gap-2 rounded-md border p-2 text-sm"
+                      >
+                        {r.missing ? (
+                          <FileQuestion className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        ) : (
+                          <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate font-medium">{r.fileName}</p>
+                          <p
+                            className={`truncate text-xs ${
+                              r.missing
+                                ? "text-muted-foreground"
+                                : "text-destructive"
+                            }`}
+                          >
+                            {r.missing
+                              ? t("restoreMissing")
+                              : getErrorMessage(r)}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              )}
+              {restoreReport.results.some((r) => r.contentChanged) && (
+                <p className="text-xs text-muted-foreground">
+                  {t("restoreChanged", {
+                    count: restoreReport.results.filter((r) => r.contentChanged)
+                      .length,
+                  })}
+                </p>
+              )}
+              {restoreReport.unmatchedFiles.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t("restoreUnused", {
+                    count: restoreReport.unmatchedFiles.length,
+                    files: restoreReport.unmatchedFiles.slice(0, 5).join(", "),
+                  })}
+                </p>
+              )}
+              <Button onClick={closeRestoreModal} className="w-full">
+                {tCommon("close")}
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="restoreManifest">
+                  {t("restoreManifestLabel")}
+                </Label>
+                <Input
+                  id="restoreManifest"
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) =>
+                    setRestoreManifest(e.target.files?.[0] || null)
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restoreArchive">
+                  {t("restoreArchiveLabel")}
+                </Label>
+                <Input
+                  id="restoreArchive"
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) =>
+                    setRestoreArchive(e.target.files?.[0] || null)
+                  }
+                />
+                <p className="text-xs text-muted-foreground">
+                  {t("restoreArchiveHint")}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restoreName">{t("restoreNameLabel")}</Label>
+                <Input
+                  id="restoreName"
+                  placeholder={t("restoreNamePlaceholder")}
+                  value={restoreName}
+                  onChange={(e) => setRestoreName(e.target.value)}
+                />
+              </div>
+              <Button
+                onClick={handleRestoreStore}
+                className="w-full"
+                size="lg"
+                disabled={!restoreManifest || !restoreArchive}
+              >
+                {t("restoreSubmit")}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Modal */}
       <Dialog
         open={deleteConfirm !== null}
@@ -365,6 +655,20 @@ export default function StoresPage() {
               </span>
             </DialogDescription>
           </DialogHeader>
+          <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+            <span>{t("deleteExportHint")}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-shrink-0"
+              onClick={() =>
+                deleteConfirm && handleExportManifest(deleteConfirm)
+              }
+            >
+              <Download className="mr-2 h-4 w-4" />
+              {t("exportManifest")}
+            </Button>
+          </div>
           <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
             <Button
               variant="outline"
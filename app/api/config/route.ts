@@ -0,0 +1,21 @@
+/**
+ * Server Config API Route
+ * GET /api/config - API 키 모드 조회
+ *
+ * 클라이언트는 이 응답으로 API 키 입력 UI를 조정합니다
+ * (server 모드에서도 키 자체는 반환하지 않습니다)
+ */
+
+import { NextResponse } from "next/server";
+import { getServerConfig } from "@/lib/api-key";
+import type { ApiResponse, ServerConfigResponse } from "@/types";
+
+// 빌드 시점이 아닌 요청 시점의 환경 변수를 반영
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return NextResponse.json<ApiResponse<ServerConfigResponse>>({
+    success: true,
+    data: getServerConfig(),
+  });
+}
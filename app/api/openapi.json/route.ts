@@ -0,0 +1,13 @@
+/**
+ * OpenAPI API Route
+ * GET /api/openapi.json - /api 라우트의 OpenAPI 3 문서
+ *
+ * 문서 생성은 lib/openapi.ts (문서 페이지: /docs)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/openapi";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
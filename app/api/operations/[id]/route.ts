@@ -0,0 +1,65 @@
+/**
+ * Operation Status API Route
+ * GET /api/operations/[id] - Get upload (indexing) operation status
+ *
+ * id는 업로드 응답의 operationName을 URL 인코딩한 값입니다
+ * (예: fileSearchStores%2Fmy-store%2Fupload%2Foperations%2Fabc)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { finishReplaceDocument, getUploadOperation } from "@/lib/gemini";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import { operationParamsSchema, parseWithSchema } from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type { ApiResponse, OperationStatusResponse } from "@/types";
+
+/**
+ * GET /api/operations/:id
+ *
+ * 업로드 operation 진행 상태 조회
+ * 교체 업로드가 성공적으로 완료되었으면 이전 버전을 삭제합니다
+ */
+export const GET = withRateLimit(
+  "read",
+  withRetryReport(async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(operationParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { id: operationName } = path.data;
+
+      const operation = await getUploadOperation(operationName, apiKey);
+      await finishReplaceDocument(operation, apiKey);
+
+      return NextResponse.json<ApiResponse<OperationStatusResponse>>({
+        success: true,
+        data: {
+          name: operation.name,
+          done: operation.done,
+          documentName: operation.response?.documentName,
+          error: operation.error?.message,
+        },
+      });
+    } catch (error: any) {
+      console.error("operation 상태 조회 오류:", error);
+
+      return handleApiError(error);
+    }
+  })
+);
@@ -0,0 +1,128 @@
+/**
+ * Multi-Store Query API Route
+ * POST /api/query - Execute RAG query across multiple stores
+ *
+ * storeIds로 여러 스토어를 한 번에 검색합니다
+ * 각 grounding chunk에는 출처 스토어(store)가 포함됩니다
+ *
+ * Accept 헤더로 스트리밍 모드를 선택할 수 있습니다
+ * - text/event-stream: Server-Sent Events
+ * - application/x-ndjson: 줄 단위 JSON
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  generateContentWithFileSearch,
+  generateContentStreamWithFileSearch,
+  getFileSearchStore,
+} from "@/lib/gemini";
+import {
+  createQueryStreamResponse,
+  getStreamFormat,
+} from "@/lib/query-stream";
+import { resolveQueryInput } from "@/lib/query-request";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import { multiStoreQueryRequestSchema, parseJsonBody } from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type { ApiResponse, QueryResponseData } from "@/types";
+
+/**
+ * POST /api/query
+ * Execute RAG query on multiple stores
+ */
+export const POST = withRateLimit(
+  "query",
+  withRetryReport(async function POST(request: NextRequest) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const body = await parseJsonBody(request, multiStoreQueryRequestSchema);
+      if ("error" in body) {
+        return apiErrorResponse(body.error);
+      }
+      const {
+        storeIds,
+        query,
+        contents,
+        metadataFilter,
+        model,
+        systemInstruction,
+        generationConfig,
+        safetySettings,
+      } = body.data;
+
+      const resolved = resolveQueryInput({ query, contents });
+      if ("error" in resolved) {
+        return apiErrorResponse(
+          new ApiRouteError("INVALID_REQUEST", resolved.error, {
+            field: contents !== undefined ? "contents" : "query",
+          })
+        );
+      }
+      const { input } = resolved;
+
+      // 출처 표시에 사용할 표시 이름을 위해 스토어 조회 (없는 스토어는 404)
+      const uniqueStoreIds = Array.from(new Set(storeIds));
+      const stores = await Promise.all(
+        uniqueStoreIds.map((storeId) => getFileSearchStore(storeId, apiKey))
+      );
+
+      const streamFormat = getStreamFormat(request.headers.get("accept"));
+
+      if (streamFormat) {
+        const events = generateContentStreamWithFileSearch(
+          stores,
+          input,
+          apiKey,
+          metadataFilter || null,
+          model || "gemini-2.5-flash",
+          systemInstruction,
+          generationConfig,
+          safetySettings,
+          request.signal
+        );
+
+        // 시작 단계 오류는 아래 catch에서 일반 JSON 에러로 응답
+        return await createQueryStreamResponse(
+          events,
+          streamFormat,
+          request.signal
+        );
+      }
+
+      const response = await generateContentWithFileSearch(
+        stores,
+        input,
+        apiKey,
+        metadataFilter || null,
+        model || "gemini-2.5-flash",
+        systemInstruction,
+        generationConfig,
+        safetySettings
+      );
+
+      return NextResponse.json<ApiResponse<QueryResponseData>>({
+        success: true,
+        data: {
+          text: response.text,
+          groundingMetadata: response.groundingMetadata || null,
+          usageMetadata: response.usageMetadata,
+        },
+      });
+    } catch (error: any) {
+      console.error("멀티 스토어 쿼리 실행 오류:", error);
+
+      return handleApiError(error);
+    }
+  })
+);
@@ -1,94 +1,236 @@
 import { NextRequest, NextResponse } from "next/server";
-import { findDocumentByDisplayName, deleteDocument } from "@/lib/gemini";
-import type { FileSearchStore } from "@/types";
+import {
+  deleteDocument,
+  resolveDocument,
+  startReplaceDocument,
+} from "@/lib/gemini";
+import { DEFAULT_CHUNKING_CONFIG, readChunkingMetadata } from "@/lib/chunking";
+import {
+  MAX_FILE_SIZE,
+  parseChunkingFields,
+  parseCustomMetadataField,
+} from "@/lib/upload-form";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import { documentParamsSchema, parseWithSchema } from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type {
+  ApiResponse,
+  FileSearchDocument,
+  FileSearchStore,
+  ReplaceDocumentResponse,
+} from "@/types";
 
 /**
- * DELETE /api/stores/:storeId/documents/:docName
+ * GET /api/stores/:storeId/documents/:docName
  *
- * 문서 삭제
+ * 문서 상세 조회 (documents.get)
+ * docName은 문서 ID 또는 표시 이름 (PUT, DELETE와 동일한 형식 지원)
  */
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ storeId: string; docName: string }> }
-) {
-  try {
-    const apiKey = request.headers.get("x-api-key");
-
-    if (!apiKey) {
-      return NextResponse.json(
+export const GET = withRateLimit(
+  "read",
+  withRetryReport(async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string; docName: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(documentParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId, docName: decodedName } = path.data;
+
+      // 스토어 객체 생성
+      const fileStore: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
+
+      const document = await resolveDocument(fileStore, decodedName, apiKey);
+
+      return NextResponse.json<ApiResponse<FileSearchDocument>>({
+        success: true,
+        data: document,
+      });
+    } catch (error: any) {
+      console.error("문서 조회 오류:", error);
+
+      return handleApiError(error, "DOCUMENT_NOT_FOUND");
+    }
+  })
+);
+
+/**
+ * PUT /api/stores/:storeId/documents/:docName
+ *
+ * 문서 교체 (multipart/form-data)
+ * - file: 새 버전 파일 (필수)
+ * - customMetadata: 생략하면 이전 버전의 메타데이터 유지
+ * - maxTokensPerChunk / maxOverlapTokens: 생략하면 이전 버전의 청킹 설정 유지
+ *
+ * 인덱싱 완료를 기다리지 않고 operation 이름과 새 버전 번호를 바로 반환합니다
+ * 이전 버전은 인덱싱 성공 후 GET /api/operations/[id] 조회나 다음 문서 목록 조회/업로드/동기화에서 삭제됩니다 (실패하면 유지)
+ */
+export const PUT = withRateLimit(
+  "upload",
+  withRetryReport(async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string; docName: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(documentParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId, docName: decodedName } = path.data;
+
+      console.log(`\n🔄 문서 교체 요청: ${decodedName}`);
+
+      const formData = await request.formData();
+      const file = formData.get("file");
+
+      if (!(file instanceof File)) {
+        return apiErrorResponse(new ApiRouteError("NO_FILES"));
+      }
+
+      if (file.size > MAX_FILE_SIZE) {
+        return apiErrorResponse(
+          new ApiRouteError(
+            "FILE_TOO_LARGE",
+            `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
+            { maxSize: MAX_FILE_SIZE / 1024 / 1024 }
+          )
+        );
+      }
+
+      const parsedMetadata = parseCustomMetadataField(
+        formData.get("customMetadata")
+      );
+      if ("error" in parsedMetadata) {
+        return apiErrorResponse(parsedMetadata.error);
+      }
+
+      // 스토어 객체 생성
+      const fileStore: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
+
+      const previous = await resolveDocument(fileStore, decodedName, apiKey);
+
+      const chunking = parseChunkingFields(
+        formData,
+        readChunkingMetadata(previous.customMetadata) || DEFAULT_CHUNKING_CONFIG
+      );
+      if ("error" in chunking) {
+        return apiErrorResponse(chunking.error);
+      }
+
+      const bytes = await file.arrayBuffer();
+      const { operation, version } = await startReplaceDocument(
+        fileStore,
+        previous,
+        Buffer.from(bytes),
         {
-          success: false,
-          error: "API 키가 필요합니다. x-api-key 헤더를 포함해주세요.",
+          mimeType: file.type || undefined,
+          customMetadata: parsedMetadata.metadata,
+          ...chunking.config,
         },
-        { status: 401 }
+        apiKey
       );
-    }
 
-    const { storeId, docName } = await params;
-
-    console.log(`\n🗑️  문서 삭제 요청: ${decodeURIComponent(docName)}`);
-
-    // 스토어 객체 생성
-    const fileStore: FileSearchStore = {
-      name: storeId,
-      displayName: storeId,
-      createTime: new Date().toISOString(),
-      updateTime: new Date().toISOString(),
-    };
-
-    // 문서 검색
-    const document = await findDocumentByDisplayName(
-      fileStore,
-      decodeURIComponent(docName),
-      apiKey
-    );
-
-    // 문서 삭제
-    await deleteDocument(document, apiKey);
-
-    console.log(`✅ 문서 삭제 완료`);
-
-    return NextResponse.json({
-      success: true,
-      message: "문서가 성공적으로 삭제되었습니다",
-    });
-  } catch (error: any) {
-    console.error("문서 삭제 오류:", error);
-
-    // HTTP 상태 코드별 에러 처리
-    const status =
-      error.status ||
-      error.statusCode ||
-      (error.message?.includes("찾을 수 없습니다") ? 404 : 500);
-    let errorMessage = error.message || "문서 삭제 중 오류가 발생했습니다";
-
-    switch (status) {
-      case 401:
-        errorMessage = "API 키가 유효하지 않습니다.";
-        break;
-      case 403:
-        errorMessage =
-          "API 키 권한이 없거나 File Search가 활성화되지 않았습니다.";
-        break;
-      case 404:
-        // Keep the original error message for 404
-        break;
-      case 429:
-        errorMessage =
-          "API 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.";
-        break;
-      case 503:
-        errorMessage =
-          "Google AI 서비스가 일시적으로 사용 불가합니다. 잠시 후 다시 시도해주세요.";
-        break;
+      console.log(`✅ 문서 교체 시작: ${previous.displayName} (v${version})`);
+
+      return NextResponse.json<ApiResponse<ReplaceDocumentResponse>>({
+        success: true,
+        message: "문서 교체가 시작되었습니다",
+        data: {
+          displayName: previous.displayName,
+          version,
+          previousDocumentName: previous.name,
+          operationName: operation.name,
+        },
+      });
+    } catch (error: any) {
+      console.error("문서 교체 오류:", error);
+
+      return handleApiError(error, "DOCUMENT_NOT_FOUND");
     }
+  })
+);
 
-    return NextResponse.json(
-      {
-        success: false,
-        error: errorMessage,
-      },
-      { status }
-    );
-  }
-}
+/**
+ * DELETE /api/stores/:storeId/documents/:docName
+ *
+ * 문서 삭제
+ * 표시 이름이 같은 문서가 여러 개면 첫 번째 문서가 삭제되므로 문서 ID 사용 권장
+ */
+export const DELETE = withRateLimit(
+  "admin",
+  withRetryReport(async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string; docName: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(documentParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId, docName: decodedName } = path.data;
+
+      console.log(`\n🗑️  문서 삭제 요청: ${decodedName}`);
+
+      // 스토어 객체 생성
+      const fileStore: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
+
+      // 문서 검색 (ID 우선, 없으면 표시 이름)
+      const document = await resolveDocument(fileStore, decodedName, apiKey);
+
+      // 문서 삭제
+      await deleteDocument(document, apiKey);
+
+      console.log(`✅ 문서 삭제 완료`);
+
+      return NextResponse.json({
+        success: true,
+        message: "문서가 성공적으로 삭제되었습니다",
+      });
+    } catch (error: any) {
+      console.error("문서 삭제 오류:", error);
+
+      return handleApiError(error, "DOCUMENT_NOT_FOUND");
+    }
+  })
+);
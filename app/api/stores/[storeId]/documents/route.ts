@@ -1,93 +1,113 @@
 /**
  * Documents List API Route
  * GET /api/stores/[storeId]/documents - List all documents in store
+ *   (?pageToken=&pageSize= for a single page)
+ *   Replaced previous versions whose new version is indexed are deleted and left out
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { listDocuments } from "@/lib/gemini";
-import type { ApiResponse, FileSearchStore } from "@/types";
+import {
+  listDocuments,
+  listDocumentsPage,
+  sweepReplacedDocuments,
+} from "@/lib/gemini";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import {
+  pageQuerySchema,
+  parseWithSchema,
+  storeParamsSchema,
+} from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type {
+  ApiResponse,
+  FileSearchStore,
+  ListDocumentsResponse,
+} from "@/types";
 
 /**
  * GET /api/stores/[storeId]/documents
  * List all documents in store
+ * pageToken 또는 pageSize가 지정되면 해당 페이지만 반환합니다
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ storeId: string }> }
-) {
-  try {
-    const apiKey = request.headers.get("x-api-key");
+export const GET = withRateLimit(
+  "read",
+  withRetryReport(async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
 
-    if (!apiKey) {
-      return NextResponse.json<ApiResponse>(
-        {
-          success: false,
-          error: "API 키가 필요합니다. x-api-key 헤더를 포함해주세요.",
-        },
-        { status: 401 }
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(storeParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId } = path.data;
+
+      const pageQuery = parseWithSchema(
+        pageQuerySchema,
+        Object.fromEntries(request.nextUrl.searchParams)
       );
-    }
+      if ("error" in pageQuery) {
+        return apiErrorResponse(pageQuery.error);
+      }
+      const { pageToken, pageSize } = pageQuery.data;
 
-    const { storeId } = await params;
+      console.log("\n📄 문서 목록 요청 수신", {
+        storeId,
+        hasApiKey: !!apiKey,
+      });
 
-    console.log("\n📄 문서 목록 요청 수신", {
-      storeId,
-      hasApiKey: !!apiKey,
-    });
+      const store: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
 
-    const store: FileSearchStore = {
-      name: storeId,
-      displayName: storeId,
-      createTime: new Date().toISOString(),
-      updateTime: new Date().toISOString(),
-    };
+      if (pageToken || pageSize) {
+        const page = await listDocumentsPage(store, apiKey, {
+          pageSize,
+          pageToken,
+        });
+        const items = await sweepReplacedDocuments(page.items, apiKey);
 
-    const documents = await listDocuments(store, apiKey);
+        return NextResponse.json<ApiResponse<ListDocumentsResponse>>({
+          success: true,
+          data: {
+            data: items,
+            count: items.length,
+            nextPageToken: page.nextPageToken,
+          },
+        });
+      }
 
-    return NextResponse.json<ApiResponse>({
-      success: true,
-      data: {
-        data: documents,
-        count: documents.length,
-      },
-    });
-  } catch (error: any) {
-    console.error("문서 목록 조회 오류:", error);
+      const documents = await sweepReplacedDocuments(
+        await listDocuments(store, apiKey),
+        apiKey
+      );
 
-    // HTTP 상태 코드별 에러 처리
-    const status =
-      error.status ||
-      error.statusCode ||
-      (error.message?.includes("찾을 수 없습니다") ? 404 : 500);
-    let errorMessage = error.message || "문서 목록 조회 중 오류가 발생했습니다";
+      return NextResponse.json<ApiResponse<ListDocumentsResponse>>({
+        success: true,
+        data: {
+          data: documents,
+          count: documents.length,
+        },
+      });
+    } catch (error: any) {
+      console.error("문서 목록 조회 오류:", error);
 
-    switch (status) {
-      case 401:
-        errorMessage = "API 키가 유효하지 않습니다.";
-        break;
-      case 403:
-        errorMessage =
-          "API 키 권한이 없거나 File Search가 활성화되지 않았습니다.";
-        break;
-      case 404:
-        // Keep the original error message for 404
-        break;
-      case 429:
-        errorMessage =
-          "API 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.";
-        break;
-      case 503:
-        errorMessage =
-          "Google AI 서비스가 일시적으로 사용 불가합니다. 잠시 후 다시 시도해주세요.";
-        break;
+      return handleApiError(error);
     }
-
-    return NextResponse.json<ApiResponse>(
-      {
-        success: false,
-        error: errorMessage,
-      },
-      { status }
-    );
-  }
-}
+  })
+);
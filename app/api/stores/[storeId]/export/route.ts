@@ -0,0 +1,59 @@
+/**
+ * Store Export API Route
+ * GET /api/stores/[storeId]/export - Export a JSON manifest of the store
+ *
+ * 스토어 설정과 문서별 표시 이름, MIME 타입, 크기, 메타데이터, 청킹 설정, 내용 해시를 반환합니다
+ * 파일 내용은 포함하지 않으며, 원본 파일의 ZIP과 함께 POST /api/stores/restore로 새 스토어에 복원할 수 있습니다
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getFileSearchStore } from "@/lib/gemini";
+import { exportStoreManifest } from "@/lib/store-backup";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import { parseWithSchema, storeParamsSchema } from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type { ApiResponse, StoreManifest } from "@/types";
+
+/**
+ * GET /api/stores/[storeId]/export
+ * Export store settings and every document's upload settings
+ */
+export const GET = withRateLimit(
+  "read",
+  withRetryReport(async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(storeParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId } = path.data;
+
+      const store = await getFileSearchStore(storeId, apiKey);
+      const manifest = await exportStoreManifest(store, apiKey);
+
+      return NextResponse.json<ApiResponse<StoreManifest>>({
+        success: true,
+        data: manifest,
+      });
+    } catch (error: any) {
+      console.error("매니페스트 내보내기 오류:", error);
+
+      return handleApiError(error);
+    }
+  })
+);
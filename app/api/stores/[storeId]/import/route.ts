@@ -0,0 +1,148 @@
+/**
+ * Archive Import API Route
+ * POST /api/stores/[storeId]/import - Import files from a ZIP archive
+ *
+ * 아카이브를 서버에서 풀어 지원하는 형식의 파일만 업로드하고 항목별 결과를 반환합니다
+ * 각 문서에는 아카이브 안의 경로(source_path)와 최상위 폴더(source_folder)가 메타데이터로 기록됩니다
+ * 내용이 같은 문서가 이미 있으면 duplicatePolicy(기본 skip)를 따르고, 항목별 정책은 경로로 지정합니다
+ * 진행 상태는 GET /api/operations/[id]로 확인합니다
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { importArchive } from "@/lib/archive-import";
+import { DEFAULT_CHUNKING_CONFIG } from "@/lib/chunking";
+import {
+  parseChunkingFields,
+  parseCustomMetadataField,
+  parseDuplicatePolicyFields,
+} from "@/lib/upload-form";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import { parseWithSchema, storeParamsSchema } from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type {
+  ApiResponse,
+  ArchiveImportResponse,
+  FileSearchStore,
+} from "@/types";
+
+/**
+ * POST /api/stores/[storeId]/import
+ * Expand a ZIP archive and upload each supported entry
+ */
+export const POST = withRateLimit(
+  "upload",
+  withRetryReport(async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(storeParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId } = path.data;
+
+      const formData = await request.formData();
+      const archive = formData.get("archive");
+
+      if (!(archive instanceof File)) {
+        return apiErrorResponse(
+          new ApiRouteError("NO_FILES", "ZIP 파일이 필요합니다")
+        );
+      }
+
+      console.log("\n📥 아카이브 가져오기 요청 수신", {
+        storeId,
+        fileName: archive.name,
+        fileSize: archive.size,
+      });
+
+      // Parse chunking config (모든 항목에 적용, 생략 시 기본값)
+      const chunking = parseChunkingFields(formData, DEFAULT_CHUNKING_CONFIG);
+      if ("error" in chunking) {
+        return apiErrorResponse(chunking.error);
+      }
+
+      // Parse custom metadata
+      const parsedMetadata = parseCustomMetadataField(
+        formData.get("customMetadata")
+      );
+      if ("error" in parsedMetadata) {
+        return apiErrorResponse(parsedMetadata.error);
+      }
+
+      // Parse duplicate policies
+      const duplicates = parseDuplicatePolicyFields(formData);
+      if ("error" in duplicates) {
+        return apiErrorResponse(duplicates.error);
+      }
+
+      // Create store object
+      const store: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
+
+      const report: ArchiveImportResponse = await importArchive(
+        store,
+        Buffer.from(await archive.arrayBuffer()),
+        { customMetadata: parsedMetadata.metadata, ...chunking.config },
+        duplicates.policies,
+        apiKey
+      );
+
+      // 지원하는 형식의 파일이 하나도 없으면 에러로 처리
+      if (report.successCount === 0 && report.failCount === 0) {
+        return apiErrorResponse(
+          new ApiRouteError(
+            "NO_FILES",
+            "ZIP 파일에 지원하는 형식의 파일이 없습니다",
+            { skippedCount: report.skippedCount }
+          ),
+          report
+        );
+      }
+
+      // 실패한 항목이 있으면 에러로 처리 (건너뛴 항목은 제외)
+      if (report.failCount > 0) {
+        const failedEntries = report.results
+          .filter((r) => !r.success && !r.skipped)
+          .map((r) => `• ${r.fileName}: ${r.error}`)
+          .join("\n");
+
+        return apiErrorResponse(
+          new ApiRouteError(
+            "UPLOAD_FAILED",
+            `${report.failCount}개 파일 업로드 실패:\n\n${failedEntries}`,
+            { failCount: report.failCount }
+          ),
+          report
+        );
+      }
+
+      return NextResponse.json<ApiResponse<ArchiveImportResponse>>({
+        success: true,
+        message: `${report.successCount}개 파일 업로드가 시작되었습니다`,
+        data: report,
+      });
+    } catch (error: any) {
+      console.error("아카이브 가져오기 오류:", error);
+
+      return handleApiError(error);
+    }
+  })
+);
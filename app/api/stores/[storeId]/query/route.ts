@@ -1,128 +1,140 @@
 /**
  * Query API Route
  * POST /api/stores/[storeId]/query - Execute RAG query
+ *
+ * query(단일 질문) 또는 contents(멀티턴 대화) 중 하나를 받습니다
+ *
+ * Accept 헤더로 스트리밍 모드를 선택할 수 있습니다
+ * - text/event-stream: Server-Sent Events
+ * - application/x-ndjson: 줄 단위 JSON
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { generateContentWithFileSearch } from "@/lib/gemini";
-import type { ApiResponse, QueryRequest, FileSearchStore } from "@/types";
+import {
+  generateContentWithFileSearch,
+  generateContentStreamWithFileSearch,
+} from "@/lib/gemini";
+import {
+  createQueryStreamResponse,
+  getStreamFormat,
+} from "@/lib/query-stream";
+import { resolveQueryInput } from "@/lib/query-request";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import {
+  parseJsonBody,
+  parseWithSchema,
+  queryRequestSchema,
+  storeParamsSchema,
+} from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type { ApiResponse, QueryResponseData, FileSearchStore } from "@/types";
 
 /**
  * POST /api/stores/[storeId]/query
  * Execute RAG query on store
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ storeId: string }> }
-) {
-  try {
-    const apiKey = request.headers.get("x-api-key");
+export const POST = withRateLimit(
+  "query",
+  withRetryReport(async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
 
-    if (!apiKey) {
-      return NextResponse.json<ApiResponse>(
-        {
-          success: false,
-          error: "API 키가 필요합니다. x-api-key 헤더를 포함해주세요.",
-        },
-        { status: 401 }
-      );
-    }
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
 
-    const { storeId } = await params;
-    const body: QueryRequest = await request.json();
-    const {
-      query,
-      metadataFilter,
-      model,
-      systemInstruction,
-      generationConfig,
-      safetySettings,
-    } = body;
+      const path = parseWithSchema(storeParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId } = path.data;
 
-    if (!query || !query.trim()) {
-      return NextResponse.json<ApiResponse>(
-        {
-          success: false,
-          error: "query가 필요합니다",
-        },
-        { status: 400 }
-      );
-    }
+      const body = await parseJsonBody(request, queryRequestSchema);
+      if ("error" in body) {
+        return apiErrorResponse(body.error);
+      }
+      const {
+        query,
+        contents,
+        metadataFilter,
+        model,
+        systemInstruction,
+        generationConfig,
+        safetySettings,
+      } = body.data;
 
-    const store: FileSearchStore = {
-      name: storeId,
-      displayName: storeId,
-      createTime: new Date().toISOString(),
-      updateTime: new Date().toISOString(),
-    };
+      const resolved = resolveQueryInput({ query, contents });
+      if ("error" in resolved) {
+        return apiErrorResponse(
+          new ApiRouteError("INVALID_REQUEST", resolved.error, {
+            field: contents !== undefined ? "contents" : "query",
+          })
+        );
+      }
+      const { input } = resolved;
 
-    const response = await generateContentWithFileSearch(
-      store,
-      query.trim(),
-      apiKey,
-      metadataFilter || null,
-      model || "gemini-2.5-flash",
-      systemInstruction,
-      generationConfig,
-      safetySettings
-    );
+      const store: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
 
-    return NextResponse.json<ApiResponse>({
-      success: true,
-      data: {
-        text: response.text,
-        groundingMetadata: response.groundingMetadata || null,
-      },
-    });
-  } catch (error: any) {
-    console.error("쿼리 실행 오류:", error);
+      const streamFormat = getStreamFormat(request.headers.get("accept"));
 
-    // API 에러 코드별 처리
-    const status = error.status || error.statusCode || 500;
-    let errorMessage =
-      error.message || "쿼리 실행 중 알 수 없는 오류가 발생했습니다";
-    let statusCode = 500;
+      if (streamFormat) {
+        const events = generateContentStreamWithFileSearch(
+          store,
+          input,
+          apiKey,
+          metadataFilter || null,
+          model || "gemini-2.5-flash",
+          systemInstruction,
+          generationConfig,
+          safetySettings,
+          request.signal
+        );
 
-    switch (status) {
-      case 400:
-        statusCode = 400;
-        errorMessage = `잘못된 요청입니다: ${error.message}`;
-        break;
-      case 403:
-        statusCode = 403;
-        errorMessage =
-          "API 키 권한이 없거나 File Search가 활성화되지 않았습니다.";
-        break;
-      case 404:
-        statusCode = 404;
-        errorMessage = `리소스를 찾을 수 없습니다: ${error.message}`;
-        break;
-      case 429:
-        statusCode = 429;
-        errorMessage =
-          "API 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.";
-        break;
-      case 500:
-        statusCode = 500;
-        errorMessage = `서버 오류가 발생했습니다: ${error.message}`;
-        break;
-      case 503:
-        statusCode = 503;
-        errorMessage =
-          "현재 Gemini 모델이 과부하 상태입니다. 잠시 후 다시 시도해주세요.";
-        break;
-      default:
-        statusCode = 500;
-        errorMessage = error.message || "알 수 없는 오류가 발생했습니다";
-    }
+        // 시작 단계 오류는 아래 catch에서 일반 JSON 에러로 응답
+        return await createQueryStreamResponse(
+          events,
+          streamFormat,
+          request.signal
+        );
+      }
+
+      const response = await generateContentWithFileSearch(
+        store,
+        input,
+        apiKey,
+        metadataFilter || null,
+        model || "gemini-2.5-flash",
+        systemInstruction,
+        generationConfig,
+        safetySettings
+      );
 
-    return NextResponse.json<ApiResponse>(
-      {
-        success: false,
-        error: errorMessage,
-        code: status,
-      },
-      { status: statusCode }
-    );
-  }
-}
+      return NextResponse.json<ApiResponse<QueryResponseData>>({
+        success: true,
+        data: {
+          text: response.text,
+          groundingMetadata: response.groundingMetadata || null,
+          usageMetadata: response.usageMetadata,
+        },
+      });
+    } catch (error: any) {
+      console.error("쿼리 실행 오류:", error);
+
+      return handleApiError(error);
+    }
+  })
+);
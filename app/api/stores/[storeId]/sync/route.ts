@@ -0,0 +1,154 @@
+/**
+ * Store Sync API Route
+ * POST /api/stores/[storeId]/sync - Mirror a directory or manifest into a store
+ *
+ * 서버 디렉터리(directory, SYNC_ROOT 기준) 또는 경로+해시 매니페스트(manifest)를
+ * 문서의 source_path, content_sha256 메타데이터와 비교해 새 파일은 업로드, 바뀐 파일은 교체하고
+ * deleteRemoved=true이면 없어진 파일의 문서를 삭제합니다
+ * dryRun=true이면 계획만 반환합니다 (매니페스트는 먼저 계획을 받아 업로드/교체할 파일만 files로 보낼 수 있음)
+ * 업로드/교체는 시작만 하고 응답하며, 항목별 operationName으로 인덱싱을 확인합니다
+ * (교체한 이전 버전은 GET /api/operations/[id]에서 인덱싱 완료가 확인되면 삭제)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveSyncDirectory, syncStore } from "@/lib/store-sync";
+import { DEFAULT_CHUNKING_CONFIG } from "@/lib/chunking";
+import {
+  parseChunkingFields,
+  parseCustomMetadataField,
+} from "@/lib/upload-form";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import {
+  parseWithSchema,
+  storeParamsSchema,
+  syncFieldsSchema,
+} from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type { SyncSource } from "@/lib/store-sync";
+import type { ApiResponse, FileSearchStore, SyncResponse } from "@/types";
+
+/**
+ * POST /api/stores/[storeId]/sync
+ * Upload new files, replace changed ones and optionally delete removed ones
+ */
+export const POST = withRateLimit(
+  "upload",
+  withRetryReport(async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const path = parseWithSchema(storeParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId } = path.data;
+
+      const formData = await request.formData();
+
+      // Parse sync source (directory 또는 manifest)
+      const fields = parseWithSchema(syncFieldsSchema, {
+        directory: formData.get("directory") ?? undefined,
+        manifest: formData.get("manifest") ?? undefined,
+        deleteRemoved: formData.get("deleteRemoved") || undefined,
+        dryRun: formData.get("dryRun") || undefined,
+      });
+      if ("error" in fields) {
+        return apiErrorResponse(fields.error);
+      }
+      const { directory, manifest, deleteRemoved, dryRun } = fields.data;
+
+      console.log("\n🔁 동기화 요청 수신", {
+        storeId,
+        directory,
+        manifestEntries: manifest?.length,
+        deleteRemoved,
+        dryRun,
+      });
+
+      // Parse chunking config (업로드/교체할 모든 파일에 적용, 생략 시 기본값)
+      const chunking = parseChunkingFields(formData, DEFAULT_CHUNKING_CONFIG);
+      if ("error" in chunking) {
+        return apiErrorResponse(chunking.error);
+      }
+
+      // Parse custom metadata
+      const parsedMetadata = parseCustomMetadataField(
+        formData.get("customMetadata")
+      );
+      if ("error" in parsedMetadata) {
+        return apiErrorResponse(parsedMetadata.error);
+      }
+
+      // 매니페스트의 파일 내용은 files 필드 (파일 이름이 매니페스트의 path)
+      let source: SyncSource;
+      if (directory !== undefined) {
+        source = { directory: await resolveSyncDirectory(directory) };
+      } else {
+        const files = new Map<string, Uint8Array>();
+        for (const file of formData.getAll("files")) {
+          if (file instanceof File) {
+            files.set(file.name, new Uint8Array(await file.arrayBuffer()));
+          }
+        }
+        source = { manifest: manifest!, files };
+      }
+
+      // Create store object
+      const store: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
+
+      const report: SyncResponse = await syncStore(
+        store,
+        source,
+        { customMetadata: parsedMetadata.metadata, ...chunking.config },
+        { deleteRemoved, dryRun },
+        apiKey
+      );
+      const { upload, replace, delete: removed, unchanged } = report.summary;
+
+      // 실패한 항목이 있으면 에러로 처리
+      if (report.failCount > 0) {
+        const failedItems = report.items
+          .filter((item) => item.success === false)
+          .map((item) => `• ${item.path}: ${item.error}`)
+          .join("\n");
+
+        return apiErrorResponse(
+          new ApiRouteError(
+            "UPLOAD_FAILED",
+            `${report.failCount}개 파일 동기화 실패:\n\n${failedItems}`,
+            { failCount: report.failCount }
+          ),
+          report
+        );
+      }
+
+      return NextResponse.json<ApiResponse<SyncResponse>>({
+        success: true,
+        message: `${dryRun ? "동기화 계획" : "동기화 완료"}: 업로드 ${upload}, 교체 ${replace}, 삭제 ${removed}, 변경 없음 ${unchanged}`,
+        data: report,
+      });
+    } catch (error: any) {
+      console.error("동기화 오류:", error);
+
+      return handleApiError(error);
+    }
+  })
+);
@@ -1,238 +1,245 @@
 /**
  * Upload API Route
  * POST /api/stores/[storeId]/upload - Upload files to store
+ *
+ * 파일 전송 후 인덱싱 완료를 기다리지 않고 파일별 operation 이름을 바로 반환합니다
+ * 진행 상태는 GET /api/operations/[id]로 확인합니다
+ *
+ * files 대신 url 필드를 보내면 웹 페이지(또는 사이트맵)를 가져와 페이지별로 업로드합니다 (lib/url-ingest.ts)
+ *
+ * 내용(SHA-256)이 같은 문서가 이미 있으면 duplicatePolicy(기본 skip)에 따라 건너뛰거나 교체합니다
+ * 파일별 정책은 duplicatePolicies({ 파일명: 정책 } JSON)로 지정합니다 (lib/upload-dedup.ts)
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { uploadWithCustomChunking } from "@/lib/gemini";
+import { createUploadDeduplicator } from "@/lib/upload-dedup";
+import { ingestUrls } from "@/lib/url-ingest";
+import { DEFAULT_CHUNKING_CONFIG } from "@/lib/chunking";
+import {
+  MAX_FILE_SIZE,
+  MAX_FILES,
+  parseChunkingFields,
+  parseCustomMetadataField,
+  parseDuplicatePolicyFields,
+  parseUrlIngestFields,
+} from "@/lib/upload-form";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import { parseWithSchema, storeParamsSchema } from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
 import type { ApiResponse, UploadFileResult, FileSearchStore } from "@/types";
 
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-const MAX_FILES = 10;
-
 /**
  * POST /api/stores/[storeId]/upload
  * Upload multiple files to store
  */
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ storeId: string }> }
-) {
-  try {
-    const apiKey = request.headers.get("x-api-key");
-
-    if (!apiKey) {
-      return NextResponse.json<ApiResponse>(
-        {
-          success: false,
-          error: "API 키가 필요합니다. x-api-key 헤더를 포함해주세요.",
-        },
-        { status: 401 }
-      );
-    }
+export const POST = withRateLimit(
+  "upload",
+  withRetryReport(async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ storeId: string }> }
+  ) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
 
-    const { storeId } = await params;
+      const path = parseWithSchema(storeParamsSchema, await params);
+      if ("error" in path) {
+        return apiErrorResponse(path.error);
+      }
+      const { storeId } = path.data;
+
+      console.log("\n📥 파일 업로드 요청 수신", {
+        storeId,
+        hasApiKey: !!apiKey,
+      });
+
+      // Parse FormData
+      const formData = await request.formData();
+      const files = formData.getAll("files") as File[];
+      const isUrlMode = formData.has("url");
+
+      if (isUrlMode && files.length > 0) {
+        return apiErrorResponse(
+          new ApiRouteError(
+            "INVALID_REQUEST",
+            "files와 url은 함께 보낼 수 없습니다",
+            { field: "url" }
+          )
+        );
+      }
 
-    console.log("\n📥 파일 업로드 요청 수신", {
-      storeId,
-      hasApiKey: !!apiKey,
-    });
+      if (!isUrlMode && (!files || files.length === 0)) {
+        return apiErrorResponse(new ApiRouteError("NO_FILES"));
+      }
 
-    // Parse FormData
-    const formData = await request.formData();
-    const files = formData.getAll("files") as File[];
-    const customMetadataStr = formData.get("customMetadata") as string | null;
+      if (files.length > MAX_FILES) {
+        return apiErrorResponse(
+          new ApiRouteError(
+            "TOO_MANY_FILES",
+            `최대 ${MAX_FILES}개의 파일만 업로드 가능합니다`,
+            { max: MAX_FILES }
+          )
+        );
+      }
 
-    if (!files || files.length === 0) {
-      return NextResponse.json<ApiResponse>(
-        {
-          success: false,
-          error: "파일이 없습니다",
-        },
-        { status: 400 }
-      );
-    }
+      // Parse chunking config (배치 단위, 생략 시 기본값)
+      const chunking = parseChunkingFields(formData, DEFAULT_CHUNKING_CONFIG);
+      if ("error" in chunking) {
+        return apiErrorResponse(chunking.error);
+      }
 
-    if (files.length > MAX_FILES) {
-      return NextResponse.json<ApiResponse>(
-        {
-          success: false,
-          error: `최대 ${MAX_FILES}개의 파일만 업로드 가능합니다`,
-        },
-        { status: 400 }
+      // Parse custom metadata
+      const parsedMetadata = parseCustomMetadataField(
+        formData.get("customMetadata")
       );
-    }
-
-    // Create store object
-    const store: FileSearchStore = {
-      name: storeId,
-      displayName: storeId,
-      createTime: new Date().toISOString(),
-      updateTime: new Date().toISOString(),
-    };
-
-    // Parse custom metadata
-    let customMetadata: Array<{ key: string; value: any }> = [];
-    if (customMetadataStr) {
-      try {
-        const parsed = JSON.parse(customMetadataStr);
-        // Convert to API format
-        customMetadata = parsed.map((meta: any) => {
-          const result: any = { key: meta.key };
-
-          if (meta.type === "number") {
-            result.numericValue = parseFloat(meta.value);
-          } else if (meta.type === "stringList") {
-            // Parse comma-separated values
-            const values = meta.value
-              .split(",")
-              .map((v: string) => v.trim())
-              .filter((v: string) => v);
-            result.stringListValue = { values };
-          } else {
-            result.stringValue = meta.value;
-          }
+      if ("error" in parsedMetadata) {
+        return apiErrorResponse(parsedMetadata.error);
+      }
+      const customMetadata = parsedMetadata.metadata || [];
 
-          return result;
-        });
-      } catch (error) {
-        console.error("Failed to parse customMetadata:", error);
+      // Parse duplicate policies
+      const duplicates = parseDuplicatePolicyFields(formData);
+      if ("error" in duplicates) {
+        return apiErrorResponse(duplicates.error);
       }
-    }
 
-    // Process files
-    const results: UploadFileResult[] = [];
-    let successCount = 0;
-    let failCount = 0;
-
-    for (const file of files) {
-      try {
-        // Validate file size
-        if (file.size > MAX_FILE_SIZE) {
-          results.push({
-            fileName: file.name,
-            success: false,
-            error: `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
-          });
-          failCount++;
-          continue;
+      // Create store object
+      const store: FileSearchStore = {
+        name: storeId,
+        displayName: storeId,
+        createTime: new Date().toISOString(),
+        updateTime: new Date().toISOString(),
+      };
+
+      let results: UploadFileResult[];
+
+      if (isUrlMode) {
+        // Fetch pages (한 페이지씩 가져와 업로드 시작)
+        const urlIngest = parseUrlIngestFields(formData);
+        if ("error" in urlIngest) {
+          return apiErrorResponse(urlIngest.error);
         }
 
-        const bytes = await file.arrayBuffer();
-        const buffer = Buffer.from(bytes);
-
-        console.log(`\n📤 파일 업로드 준비:`, {
-          fileName: file.name,
-          fileSize: file.size,
-          mimeType: file.type,
-        });
-
-        // Upload to Gemini directly using buffer
-        await uploadWithCustomChunking(
+        results = await ingestUrls(
           store,
-          buffer,
+          urlIngest.options,
           {
-            displayName: file.name,
-            mimeType: file.type,
             customMetadata:
               customMetadata.length > 0 ? customMetadata : undefined,
+            ...chunking.config,
           },
+          duplicates.policies,
           apiKey
         );
-
-        console.log(`✅ 파일 업로드 완료: ${file.name}`);
-
-        results.push({
-          fileName: file.name,
-          success: true,
-        });
-
-        successCount++;
-      } catch (error: any) {
-        console.error(`파일 업로드 오류 (${file.name}):`, error);
-        results.push({
-          fileName: file.name,
-          success: false,
-          error: error.message || "업로드 중 오류가 발생했습니다",
-        });
-        failCount++;
+      } else {
+        // Process files (병렬로 업로드 시작, 같은 내용의 문서는 정책에 따라 처리)
+        const uploader = createUploadDeduplicator(
+          store,
+          duplicates.policies,
+          apiKey
+        );
+        results = await Promise.all(
+          files.map(async (file): Promise<UploadFileResult> => {
+            try {
+              // Validate file size
+              if (file.size > MAX_FILE_SIZE) {
+                throw new ApiRouteError(
+                  "FILE_TOO_LARGE",
+                  `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
+                  { maxSize: MAX_FILE_SIZE / 1024 / 1024 }
+                );
+              }
+
+              const bytes = await file.arrayBuffer();
+              const buffer = Buffer.from(bytes);
+
+              console.log(`\n📤 파일 업로드 준비:`, {
+                fileName: file.name,
+                fileSize: file.size,
+                mimeType: file.type,
+              });
+
+              // Upload to Gemini directly using buffer (인덱싱은 비동기로 진행)
+              const result = await uploader.upload(file.name, buffer, {
+                displayName: file.name,
+                mimeType: file.type,
+                customMetadata:
+                  customMetadata.length > 0 ? customMetadata : undefined,
+                ...chunking.config,
+              });
+
+              if (result.operationName) {
+                console.log(`✅ 파일 전송 완료: ${file.name}`);
+              }
+
+              return result;
+            } catch (error: any) {
+              console.error(`파일 업로드 오류 (${file.name}):`, error);
+              const apiError = toApiRouteError(error);
+              return {
+                fileName: file.name,
+                success: false,
+                error: apiError.message,
+                code: apiError.code,
+                details: apiError.details,
+              };
+            }
+          })
+        );
       }
-    }
 
-    // 실패한 파일이 있으면 에러로 처리
-    if (failCount > 0) {
-      const failedFiles = results
-        .filter((r) => !r.success)
-        .map((r) => `• ${r.fileName}: ${r.error}`)
-        .join("\n");
-
-      return NextResponse.json<ApiResponse>(
-        {
-          success: false,
-          error: `${failCount}개 파일 업로드 실패:\n\n${failedFiles}`,
-          data: {
+      const successCount = results.filter((r) => r.success).length;
+      const failCount = results.length - successCount;
+      const skippedCount = results.filter(
+        (r) => r.duplicate?.policy === "skip"
+      ).length;
+
+      // 실패한 파일이 있으면 에러로 처리
+      if (failCount > 0) {
+        const failedFiles = results
+          .filter((r) => !r.success)
+          .map((r) => `• ${r.fileName}: ${r.error}`)
+          .join("\n");
+
+        return apiErrorResponse(
+          new ApiRouteError(
+            "UPLOAD_FAILED",
+            `${failCount}개 파일 업로드 실패:\n\n${failedFiles}`,
+            { failCount }
+          ),
+          {
             results,
             successCount,
             failCount,
-          },
+          }
+        );
+      }
+
+      return NextResponse.json<ApiResponse>({
+        success: true,
+        message:
+          skippedCount > 0
+            ? `${successCount - skippedCount}개 파일 업로드가 시작되었습니다 (중복 ${skippedCount}개 건너뜀)`
+            : `${successCount}개 파일 업로드가 시작되었습니다`,
+        data: {
+          results,
+          successCount,
+          failCount,
         },
-        { status: 400 }
-      );
-    }
+      });
+    } catch (error: any) {
+      console.error("파일 업로드 오류:", error);
 
-    return NextResponse.json<ApiResponse>({
-      success: true,
-      message: `${successCount}개 파일이 성공적으로 업로드되었습니다`,
-      data: {
-        results,
-        successCount,
-        failCount,
-      },
-    });
-  } catch (error: any) {
-    console.error("파일 업로드 오류:", error);
-
-    // HTTP 상태 코드별 에러 처리
-    const status =
-      error.status ||
-      error.statusCode ||
-      (error.message?.includes("찾을 수 없습니다") ? 404 : 500);
-    let errorMessage = error.message || "파일 업로드 중 오류가 발생했습니다";
-
-    switch (status) {
-      case 400:
-        errorMessage = `잘못된 요청입니다: ${error.message}`;
-        break;
-      case 401:
-        errorMessage = "API 키가 유효하지 않습니다.";
-        break;
-      case 403:
-        errorMessage =
-          "API 키 권한이 없거나 File Search가 활성화되지 않았습니다.";
-        break;
-      case 404:
-        // Keep the original error message for 404
-        break;
-      case 413:
-        errorMessage =
-          "파일 크기가 너무 큽니다. 50MB 이하의 파일만 업로드 가능합니다.";
-        break;
-      case 429:
-        errorMessage =
-          "API 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.";
-        break;
-      case 503:
-        errorMessage =
-          "Google AI 서비스가 일시적으로 사용 불가합니다. 잠시 후 다시 시도해주세요.";
-        break;
+      return handleApiError(error);
     }
-
-    return NextResponse.json<ApiResponse>(
-      {
-        success: false,
-        error: errorMessage,
-      },
-      { status }
-    );
-  }
-}
+  })
+);
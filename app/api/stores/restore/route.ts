@@ -0,0 +1,104 @@
+/**
+ * Store Restore API Route
+ * POST /api/stores/restore - Restore an exported manifest into a new store
+ *
+ * 새 스토어를 만들고 원본 파일 ZIP(archive)의 항목을 매니페스트(manifest)의 문서와 연결해
+ * 같은 표시 이름, 메타데이터, 청킹 설정으로 다시 업로드합니다
+ * 아카이브에 없는 문서(missing)와 사용하지 않은 항목(unmatchedFiles)은 결과에 포함됩니다
+ * 진행 상태는 GET /api/operations/[id]로 확인합니다
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { restoreStore } from "@/lib/store-backup";
+import { resolveApiKey } from "@/lib/api-key";
+import { ApiRouteError } from "@/lib/api-error";
+import { parseWithSchema, restoreFieldsSchema } from "@/lib/schemas";
+import {
+  apiErrorResponse,
+  handleApiError,
+  withRateLimit,
+  withRetryReport,
+} from "@/lib/api-response";
+import type { ApiResponse, RestoreStoreResponse } from "@/types";
+
+/**
+ * POST /api/stores/restore
+ * Create a store and re-upload the archived files listed in the manifest
+ */
+export const POST = withRateLimit(
+  "upload",
+  withRetryReport(async function POST(request: NextRequest) {
+    try {
+      const apiKey = resolveApiKey(request);
+
+      if (!apiKey) {
+        return apiErrorResponse(new ApiRouteError("MISSING_API_KEY"));
+      }
+
+      const formData = await request.formData();
+      const archive = formData.get("archive");
+
+      if (!(archive instanceof File)) {
+        return apiErrorResponse(
+          new ApiRouteError("NO_FILES", "ZIP 파일이 필요합니다")
+        );
+      }
+
+      // manifest는 JSON 파일 또는 문자열
+      const manifestField = formData.get("manifest");
+      const fields = parseWithSchema(restoreFieldsSchema, {
+        manifest:
+          manifestField instanceof File
+            ? await manifestField.text()
+            : (manifestField ?? undefined),
+        displayName: formData.get("displayName") || undefined,
+      });
+      if ("error" in fields) {
+        return apiErrorResponse(fields.error);
+      }
+      const { manifest } = fields.data;
+      const displayName = fields.data.displayName || manifest.store.displayName;
+
+      console.log("\n♻️  스토어 복원 요청 수신", {
+        displayName,
+        documents: manifest.documents.length,
+        fileName: archive.name,
+        fileSize: archive.size,
+      });
+
+      const report: RestoreStoreResponse = await restoreStore(
+        manifest,
+        Buffer.from(await archive.arrayBuffer()),
+        displayName,
+        apiKey
+      );
+
+      // 업로드에 실패한 문서가 있으면 에러로 처리 (스토어는 이미 생성됨)
+      if (report.failCount > 0) {
+        const failedDocuments = report.results
+          .filter((r) => !r.success && !r.missing)
+          .map((r) => `• ${r.fileName}: ${r.error}`)
+          .join("\n");
+
+        return apiErrorResponse(
+          new ApiRouteError(
+            "UPLOAD_FAILED",
+            `${report.failCount}개 문서 복원 실패:\n\n${failedDocuments}`,
+            { failCount: report.failCount }
+          ),
+          report
+        );
+      }
+
+      return NextResponse.json<ApiResponse<RestoreStoreResponse>>({
+        success: true,
+        message: `스토어가 복원되었습니다: ${report.successCount}개 문서 업로드 시작, ${report.missingCount}개 누락`,
+        data: report,
+      });
+    } catch (error: any) {
+      console.error("스토어 복원 오류:", error);
+
+      return handleApiError(error);
+    }
+  })
+);
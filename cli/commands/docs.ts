@@ -0,0 +1,405 @@
+/**
+ * docs 명령
+ *
+ * docs list <storeId>                           문서 목록
+ * docs upload <storeId> <path|glob...>          파일 업로드 (메타데이터/청킹 옵션은 모든 파일에 적용)
+ * docs delete <storeId> <docName>               문서 삭제 (문서 ID 또는 표시 이름)
+ * docs replace <storeId> <docName> <path>       문서 교체 (생략한 메타데이터/청킹은 이전 버전 유지)
+ * docs import <storeId> <zip>                   ZIP 아카이브 가져오기 (경로는 source_path/source_folder 메타데이터)
+ * docs fetch <storeId> <url>                    웹 페이지/사이트맵 가져오기 (URL은 source_url 메타데이터)
+ * docs sync <storeId> <dir>                     디렉터리를 스토어에 동기화 (--delete, --dry-run)
+ *
+ * --wait를 지정하면 인덱싱 완료까지 기다립니다
+ * 내용이 같은 문서가 이미 있으면 --on-duplicate(기본 skip)에 따라 건너뛰거나 교체합니다 (upload/import/fetch)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  deleteDocument,
+  getUploadOperation,
+  listDocuments,
+  resolveDocument,
+  startReplaceDocument,
+  sweepReplacedDocuments,
+} from "@/lib/gemini";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import { importArchive } from "@/lib/archive-import";
+import {
+  createUploadDeduplicator,
+  type UploadDeduplicator,
+} from "@/lib/upload-dedup";
+import { ingestUrls } from "@/lib/url-ingest";
+import { syncStore } from "@/lib/store-sync";
+import { DEFAULT_CHUNKING_CONFIG, readChunkingMetadata } from "@/lib/chunking";
+import { MAX_FILE_SIZE } from "@/lib/upload-form";
+import { formatFileSize } from "@/lib/utils";
+import { expandGlobs } from "../glob";
+import {
+  loadStore,
+  parseChunkingOptions,
+  parseDuplicatePolicyOptions,
+  parseMetadataOptions,
+  parseUrlIngestOptions,
+  requireArg,
+  waitForOperation,
+  type CliContext,
+  type CommandResult,
+} from "../context";
+import type {
+  ArchiveEntryResult,
+  ReplaceDocumentResponse,
+  SyncItem,
+  UploadFileResult,
+  UploadFilesResponse,
+  UploadOptions,
+} from "@/types";
+
+/**
+ * 로컬 파일 크기 확인 (업로드 라우트와 같은 제한)
+ */
+async function assertFileSize(filePath: string): Promise<void> {
+  const { size } = await fs.promises.stat(filePath);
+  if (size > MAX_FILE_SIZE) {
+    throw new ApiRouteError(
+      "FILE_TOO_LARGE",
+      `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
+      { maxSize: MAX_FILE_SIZE / 1024 / 1024 }
+    );
+  }
+}
+
+/**
+ * 파일 하나 업로드 (실패해도 throw하지 않고 결과로 반환)
+ */
+async function uploadFile(
+  ctx: CliContext,
+  uploader: UploadDeduplicator,
+  filePath: string,
+  options: UploadOptions
+): Promise<UploadFileResult> {
+  const relative = path.relative(process.cwd(), filePath);
+  const fileName = relative.startsWith("..") ? filePath : relative;
+
+  try {
+    await assertFileSize(filePath);
+
+    const result = await uploader.upload(fileName, filePath, {
+      ...options,
+      displayName: path.basename(filePath),
+    });
+    if (ctx.options.wait && result.operationName) {
+      const operation = await waitForOperation(
+        await getUploadOperation(result.operationName, ctx.apiKey),
+        ctx.apiKey
+      );
+      if (operation.error) {
+        return { ...result, success: false, error: operation.error.message };
+      }
+    }
+
+    return result;
+  } catch (error: any) {
+    const apiError = toApiRouteError(error);
+    return {
+      fileName,
+      success: false,
+      error: apiError.message,
+      code: apiError.code,
+      details: apiError.details,
+    };
+  }
+}
+
+/**
+ * 업로드가 시작된 결과의 인덱싱 완료 대기 (실패한 항목은 결과에 반영)
+ *
+ * @returns 인덱싱에 실패한 항목 수
+ */
+async function waitForResults(
+  ctx: CliContext,
+  results: Array<UploadFileResult | SyncItem>
+): Promise<number> {
+  let failed = 0;
+  for (const result of results) {
+    if (!result.success || !result.operationName) continue;
+    const operation = await waitForOperation(
+      await getUploadOperation(result.operationName, ctx.apiKey),
+      ctx.apiKey
+    );
+    if (operation.error) {
+      result.success = false;
+      result.error = operation.error.message;
+      failed++;
+    }
+  }
+  return failed;
+}
+
+/**
+ * 결과 한 줄 (상태, 파일명, operation 이름 또는 사유)
+ */
+function formatResult(result: ArchiveEntryResult): string {
+  if (!result.success) {
+    const status = result.skipped ? "skipped" : "failed";
+    return `${status}\t${result.fileName}\t${result.error}`;
+  }
+  if (result.duplicate?.policy === "skip") {
+    return `duplicate\t${result.fileName}\t${result.duplicate.displayName}`;
+  }
+  const status = result.duplicate?.policy === "replace" ? "replaced" : "ok";
+  return `${status}\t${result.fileName}\t${result.operationName}`;
+}
+
+/**
+ * 동기화 항목 한 줄 (+ 업로드, ~ 교체, - 삭제, = 변경 없음, 실패하면 사유)
+ */
+function formatSyncItem(item: SyncItem): string {
+  const marks = { upload: "+", replace: "~", delete: "-", unchanged: "=" };
+  const line = `${marks[item.action]} ${item.path}`;
+  return item.success === false ? `${line}\tfailed\t${item.error}` : line;
+}
+
+/**
+ * 중복으로 건너뛴 결과 수
+ */
+function countSkippedDuplicates(results: UploadFileResult[]): number {
+  return results.filter((r) => r.duplicate?.policy === "skip").length;
+}
+
+export async function runDocsCommand(
+  ctx: CliContext,
+  [action, storeId, ...args]: string[]
+): Promise<CommandResult> {
+  switch (action) {
+    case "list": {
+      const store = await loadStore(ctx, storeId);
+      const documents = await sweepReplacedDocuments(
+        await listDocuments(store, ctx.apiKey),
+        ctx.apiKey
+      );
+      return {
+        data: { data: documents, count: documents.length },
+        text: documents
+          .map((document) =>
+            [
+              document.name.substring(document.name.lastIndexOf("/") + 1),
+              document.displayName,
+              document.state || "",
+              formatFileSize(Number(document.sizeBytes ?? 0)),
+            ].join("\t")
+          )
+          .join("\n"),
+      };
+    }
+
+    case "upload": {
+      const store = await loadStore(ctx, storeId);
+      const customMetadata = parseMetadataOptions(ctx.options);
+      const chunking = parseChunkingOptions(
+        ctx.options,
+        DEFAULT_CHUNKING_CONFIG
+      );
+      const files = await expandGlobs(args);
+      const uploader = createUploadDeduplicator(
+        store,
+        parseDuplicatePolicyOptions(ctx.options),
+        ctx.apiKey
+      );
+
+      // 할당량을 고려해 한 파일씩 업로드
+      const results: UploadFileResult[] = [];
+      for (const filePath of files) {
+        results.push(
+          await uploadFile(ctx, uploader, filePath, {
+            customMetadata,
+            ...chunking,
+          })
+        );
+      }
+
+      const successCount = results.filter((r) => r.success).length;
+      const failCount = results.length - successCount;
+      const duplicateCount = countSkippedDuplicates(results);
+      const data: UploadFilesResponse = { results, successCount, failCount };
+
+      return {
+        data,
+        failed: failCount > 0,
+        text: [
+          ...results.map(formatResult),
+          `${successCount - duplicateCount} uploaded, ${duplicateCount} duplicates skipped, ${failCount} failed`,
+        ].join("\n"),
+      };
+    }
+
+    case "delete": {
+      const store = await loadStore(ctx, storeId);
+      const document = await resolveDocument(
+        store,
+        requireArg(args[0], "docName"),
+        ctx.apiKey
+      );
+      await deleteDocument(document, ctx.apiKey);
+      return {
+        data: { name: document.name, displayName: document.displayName },
+        text: `deleted ${document.displayName}`,
+      };
+    }
+
+    case "replace": {
+      const store = await loadStore(ctx, storeId);
+      const docName = requireArg(args[0], "docName");
+      const filePath = path.resolve(requireArg(args[1], "path"));
+      const customMetadata = parseMetadataOptions(ctx.options);
+      await assertFileSize(filePath);
+
+      const previous = await resolveDocument(store, docName, ctx.apiKey);
+      const chunking = parseChunkingOptions(
+        ctx.options,
+        readChunkingMetadata(previous.customMetadata) || DEFAULT_CHUNKING_CONFIG
+      );
+
+      const started = await startReplaceDocument(
+        store,
+        previous,
+        filePath,
+        { customMetadata, ...chunking },
+        ctx.apiKey
+      );
+      const { version } = started;
+      let { operation } = started;
+      if (ctx.options.wait) {
+        operation = await waitForOperation(operation, ctx.apiKey);
+        if (operation.error) {
+          throw new Error(operation.error.message);
+        }
+      }
+
+      const data: ReplaceDocumentResponse = {
+        displayName: previous.displayName,
+        version,
+        previousDocumentName: previous.name,
+        operationName: operation.name,
+      };
+      return {
+        data,
+        text: `replaced ${previous.displayName} (v${version})\t${operation.name}`,
+      };
+    }
+
+    case "import": {
+      const store = await loadStore(ctx, storeId);
+      const archivePath = path.resolve(requireArg(args[0], "zip"));
+      const customMetadata = parseMetadataOptions(ctx.options);
+      const chunking = parseChunkingOptions(
+        ctx.options,
+        DEFAULT_CHUNKING_CONFIG
+      );
+
+      const report = await importArchive(
+        store,
+        await fs.promises.readFile(archivePath),
+        { customMetadata, ...chunking },
+        parseDuplicatePolicyOptions(ctx.options),
+        ctx.apiKey
+      );
+
+      // 인덱싱 완료 대기 (업로드가 시작된 항목만)
+      if (ctx.options.wait) {
+        const failed = await waitForResults(ctx, report.results);
+        report.successCount -= failed;
+        report.failCount += failed;
+      }
+
+      return {
+        data: report,
+        failed: report.failCount > 0 || report.successCount === 0,
+        text: [
+          ...report.results.map(formatResult),
+          `${report.successCount - countSkippedDuplicates(report.results)} uploaded, ${countSkippedDuplicates(report.results)} duplicates skipped, ${report.failCount} failed, ${report.skippedCount} skipped`,
+        ].join("\n"),
+      };
+    }
+
+    case "fetch": {
+      const store = await loadStore(ctx, storeId);
+      const ingestOptions = parseUrlIngestOptions(
+        requireArg(args[0], "url"),
+        ctx.options
+      );
+      const customMetadata = parseMetadataOptions(ctx.options);
+      const chunking = parseChunkingOptions(
+        ctx.options,
+        DEFAULT_CHUNKING_CONFIG
+      );
+
+      const results = await ingestUrls(
+        store,
+        ingestOptions,
+        { customMetadata, ...chunking },
+        parseDuplicatePolicyOptions(ctx.options),
+        ctx.apiKey
+      );
+      if (ctx.options.wait) {
+        await waitForResults(ctx, results);
+      }
+
+      const successCount = results.filter((r) => r.success).length;
+      const failCount = results.length - successCount;
+      const duplicateCount = countSkippedDuplicates(results);
+      const data: UploadFilesResponse = { results, successCount, failCount };
+
+      return {
+        data,
+        failed: failCount > 0,
+        text: [
+          ...results.map(formatResult),
+          `${successCount - duplicateCount} fetched, ${duplicateCount} duplicates skipped, ${failCount} failed`,
+        ].join("\n"),
+      };
+    }
+
+    case "sync": {
+      const store = await loadStore(ctx, storeId);
+      const directory = path.resolve(requireArg(args[0], "dir"));
+      const customMetadata = parseMetadataOptions(ctx.options);
+      const chunking = parseChunkingOptions(
+        ctx.options,
+        DEFAULT_CHUNKING_CONFIG
+      );
+      const dryRun = Boolean(ctx.options["dry-run"]);
+
+      const report = await syncStore(
+        store,
+        { directory },
+        { customMetadata, ...chunking },
+        { deleteRemoved: Boolean(ctx.options.delete), dryRun },
+        ctx.apiKey
+      );
+      // 교체한 이전 버전은 인덱싱이 끝나야 삭제되므로 --wait 없이도 완료까지 대기
+      report.failCount += await waitForResults(ctx, report.items);
+      const { upload, replace, delete: removed, unchanged } = report.summary;
+
+      return {
+        data: report,
+        failed: report.failCount > 0,
+        text: [
+          ...report.items
+            .filter((item) => item.action !== "unchanged")
+            .map(formatSyncItem),
+          dryRun
+            ? `plan: ${upload} to upload, ${replace} to replace, ${removed} to delete, ${unchanged} unchanged`
+            : `${upload} uploaded, ${replace} replaced, ${removed} deleted, ${unchanged} unchanged, ${report.failCount} failed`,
+        ].join("\n"),
+      };
+    }
+
+    default:
+      throw new ApiRouteError(
+        "INVALID_REQUEST",
+        `알 수 없는 docs 명령입니다: ${action ?? ""}`,
+        { field: "command" }
+      );
+  }
+}
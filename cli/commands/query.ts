@@ -0,0 +1,121 @@
+/**
+ * query 명령
+ *
+ * query --store <storeId> [--store <storeId>...] <question>
+ *   --filter   메타데이터 필터 (AIP-160)
+ *   --model    모델 (기본값: gemini-2.5-flash)
+ *   --system   시스템 지시사항
+ *   --stream   답변을 도착하는 대로 출력 (--json과 함께 쓰면 NDJSON 이벤트)
+ */
+
+import {
+  generateContentStreamWithFileSearch,
+  generateContentWithFileSearch,
+  getFileSearchStore,
+} from "@/lib/gemini";
+import { encodeStreamEvent } from "@/lib/query-stream";
+import { multiStoreQueryRequestSchema, parseWithSchema } from "@/lib/schemas";
+import { requireArg, type CliContext, type CommandResult } from "../context";
+import type { GroundingMetadata, QueryResponseData } from "@/types";
+
+/**
+ * 출처 목록 (기본 출력용)
+ */
+function formatSources(
+  groundingMetadata: GroundingMetadata | null | undefined
+): string {
+  const titles = new Set(
+    (groundingMetadata?.groundingChunks || [])
+      .map((chunk) => {
+        const title = chunk.retrievedContext?.title;
+        if (!title) return null;
+        return chunk.store ? `${chunk.store.displayName}/${title}` : title;
+      })
+      .filter((title): title is string => Boolean(title))
+  );
+  return titles.size > 0
+    ? `\n\nSources:\n${Array.from(titles)
+        .map((title) => `- ${title}`)
+        .join("\n")}`
+    : "";
+}
+
+export async function runQueryCommand(
+  ctx: CliContext,
+  args: string[]
+): Promise<CommandResult> {
+  const { options } = ctx;
+
+  const body = parseWithSchema(multiStoreQueryRequestSchema, {
+    storeIds: options.store || [],
+    query: requireArg(args.join(" "), "question"),
+    metadataFilter: options.filter,
+    model: options.model,
+    systemInstruction: options.system,
+  });
+  if ("error" in body) {
+    throw body.error;
+  }
+  const { storeIds, metadataFilter, model, systemInstruction } = body.data;
+  const query = body.data.query!;
+
+  // 출처 표시에 사용할 표시 이름을 위해 스토어 조회 (없는 스토어는 404)
+  const stores = await Promise.all(
+    Array.from(new Set(storeIds)).map((storeId) =>
+      getFileSearchStore(storeId, ctx.apiKey)
+    )
+  );
+
+  if (options.stream) {
+    const events = generateContentStreamWithFileSearch(
+      stores,
+      query,
+      ctx.apiKey,
+      metadataFilter || null,
+      model || "gemini-2.5-flash",
+      systemInstruction
+    );
+
+    let data: QueryResponseData | null = null;
+    for await (const event of events) {
+      if (options.json) {
+        ctx.write(encodeStreamEvent(event, "ndjson"));
+      } else if (event.type === "delta") {
+        ctx.write(event.text);
+      }
+      if (event.type === "done") {
+        data = {
+          text: event.text,
+          groundingMetadata: event.groundingMetadata,
+          usageMetadata: event.usageMetadata,
+        };
+      }
+    }
+
+    // 답변은 이미 출력했으므로 출처만 추가로 출력
+    return {
+      data,
+      text: data ? formatSources(data.groundingMetadata).trimStart() : "",
+      streamed: true,
+    };
+  }
+
+  const response = await generateContentWithFileSearch(
+    stores,
+    query,
+    ctx.apiKey,
+    metadataFilter || null,
+    model || "gemini-2.5-flash",
+    systemInstruction
+  );
+  const data: QueryResponseData = {
+    text: response.text,
+    groundingMetadata: response.groundingMetadata || null,
+    usageMetadata: response.usageMetadata,
+  };
+
+  return {
+    data,
+    text: `${data.text}${formatSources(data.groundingMetadata)}`,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * stores 명령
+ *
+ * stores list                  스토어 목록
+ * stores create <displayName>  스토어 생성
+ * stores delete <storeId>      스토어 삭제 (문서 포함)
+ * stores export <storeId>      스토어 매니페스트 JSON 출력 (파일 내용 제외)
+ * stores restore <manifest> <zip>  매니페스트와 원본 파일 ZIP으로 새 스토어 복원 (--name으로 이름 지정)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  createFileSearchStore,
+  deleteFileSearchStore,
+  extractStoreId,
+  listAllStores,
+} from "@/lib/gemini";
+import {
+  createStoreRequestSchema,
+  parseWithSchema,
+  restoreFieldsSchema,
+} from "@/lib/schemas";
+import { exportStoreManifest, restoreStore } from "@/lib/store-backup";
+import { formatFileSize } from "@/lib/utils";
+import { ApiRouteError } from "@/lib/api-error";
+import {
+  loadStore,
+  requireArg,
+  type CliContext,
+  type CommandResult,
+} from "../context";
+import type { RestoreDocumentResult } from "@/types";
+
+/**
+ * 복원 결과 한 줄 (상태, 문서 표시 이름, operation 이름 또는 사유)
+ */
+function formatRestoreResult(result: RestoreDocumentResult): string {
+  if (result.missing) {
+    return `missing\t${result.fileName}`;
+  }
+  if (!result.success) {
+    return `failed\t${result.fileName}\t${result.error}`;
+  }
+  const status = result.contentChanged ? "changed" : "ok";
+  return `${status}\t${result.fileName}\t${result.archivePath}\t${result.operationName}`;
+}
+
+export async function runStoresCommand(
+  ctx: CliContext,
+  [action, ...args]: string[]
+): Promise<CommandResult> {
+  switch (action) {
+    case "list": {
+      const stores = await listAllStores(ctx.apiKey);
+      return {
+        data: { data: stores, count: stores.length },
+        text: stores
+          .map((store) =>
+            [
+              extractStoreId(store.name),
+              store.displayName,
+              `${store.activeDocumentsCount ?? 0} docs`,
+              formatFileSize(Number(store.sizeBytes ?? 0)),
+            ].join("\t")
+          )
+          .join("\n"),
+      };
+    }
+
+    case "create": {
+      const body = parseWithSchema(createStoreRequestSchema, {
+        displayName: args.join(" "),
+      });
+      if ("error" in body) {
+        throw body.error;
+      }
+      const store = await createFileSearchStore(
+        body.data.displayName,
+        ctx.apiKey
+      );
+      return {
+        data: { name: store.name, displayName: store.displayName },
+        text: extractStoreId(store.name),
+      };
+    }
+
+    case "delete": {
+      const store = await loadStore(ctx, args[0]);
+      await deleteFileSearchStore(store, ctx.apiKey);
+      return {
+        data: { name: store.name, displayName: store.displayName },
+        text: `deleted ${extractStoreId(store.name)}`,
+      };
+    }
+
+    case "export": {
+      const store = await loadStore(ctx, args[0]);
+      const manifest = await exportStoreManifest(store, ctx.apiKey);
+      return { data: manifest, text: JSON.stringify(manifest, null, 2) };
+    }
+
+    case "restore": {
+      const manifestPath = path.resolve(requireArg(args[0], "manifest"));
+      const archivePath = path.resolve(requireArg(args[1], "zip"));
+      const fields = parseWithSchema(restoreFieldsSchema, {
+        manifest: await fs.promises.readFile(manifestPath, "utf8"),
+        displayName: ctx.options.name,
+      });
+      if ("error" in fields) {
+        throw fields.error;
+      }
+      const { manifest } = fields.data;
+
+      const report = await restoreStore(
+        manifest,
+        await fs.promises.readFile(archivePath),
+        fields.data.displayName || manifest.store.displayName,
+        ctx.apiKey
+      );
+
+      return {
+        data: report,
+        failed: report.failCount > 0,
+        text: [
+          `store\t${extractStoreId(report.store.name)}\t${report.store.displayName}`,
+          ...report.results.map(formatRestoreResult),
+          ...report.unmatchedFiles.map((file) => `unused\t${file}`),
+          `${report.successCount} restored, ${report.missingCount} missing, ${report.failCount} failed, ${report.unmatchedFiles.length} unused files`,
+        ].join("\n"),
+      };
+    }
+
+    default:
+      throw new ApiRouteError(
+        "INVALID_REQUEST",
+        `알 수 없는 stores 명령입니다: ${action ?? ""}`,
+        { field: "command" }
+      );
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * CLI Context
+ *
+ * 명령이 공유하는 옵션, API 키, 입력 파싱
+ * - 입력 검증과 에러 코드는 API 라우트와 같은 스키마/에러 모델(lib/schemas.ts, lib/api-error.ts) 사용
+ * - 메타데이터/청킹 옵션은 업로드 폼 필드와 같은 규칙으로 변환 (lib/upload-form.ts)
+ */
+
+import {
+  finishReplaceDocument,
+  getFileSearchStore,
+  getUploadOperation,
+} from "@/lib/gemini";
+import { ApiRouteError } from "@/lib/api-error";
+import {
+  parseChunkingFields,
+  parseCustomMetadataField,
+  parseDuplicatePolicyFields,
+  parseUrlIngestFields,
+} from "@/lib/upload-form";
+import type { DuplicatePolicyOptions } from "@/lib/upload-dedup";
+import type { UrlIngestOptions } from "@/lib/url-ingest";
+import { parseWithSchema, storeParamsSchema } from "@/lib/schemas";
+import type {
+  ChunkingConfig,
+  CustomMetadata,
+  FileSearchStore,
+  Operation,
+} from "@/types";
+
+/** 인덱싱 완료 대기 최대 시간 */
+const WAIT_TIMEOUT_MS = 5 * 60 * 1000;
+/** 인덱싱 상태 확인 간격 */
+const WAIT_INTERVAL_MS = 1000;
+
+/**
+ * 명령줄 옵션 (index.ts의 parseArgs 정의와 동일)
+ */
+export interface CliOptions {
+  json?: boolean;
+  verbose?: boolean;
+  help?: boolean;
+  "api-key"?: string;
+  meta?: string[];
+  "meta-number"?: string[];
+  "meta-list"?: string[];
+  "max-tokens-per-chunk"?: string;
+  "max-overlap-tokens"?: string;
+  wait?: boolean;
+  "on-duplicate"?: string;
+  mode?: string;
+  depth?: string;
+  "max-pages"?: string;
+  domain?: string[];
+  delete?: boolean;
+  "dry-run"?: boolean;
+  name?: string;
+  store?: string[];
+  filter?: string;
+  model?: string;
+  system?: string;
+  stream?: boolean;
+}
+
+/**
+ * 명령 실행 컨텍스트
+ */
+export interface CliContext {
+  apiKey: string;
+  options: CliOptions;
+  /** 스트리밍 출력 (query --stream) */
+  write: (chunk: string) => void;
+}
+
+/**
+ * 명령 실행 결과
+ * - data: --json 출력 ({ success, data })
+ * - text: 기본 출력
+ * - failed: 일부 작업이 실패했으면 true (종료 코드 1)
+ * - streamed: 결과를 이미 ctx.write로 출력했으면 true (--json에서는 추가 출력 없음)
+ */
+export interface CommandResult<T = unknown> {
+  data: T;
+  text: string;
+  failed?: boolean;
+  streamed?: boolean;
+}
+
+/**
+ * 사용할 API 키 (--api-key, 없으면 GEMINI_API_KEY 환경 변수)
+ */
+export function resolveCliApiKey(options: CliOptions): string {
+  const apiKey =
+    options["api-key"]?.trim() || process.env.GEMINI_API_KEY?.trim();
+  if (!apiKey) {
+    throw new ApiRouteError(
+      "MISSING_API_KEY",
+      "API 키가 필요합니다. --api-key 옵션이나 GEMINI_API_KEY 환경 변수를 설정해주세요."
+    );
+  }
+  return apiKey;
+}
+
+/**
+ * 위치 인자 확인
+ *
+ * @param name - 사용법에 표시할 인자 이름
+ */
+export function requireArg(value: string | undefined, name: string): string {
+  if (!value?.trim()) {
+    throw new ApiRouteError("INVALID_REQUEST", `${name} 인자가 필요합니다`, {
+      field: name,
+    });
+  }
+  return value.trim();
+}
+
+/**
+ * 스토어 ID 검증 후 스토어 조회 (없는 스토어는 STORE_NOT_FOUND)
+ */
+export async function loadStore(
+  ctx: CliContext,
+  storeId: string | undefined
+): Promise<FileSearchStore> {
+  const path = parseWithSchema(storeParamsSchema, {
+    storeId: requireArg(storeId, "storeId"),
+  });
+  if ("error" in path) {
+    throw path.error;
+  }
+  return await getFileSearchStore(path.data.storeId, ctx.apiKey);
+}
+
+/**
+ * --meta key=value 형식 옵션 분리
+ */
+function splitKeyValue(option: string, flag: string): [string, string] {
+  const index = option.indexOf("=");
+  if (index <= 0) {
+    throw new ApiRouteError(
+      "INVALID_METADATA",
+      `${flag} 옵션은 key=value 형식이어야 합니다: ${option}`,
+      { field: flag }
+    );
+  }
+  return [option.slice(0, index), option.slice(index + 1)];
+}
+
+/**
+ * 메타데이터 옵션을 API 형식으로 변환
+ * - --meta key=value: 문자열
+ * - --meta-number key=123: 숫자
+ * - --meta-list key=a,b,c: 문자열 목록
+ *
+ * @returns 변환된 메타데이터 (옵션이 없으면 undefined)
+ */
+export function parseMetadataOptions(
+  options: CliOptions
+): CustomMetadata[] | undefined {
+  const entries = [
+    ...(options.meta || []).map((option) => ({
+      option,
+      flag: "--meta",
+      type: "string",
+    })),
+    ...(options["meta-number"] || []).map((option) => ({
+      option,
+      flag: "--meta-number",
+      type: "number",
+    })),
+    ...(options["meta-list"] || []).map((option) => ({
+      option,
+      flag: "--meta-list",
+      type: "stringList",
+    })),
+  ].map(({ option, flag, type }) => {
+    const [key, value] = splitKeyValue(option, flag);
+    return { key, type, value };
+  });
+
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  const parsed = parseCustomMetadataField(JSON.stringify(entries));
+  if ("error" in parsed) {
+    throw parsed.error;
+  }
+  return parsed.metadata;
+}
+
+/**
+ * 청킹 옵션 (--max-tokens-per-chunk, --max-overlap-tokens) 파싱
+ *
+ * @param fallback - 옵션이 없을 때 사용할 설정
+ */
+export function parseChunkingOptions(
+  options: CliOptions,
+  fallback: ChunkingConfig
+): ChunkingConfig {
+  const fields = new Map([
+    ["maxTokensPerChunk", options["max-tokens-per-chunk"]],
+    ["maxOverlapTokens", options["max-overlap-tokens"]],
+  ]);
+  const chunking = parseChunkingFields(fields, fallback);
+  if ("error" in chunking) {
+    throw chunking.error;
+  }
+  return chunking.config;
+}
+
+/**
+ * 중복 업로드 정책 옵션 (--on-duplicate, 생략 시 skip) 파싱
+ */
+export function parseDuplicatePolicyOptions(
+  options: CliOptions
+): DuplicatePolicyOptions {
+  const parsed = parseDuplicatePolicyFields(
+    new Map([["duplicatePolicy", options["on-duplicate"]]])
+  );
+  if ("error" in parsed) {
+    throw parsed.error;
+  }
+  return parsed.policies;
+}
+
+/**
+ * URL 가져오기 옵션 (--mode, --depth, --max-pages, --domain) 파싱
+ */
+export function parseUrlIngestOptions(
+  url: string,
+  options: CliOptions
+): UrlIngestOptions {
+  const fields = new Map([
+    ["url", url],
+    ["mode", options.mode],
+    ["maxDepth", options.depth],
+    ["maxPages", options["max-pages"]],
+    ["allowedDomains", options.domain?.join(",")],
+  ]);
+  const parsed = parseUrlIngestFields(fields);
+  if ("error" in parsed) {
+    throw parsed.error;
+  }
+  return parsed.options;
+}
+
+/**
+ * 업로드 operation의 인덱싱 완료 대기
+ * 교체 업로드는 성공적으로 완료되면 이전 버전을 삭제
+ *
+ * @throws 시간 초과 시
+ */
+export async function waitForOperation(
+  operation: Operation,
+  apiKey: string
+): Promise<Operation> {
+  const deadline = Date.now() + WAIT_TIMEOUT_MS;
+
+  while (!operation.done) {
+    if (Date.now() > deadline) {
+      throw new Error(`인덱싱 시간 초과: ${operation.name}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, WAIT_INTERVAL_MS));
+    operation = await getUploadOperation(operation.name, apiKey);
+  }
+  // 교체 업로드면 새 버전이 인덱싱된 뒤 이전 버전 삭제
+  await finishReplaceDocument(operation, apiKey);
+  return operation;
+}
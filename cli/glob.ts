@@ -0,0 +1,139 @@
+/**
+ * File Globs
+ *
+ * `docs upload`에 전달된 경로/글롭 패턴을 파일 목록으로 확장
+ * - 지원 패턴: `*`, `?`, `**` (하위 디렉터리 포함), `{a,b}`
+ * - 셸이 확장하지 않도록 따옴표로 감싸서 전달 (예: 'docs/*.md')
+ * - 숨김 파일/디렉터리(.으로 시작)는 패턴이 직접 지정할 때만 포함
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { ApiRouteError } from "@/lib/api-error";
+
+const GLOB_CHARS = /[*?{]/;
+
+/**
+ * 글롭 패턴을 정규식으로 변환 (경로 구분자는 /)
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/"는 0개 이상의 디렉터리, 끝의 "**"는 모든 하위 경로
+        const slash = pattern[i + 2] === "/";
+        source += slash ? "(?:[^/]+/)*" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      source += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      source += ")";
+    } else if (char === "," && inGroup) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 디렉터리 아래의 모든 파일 (base 기준 상대 경로)
+ */
+async function walk(base: string, dir = ""): Promise<string[]> {
+  const entries = await fs.promises.readdir(path.join(base, dir), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relative = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (entry.name !== "node_modules") {
+        files.push(...(await walk(base, relative)));
+      }
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+/**
+ * 숨김 경로 포함 여부 (패턴의 같은 위치 세그먼트가 .으로 시작하면 허용)
+ */
+function isHiddenMismatch(relative: string, pattern: string): boolean {
+  const patternSegments = pattern.split("/");
+  return relative
+    .split("/")
+    .some(
+      (segment, index) =>
+        segment.startsWith(".") && !patternSegments[index]?.startsWith(".")
+    );
+}
+
+/**
+ * 경로/글롭 패턴 목록을 파일 경로 목록으로 확장 (중복 제거, 정렬)
+ *
+ * @throws ApiRouteError(NO_FILES) - 패턴과 일치하는 파일이 없을 때
+ */
+export async function expandGlobs(
+  patterns: string[],
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const files = new Set<string>();
+
+  for (const rawPattern of patterns) {
+    const pattern = rawPattern.split(path.sep).join("/");
+
+    if (!GLOB_CHARS.test(pattern)) {
+      const resolved = path.resolve(cwd, pattern);
+      const stat = await fs.promises.stat(resolved).catch(() => null);
+      if (!stat?.isFile()) {
+        throw new ApiRouteError(
+          "NO_FILES",
+          `파일을 찾을 수 없습니다: ${rawPattern}`,
+          { field: rawPattern }
+        );
+      }
+      files.add(resolved);
+      continue;
+    }
+
+    // 글롭 문자가 없는 앞부분은 탐색 시작 디렉터리
+    const segments = pattern.split("/");
+    const globIndex = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+    const baseDir = path.resolve(cwd, segments.slice(0, globIndex).join("/"));
+    const rest = segments.slice(globIndex).join("/");
+    const matcher = globToRegExp(rest);
+
+    const candidates = await walk(baseDir).catch(() => []);
+    for (const relative of candidates) {
+      if (matcher.test(relative) && !isHiddenMismatch(relative, rest)) {
+        files.add(path.join(baseDir, relative));
+      }
+    }
+  }
+
+  if (files.size === 0) {
+    throw new ApiRouteError(
+      "NO_FILES",
+      `패턴과 일치하는 파일이 없습니다: ${patterns.join(" ")}`
+    );
+  }
+
+  return Array.from(files).sort();
+}
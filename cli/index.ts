@@ -0,0 +1,197 @@
+/**
+ * Gemini File Search CLI
+ *
+ * 웹 UI 없이 스토어/문서 관리와 쿼리를 실행하는 명령줄 도구 (cron 등 자동화용)
+ * - lib/gemini.ts를 직접 호출 (API 라우트를 거치지 않음)
+ * - API 키: --api-key 또는 GEMINI_API_KEY 환경 변수 (GEMINI_BACKEND=fake도 지원)
+ * - --json: 결과를 API 응답과 같은 { success, data } / { success: false, error, code } 형식으로 출력
+ * - 종료 코드: 0 성공, 1 실패(일부 파일 업로드 실패 포함), 2 잘못된 사용법
+ *
+ * 실행: npm run cli -- <command> [options]
+ */
+
+import { parseArgs } from "node:util";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import { resolveCliApiKey, type CliContext, type CliOptions } from "./context";
+import { runStoresCommand } from "./commands/stores";
+import { runDocsCommand } from "./commands/docs";
+import { runQueryCommand } from "./commands/query";
+import type { ErrorResponse } from "@/types";
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  stores list
+  stores create <displayName>
+  stores delete <storeId>
+  stores export <storeId>
+  stores restore <manifest.json> <zip>
+  docs list <storeId>
+  docs upload <storeId> <path|glob...>
+  docs delete <storeId> <docName>
+  docs replace <storeId> <docName> <path>
+  docs import <storeId> <zip>
+  docs fetch <storeId> <url>
+  docs sync <storeId> <dir>
+  query --store <storeId> [--store <storeId>...] <question>
+
+Options:
+  --json                       Print JSON output
+  --api-key <key>              Gemini API key (default: $GEMINI_API_KEY)
+  --verbose                    Print progress logs to stderr
+  --meta <key=value>           String metadata (docs upload/replace/import/fetch/sync, repeatable)
+  --meta-number <key=value>    Numeric metadata (repeatable)
+  --meta-list <key=a,b>        String list metadata (repeatable)
+  --max-tokens-per-chunk <n>   Chunk size
+  --max-overlap-tokens <n>     Chunk overlap
+  --wait                       Wait until uploaded documents are indexed
+  --on-duplicate <policy>      When identical content is already in the store:
+                               skip (default), replace or keep (docs upload/import/fetch)
+  --mode <auto|page|sitemap>   How to read the URL (docs fetch, default: auto)
+  --depth <n>                  Link depth to follow from the page (docs fetch, default: 0)
+  --max-pages <n>              Maximum pages to fetch (docs fetch, default: 20)
+  --domain <domain>            Allowed domain (docs fetch, repeatable, default: URL host)
+  --delete                     Delete documents whose files were removed (docs sync)
+  --dry-run                    Print the sync plan without changing the store (docs sync)
+  --name <displayName>         Name of the restored store (stores restore, default: manifest name)
+  -s, --store <storeId>        Store to query (repeatable)
+  --filter <expr>              Metadata filter (e.g. category = "manual")
+  --model <model>              Model (default: gemini-2.5-flash)
+  --system <text>              System instruction
+  --stream                     Stream the answer (NDJSON events with --json)
+  -h, --help                   Show this help
+
+Globs must be quoted so the shell does not expand them: 'docs/**/*.md'
+Retries per call type can be raised with RETRY_<TYPE>_MAX_RETRIES and
+RETRY_<TYPE>_MAX_DELAY_MS (e.g. RETRY_UPLOAD_MAX_RETRIES=8)
+`;
+
+/** 잘못된 사용법 종료 코드 */
+const EXIT_USAGE = 2;
+
+function parseCliArgs(): { positionals: string[]; options: CliOptions } {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean" },
+      verbose: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+      "api-key": { type: "string" },
+      meta: { type: "string", multiple: true },
+      "meta-number": { type: "string", multiple: true },
+      "meta-list": { type: "string", multiple: true },
+      "max-tokens-per-chunk": { type: "string" },
+      "max-overlap-tokens": { type: "string" },
+      wait: { type: "boolean" },
+      "on-duplicate": { type: "string" },
+      mode: { type: "string" },
+      depth: { type: "string" },
+      "max-pages": { type: "string" },
+      domain: { type: "string", multiple: true },
+      delete: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      name: { type: "string" },
+      store: { type: "string", short: "s", multiple: true },
+      filter: { type: "string" },
+      model: { type: "string" },
+      system: { type: "string" },
+      stream: { type: "boolean" },
+    },
+  });
+  return { positionals, options: values };
+}
+
+/**
+ * 에러 출력 (--json이면 API 에러 응답 형식)
+ */
+function printError(error: ApiRouteError, json: boolean | undefined): void {
+  if (json) {
+    const body: ErrorResponse = {
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.details && { details: error.details }),
+      ...(error.fieldErrors && { fieldErrors: error.fieldErrors }),
+    };
+    process.stdout.write(`${JSON.stringify(body, null, 2)}\n`);
+  } else {
+    process.stderr.write(`error [${error.code}]: ${error.message}\n`);
+    // 첫 번째 오류는 message에 포함되어 있음
+    for (const fieldError of error.fieldErrors?.slice(1) || []) {
+      process.stderr.write(`  ${fieldError.field}: ${fieldError.message}\n`);
+    }
+  }
+}
+
+async function main(): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs();
+  } catch (error: any) {
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const { positionals, options } = parsed;
+  const [command, ...args] = positionals;
+
+  if (options.help || !command) {
+    process.stdout.write(USAGE);
+    return options.help ? 0 : EXIT_USAGE;
+  }
+
+  // lib 함수의 진행 로그는 stdout 결과와 섞이지 않도록 stderr로 (--verbose일 때만)
+  console.log = options.verbose ? console.error : () => {};
+  if (!options.verbose) {
+    console.error = () => {};
+  }
+
+  try {
+    const ctx: CliContext = {
+      apiKey: resolveCliApiKey(options),
+      options,
+      write: (chunk) => process.stdout.write(chunk),
+    };
+
+    let result;
+    switch (command) {
+      case "stores":
+        result = await runStoresCommand(ctx, args);
+        break;
+      case "docs":
+        result = await runDocsCommand(ctx, args);
+        break;
+      case "query":
+        result = await runQueryCommand(ctx, args);
+        break;
+      default:
+        process.stderr.write(`Unknown command: ${command}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    if (options.json) {
+      if (!result.streamed) {
+        process.stdout.write(
+          `${JSON.stringify({ success: !result.failed, data: result.data }, null, 2)}\n`
+        );
+      }
+    } else if (result.streamed) {
+      process.stdout.write(result.text ? `\n\n${result.text}\n` : "\n");
+    } else if (result.text) {
+      process.stdout.write(`${result.text}\n`);
+    }
+
+    return result.failed ? 1 : 0;
+  } catch (error: any) {
+    const apiError = toApiRouteError(error);
+    printError(apiError, options.json);
+    return apiError.code === "INVALID_REQUEST" &&
+      apiError.details?.field === "command"
+      ? EXIT_USAGE
+      : 1;
+  }
+}
+
+main().then((code) => {
+  process.exitCode = code;
+});
@@ -24,10 +24,14 @@ interface ApiKeyModalProps {
  * API Key Input Modal
  *
  * Gemini API 키를 입력받는 모달
+ * - server 모드에서는 본인 키 입력이 선택 사항 (입력하지 않고 닫을 수 있음)
  */
 export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
   const t = useTranslations('apiKeyModal');
-  const { apiKey, setApiKey } = useAppStore();
+  const { apiKey, apiKeyMode, setApiKey } = useAppStore();
+  const isServerMode = apiKeyMode === "server";
+  // 사용할 키가 없으면 모달을 닫을 수 없음
+  const canClose = !!apiKey || isServerMode;
   const [inputValue, setInputValue] = useState("");
   const [error, setError] = useState("");
   const [isApiKeyVisible, setIsApiKeyVisible] = useState(false);
@@ -73,13 +77,13 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
         className="w-[calc(100%-2rem)] max-w-md"
         onPointerDownOutside={(e) => {
           // API 키가 없으면 모달을 닫을 수 없도록 설정
-          if (!apiKey) {
+          if (!canClose) {
             e.preventDefault();
           }
         }}
         onEscapeKeyDown={(e) => {
           // API 키가 없으면 ESC로도 닫을 수 없도록 설정
-          if (!apiKey) {
+          if (!canClose) {
             e.preventDefault();
           }
         }}
@@ -90,7 +94,7 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
             {t('title')}
           </DialogTitle>
           <DialogDescription className="text-sm">
-            {t('description')}
+            {isServerMode ? t('serverModeDescription') : t('description')}
           </DialogDescription>
           <a
             href="https://aistudio.google.com/apikey"
@@ -157,7 +161,7 @@ export function ApiKeyModal({ open, onOpenChange }: ApiKeyModalProps) {
             <Button onClick={handleSave} className="w-full" size="lg">
               {t('save')}
             </Button>
-            {apiKey && (
+            {canClose && (
               <Button
                 variant="outline"
                 onClick={() => onOpenChange?.(false)}
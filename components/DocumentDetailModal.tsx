@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { useTranslations } from 'next-intl';
 import {
   Dialog,
@@ -15,27 +16,137 @@ import {
   FileType,
   Clock,
   Tag,
+  Activity,
+  Loader2,
+  Layers,
+  History,
 } from "lucide-react";
+import { useAppStore } from "@/store";
 import { formatDate, formatFileSize } from "@/lib/utils";
-import type { FileSearchDocument } from "@/types";
+import { readChunkingMetadata } from "@/lib/chunking";
+import { getUserMetadata, readDocumentVersion } from "@/lib/document-metadata";
+import { ApiRequestError } from "@/lib/api-request-error";
+import { useApiErrorMessage } from "@/hooks/use-api-error-message";
+import type {
+  CustomMetadata,
+  DocumentState,
+  FileSearchDocument,
+} from "@/types";
+
+/** 처리 중인 문서 상태 새로고침 간격 (ms) */
+const PENDING_REFRESH_INTERVAL = 3000;
 
 interface DocumentDetailModalProps {
+  /** 상세 정보를 불러올 스토어 ID */
+  storeId: string;
+  /** 목록에서 선택한 문서 (상세 정보를 불러오기 전 표시) */
   document: FileSearchDocument | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+/**
+ * 메타데이터 값 종류와 표시 값
+ */
+function describeMetadataValue(item: CustomMetadata): {
+  type: "string" | "stringList" | "numeric";
+  values: string[];
+} {
+  if (item.numericValue !== undefined) {
+    return { type: "numeric", values: [String(item.numericValue)] };
+  }
+  if (item.stringListValue !== undefined) {
+    return { type: "stringList", values: item.stringListValue.values };
+  }
+  return { type: "string", values: [item.stringValue ?? ""] };
+}
+
 /**
  * 문서 상세 정보 모달
+ * 열릴 때 documents.get으로 상세 정보를 불러오고,
+ * 문서가 처리 중(STATE_PENDING)이면 주기적으로 새로고침합니다
  */
 export function DocumentDetailModal({
-  document,
+  storeId,
+  document: listDocument,
   open,
   onOpenChange,
 }: DocumentDetailModalProps) {
   const t = useTranslations('documentDetail');
+  const getErrorMessage = useApiErrorMessage();
+  const { apiKey } = useAppStore();
+  const [detail, setDetail] = useState<FileSearchDocument | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const documentName = listDocument?.name;
+
+  useEffect(() => {
+    if (!open || !documentName) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const documentId = documentName.split("/").pop() || documentName;
+
+    async function loadDetail() {
+      setIsLoading(true);
+      try {
+        const response = await fetch(
+          `/api/stores/${storeId}/documents/${encodeURIComponent(documentId)}`,
+          { headers: { "x-api-key": apiKey || "" } }
+        );
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || !data.success) {
+          throw new ApiRequestError(
+            data,
+            `HTTP ${response.status}: ${response.statusText}`
+          );
+        }
+
+        setDetail(data.data);
+        setLoadError(null);
+        if (data.data.state === "STATE_PENDING") {
+          timer = setTimeout(loadDetail, PENDING_REFRESH_INTERVAL);
+        }
+      } catch (error: any) {
+        if (!cancelled) setLoadError(getErrorMessage(error));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    setDetail(null);
+    setLoadError(null);
+    loadDetail();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [open, documentName, storeId, apiKey, getErrorMessage]);
 
-  if (!document) return null;
+  if (!listDocument) return null;
+
+  const document = detail || listDocument;
+  const chunking = readChunkingMetadata(document.customMetadata);
+  const customMetadata = getUserMetadata(document.customMetadata);
+  const version = readDocumentVersion(document.customMetadata);
+  const stateLabels: Record<DocumentState, string> = {
+    STATE_UNSPECIFIED: "-",
+    STATE_PENDING: t('stateProcessing'),
+    STATE_ACTIVE: t('stateActive'),
+    STATE_FAILED: t('stateFailed'),
+  };
+  const stateStyles: Record<DocumentState, string> = {
+    STATE_UNSPECIFIED: "bg-muted text-muted-foreground",
+    STATE_PENDING:
+      "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+    STATE_ACTIVE:
+      "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+    STATE_FAILED: "bg-destructive/10 text-destructive",
+  };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -44,9 +155,18 @@ export function DocumentDetailModal({
           <DialogTitle className="flex items-center gap-2">
             <File className="h-5 w-5" />
             {t('title')}
+            {isLoading && (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            )}
           </DialogTitle>
         </DialogHeader>
 
+        {loadError && (
+          <p className="text-sm text-destructive">
+            {t('loadFailed', { error: loadError })}
+          </p>
+        )}
+
         <div className="space-y-6">
           {/* Basic Information */}
           <Card>
@@ -65,8 +185,39 @@ export function DocumentDetailModal({
                   </p>
                 </div>
 
+                {/* State */}
+                {document.state && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+                      <Activity className="h-4 w-4" />
+                      {t('state')}
+                    </p>
+                    <p className="flex items-center gap-2">
+                      <span
+                        className={`text-xs font-medium px-2 py-1 rounded ${stateStyles[document.state]}`}
+                      >
+                        {stateLabels[document.state]}
+                      </span>
+                      {document.state === "STATE_PENDING" && (
+                        <span className="text-xs text-muted-foreground">
+                          {t('autoRefresh')}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                )}
+
+                {/* Version */}
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+                    <History className="h-4 w-4" />
+                    {t('version')}
+                  </p>
+                  <p className="text-base">v{version}</p>
+                </div>
+
                 {/* File Size */}
-                {document.sizeBytes && (
+                {document.sizeBytes !== undefined && (
                   <div className="space-y-1">
                     <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
                       <HardDrive className="h-4 w-4" />
@@ -104,7 +255,7 @@ export function DocumentDetailModal({
                 <div className="space-y-1">
                   <p className="text-sm font-medium text-muted-foreground flex items-center gap-1">
                     <Clock className="h-4 w-4" />
-                    {t('createTime')}
+                    {t('updateTime')}
                   </p>
                   <p className="text-base">{formatDate(document.updateTime)}</p>
                 </div>
@@ -122,34 +273,83 @@ export function DocumentDetailModal({
             </CardContent>
           </Card>
 
-          {/* Metadata */}
-          {document.metadata && Object.keys(document.metadata).length > 0 && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-base flex items-center gap-2">
-                  <Tag className="h-4 w-4" />
-                  {t('metadata')}
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
+          {/* Chunking Config */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Layers className="h-4 w-4" />
+                {t('chunking')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {chunking ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {t('maxTokensPerChunk')}
+                    </p>
+                    <p className="text-base">{chunking.maxTokensPerChunk}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {t('maxOverlapTokens')}
+                    </p>
+                    <p className="text-base">{chunking.maxOverlapTokens}</p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {t('noChunking')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Custom Metadata */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                <Tag className="h-4 w-4" />
+                {t('metadata')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {customMetadata.length > 0 ? (
                 <div className="space-y-3">
-                  {Object.entries(document.metadata).map(([key, value]) => (
-                    <div
-                      key={key}
-                      className="flex flex-col sm:flex-row sm:items-center gap-2 pb-3 border-b last:border-b-0"
-                    >
-                      <span className="font-medium text-sm text-muted-foreground min-w-[150px]">
-                        {key}
-                      </span>
-                      <span className="text-sm font-mono bg-muted px-2 py-1 rounded break-all">
-                        {value}
-                      </span>
-                    </div>
-                  ))}
+                  {customMetadata.map((item) => {
+                    const { type, values } = describeMetadataValue(item);
+                    return (
+                      <div
+                        key={item.key}
+                        className="flex flex-col sm:flex-row sm:items-center gap-2 pb-3 border-b last:border-b-0"
+                      >
+                        <span className="font-medium text-sm text-muted-foreground min-w-[150px]">
+                          {item.key}
+                          <span className="ml-2 text-xs font-normal opacity-70">
+                            {t(`metadataType.${type}`)}
+                          </span>
+                        </span>
+                        <span className="flex flex-wrap gap-1">
+                          {values.map((value, index) => (
+                            <span
+                              key={index}
+                              className="text-sm font-mono bg-muted px-2 py-1 rounded break-all"
+                            >
+                              {value}
+                            </span>
+                          ))}
+                        </span>
+                      </div>
+                    );
+                  })}
                 </div>
-              </CardContent>
-            </Card>
-          )}
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {t('noMetadata')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useTranslations } from "next-intl";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useAppStore } from "@/store";
+import {
+  DEFAULT_CHUNKING_CONFIG,
+  MAX_TOKENS_PER_CHUNK,
+  MIN_TOKENS_PER_CHUNK,
+  readChunkingMetadata,
+  validateChunkingConfig,
+} from "@/lib/chunking";
+import { getUserMetadata, readDocumentVersion } from "@/lib/document-metadata";
+import { formatFileSize } from "@/lib/utils";
+import { ApiRequestError } from "@/lib/api-request-error";
+import { useApiErrorMessage } from "@/hooks/use-api-error-message";
+import type {
+  ChunkingConfig,
+  FileSearchDocument,
+  ReplaceDocumentResponse,
+} from "@/types";
+
+interface ReplaceDocumentDialogProps {
+  /** 문서가 속한 스토어 ID */
+  storeId: string;
+  /** 교체할 문서 */
+  document: FileSearchDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 교체가 시작되면 호출 (인덱싱은 비동기로 진행) */
+  onReplaced: (result: ReplaceDocumentResponse) => void;
+}
+
+/**
+ * 문서 교체 다이얼로그
+ * 새 버전 파일을 업로드하고 기존 메타데이터 태그와 청킹 설정을 이어받거나 덮어씁니다
+ */
+export function ReplaceDocumentDialog({
+  storeId,
+  document,
+  open,
+  onOpenChange,
+  onReplaced,
+}: ReplaceDocumentDialogProps) {
+  const t = useTranslations("documents");
+  const tCommon = useTranslations("common");
+  const getErrorMessage = useApiErrorMessage();
+  const { apiKey } = useAppStore();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [keepMetadata, setKeepMetadata] = useState(true);
+  const [chunking, setChunking] = useState<ChunkingConfig>(
+    DEFAULT_CHUNKING_CONFIG
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const previousChunking = readChunkingMetadata(document?.customMetadata);
+  const userMetadata = getUserMetadata(document?.customMetadata);
+
+  // 열릴 때마다 이전 버전의 설정으로 초기화
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setKeepMetadata(true);
+    setChunking(previousChunking || DEFAULT_CHUNKING_CONFIG);
+    setError(null);
+  }, [open, document?.name]);
+
+  if (!document) return null;
+
+  async function handleSubmit() {
+    if (!document || !file) {
+      setError(t("errorSelectFile"));
+      return;
+    }
+
+    if (validateChunkingConfig(chunking)) {
+      setError(
+        t("errorChunkingInvalid", {
+          min: MIN_TOKENS_PER_CHUNK,
+          max: MAX_TOKENS_PER_CHUNK,
+        })
+      );
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      // customMetadata를 보내지 않으면 이전 버전의 메타데이터가 유지됨
+      if (!keepMetadata) {
+        formData.append("customMetadata", "[]");
+      }
+      formData.append("maxTokensPerChunk", String(chunking.maxTokensPerChunk));
+      formData.append("maxOverlapTokens", String(chunking.maxOverlapTokens));
+
+      const documentId = document.name.split("/").pop() || document.name;
+      const response = await fetch(
+        `/api/stores/${storeId}/documents/${encodeURIComponent(documentId)}`,
+        {
+          method: "PUT",
+          headers: { "x-api-key": apiKey || "" },
+          body: formData,
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new ApiRequestError(
+          data,
+          `HTTP ${response.status}: ${response.statusText}`
+        );
+      }
+
+      onReplaced(data.data);
+      onOpenChange(false);
+    } catch (error: any) {
+      setError(getErrorMessage(error, tCommon("networkError")));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            {t("replaceTitle")}
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            {t("replaceDescription", {
+              name: document.displayName,
+              version: readDocumentVersion(document.customMetadata),
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label
+              htmlFor="replaceFile"
+              className="text-xs text-muted-foreground mb-1.5 block"
+            >
+              {t("replaceFile")}
+            </Label>
+            <Input
+              id="replaceFile"
+              type="file"
+              accept=".md,.txt,.pdf,.csv,.json,.html,.doc,.docx,.xls,.xlsx"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="h-10"
+            />
+            {file && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                {file.name} · {formatFileSize(file.size)}
+              </p>
+            )}
+          </div>
+
+          <label className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={keepMetadata}
+              onChange={(e) => setKeepMetadata(e.target.checked)}
+              className="mt-0.5 h-4 w-4"
+            />
+            <span>
+              {t("replaceKeepMetadata", { count: userMetadata.length })}
+              {userMetadata.length > 0 && (
+                <span className="block text-xs text-muted-foreground">
+                  {userMetadata.map((meta) => meta.key).join(", ")}
+                </span>
+              )}
+            </span>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label
+                htmlFor="replaceMaxTokensPerChunk"
+                className="text-xs text-muted-foreground mb-1.5 block"
+              >
+                {t("maxTokensPerChunk")}
+              </Label>
+              <Input
+                id="replaceMaxTokensPerChunk"
+                type="number"
+                min={MIN_TOKENS_PER_CHUNK}
+                max={MAX_TOKENS_PER_CHUNK}
+                value={chunking.maxTokensPerChunk}
+                onChange={(e) =>
+                  setChunking({
+                    ...chunking,
+                    maxTokensPerChunk: e.target.valueAsNumber,
+                  })
+                }
+                className="h-10"
+              />
+            </div>
+            <div>
+              <Label
+                htmlFor="replaceMaxOverlapTokens"
+                className="text-xs text-muted-foreground mb-1.5 block"
+              >
+                {t("maxOverlapTokens")}
+              </Label>
+              <Input
+                id="replaceMaxOverlapTokens"
+                type="number"
+                min={0}
+                value={chunking.maxOverlapTokens}
+                onChange={(e) =>
+                  setChunking({
+                    ...chunking,
+                    maxOverlapTokens: e.target.valueAsNumber,
+                  })
+                }
+                className="h-10"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="w-full sm:w-auto"
+          >
+            {tCommon("cancel")}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!file || isSubmitting}
+            className="w-full sm:w-auto"
+          >
+            {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {t("replaceButton")}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
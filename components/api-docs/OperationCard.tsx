@@ -0,0 +1,407 @@
+"use client";
+
+import { useState } from "react";
+import { useTranslations } from "next-intl";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+
+type JsonSchema = Record<string, any>;
+
+/**
+ * OpenAPI 문서의 operation (문서 페이지에서 사용하는 필드만)
+ */
+export interface OpenApiOperation {
+  method: string;
+  path: string;
+  summary: string;
+  description?: string;
+  operationId: string;
+  security?: unknown[];
+  parameters: Array<{
+    name: string;
+    in: "path" | "query";
+    required: boolean;
+    schema: JsonSchema;
+  }>;
+  requestBody?: { content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string }>;
+}
+
+interface OperationCardProps {
+  operation: OpenApiOperation;
+  /** curl 예시와 요청 보내기에 사용할 API 키 (없으면 헤더 생략) */
+  apiKey: string | null;
+}
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-blue-500/15 text-blue-700 dark:text-blue-300",
+  post: "bg-green-500/15 text-green-700 dark:text-green-300",
+  put: "bg-amber-500/15 text-amber-700 dark:text-amber-300",
+  delete: "bg-red-500/15 text-red-700 dark:text-red-300",
+};
+
+/**
+ * 경로 파라미터와 쿼리 파라미터를 채운 요청 URL
+ */
+function buildUrl(
+  operation: OpenApiOperation,
+  values: Record<string, string>
+): string {
+  const path = operation.path.replace(/\{(\w+)\}/g, (_, name: string) =>
+    encodeURIComponent(values[name] || `{${name}}`)
+  );
+  const query = new URLSearchParams();
+  for (const parameter of operation.parameters) {
+    const value = values[parameter.name];
+    if (parameter.in === "query" && value) {
+      query.set(parameter.name, value);
+    }
+  }
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * curl 예시용 한 줄 JSON (파싱할 수 없으면 입력 그대로)
+ */
+function compactJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text));
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * multipart 필드가 파일인지 여부
+ */
+function isFileField(schema: JsonSchema): boolean {
+  return schema.format === "binary" || schema.items?.format === "binary";
+}
+
+/**
+ * API 문서의 operation 하나 (설명, 파라미터, 본문, 응답, curl 예시, 요청 보내기)
+ */
+export function OperationCard({ operation, apiKey }: OperationCardProps) {
+  const t = useTranslations("docs");
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [files, setFiles] = useState<Record<string, FileList | null>>({});
+  const [result, setResult] = useState<{
+    status: number;
+    body: string;
+  } | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const jsonBody = operation.requestBody?.content["application/json"]?.schema;
+  const multipartBody =
+    operation.requestBody?.content["multipart/form-data"]?.schema;
+  const multipartFields = Object.entries(
+    (multipartBody?.properties || {}) as Record<string, JsonSchema>
+  );
+  const needsAuth = !operation.security || operation.security.length > 0;
+
+  const [bodyText, setBodyText] = useState(() =>
+    jsonBody ? JSON.stringify(exampleFor(jsonBody), null, 2) : ""
+  );
+
+  const url = buildUrl(operation, values);
+  const curl = [
+    `curl -X ${operation.method.toUpperCase()} "${typeof window !== "undefined" ? window.location.origin : ""}${url}"`,
+    needsAuth &&
+      `  -H "x-api-key: ${apiKey ? "$GEMINI_API_KEY" : "<API_KEY>"}"`,
+    jsonBody && `  -H "Content-Type: application/json"`,
+    jsonBody && `  -d '${compactJson(bodyText)}'`,
+    ...multipartFields.map(([name, schema]) =>
+      isFileField(schema) ? `  -F "${name}=@./file.pdf"` : `  -F '${name}=...'`
+    ),
+  ]
+    .filter(Boolean)
+    .join(" \\\n");
+
+  async function handleSend() {
+    setIsSending(true);
+    setResult(null);
+
+    try {
+      const headers: HeadersInit = {};
+      if (apiKey) {
+        headers["x-api-key"] = apiKey;
+      }
+
+      let body: BodyInit | undefined;
+      if (jsonBody) {
+        headers["Content-Type"] = "application/json";
+        body = bodyText;
+      } else if (multipartBody) {
+        const formData = new FormData();
+        for (const [name, schema] of multipartFields) {
+          if (isFileField(schema)) {
+            Array.from(files[name] || []).forEach((file) =>
+              formData.append(name, file)
+            );
+          } else if (values[`form:${name}`]) {
+            formData.append(name, values[`form:${name}`]!);
+          }
+        }
+        body = formData;
+      }
+
+      const response = await fetch(url, {
+        method: operation.method.toUpperCase(),
+        headers,
+        body,
+      });
+      const text = await response.text();
+      let formatted = text;
+      try {
+        formatted = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // JSON이 아닌 응답은 그대로 표시
+      }
+      setResult({ status: response.status, body: formatted });
+    } catch (error: any) {
+      setResult({ status: 0, body: error?.message || String(error) });
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <Card>
+      <button
+        type="button"
+        className="flex w-full items-center gap-3 p-4 text-left"
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4 flex-shrink-0" />
+        ) : (
+          <ChevronRight className="h-4 w-4 flex-shrink-0" />
+        )}
+        <span
+          className={cn(
+            "w-16 rounded px-2 py-0.5 text-center text-xs font-bold uppercase",
+            METHOD_STYLES[operation.method]
+          )}
+        >
+          {operation.method}
+        </span>
+        <code className="text-sm font-semibold break-all">
+          {operation.path}
+        </code>
+        <span className="hidden md:inline text-sm text-muted-foreground truncate">
+          {operation.summary}
+        </span>
+      </button>
+
+      {isOpen && (
+        <CardContent className="space-y-5 border-t pt-4">
+          <div className="space-y-1">
+            <p className="font-medium">{operation.summary}</p>
+            {operation.description && (
+              <p className="text-sm text-muted-foreground whitespace-pre-line">
+                {operation.description}
+              </p>
+            )}
+            {!needsAuth && (
+              <p className="text-xs text-muted-foreground">{t("noAuth")}</p>
+            )}
+          </div>
+
+          {operation.parameters.length > 0 && (
+            <section className="space-y-2">
+              <h4 className="text-sm font-semibold">{t("parameters")}</h4>
+              <div className="space-y-2">
+                {operation.parameters.map((parameter) => (
+                  <div
+                    key={parameter.name}
+                    className="grid gap-1 md:grid-cols-[12rem_1fr] md:items-center"
+                  >
+                    <Label
+                      htmlFor={`${operation.operationId}-${parameter.name}`}
+                    >
+                      <code>{parameter.name}</code>
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {parameter.in}
+                        {parameter.required && ` · ${t("required")}`}
+                      </span>
+                    </Label>
+                    <Input
+                      id={`${operation.operationId}-${parameter.name}`}
+                      placeholder={parameter.schema.type}
+                      value={values[parameter.name] || ""}
+                      onChange={(e) =>
+                        setValues({
+                          ...values,
+                          [parameter.name]: e.target.value,
+                        })
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {jsonBody && (
+            <section className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                {t("requestBody")}{" "}
+                <span className="font-normal text-muted-foreground">
+                  application/json
+                </span>
+              </h4>
+              <textarea
+                className="min-h-[160px] w-full rounded-md border bg-background p-3 font-mono text-xs"
+                value={bodyText}
+                onChange={(e) => setBodyText(e.target.value)}
+              />
+              <details>
+                <summary className="cursor-pointer text-xs text-muted-foreground">
+                  {t("schema")}
+                </summary>
+                <pre className="mt-2 max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {JSON.stringify(jsonBody, null, 2)}
+                </pre>
+              </details>
+            </section>
+          )}
+
+          {multipartBody && (
+            <section className="space-y-2">
+              <h4 className="text-sm font-semibold">
+                {t("requestBody")}{" "}
+                <span className="font-normal text-muted-foreground">
+                  multipart/form-data
+                </span>
+              </h4>
+              {multipartFields.map(([name, schema]) => (
+                <div
+                  key={name}
+                  className="grid gap-1 md:grid-cols-[12rem_1fr] md:items-start"
+                >
+                  <Label htmlFor={`${operation.operationId}-form-${name}`}>
+                    <code>{name}</code>
+                    {multipartBody.required?.includes(name) && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {t("required")}
+                      </span>
+                    )}
+                  </Label>
+                  <div className="space-y-1">
+                    {isFileField(schema) ? (
+                      <Input
+                        id={`${operation.operationId}-form-${name}`}
+                        type="file"
+                        multiple={schema.type === "array"}
+                        onChange={(e) =>
+                          setFiles({ ...files, [name]: e.target.files })
+                        }
+                      />
+                    ) : (
+                      <Input
+                        id={`${operation.operationId}-form-${name}`}
+                        placeholder={schema.example ?? schema.type}
+                        value={values[`form:${name}`] || ""}
+                        onChange={(e) =>
+                          setValues({
+                            ...values,
+                            [`form:${name}`]: e.target.value,
+                          })
+                        }
+                      />
+                    )}
+                    {schema.description && (
+                      <p className="text-xs text-muted-foreground break-all">
+                        {schema.description}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </section>
+          )}
+
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold">{t("responses")}</h4>
+            <ul className="space-y-1 text-sm">
+              {Object.entries(operation.responses).map(([status, response]) => (
+                <li key={status} className="flex gap-3">
+                  <code className="w-16 flex-shrink-0">{status}</code>
+                  <span className="text-muted-foreground">
+                    {response.description}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-sm font-semibold">{t("curlExample")}</h4>
+            <pre className="overflow-x-auto rounded-md bg-muted p-3 text-xs">
+              {curl}
+            </pre>
+          </section>
+
+          <section className="space-y-2">
+            <Button onClick={handleSend} disabled={isSending}>
+              {isSending ? t("sending") : t("send")}
+            </Button>
+            {result && (
+              <div className="space-y-1">
+                <p className="text-sm">
+                  {t("responseStatus", { status: result.status })}
+                </p>
+                <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs">
+                  {result.body}
+                </pre>
+              </div>
+            )}
+          </section>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * 스키마로 예시 값 생성 (JSON 본문 입력창의 초기값)
+ * 필수 필드만 채움
+ */
+function exampleFor(schema: JsonSchema): unknown {
+  if (schema.example !== undefined) return schema.example;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum) return schema.enum[0];
+
+  switch (schema.type) {
+    case "object": {
+      const properties = (schema.properties || {}) as Record<
+        string,
+        JsonSchema
+      >;
+      const required = (schema.required || []) as string[];
+      const keys =
+        required.length > 0 ? required : Object.keys(properties).slice(0, 1);
+      return Object.fromEntries(
+        keys
+          .filter((key) => properties[key])
+          .map((key) => [key, exampleFor(properties[key]!)])
+      );
+    }
+    case "array":
+      return schema.items ? [exampleFor(schema.items)] : [];
+    case "integer":
+    case "number":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return "";
+  }
+}
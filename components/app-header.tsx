@@ -10,7 +10,7 @@ import { ApiKeyModal } from "@/components/ApiKeyModal";
 import { Button } from "@/components/ui/button";
 import { useAppStore } from "@/store";
 import { cn } from "@/lib/utils";
-import { Database, Key, Trash2 } from "lucide-react";
+import { BookOpen, Database, Key, Trash2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -29,7 +29,8 @@ export function AppHeader() {
   const t = useTranslations("header");
   const tCommon = useTranslations("common");
   const pathname = usePathname();
-  const { hasApiKey, clearApiKey } = useAppStore();
+  const { apiKey, apiKeyMode, allowByok, clearApiKey } = useAppStore();
+  const isServerMode = apiKeyMode === "server";
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
   const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
   const [isHydrated, setIsHydrated] = useState(false);
@@ -40,6 +41,11 @@ export function AppHeader() {
       label: tCommon("stores"),
       icon: Database,
     },
+    {
+      href: "/docs" as const,
+      label: tCommon("apiDocs"),
+      icon: BookOpen,
+    },
   ];
 
   useEffect(() => {
@@ -52,7 +58,7 @@ export function AppHeader() {
   };
 
   const handleApiKeyButtonClick = () => {
-    if (hasApiKey()) {
+    if (apiKey) {
       setIsConfirmDeleteOpen(true);
     } else {
       setIsApiKeyModalOpen(true);
@@ -88,17 +94,28 @@ export function AppHeader() {
 
         <div className="flex items-center gap-2">
           <div className="hidden md:flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleApiKeyButtonClick}
-              className="gap-2"
-            >
-              <Key className="h-4 w-4" />
-              <span className="hidden sm:inline">
-                {isHydrated && hasApiKey() ? t("apiKeyReset") : t("apiKeyInput")}
+            {isServerMode && !allowByok ? (
+              <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Key className="h-4 w-4" />
+                {t("serverKeyInUse")}
               </span>
-            </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleApiKeyButtonClick}
+                className="gap-2"
+              >
+                <Key className="h-4 w-4" />
+                <span className="hidden sm:inline">
+                  {isHydrated && apiKey
+                    ? t("apiKeyReset")
+                    : isServerMode
+                      ? t("apiKeyUseOwn")
+                      : t("apiKeyInput")}
+                </span>
+              </Button>
+            )}
             <LanguageToggle />
             <ThemeToggle />
           </div>
@@ -120,7 +137,9 @@ export function AppHeader() {
             <DialogDescription className="text-sm">
               {t("resetConfirmMessage")}
               <br />
-              {t("resetConfirmDescription")}
+              {isServerMode
+                ? t("resetConfirmServerDescription")
+                : t("resetConfirmDescription")}
             </DialogDescription>
           </DialogHeader>
           <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
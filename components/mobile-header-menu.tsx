@@ -27,7 +27,8 @@ export function MobileHeaderMenu() {
   const t = useTranslations("header");
   const tCommon = useTranslations("common");
   const [open, setOpen] = useState(false);
-  const { hasApiKey, clearApiKey } = useAppStore();
+  const { apiKey, apiKeyMode, allowByok, clearApiKey } = useAppStore();
+  const isServerMode = apiKeyMode === "server";
   const [isApiKeyModalOpen, setIsApiKeyModalOpen] = useState(false);
   const [isConfirmDeleteOpen, setIsConfirmDeleteOpen] = useState(false);
 
@@ -38,7 +39,7 @@ export function MobileHeaderMenu() {
   };
 
   const handleApiKeyButtonClick = () => {
-    if (hasApiKey()) {
+    if (apiKey) {
       setIsConfirmDeleteOpen(true);
     } else {
       setIsApiKeyModalOpen(true);
@@ -64,14 +65,25 @@ export function MobileHeaderMenu() {
                 Settings
               </h3>
               <div className="flex flex-col gap-4">
-                <Button
-                  variant="outline"
-                  onClick={handleApiKeyButtonClick}
-                  className="justify-start gap-2 w-full"
-                >
-                  <Key className="h-4 w-4" />
-                  {hasApiKey() ? t("apiKeyReset") : t("apiKeyInput")}
-                </Button>
+                {isServerMode && !allowByok ? (
+                  <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Key className="h-4 w-4" />
+                    {t("serverKeyInUse")}
+                  </span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={handleApiKeyButtonClick}
+                    className="justify-start gap-2 w-full"
+                  >
+                    <Key className="h-4 w-4" />
+                    {apiKey
+                      ? t("apiKeyReset")
+                      : isServerMode
+                        ? t("apiKeyUseOwn")
+                        : t("apiKeyInput")}
+                  </Button>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-sm">Language</span>
                   <LanguageToggle />
@@ -100,7 +112,9 @@ export function MobileHeaderMenu() {
             <DialogDescription className="text-sm">
               {t("resetConfirmMessage")}
               <br />
-              {t("resetConfirmDescription")}
+              {isServerMode
+                ? t("resetConfirmServerDescription")
+                : t("resetConfirmDescription")}
             </DialogDescription>
           </DialogHeader>
           <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
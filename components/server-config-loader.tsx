@@ -0,0 +1,41 @@
+"use client";
+
+import { useEffect } from "react";
+import { useAppStore } from "@/store";
+import type { ApiResponse, ServerConfigResponse } from "@/types";
+
+/** 설정을 가져오지 못했을 때: 기존처럼 브라우저의 키 사용 */
+const FALLBACK_CONFIG: ServerConfigResponse = {
+  apiKeyMode: "client",
+  allowByok: true,
+};
+
+/**
+ * Server Config Loader Component
+ *
+ * 서버의 API 키 모드(GET /api/config)를 불러와 apiKey slice에 반영
+ * - 페이지는 apiKeyMode가 정해진 뒤에 API 키 여부를 확인
+ * - 화면에는 아무것도 렌더링하지 않음
+ */
+export function ServerConfigLoader() {
+  const setServerConfig = useAppStore((state) => state.setServerConfig);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/config");
+        const data: ApiResponse<ServerConfigResponse> = await response.json();
+        setServerConfig(
+          response.ok && data.success && data.data ? data.data : FALLBACK_CONFIG
+        );
+      } catch (error) {
+        console.error("서버 설정 조회 오류:", error);
+        setServerConfig(FALLBACK_CONFIG);
+      }
+    };
+
+    load();
+  }, [setServerConfig]);
+
+  return null;
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAppStore } from "@/store";
+import { useApiErrorMessage } from "@/hooks/use-api-error-message";
+import type { ApiResponse, OperationStatusResponse } from "@/types";
+
+/** 폴링 간격 */
+const POLL_INTERVAL_MS = 2000;
+/** 이 시간이 지나도 완료되지 않으면 실패로 표시 */
+const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+/** 한 번에 확인할 최대 작업 수 (read 요청 제한 5회/초 이내, ZIP 가져오기처럼 작업이 많을 때) */
+const MAX_JOBS_PER_POLL = 10;
+
+/**
+ * Upload Job Poller Component
+ *
+ * 진행 중인 업로드 작업의 인덱싱 상태를 주기적으로 확인
+ * - 레이아웃에 마운트되어 페이지 이동과 관계없이 폴링 유지
+ * - 화면에는 아무것도 렌더링하지 않음 (상태는 uploads slice에 반영)
+ */
+export function UploadJobPoller() {
+  const hasProcessingJobs = useAppStore((state) =>
+    state.uploadJobs.some((job) => job.status === "processing")
+  );
+  const isPolling = useRef(false);
+  // 작업이 MAX_JOBS_PER_POLL개보다 많으면 다음 폴링은 이어서 확인
+  const cursor = useRef(0);
+  const getErrorMessage = useApiErrorMessage();
+
+  useEffect(() => {
+    if (!hasProcessingJobs) return undefined;
+
+    const poll = async () => {
+      // 이전 폴링이 끝나지 않았으면 건너뜀
+      if (isPolling.current) return;
+      isPolling.current = true;
+
+      try {
+        const { apiKey, hasApiKey, uploadJobs, updateUploadJob } =
+          useAppStore.getState();
+        if (!hasApiKey()) return;
+
+        const processing = uploadJobs.filter(
+          (job) => job.status === "processing"
+        );
+        if (processing.length === 0) return;
+
+        const start = cursor.current % processing.length;
+        const batch = [...processing, ...processing].slice(
+          start,
+          start + Math.min(MAX_JOBS_PER_POLL, processing.length)
+        );
+        cursor.current = start + batch.length;
+
+        await Promise.all(
+          batch.map(async (job) => {
+            if (Date.now() - job.createdAt > JOB_TIMEOUT_MS) {
+              updateUploadJob(job.id, {
+                status: "failed",
+                error: "인덱싱 시간이 초과되었습니다",
+              });
+              return;
+            }
+
+            try {
+              const response = await fetch(
+                `/api/operations/${encodeURIComponent(job.operationName)}`,
+                { headers: { "x-api-key": apiKey || "" } }
+              );
+              const data: ApiResponse<OperationStatusResponse> =
+                await response.json();
+
+              if (!response.ok || !data.success || !data.data) {
+                // operation이 사라졌으면 더 이상 확인할 수 없음
+                if (response.status === 404) {
+                  updateUploadJob(job.id, {
+                    status: "failed",
+                    error: getErrorMessage(data),
+                  });
+                }
+                return;
+              }
+
+              const status = data.data;
+              if (!status.done) return;
+
+              updateUploadJob(
+                job.id,
+                status.error
+                  ? { status: "failed", error: status.error }
+                  : { status: "done", documentName: status.documentName }
+              );
+            } catch (error) {
+              // 네트워크 오류는 다음 폴링에서 다시 시도
+              console.error("업로드 상태 확인 오류:", error);
+            }
+          })
+        );
+      } finally {
+        isPolling.current = false;
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }, [hasProcessingJobs, getErrorMessage]);
+
+  return null;
+}
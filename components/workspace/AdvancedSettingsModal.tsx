@@ -10,15 +10,31 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useModelState } from "@/store";
 import { useTranslations } from "next-intl";
+import { MetadataFilterBuilder } from "./MetadataFilterBuilder";
+import { HarmBlockThreshold, HarmCategory } from "@/types/gemini";
+
+/** 설정할 수 있는 안전 카테고리 */
+const SAFETY_CATEGORIES = Object.values(HarmCategory).filter(
+  (category) => category !== HarmCategory.HARM_CATEGORY_UNSPECIFIED
+);
+
+/** 선택할 수 있는 차단 임계값 (선택하지 않으면 모델 기본값) */
+const SAFETY_THRESHOLDS = Object.values(HarmBlockThreshold).filter(
+  (threshold) =>
+    threshold !== HarmBlockThreshold.HARM_BLOCK_THRESHOLD_UNSPECIFIED
+);
 
 interface AdvancedSettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  /** 메타데이터 키 추천에 사용할 검색 대상 스토어 ID 목록 */
+  storeIds: string[];
 }
 
 export function AdvancedSettingsModal({
   open,
   onOpenChange,
+  storeIds,
 }: AdvancedSettingsModalProps) {
   const t = useTranslations("workspace");
   const tCommon = useTranslations("common");
@@ -35,11 +51,22 @@ export function AdvancedSettingsModal({
     setTopK,
     metadataFilter,
     setMetadataFilter,
+    safetySettings,
+    setSafetySettings,
   } = useModelState();
 
+  function handleSafetyChange(category: HarmCategory, threshold: string) {
+    const others = safetySettings.filter(
+      (setting) => setting.category !== category
+    );
+    setSafetySettings(
+      threshold ? [...others, { category, threshold }] : others
+    );
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[425px] max-h-[85vh] flex flex-col">
+      <DialogContent className="sm:max-w-[560px] max-h-[85vh] flex flex-col">
         <DialogHeader>
           <DialogTitle>{t("advancedOptions")}</DialogTitle>
         </DialogHeader>
@@ -47,11 +74,10 @@ export function AdvancedSettingsModal({
           {/* Metadata Filter */}
           <div className="grid gap-2">
             <Label htmlFor="metadataFilter">{t("metadataFilter")}</Label>
-            <Input
-              id="metadataFilter"
-              placeholder={t("metadataFilterPlaceholder")}
+            <MetadataFilterBuilder
               value={metadataFilter}
-              onChange={(e) => setMetadataFilter(e.target.value)}
+              onChange={setMetadataFilter}
+              storeIds={storeIds}
             />
           </div>
 
@@ -192,6 +218,41 @@ export function AdvancedSettingsModal({
             </div>
             <p className="text-xs text-muted-foreground">{t("topKHint")}</p>
           </div>
+
+          {/* Safety Settings */}
+          <div className="grid gap-2">
+            <Label>{t("safetySettings")}</Label>
+            {SAFETY_CATEGORIES.map((category) => (
+              <div key={category} className="flex items-center gap-2">
+                <Label
+                  htmlFor={`safety-${category}`}
+                  className="flex-1 font-normal"
+                >
+                  {t(`safetyCategories.${category}`)}
+                </Label>
+                <select
+                  id={`safety-${category}`}
+                  value={
+                    safetySettings.find(
+                      (setting) => setting.category === category
+                    )?.threshold ?? ""
+                  }
+                  onChange={(e) => handleSafetyChange(category, e.target.value)}
+                  className="h-9 w-48 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                >
+                  <option value="">{t("safetyDefault")}</option>
+                  {SAFETY_THRESHOLDS.map((threshold) => (
+                    <option key={threshold} value={threshold}>
+                      {t(`safetyThresholds.${threshold}`)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              {t("safetySettingsHint")}
+            </p>
+          </div>
         </div>
         <DialogFooter>
           <Button onClick={() => onOpenChange(false)}>{tCommon("close")}</Button>
@@ -0,0 +1,171 @@
+import { useMemo } from "react";
+import ReactMarkdown from "react-markdown";
+import { useTranslations } from "next-intl";
+import { Loader2 } from "lucide-react";
+import {
+  buildCitations,
+  CITATION_HREF_PREFIX,
+  type Citation,
+} from "@/lib/citations";
+import type { ChatMessage } from "@/types";
+
+interface ChatMessageItemProps {
+  message: ChatMessage;
+  /** 현재 스트리밍 중인 model 메시지 여부 */
+  isStreaming?: boolean;
+}
+
+interface CitationMarkerProps {
+  citation: Citation;
+  /** 각주 앵커 ID */
+  footnoteId: string;
+}
+
+/**
+ * 인라인 인용 마커
+ * 호버/포커스 시 출처 문서와 청크 텍스트를 표시합니다
+ */
+function CitationMarker({ citation, footnoteId }: CitationMarkerProps) {
+  return (
+    <span className="group relative inline-block not-prose">
+      <a
+        href={`#${footnoteId}`}
+        className="ml-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-primary/10 px-1 align-super text-[10px] font-medium text-primary no-underline hover:bg-primary/20 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+        aria-describedby={`${footnoteId}-preview`}
+      >
+        {citation.number}
+      </a>
+      <span
+        id={`${footnoteId}-preview`}
+        role="tooltip"
+        className="invisible absolute bottom-full left-1/2 z-20 mb-2 w-72 -translate-x-1/2 rounded-md border bg-popover p-3 text-left text-xs text-popover-foreground shadow-md opacity-0 transition-opacity group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100"
+      >
+        <span className="mb-1 flex items-center gap-2 font-semibold">
+          <span className="truncate">{citation.title}</span>
+          {citation.storeName && (
+            <span className="shrink-0 rounded bg-secondary px-1.5 py-0.5 font-normal text-muted-foreground">
+              {citation.storeName}
+            </span>
+          )}
+        </span>
+        <span className="block max-h-40 overflow-y-auto whitespace-pre-wrap text-muted-foreground">
+          {citation.text}
+        </span>
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Chat Message Item
+ *
+ * 대화 기록의 메시지 하나
+ * - user: 오른쪽 말풍선
+ * - model: 인용 번호가 표시된 마크다운 답변 + 해당 턴의 출처 각주
+ */
+export function ChatMessageItem({
+  message,
+  isStreaming,
+}: ChatMessageItemProps) {
+  const t = useTranslations("workspace");
+
+  const { markdown, citations } = useMemo(
+    () => buildCitations(message.text, message.groundingMetadata),
+    [message.text, message.groundingMetadata]
+  );
+  const footnoteId = (number: number) => `cite-${message.id}-${number}`;
+
+  if (message.role === "user") {
+    return (
+      <div className="flex justify-end">
+        <div className="max-w-[85%] rounded-2xl bg-secondary px-4 py-2 whitespace-pre-wrap break-words">
+          {message.text}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {message.text && (
+        <div className="prose prose-slate dark:prose-invert max-w-none">
+          <ReactMarkdown
+            components={{
+              a: ({ node: _node, href, children, ...props }) => {
+                const citation = href?.startsWith(CITATION_HREF_PREFIX)
+                  ? citations.find(
+                      (c) =>
+                        c.number ===
+                        Number(href.slice(CITATION_HREF_PREFIX.length))
+                    )
+                  : undefined;
+                if (citation) {
+                  return (
+                    <CitationMarker
+                      citation={citation}
+                      footnoteId={footnoteId(citation.number)}
+                    />
+                  );
+                }
+                return (
+                  <a href={href} {...props}>
+                    {children}
+                  </a>
+                );
+              },
+            }}
+          >
+            {markdown}
+          </ReactMarkdown>
+        </div>
+      )}
+
+      {isStreaming && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {t("generating")}
+        </div>
+      )}
+
+      {message.isError && !isStreaming && (
+        <p className="text-sm text-destructive">{t("messageFailed")}</p>
+      )}
+
+      {citations.length > 0 && (
+        <div className="border-t pt-4">
+          <h4 className="mb-2 text-sm font-semibold">
+            {t("groundingMetadataTitle")}
+          </h4>
+          <ol className="space-y-2 text-sm">
+            {citations.map((citation) => (
+              <li
+                key={citation.number}
+                id={footnoteId(citation.number)}
+                className="flex gap-2 scroll-mt-20"
+              >
+                <span className="shrink-0 font-medium text-primary">
+                  [{citation.number}]
+                </span>
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">
+                      {citation.title || t("untitledSource")}
+                    </span>
+                    {citation.storeName && (
+                      <span className="shrink-0 rounded bg-secondary px-1.5 py-0.5 text-xs text-muted-foreground">
+                        {citation.storeName}
+                      </span>
+                    )}
+                  </div>
+                  <p className="line-clamp-2 text-xs text-muted-foreground">
+                    {citation.text}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,521 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslations } from "next-intl";
+import { Loader2, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAppStore } from "@/store";
+import {
+  collectMetadataKeys,
+  parseMetadataFilter,
+  serializeMetadataFilter,
+  validateMetadataFilter,
+  type ComparisonOperator,
+  type FilterNode,
+  type MetadataKeyInfo,
+} from "@/lib/metadata-filter";
+import { generateId } from "@/lib/utils";
+import type { FileSearchDocument } from "@/types";
+
+interface MetadataFilterBuilderProps {
+  /** 필터 문자열 (AIP-160) */
+  value: string;
+  onChange: (value: string) => void;
+  /** 키 추천에 사용할 스토어 ID 목록 */
+  storeIds: string[];
+}
+
+interface BuilderCondition {
+  id: string;
+  kind: "condition";
+  key: string;
+  operator: ComparisonOperator;
+  value: string;
+  valueType: "string" | "number";
+}
+
+interface BuilderGroup {
+  id: string;
+  kind: "group";
+  combinator: "and" | "or";
+  children: BuilderItem[];
+}
+
+type BuilderItem = BuilderCondition | BuilderGroup;
+
+/** 비교 연산자 (name은 filterOperators 메시지 키) */
+const OPERATORS: Array<{
+  value: ComparisonOperator;
+  label: string;
+  name: string;
+}> = [
+  { value: "=", label: "=", name: "eq" },
+  { value: "!=", label: "≠", name: "neq" },
+  { value: "<", label: "<", name: "lt" },
+  { value: "<=", label: "≤", name: "lte" },
+  { value: ">", label: ">", name: "gt" },
+  { value: ">=", label: "≥", name: "gte" },
+  { value: ":", label: "∋", name: "has" },
+];
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+function createCondition(): BuilderCondition {
+  return {
+    id: generateId(),
+    kind: "condition",
+    key: "",
+    operator: "=",
+    value: "",
+    valueType: "string",
+  };
+}
+
+function createGroup(
+  children: BuilderItem[] = [createCondition()]
+): BuilderGroup {
+  return { id: generateId(), kind: "group", combinator: "and", children };
+}
+
+/**
+ * 필터 트리를 빌더 항목으로 변환 (NOT은 빌더에서 지원하지 않으므로 null)
+ */
+function toBuilderItem(node: FilterNode): BuilderItem | null {
+  switch (node.type) {
+    case "comparison":
+      return {
+        id: generateId(),
+        kind: "condition",
+        key: node.key,
+        operator: node.operator,
+        value: String(node.value),
+        valueType: typeof node.value === "number" ? "number" : "string",
+      };
+    case "and":
+    case "or": {
+      const children = node.children.map(toBuilderItem);
+      if (children.some((child) => child === null)) return null;
+      return {
+        id: generateId(),
+        kind: "group",
+        combinator: node.type,
+        children: children as BuilderItem[],
+      };
+    }
+    case "not":
+      return null;
+  }
+}
+
+/**
+ * 필터 문자열을 최상위 그룹으로 변환
+ * 빈 문자열은 빈 조건 하나, 파싱할 수 없거나 NOT이 포함되면 null
+ */
+function toBuilderGroup(value: string): BuilderGroup | null {
+  if (!value.trim()) return createGroup();
+
+  try {
+    const item = toBuilderItem(parseMetadataFilter(value));
+    if (!item) return null;
+    return item.kind === "group" ? item : createGroup([item]);
+  } catch {
+    return null;
+  }
+}
+
+function isComplete(condition: BuilderCondition): boolean {
+  return (
+    !!condition.key.trim() &&
+    !!condition.value.trim() &&
+    (condition.valueType === "string" ||
+      Number.isFinite(Number(condition.value)))
+  );
+}
+
+/**
+ * 빌더 항목을 필터 트리로 변환 (입력이 덜 된 조건과 빈 그룹은 제외)
+ */
+function toFilterNode(item: BuilderItem): FilterNode | null {
+  if (item.kind === "condition") {
+    if (!isComplete(item)) return null;
+    return {
+      type: "comparison",
+      key: item.key.trim(),
+      operator: item.operator,
+      value: item.valueType === "number" ? Number(item.value) : item.value,
+    };
+  }
+
+  const children = item.children
+    .map(toFilterNode)
+    .filter((child): child is FilterNode => child !== null);
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0]!;
+  return { type: item.combinator, children };
+}
+
+interface GroupEditorProps {
+  group: BuilderGroup;
+  keys: MetadataKeyInfo[];
+  onChange: (group: BuilderGroup) => void;
+  /** 중첩 그룹 삭제 (최상위 그룹은 없음) */
+  onRemove?: () => void;
+}
+
+/**
+ * AND/OR 그룹 편집기 (중첩 그룹은 재귀적으로 표시)
+ */
+function GroupEditor({ group, keys, onChange, onRemove }: GroupEditorProps) {
+  const t = useTranslations("workspace");
+
+  const updateChild = (index: number, child: BuilderItem) =>
+    onChange({
+      ...group,
+      children: group.children.map((c, i) => (i === index ? child : c)),
+    });
+  const removeChild = (index: number) =>
+    onChange({
+      ...group,
+      children: group.children.filter((_, i) => i !== index),
+    });
+
+  return (
+    <div className="space-y-2 rounded-md border p-2">
+      <div className="flex items-center justify-between gap-2">
+        <select
+          value={group.combinator}
+          onChange={(e) =>
+            onChange({ ...group, combinator: e.target.value as "and" | "or" })
+          }
+          className={SELECT_CLASS}
+        >
+          <option value="and">{t("filterMatchAll")}</option>
+          <option value="or">{t("filterMatchAny")}</option>
+        </select>
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onRemove}
+            title={t("filterRemove")}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.children.map((child, index) =>
+        child.kind === "group" ? (
+          <GroupEditor
+            key={child.id}
+            group={child}
+            keys={keys}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionEditor
+            key={child.id}
+            condition={child}
+            keys={keys}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              ...group,
+              children: [...group.children, createCondition()],
+            })
+          }
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          {t("filterAddCondition")}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            onChange({ ...group, children: [...group.children, createGroup()] })
+          }
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          {t("filterAddGroup")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ConditionEditorProps {
+  condition: BuilderCondition;
+  keys: MetadataKeyInfo[];
+  onChange: (condition: BuilderCondition) => void;
+  onRemove: () => void;
+}
+
+/**
+ * 비교 조건 한 줄 (키 / 연산자 / 값)
+ */
+function ConditionEditor({
+  condition,
+  keys,
+  onChange,
+  onRemove,
+}: ConditionEditorProps) {
+  const t = useTranslations("workspace");
+  const info = keys.find((k) => k.key === condition.key);
+  const valuesListId = `metadata-filter-values-${condition.id}`;
+  const isIncomplete =
+    (!!condition.key || !!condition.value) && !isComplete(condition);
+
+  // 알려진 키를 고르면 값 타입과 연산자를 키 타입에 맞춤
+  function handleKeyChange(key: string) {
+    const keyInfo = keys.find((k) => k.key === key);
+    if (!keyInfo) {
+      onChange({ ...condition, key });
+      return;
+    }
+    onChange({
+      ...condition,
+      key,
+      valueType: keyInfo.type === "numeric" ? "number" : "string",
+      operator: keyInfo.type === "stringList" ? ":" : condition.operator,
+    });
+  }
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-1.5 rounded-md p-1 ${
+        isIncomplete ? "ring-1 ring-destructive/50" : ""
+      }`}
+    >
+      <Input
+        list="metadata-filter-keys"
+        placeholder={t("filterKeyPlaceholder")}
+        value={condition.key}
+        onChange={(e) => handleKeyChange(e.target.value)}
+        className="h-9 w-32 flex-1"
+      />
+      <select
+        value={condition.operator}
+        onChange={(e) =>
+          onChange({
+            ...condition,
+            operator: e.target.value as ComparisonOperator,
+          })
+        }
+        className={SELECT_CLASS}
+      >
+        {OPERATORS.map((op) => (
+          <option key={op.value} value={op.value}>
+            {op.label} {t(`filterOperators.${op.name}`)}
+          </option>
+        ))}
+      </select>
+      <Input
+        list={valuesListId}
+        type={condition.valueType === "number" ? "number" : "text"}
+        placeholder={t("filterValuePlaceholder")}
+        value={condition.value}
+        onChange={(e) => onChange({ ...condition, value: e.target.value })}
+        className="h-9 w-28 flex-1"
+      />
+      <datalist id={valuesListId}>
+        {info?.values.map((value) => (
+          <option key={value} value={value} />
+        ))}
+      </datalist>
+      <select
+        value={condition.valueType}
+        onChange={(e) =>
+          onChange({
+            ...condition,
+            valueType: e.target.value as "string" | "number",
+          })
+        }
+        className={SELECT_CLASS}
+      >
+        <option value="string">{t("filterValueText")}</option>
+        <option value="number">{t("filterValueNumber")}</option>
+      </select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onRemove}
+        title={t("filterRemove")}
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Metadata Filter Builder
+ *
+ * metadataFilter를 AND/OR 그룹과 비교 조건으로 편집
+ * - 빌더 변경 시 AIP-160 문자열로 변환, 기존 문자열은 빌더로 다시 파싱
+ * - NOT 등 빌더로 표현할 수 없는 필터는 텍스트로만 편집
+ * - 키 추천과 검증은 스토어 문서의 실제 customMetadata 기준
+ */
+export function MetadataFilterBuilder({
+  value,
+  onChange,
+  storeIds,
+}: MetadataFilterBuilderProps) {
+  const t = useTranslations("workspace");
+  const { apiKey } = useAppStore();
+
+  const [group, setGroup] = useState<BuilderGroup | null>(() =>
+    toBuilderGroup(value)
+  );
+  const [mode, setMode] = useState<"builder" | "text">(
+    group ? "builder" : "text"
+  );
+  const [keys, setKeys] = useState<MetadataKeyInfo[]>([]);
+  const [isLoadingKeys, setIsLoadingKeys] = useState(false);
+  // 빌더가 마지막으로 만든 문자열 (외부 변경과 구분)
+  const emittedValue = useRef(value);
+
+  // 외부에서 필터 문자열이 바뀌면 빌더 다시 구성
+  useEffect(() => {
+    if (value === emittedValue.current) return;
+    emittedValue.current = value;
+    const next = toBuilderGroup(value);
+    setGroup(next);
+    if (!next) setMode("text");
+  }, [value]);
+
+  // 스토어 문서의 메타데이터 키 수집
+  const storeIdsKey = storeIds.join(",");
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadKeys() {
+      setIsLoadingKeys(true);
+      try {
+        const responses = await Promise.all(
+          storeIds.map(async (storeId) => {
+            const response = await fetch(`/api/stores/${storeId}/documents`, {
+              headers: { "x-api-key": apiKey || "" },
+            });
+            const data = await response.json();
+            return response.ok && data.success
+              ? (data.data.data as FileSearchDocument[])
+              : [];
+          })
+        );
+        if (!cancelled) setKeys(collectMetadataKeys(responses.flat()));
+      } catch {
+        // 키 추천 없이도 필터 편집은 가능
+      } finally {
+        if (!cancelled) setIsLoadingKeys(false);
+      }
+    }
+
+    loadKeys();
+    return () => {
+      cancelled = true;
+    };
+  }, [storeIdsKey, apiKey]);
+
+  function handleGroupChange(next: BuilderGroup) {
+    setGroup(next);
+    const node = toFilterNode(next);
+    const serialized = node ? serializeMetadataFilter(node) : "";
+    emittedValue.current = serialized;
+    onChange(serialized);
+  }
+
+  function handleTextChange(text: string) {
+    emittedValue.current = text;
+    onChange(text);
+    setGroup(toBuilderGroup(text));
+  }
+
+  const error = validateMetadataFilter(value, keys);
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center gap-1">
+        <Button
+          variant={mode === "builder" ? "secondary" : "ghost"}
+          size="sm"
+          disabled={!group}
+          onClick={() => setMode("builder")}
+        >
+          {t("filterBuilder")}
+        </Button>
+        <Button
+          variant={mode === "text" ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setMode("text")}
+        >
+          {t("filterText")}
+        </Button>
+        {isLoadingKeys && (
+          <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+        {value && !isLoadingKeys && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => handleTextChange("")}
+          >
+            {t("filterClear")}
+          </Button>
+        )}
+      </div>
+
+      <datalist id="metadata-filter-keys">
+        {keys.map((info) => (
+          <option key={info.key} value={info.key}>
+            {t(`filterKeyTypes.${info.type}`)}
+          </option>
+        ))}
+      </datalist>
+
+      {mode === "builder" && group ? (
+        <GroupEditor group={group} keys={keys} onChange={handleGroupChange} />
+      ) : (
+        <>
+          <Input
+            id="metadataFilter"
+            placeholder={t("metadataFilterPlaceholder")}
+            value={value}
+            onChange={(e) => handleTextChange(e.target.value)}
+            className="font-mono text-sm"
+          />
+          {!group && value.trim() && !error && (
+            <p className="text-xs text-muted-foreground">
+              {t("filterUnsupported")}
+            </p>
+          )}
+        </>
+      )}
+
+      {error ? (
+        <p className="text-xs text-destructive">
+          {t("filterInvalid", { error })}
+        </p>
+      ) : (
+        mode === "builder" &&
+        value && (
+          <code className="block break-all rounded bg-muted px-2 py-1 text-xs">
+            {value}
+          </code>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useModelState, usePresetsState } from "@/store";
+import { useTranslations } from "next-intl";
+import { Bookmark, Check, ChevronDown, Settings2, Star } from "lucide-react";
+import {
+  isSamePresetSettings,
+  pickPresetSettings,
+} from "@/lib/settings-presets";
+import { cn } from "@/lib/utils";
+import { PresetsModal } from "./PresetsModal";
+
+interface PresetSwitcherProps {
+  storeName: string;
+}
+
+/**
+ * Preset Switcher
+ *
+ * 워크스페이스 헤더의 설정 프리셋 빠른 전환
+ * - 적용한 프리셋 이름 표시 (이후 설정을 바꾸면 변경됨 표시)
+ * - 스토어 기본 프리셋은 별 표시
+ * - 프리셋 관리 창 열기
+ */
+export function PresetSwitcher({ storeName }: PresetSwitcherProps) {
+  const t = useTranslations("workspace");
+  const modelState = useModelState();
+  const { presets, defaultPresetIds, activePresetId, applyPreset } =
+    usePresetsState();
+  const [isManageOpen, setIsManageOpen] = useState(false);
+
+  const activePreset = presets.find((preset) => preset.id === activePresetId);
+  const isModified =
+    !!activePreset &&
+    !isSamePresetSettings(activePreset, pickPresetSettings(modelState));
+  const sortedPresets = [...presets].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className="gap-2 max-w-[12rem]"
+            title={t("presets")}
+          >
+            <Bookmark className="h-4 w-4 shrink-0" />
+            <span className="truncate">
+              {activePreset ? activePreset.name : t("noPreset")}
+              {isModified && ` (${t("presetModified")})`}
+            </span>
+            <ChevronDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          {sortedPresets.map((preset) => (
+            <DropdownMenuItem
+              key={preset.id}
+              onClick={() => applyPreset(preset.id)}
+              className="gap-2"
+            >
+              <Check
+                className={cn(
+                  "h-4 w-4",
+                  preset.id !== activePresetId && "invisible"
+                )}
+              />
+              <span className="flex-1 truncate">{preset.name}</span>
+              {preset.id === defaultPresetIds[storeName] && (
+                <Star
+                  className="h-3.5 w-3.5 fill-current text-yellow-500"
+                  aria-label={t("presetDefault")}
+                />
+              )}
+            </DropdownMenuItem>
+          ))}
+          {sortedPresets.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem
+            onClick={() => setIsManageOpen(true)}
+            className="gap-2"
+          >
+            <Settings2 className="h-4 w-4" />
+            {t("presetsManage")}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <PresetsModal
+        open={isManageOpen}
+        onOpenChange={setIsManageOpen}
+        storeName={storeName}
+      />
+    </>
+  );
+}
@@ -0,0 +1,388 @@
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useModelState, usePresetsState } from "@/store";
+import { useTranslations } from "next-intl";
+import {
+  Check,
+  Download,
+  Pencil,
+  Save,
+  Star,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { MAX_PRESET_NAME_LENGTH } from "@/lib/schemas";
+import {
+  buildPresetFile,
+  parsePresetFile,
+  pickPresetSettings,
+} from "@/lib/settings-presets";
+import { cn, downloadJson } from "@/lib/utils";
+import type { SettingsPreset } from "@/types";
+
+interface PresetsModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 기본 프리셋을 지정할 스토어 이름 */
+  storeName: string;
+}
+
+/**
+ * 프리셋 목록에 표시할 설정 요약
+ */
+function summarizePreset(preset: SettingsPreset): string {
+  const { temperature, maxOutputTokens, topP, topK } = preset.generationConfig;
+  return [
+    preset.model,
+    temperature !== undefined && `temperature ${temperature}`,
+    maxOutputTokens !== undefined && `maxOutputTokens ${maxOutputTokens}`,
+    topP !== undefined && `topP ${topP}`,
+    topK !== undefined && `topK ${topK}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Presets Modal
+ *
+ * 워크스페이스 설정 프리셋 관리
+ * - 현재 설정을 이름을 붙여 저장 (같은 이름이면 덮어씀)
+ * - 적용, 이름 변경, 현재 설정으로 갱신, 삭제
+ * - 스토어 기본 프리셋 지정 (워크스페이스를 열 때 적용)
+ * - JSON 파일로 가져오기/내보내기
+ */
+export function PresetsModal({
+  open,
+  onOpenChange,
+  storeName,
+}: PresetsModalProps) {
+  const t = useTranslations("workspace");
+  const tCommon = useTranslations("common");
+  const modelState = useModelState();
+  const {
+    presets,
+    defaultPresetIds,
+    activePresetId,
+    savePreset,
+    updatePreset,
+    deletePreset,
+    applyPreset,
+    setDefaultPreset,
+    importPresets,
+  } = usePresetsState();
+
+  const [name, setName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [deleteConfirm, setDeleteConfirm] = useState<SettingsPreset | null>(
+    null
+  );
+  const [importMessage, setImportMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const trimmedName = name.trim();
+  const willOverwrite = presets.some((preset) => preset.name === trimmedName);
+  const defaultPresetId = defaultPresetIds[storeName];
+  const sortedPresets = [...presets].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+
+  function handleSave() {
+    if (!trimmedName) return;
+    savePreset(trimmedName, pickPresetSettings(modelState));
+    setName("");
+  }
+
+  function startRename(preset: SettingsPreset) {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  }
+
+  function commitRename() {
+    const trimmed = editingName.trim();
+    // 다른 프리셋과 이름이 겹치면 변경하지 않음
+    if (
+      editingId &&
+      trimmed &&
+      !presets.some(
+        (preset) => preset.id !== editingId && preset.name === trimmed
+      )
+    ) {
+      updatePreset(editingId, { name: trimmed });
+    }
+    setEditingId(null);
+  }
+
+  function handleDelete(preset: SettingsPreset) {
+    deletePreset(preset.id);
+    setDeleteConfirm(null);
+  }
+
+  async function handleImport(file: File | undefined) {
+    if (!file) return;
+    const parsed = parsePresetFile(await file.text());
+    if (!parsed) {
+      setImportMessage({ text: t("presetsImportInvalid"), isError: true });
+      return;
+    }
+    const count = importPresets(parsed.presets);
+    setImportMessage({ text: t("presetsImported", { count }), isError: false });
+  }
+
+  return (
+    <>
+      <Dialog
+        open={open}
+        onOpenChange={(next) => {
+          onOpenChange(next);
+          if (!next) setImportMessage(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[560px] max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>{t("presets")}</DialogTitle>
+            <DialogDescription className="text-sm">
+              {t("presetsDescription")}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2 overflow-y-auto px-1">
+            {/* Save Current Settings */}
+            <div className="grid gap-2">
+              <Label htmlFor="presetName">{t("presetSaveCurrent")}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="presetName"
+                  value={name}
+                  maxLength={MAX_PRESET_NAME_LENGTH}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleSave();
+                  }}
+                  placeholder={t("presetNamePlaceholder")}
+                />
+                <Button onClick={handleSave} disabled={!trimmedName}>
+                  <Save className="mr-2 h-4 w-4" />
+                  {tCommon("save")}
+                </Button>
+              </div>
+              {willOverwrite && (
+                <p className="text-xs text-muted-foreground">
+                  {t("presetOverwriteHint", { name: trimmedName })}
+                </p>
+              )}
+            </div>
+
+            {/* Preset List */}
+            <div className="space-y-1">
+              {sortedPresets.length === 0 ? (
+                <p className="py-4 text-sm text-muted-foreground text-center">
+                  {t("presetsEmpty")}
+                </p>
+              ) : (
+                sortedPresets.map((preset) => (
+                  <div
+                    key={preset.id}
+                    className={cn(
+                      "group flex items-center gap-1 rounded-md px-2 py-1.5",
+                      preset.id === activePresetId
+                        ? "bg-secondary"
+                        : "hover:bg-accent"
+                    )}
+                  >
+                    {editingId === preset.id ? (
+                      <Input
+                        autoFocus
+                        value={editingName}
+                        maxLength={MAX_PRESET_NAME_LENGTH}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename();
+                          if (e.key === "Escape") setEditingId(null);
+                        }}
+                        aria-label={t("presetRename")}
+                        className="h-8 text-sm"
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => applyPreset(preset.id)}
+                        className="flex-1 min-w-0 text-left"
+                        title={t("presetApply")}
+                      >
+                        <span className="flex items-center gap-1.5 text-sm font-medium">
+                          {preset.id === activePresetId && (
+                            <Check className="h-3.5 w-3.5 shrink-0" />
+                          )}
+                          <span className="truncate">{preset.name}</span>
+                        </span>
+                        <span className="block truncate text-xs text-muted-foreground">
+                          {summarizePreset(preset)}
+                        </span>
+                      </button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className={cn(
+                        "h-7 w-7 shrink-0",
+                        preset.id === defaultPresetId && "text-yellow-500"
+                      )}
+                      onClick={() =>
+                        setDefaultPreset(
+                          storeName,
+                          preset.id === defaultPresetId ? null : preset.id
+                        )
+                      }
+                      aria-pressed={preset.id === defaultPresetId}
+                      aria-label={t("presetSetDefault")}
+                      title={t("presetSetDefault")}
+                    >
+                      <Star
+                        className={cn(
+                          "h-3.5 w-3.5",
+                          preset.id === defaultPresetId && "fill-current"
+                        )}
+                      />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() =>
+                        updatePreset(preset.id, pickPresetSettings(modelState))
+                      }
+                      aria-label={t("presetUpdate")}
+                      title={t("presetUpdate")}
+                    >
+                      <Save className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={() => startRename(preset)}
+                      aria-label={t("presetRename")}
+                      title={t("presetRename")}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0 text-destructive"
+                      onClick={() => setDeleteConfirm(preset)}
+                      aria-label={t("presetDelete")}
+                      title={t("presetDelete")}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {importMessage && (
+              <p
+                className={cn(
+                  "text-sm",
+                  importMessage.isError
+                    ? "text-destructive"
+                    : "text-muted-foreground"
+                )}
+              >
+                {importMessage.text}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter className="gap-2 sm:justify-between">
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  handleImport(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {t("presetsImport")}
+              </Button>
+              <Button
+                variant="outline"
+                disabled={presets.length === 0}
+                onClick={() =>
+                  downloadJson(
+                    "workspace-presets.json",
+                    buildPresetFile(sortedPresets)
+                  )
+                }
+              >
+                <Download className="mr-2 h-4 w-4" />
+                {t("presetsExport")}
+              </Button>
+            </div>
+            <Button onClick={() => onOpenChange(false)}>
+              {tCommon("close")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Modal */}
+      <Dialog
+        open={deleteConfirm !== null}
+        onOpenChange={() => setDeleteConfirm(null)}
+      >
+        <DialogContent className="w-[calc(100%-2rem)] max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("presetDeleteConfirmTitle")}</DialogTitle>
+            <DialogDescription className="text-sm">
+              {t("presetDeleteConfirmMessage", {
+                name: deleteConfirm?.name ?? "",
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDeleteConfirm(null)}
+              className="w-full sm:w-auto"
+            >
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteConfirm && handleDelete(deleteConfirm)}
+              className="w-full sm:w-auto"
+            >
+              {tCommon("delete")}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,318 @@
+import { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useQueryState } from "@/store";
+import { useTranslations } from "next-intl";
+import { RotateCcw, Search, Trash2 } from "lucide-react";
+import { formatDate, truncate } from "@/lib/utils";
+import { ChatMessageItem } from "./ChatMessageItem";
+import type { QueryHistoryItem } from "@/types";
+
+/** 날짜 필터 (최근 N일) */
+const DATE_RANGES = {
+  all: null,
+  today: 1,
+  week: 7,
+  month: 30,
+} as const;
+
+type DateRange = keyof typeof DATE_RANGES;
+
+/** 목록에 표시할 답변 미리보기 길이 */
+const PREVIEW_LENGTH = 120;
+
+const selectClassName =
+  "h-9 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+interface QueryHistoryPanelProps {
+  storeName: string;
+  /** 현재 설정으로 다시 실행 (새 대화에서) */
+  onRerun: (item: QueryHistoryItem) => void;
+}
+
+/**
+ * 날짜 필터의 시작 시각 (오늘은 자정부터)
+ */
+function getRangeStart(range: DateRange): number | null {
+  const days = DATE_RANGES[range];
+  if (days === null) return null;
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (days - 1));
+  return start.getTime();
+}
+
+/**
+ * Query History Panel
+ *
+ * 스토어의 쿼리 히스토리
+ * - 질문과 답변 전체 텍스트 검색, 모델/날짜 필터
+ * - 항목을 열면 당시의 답변과 인용, 모델/설정 표시
+ * - 현재 설정으로 다시 실행, 항목/전체 삭제
+ */
+export function QueryHistoryPanel({
+  storeName,
+  onRerun,
+}: QueryHistoryPanelProps) {
+  const t = useTranslations("workspace");
+  const tCommon = useTranslations("common");
+  const { history, removeFromHistory, clearHistory } = useQueryState();
+
+  const [search, setSearch] = useState("");
+  const [model, setModel] = useState("");
+  const [dateRange, setDateRange] = useState<DateRange>("all");
+  const [selected, setSelected] = useState<QueryHistoryItem | null>(null);
+  const [clearConfirm, setClearConfirm] = useState(false);
+
+  const storeHistory = useMemo(
+    () => history.filter((item) => item.storeName === storeName),
+    [history, storeName]
+  );
+  const models = useMemo(
+    () => [...new Set(storeHistory.flatMap((item) => item.model || []))].sort(),
+    [storeHistory]
+  );
+
+  const rangeStart = getRangeStart(dateRange);
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const filtered = storeHistory.filter((item) => {
+    if (model && item.model !== model) return false;
+    if (rangeStart !== null && item.timestamp < rangeStart) return false;
+    const text = `${item.query}\n${item.response}`.toLowerCase();
+    return terms.every((term) => text.includes(term));
+  });
+
+  function handleRerun(item: QueryHistoryItem) {
+    setSelected(null);
+    onRerun(item);
+  }
+
+  function handleDelete(item: QueryHistoryItem) {
+    removeFromHistory(item.id);
+    setSelected(null);
+  }
+
+  function handleClear() {
+    clearHistory(storeName);
+    setClearConfirm(false);
+  }
+
+  const settings = selected?.settings;
+  const generationConfig = Object.entries(settings?.generationConfig || {});
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b space-y-2">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("historySearchPlaceholder")}
+            aria-label={t("historySearchPlaceholder")}
+            className="h-9 pl-8"
+          />
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            aria-label={t("historyModelFilter")}
+            className={selectClassName}
+          >
+            <option value="">{t("historyAllModels")}</option>
+            {models.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={dateRange}
+            onChange={(e) => setDateRange(e.target.value as DateRange)}
+            aria-label={t("historyDateFilter")}
+            className={selectClassName}
+          >
+            {(Object.keys(DATE_RANGES) as DateRange[]).map((range) => (
+              <option key={range} value={range}>
+                {t(`historyDateRanges.${range}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {filtered.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-muted-foreground text-center">
+            {storeHistory.length === 0
+              ? t("historyEmpty")
+              : t("historyNoMatches")}
+          </p>
+        ) : (
+          filtered.map((item) => (
+            <button
+              key={item.id}
+              type="button"
+              onClick={() => setSelected(item)}
+              className="w-full rounded-md px-2 py-2 text-left hover:bg-accent"
+            >
+              <span className="block text-sm font-medium truncate">
+                {item.query}
+              </span>
+              <span className="block text-xs text-muted-foreground line-clamp-2">
+                {truncate(item.response, PREVIEW_LENGTH)}
+              </span>
+              <span className="mt-1 block text-xs text-muted-foreground">
+                {formatDate(new Date(item.timestamp))}
+                {item.model && ` · ${item.model}`}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+
+      {storeHistory.length > 0 && (
+        <div className="p-3 border-t">
+          <Button
+            variant="ghost"
+            className="w-full text-destructive"
+            onClick={() => setClearConfirm(true)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            {t("historyClear")}
+          </Button>
+        </div>
+      )}
+
+      {/* History Detail Modal */}
+      <Dialog
+        open={selected !== null}
+        onOpenChange={(open) => !open && setSelected(null)}
+      >
+        <DialogContent className="w-[calc(100%-2rem)] sm:max-w-3xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="pr-6 break-words">
+              {selected?.query}
+            </DialogTitle>
+            <DialogDescription className="text-sm">
+              {selected && formatDate(new Date(selected.timestamp))}
+              {selected?.model && ` · ${selected.model}`}
+              {selected?.storeIds &&
+                ` · ${t("storesSelected", { count: selected.storeIds.length })}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 min-h-0 overflow-y-auto space-y-4 pr-1">
+            {selected && (
+              <ChatMessageItem
+                message={{
+                  id: selected.id,
+                  role: "model",
+                  text: selected.response,
+                  groundingMetadata: selected.groundingMetadata,
+                  timestamp: selected.timestamp,
+                }}
+              />
+            )}
+
+            {(settings?.systemInstruction ||
+              settings?.metadataFilter ||
+              generationConfig.length > 0 ||
+              !!settings?.safetySettings?.length) && (
+              <dl className="border-t pt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+                {settings?.systemInstruction && (
+                  <>
+                    <dt className="font-medium">{t("systemInstruction")}</dt>
+                    <dd className="text-muted-foreground whitespace-pre-wrap break-words">
+                      {settings.systemInstruction}
+                    </dd>
+                  </>
+                )}
+                {settings?.metadataFilter && (
+                  <>
+                    <dt className="font-medium">{t("metadataFilter")}</dt>
+                    <dd className="text-muted-foreground font-mono break-all">
+                      {settings.metadataFilter}
+                    </dd>
+                  </>
+                )}
+                {generationConfig.map(([key, value]) => (
+                  <div key={key} className="contents">
+                    <dt className="font-medium">{key}</dt>
+                    <dd className="text-muted-foreground">{String(value)}</dd>
+                  </div>
+                ))}
+                {settings?.safetySettings?.map(({ category, threshold }) => (
+                  <div key={category} className="contents">
+                    <dt className="font-medium">
+                      {t(`safetyCategories.${category}`)}
+                    </dt>
+                    <dd className="text-muted-foreground">
+                      {t(`safetyThresholds.${threshold}`)}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2 pt-2">
+            <Button
+              variant="outline"
+              onClick={() => selected && handleDelete(selected)}
+              className="w-full sm:w-auto text-destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              {tCommon("delete")}
+            </Button>
+            <Button
+              onClick={() => selected && handleRerun(selected)}
+              className="w-full sm:w-auto"
+            >
+              <RotateCcw className="mr-2 h-4 w-4" />
+              {t("historyRerun")}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Clear Confirmation Modal */}
+      <Dialog open={clearConfirm} onOpenChange={setClearConfirm}>
+        <DialogContent className="w-[calc(100%-2rem)] max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("historyClearConfirmTitle")}</DialogTitle>
+            <DialogDescription className="text-sm">
+              {t("historyClearConfirmMessage", {
+                count: storeHistory.length,
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setClearConfirm(false)}
+              className="w-full sm:w-auto"
+            >
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleClear}
+              className="w-full sm:w-auto"
+            >
+              {tCommon("delete")}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
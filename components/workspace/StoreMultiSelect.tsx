@@ -0,0 +1,101 @@
+import { useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { useAppStore, useQueryState, useStoresState } from "@/store";
+import { useTranslations } from "next-intl";
+import { ChevronDown, Database, Loader2 } from "lucide-react";
+
+interface StoreMultiSelectProps {
+  /** 워크스페이스의 스토어 ID */
+  storeId: string;
+}
+
+/**
+ * Store Multi Select
+ *
+ * 워크스페이스 쿼리에서 함께 검색할 스토어 선택
+ * - 최소 한 개의 스토어는 선택되어 있어야 함
+ * - 스토어 목록이 없거나 캐시가 만료되면 열 때 다시 불러옴
+ */
+export function StoreMultiSelect({ storeId }: StoreMultiSelectProps) {
+  const t = useTranslations("workspace");
+  const { stores, currentStore, setStores, isCacheValid } = useStoresState();
+  const { selectedStoreIds, setSelectedStoreIds } = useQueryState();
+  const { apiKey } = useAppStore();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const selected = selectedStoreIds[storeId] || [storeId];
+  const options =
+    stores.length > 0 ? stores : currentStore ? [currentStore] : [];
+
+  async function loadStores() {
+    if (stores.length > 0 && isCacheValid()) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/stores", {
+        headers: { "x-api-key": apiKey || "" },
+      });
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setStores(data.data.data);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function toggleStore(id: string, checked: boolean) {
+    const next = checked
+      ? [...selected, id]
+      : selected.filter((selectedId) => selectedId !== id);
+    if (next.length === 0) return;
+    setSelectedStoreIds(storeId, next);
+  }
+
+  const label =
+    selected.length === 1
+      ? options.find((store) => store.name === selected[0])?.displayName ||
+        selected[0]
+      : t("storesSelected", { count: selected.length });
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadStores()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" className="gap-2 max-w-[220px]">
+          <Database className="h-4 w-4 shrink-0" />
+          <span className="truncate">{label}</span>
+          <ChevronDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+        <DropdownMenuLabel>{t("searchStores")}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {isLoading && options.length <= 1 && (
+          <div className="flex items-center gap-2 px-2 py-1.5 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        )}
+        {options.map((store) => (
+          <DropdownMenuCheckboxItem
+            key={store.name}
+            checked={selected.includes(store.name)}
+            onCheckedChange={(checked) => toggleStore(store.name, checked)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            {store.displayName}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useQueryState } from "@/store";
+import { useTranslations } from "next-intl";
+import { MessageSquarePlus, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChatThread } from "@/types";
+
+interface ThreadListProps {
+  storeName: string;
+  /** 스레드 선택/생성 후 호출 (모바일 시트 닫기 등) */
+  onNavigate?: () => void;
+}
+
+/**
+ * Thread List
+ *
+ * 스토어의 대화 스레드 목록
+ * - 새 대화 시작, 선택, 이름 변경, 삭제
+ */
+export function ThreadList({ storeName, onNavigate }: ThreadListProps) {
+  const t = useTranslations("workspace");
+  const tCommon = useTranslations("common");
+  const {
+    threads,
+    activeThreadIds,
+    createThread,
+    renameThread,
+    deleteThread,
+    setActiveThread,
+  } = useQueryState();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [deleteConfirm, setDeleteConfirm] = useState<ChatThread | null>(null);
+
+  const activeThreadId = activeThreadIds[storeName] || null;
+  const storeThreads = threads
+    .filter((thread) => thread.storeName === storeName)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  function handleNewThread() {
+    createThread(storeName);
+    onNavigate?.();
+  }
+
+  function handleSelect(thread: ChatThread) {
+    setActiveThread(storeName, thread.id);
+    onNavigate?.();
+  }
+
+  function startRename(thread: ChatThread) {
+    setEditingId(thread.id);
+    setEditingTitle(thread.title);
+  }
+
+  function commitRename() {
+    if (editingId) {
+      renameThread(editingId, editingTitle);
+    }
+    setEditingId(null);
+  }
+
+  function handleDelete(thread: ChatThread) {
+    deleteThread(thread.id);
+    setDeleteConfirm(null);
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b">
+        <Button
+          variant="outline"
+          className="w-full justify-start"
+          onClick={handleNewThread}
+        >
+          <MessageSquarePlus className="mr-2 h-4 w-4" />
+          {t("newThread")}
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {storeThreads.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-muted-foreground text-center">
+            {t("threadsEmpty")}
+          </p>
+        ) : (
+          storeThreads.map((thread) => (
+            <div
+              key={thread.id}
+              className={cn(
+                "group flex items-center gap-1 rounded-md pr-1",
+                thread.id === activeThreadId
+                  ? "bg-secondary"
+                  : "hover:bg-accent"
+              )}
+            >
+              {editingId === thread.id ? (
+                <Input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  placeholder={t("untitledThread")}
+                  aria-label={t("renameThread")}
+                  className="h-8 text-sm"
+                />
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(thread)}
+                    className="flex-1 min-w-0 text-left px-2 py-2 text-sm truncate"
+                    title={thread.title || t("untitledThread")}
+                  >
+                    {thread.title || t("untitledThread")}
+                  </button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                    onClick={() => startRename(thread)}
+                    aria-label={t("renameThread")}
+                    title={t("renameThread")}
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 text-destructive"
+                    onClick={() => setDeleteConfirm(thread)}
+                    aria-label={t("deleteThread")}
+                    title={t("deleteThread")}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Delete Confirmation Modal */}
+      <Dialog
+        open={deleteConfirm !== null}
+        onOpenChange={() => setDeleteConfirm(null)}
+      >
+        <DialogContent className="w-[calc(100%-2rem)] max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("deleteThreadConfirmTitle")}</DialogTitle>
+            <DialogDescription className="text-sm">
+              {t("deleteThreadConfirmMessage", {
+                title: deleteConfirm?.title || t("untitledThread"),
+              })}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col-reverse sm:flex-row sm:justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setDeleteConfirm(null)}
+              className="w-full sm:w-auto"
+            >
+              {tCommon("cancel")}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteConfirm && handleDelete(deleteConfirm)}
+              className="w-full sm:w-auto"
+            >
+              {tCommon("delete")}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useCallback } from "react";
+import { useTranslations } from "next-intl";
+import type { ApiErrorCode, ApiErrorDetails } from "@/types";
+
+/**
+ * 번역할 수 있는 에러 (ApiRequestError, API 응답 본문, 파일별 업로드 결과 등)
+ */
+interface ErrorLike {
+  message?: string;
+  error?: string;
+  code?: ApiErrorCode;
+  details?: ApiErrorDetails;
+}
+
+/**
+ * API 에러 코드를 현재 로케일의 메시지로 번역하는 함수 반환
+ *
+ * - code가 있으면 messages의 errors.<code>에 details를 넣어 번역
+ *   (Gemini 원본 메시지(reason)나 잘못된 필드(field)는 괄호로 덧붙임)
+ * - code가 없으면 에러 메시지, 그것도 없으면 fallback
+ */
+export function useApiErrorMessage() {
+  const t = useTranslations("errors");
+
+  return useCallback(
+    (error: ErrorLike | null | undefined, fallback?: string): string => {
+      const code = error?.code;
+      if (code && t.has(code)) {
+        const details = error?.details || {};
+        const message = t(code, details);
+        const extra = details.reason ?? details.field;
+        return extra !== undefined ? `${message} (${extra})` : message;
+      }
+      return error?.message || error?.error || fallback || t("INTERNAL_ERROR");
+    },
+    [t]
+  );
+}
@@ -12,6 +12,7 @@ export const routing = defineRouting({
   pathnames: {
     "/": "/",
     "/stores": "/stores",
+    "/docs": "/docs",
     "/store/[storeId]/workspace": "/store/[storeId]/workspace",
     "/store/[storeId]/documents": "/store/[storeId]/documents",
   },
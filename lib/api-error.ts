@@ -0,0 +1,174 @@
+/**
+ * API Error Model
+ *
+ * 모든 API 라우트가 공유하는 에러 코드 매핑
+ * - Gemini SDK 에러(HTTP 상태)와 라우트 검증 에러를 안정적인 에러 코드로 변환
+ * - 응답의 error는 외부 호출자/로그용 한국어 메시지,
+ *   페이지는 code와 details를 messages/*.json의 errors 섹션으로 번역
+ * - 응답 생성은 lib/api-response.ts (스트리밍 에러 이벤트에서도 사용하므로 분리)
+ */
+
+import type { ApiErrorCode, ApiErrorDetails, ApiFieldError } from "@/types";
+
+/** 에러 코드별 HTTP 상태와 기본 메시지 */
+const ERROR_DEFINITIONS: Record<
+  ApiErrorCode,
+  { status: number; message: string }
+> = {
+  MISSING_API_KEY: {
+    status: 401,
+    message: "API 키가 필요합니다. x-api-key 헤더를 포함해주세요.",
+  },
+  INVALID_API_KEY: { status: 401, message: "API 키가 유효하지 않습니다." },
+  PERMISSION_DENIED: {
+    status: 403,
+    message: "API 키 권한이 없거나 File Search가 활성화되지 않았습니다.",
+  },
+  RATE_LIMITED: {
+    status: 429,
+    message: "API 호출 한도를 초과했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  CLIENT_RATE_LIMITED: {
+    status: 429,
+    message: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+  },
+  TOO_MANY_CONCURRENT_REQUESTS: {
+    status: 429,
+    message:
+      "동시에 처리 중인 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.",
+  },
+  SERVICE_UNAVAILABLE: {
+    status: 503,
+    message:
+      "Google AI 서비스가 일시적으로 사용 불가합니다. 잠시 후 다시 시도해주세요.",
+  },
+  INVALID_REQUEST: { status: 400, message: "잘못된 요청입니다" },
+  STORE_NOT_FOUND: { status: 404, message: "스토어를 찾을 수 없습니다" },
+  DOCUMENT_NOT_FOUND: { status: 404, message: "문서를 찾을 수 없습니다" },
+  OPERATION_NOT_FOUND: {
+    status: 404,
+    message: "operation을 찾을 수 없습니다",
+  },
+  NO_FILES: { status: 400, message: "파일이 없습니다" },
+  TOO_MANY_FILES: { status: 400, message: "파일 개수가 너무 많습니다" },
+  FILE_TOO_LARGE: { status: 413, message: "파일 크기가 너무 큽니다" },
+  INVALID_METADATA: {
+    status: 400,
+    message: "customMetadata가 올바르지 않습니다",
+  },
+  RESERVED_METADATA_KEY: {
+    status: 400,
+    message: "예약된 customMetadata 키는 사용할 수 없습니다",
+  },
+  INVALID_CHUNKING: { status: 400, message: "청킹 설정이 올바르지 않습니다" },
+  UPLOAD_FAILED: { status: 400, message: "파일 업로드에 실패했습니다" },
+  INVALID_ARCHIVE: { status: 400, message: "ZIP 파일을 읽을 수 없습니다" },
+  URL_NOT_ALLOWED: { status: 400, message: "가져올 수 없는 URL입니다" },
+  URL_FETCH_FAILED: { status: 502, message: "페이지를 가져오지 못했습니다" },
+  DIRECTORY_NOT_ALLOWED: {
+    status: 400,
+    message: "동기화할 수 없는 디렉터리입니다",
+  },
+  INTERNAL_ERROR: { status: 500, message: "알 수 없는 오류가 발생했습니다" },
+};
+
+/**
+ * 모든 에러 코드와 HTTP 상태, 기본 메시지 (API 문서용)
+ */
+export function listApiErrors(): Array<{
+  code: ApiErrorCode;
+  status: number;
+  message: string;
+}> {
+  return (Object.keys(ERROR_DEFINITIONS) as ApiErrorCode[]).map((code) => ({
+    code,
+    ...ERROR_DEFINITIONS[code],
+  }));
+}
+
+/**
+ * 에러 코드를 가진 API 에러
+ * 라우트와 lib 함수에서 throw하면 handleApiError(lib/api-response.ts)가 그대로 응답으로 변환
+ */
+export class ApiRouteError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details?: ApiErrorDetails;
+  readonly fieldErrors?: ApiFieldError[];
+
+  constructor(
+    code: ApiErrorCode,
+    message?: string,
+    details?: ApiErrorDetails,
+    fieldErrors?: ApiFieldError[]
+  ) {
+    super(message || ERROR_DEFINITIONS[code].message);
+    this.name = "ApiRouteError";
+    this.code = code;
+    this.status = ERROR_DEFINITIONS[code].status;
+    this.details = details;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * 404 에러 메시지로 어떤 리소스를 찾지 못했는지 판단
+ */
+function notFoundCode(message: string, fallback: ApiErrorCode): ApiErrorCode {
+  if (/operation/i.test(message)) return "OPERATION_NOT_FOUND";
+  if (/document|문서/i.test(message)) return "DOCUMENT_NOT_FOUND";
+  if (/store|스토어/i.test(message)) return "STORE_NOT_FOUND";
+  return fallback;
+}
+
+/**
+ * 임의의 에러(Gemini SDK ApiError, lib 함수의 Error 등)를 ApiRouteError로 변환
+ *
+ * @param notFound - 404 메시지로 리소스를 판단할 수 없을 때 사용할 코드
+ */
+export function toApiRouteError(
+  error: any,
+  notFound: ApiErrorCode = "STORE_NOT_FOUND"
+): ApiRouteError {
+  if (error instanceof ApiRouteError) {
+    return error;
+  }
+
+  const message: string = error?.message || "";
+  const apiStatus: number | undefined = error?.status || error?.statusCode;
+  const status =
+    apiStatus || (message.includes("찾을 수 없습니다") ? 404 : 500);
+  // Gemini API가 반환한 원본 메시지만 reason으로 전달 (앱 내부 메시지는 한국어)
+  const details = apiStatus && message ? { reason: message } : undefined;
+
+  switch (status) {
+    case 400:
+      // 잘못된 API 키도 Gemini API는 400으로 응답
+      if (/API key not valid/i.test(message)) {
+        return new ApiRouteError("INVALID_API_KEY");
+      }
+      return new ApiRouteError(
+        "INVALID_REQUEST",
+        `잘못된 요청입니다: ${message}`,
+        details
+      );
+    case 401:
+      return new ApiRouteError("INVALID_API_KEY");
+    case 403:
+      return new ApiRouteError("PERMISSION_DENIED");
+    case 404:
+      return new ApiRouteError(
+        notFoundCode(message, notFound),
+        message || undefined,
+        details
+      );
+    case 413:
+      return new ApiRouteError("FILE_TOO_LARGE");
+    case 429:
+      return new ApiRouteError("RATE_LIMITED");
+    case 503:
+      return new ApiRouteError("SERVICE_UNAVAILABLE");
+    default:
+      return new ApiRouteError("INTERNAL_ERROR", message || undefined, details);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * API Key Resolution
+ *
+ * 라우트가 Gemini API 호출에 사용할 API 키 결정
+ * - client 모드 (GEMINI_API_KEY 없음): 브라우저가 x-api-key 헤더로 보낸 키 사용
+ * - server 모드 (GEMINI_API_KEY 설정): 서버 환경 변수의 키 사용, 클라이언트에는 노출하지 않음
+ * - server 모드에서도 GEMINI_ALLOW_BYOK=false가 아니면 x-api-key 헤더로 본인 키 사용 가능 (BYOK)
+ */
+
+import type { ApiKeyMode, ServerConfigResponse } from "@/types";
+
+/**
+ * 서버 환경 변수의 API 키 (없으면 null)
+ */
+function getServerApiKey(): string | null {
+  return process.env.GEMINI_API_KEY?.trim() || null;
+}
+
+/**
+ * 현재 API 키 모드
+ */
+export function getApiKeyMode(): ApiKeyMode {
+  return getServerApiKey() ? "server" : "client";
+}
+
+/**
+ * 요청 헤더로 본인 키를 전달할 수 있는지 여부
+ * client 모드에서는 항상 true
+ */
+export function isByokAllowed(): boolean {
+  if (getApiKeyMode() === "client") return true;
+  return process.env.GEMINI_ALLOW_BYOK?.trim().toLowerCase() !== "false";
+}
+
+/**
+ * 클라이언트에 알려줄 서버 설정 (키 자체는 포함하지 않음)
+ */
+export function getServerConfig(): ServerConfigResponse {
+  return { apiKeyMode: getApiKeyMode(), allowByok: isByokAllowed() };
+}
+
+/**
+ * 요청에 사용할 API 키 결정
+ * - BYOK가 허용되고 x-api-key 헤더가 있으면 헤더의 키
+ * - 없으면 서버 키 (client 모드에서는 null)
+ *
+ * @returns API 키 (사용할 키가 없으면 null)
+ */
+export function resolveApiKey(request: Request): string | null {
+  const headerKey = request.headers.get("x-api-key")?.trim();
+  if (headerKey && isByokAllowed()) {
+    return headerKey;
+  }
+  return getServerApiKey();
+}
@@ -0,0 +1,27 @@
+/**
+ * API Request Error
+ *
+ * 클라이언트에서 API 에러 응답을 throw할 때 사용하는 에러
+ * code와 details를 보존해 useApiErrorMessage가 현재 로케일로 번역할 수 있게 함
+ */
+
+import type { ApiErrorCode, ApiErrorDetails } from "@/types";
+
+export class ApiRequestError extends Error {
+  readonly code?: ApiErrorCode;
+  readonly details?: ApiErrorDetails;
+
+  /**
+   * @param body - API 에러 응답 본문 (또는 스트리밍 error 이벤트)
+   * @param fallbackMessage - 본문에 error가 없을 때 사용할 메시지
+   */
+  constructor(
+    body: { error?: string; code?: ApiErrorCode; details?: ApiErrorDetails },
+    fallbackMessage: string
+  ) {
+    super(body.error || fallbackMessage);
+    this.name = "ApiRequestError";
+    this.code = body.code;
+    this.details = body.details;
+  }
+}
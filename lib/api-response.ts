@@ -0,0 +1,137 @@
+/**
+ * API Route Responses
+ *
+ * 라우트 공통 응답 처리
+ * - 에러 응답 생성 (에러 코드 매핑은 lib/api-error.ts)
+ * - Gemini API 재시도 내역 보고 (재시도 정책은 lib/retry.ts)
+ * - 클라이언트별 요청 제한 (제한 설정은 lib/rate-limit.ts)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import { trackRetries } from "@/lib/retry";
+import { acquireRateLimit, type RateLimitCategory } from "@/lib/rate-limit";
+import type { ApiErrorCode, ApiResponse } from "@/types";
+
+/**
+ * 에러 응답 생성
+ *
+ * @param data - 에러와 함께 반환할 데이터 (예: 파일별 업로드 결과)
+ */
+export function apiErrorResponse(
+  error: ApiRouteError,
+  data?: unknown
+): NextResponse<ApiResponse> {
+  return NextResponse.json<ApiResponse>(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+      details: error.details,
+      fieldErrors: error.fieldErrors,
+      data,
+    },
+    { status: error.status }
+  );
+}
+
+/**
+ * 라우트 catch 블록용: 에러를 변환해 응답 생성
+ */
+export function handleApiError(
+  error: any,
+  notFound?: ApiErrorCode
+): NextResponse<ApiResponse> {
+  return apiErrorResponse(toApiRouteError(error, notFound));
+}
+
+/**
+ * 라우트 핸들러 래퍼: 요청 처리 중 발생한 Gemini API 재시도를 응답에 보고
+ * - 요청이 취소되면(request.signal) 대기 중인 재시도도 취소
+ * - 재시도가 있었으면 X-Retry-Count / X-Retry-Delay-Ms 헤더 추가,
+ *   JSON 응답에는 meta.retry도 추가 (스트리밍 응답은 헤더만)
+ */
+export function withRetryReport<Context>(
+  handler: (request: NextRequest, context: Context) => Promise<Response>
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const { result: response, report } = await trackRetries(
+      () => handler(request, context),
+      request.signal
+    );
+    if (report.retries === 0) {
+      return response;
+    }
+
+    const headers = new Headers(response.headers);
+    headers.delete("content-length");
+    headers.set("X-Retry-Count", String(report.retries));
+    headers.set("X-Retry-Delay-Ms", String(report.delayMs));
+
+    if (!headers.get("content-type")?.includes("application/json")) {
+      return new Response(response.body, { status: response.status, headers });
+    }
+
+    const body: ApiResponse = await response.json();
+    return NextResponse.json<ApiResponse>(
+      { ...body, meta: { ...body.meta, retry: report } },
+      { status: response.status, headers }
+    );
+  };
+}
+
+/**
+ * 라우트 핸들러 래퍼: 클라이언트별 요청 제한 적용
+ * - 제한에 걸리면 핸들러를 실행하지 않고 429 + Retry-After 헤더로 응답
+ * - 동시 요청 슬롯은 응답 본문 전송이 끝나거나 요청이 취소될 때 반환
+ *   (스트리밍 응답은 스트림이 끝날 때까지 슬롯 유지)
+ */
+export function withRateLimit<Context>(
+  category: RateLimitCategory,
+  handler: (request: NextRequest, context: Context) => Promise<Response>
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const limited = await acquireRateLimit(request, category);
+    if ("error" in limited) {
+      const response = apiErrorResponse(limited.error);
+      response.headers.set(
+        "Retry-After",
+        String(limited.error.details?.retryAfter ?? 1)
+      );
+      return response;
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      request.signal.removeEventListener("abort", release);
+      void limited.release();
+    };
+    request.signal.addEventListener("abort", release, { once: true });
+
+    let response: Response;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      release();
+      throw error;
+    }
+
+    if (!response.body) {
+      release();
+      return response;
+    }
+
+    const { readable, writable } = new TransformStream();
+    response.body
+      .pipeTo(writable)
+      .catch(() => {})
+      .finally(release);
+    return new Response(readable, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Archive Import
+ *
+ * ZIP 아카이브를 풀어 항목별로 스토어에 업로드 (POST /api/stores/[storeId]/import, CLI docs import)
+ * - 지원하는 형식(getMimeType)의 파일만 업로드하고 나머지는 건너뜀
+ * - 문서 표시 이름은 아카이브 안의 상대 경로
+ * - 상대 경로와 최상위 폴더를 customMetadata(source_path, source_folder)로 기록
+ * - 내용이 같은 문서가 있으면 중복 정책 적용 (lib/upload-dedup.ts)
+ * - 인덱싱 완료를 기다리지 않고 항목별 operation 이름을 반환
+ */
+
+import { getMimeType } from "@/lib/gemini";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import {
+  ARCHIVE_METADATA_KEYS,
+  MAX_ARCHIVE_USER_METADATA,
+} from "@/lib/document-metadata";
+import {
+  MAX_ARCHIVE_ENTRIES,
+  MAX_ARCHIVE_SIZE,
+  MAX_FILE_SIZE,
+} from "@/lib/upload-form";
+import {
+  createUploadDeduplicator,
+  type DuplicatePolicyOptions,
+  type UploadDeduplicator,
+} from "@/lib/upload-dedup";
+import { readZipEntries, type ZipEntry } from "@/lib/zip";
+import type {
+  ArchiveEntryResult,
+  ArchiveImportResponse,
+  CustomMetadata,
+  FileSearchStore,
+  UploadOptions,
+} from "@/types";
+
+/** 동시에 업로드할 항목 수 */
+const UPLOAD_CONCURRENCY = 4;
+
+/**
+ * 가져오지 않을 항목 (숨김 파일, macOS 리소스 포크)
+ */
+export function isIgnoredEntry(entry: ZipEntry): boolean {
+  return (
+    entry.isDirectory ||
+    !entry.path ||
+    entry.path
+      .split("/")
+      .some((segment) => segment.startsWith(".") || segment === "__MACOSX")
+  );
+}
+
+/**
+ * 아카이브 경로를 customMetadata 항목으로 변환
+ * 최상위 폴더는 폴더 안의 파일에만 기록
+ */
+export function toArchiveMetadata(entryPath: string): CustomMetadata[] {
+  const segments = entryPath.split("/");
+  return [
+    { key: ARCHIVE_METADATA_KEYS.path, stringValue: entryPath },
+    ...(segments.length > 1
+      ? [{ key: ARCHIVE_METADATA_KEYS.folder, stringValue: segments[0]! }]
+      : []),
+  ];
+}
+
+/**
+ * 항목 하나 업로드 (실패해도 throw하지 않고 결과로 반환)
+ */
+async function importEntry(
+  uploader: UploadDeduplicator,
+  entry: ZipEntry,
+  options: Pick<
+    UploadOptions,
+    "customMetadata" | "maxTokensPerChunk" | "maxOverlapTokens"
+  >
+): Promise<ArchiveEntryResult> {
+  const fileName = entry.path;
+  const mimeType = getMimeType(entry.path);
+
+  if (mimeType === "application/octet-stream") {
+    return {
+      fileName,
+      success: false,
+      skipped: true,
+      error: "지원하지 않는 파일 형식입니다",
+    };
+  }
+
+  try {
+    if (entry.size > MAX_FILE_SIZE) {
+      throw new ApiRouteError(
+        "FILE_TOO_LARGE",
+        `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
+        { maxSize: MAX_FILE_SIZE / 1024 / 1024 }
+      );
+    }
+
+    return await uploader.upload(fileName, entry.read(), {
+      ...options,
+      displayName: entry.path,
+      mimeType,
+      customMetadata: [
+        ...(options.customMetadata || []).filter(
+          (meta) =>
+            !Object.values<string>(ARCHIVE_METADATA_KEYS).includes(meta.key)
+        ),
+        ...toArchiveMetadata(entry.path),
+      ],
+    });
+  } catch (error: any) {
+    console.error(`아카이브 항목 업로드 오류 (${fileName}):`, error);
+    const apiError = toApiRouteError(error);
+    return {
+      fileName,
+      success: false,
+      error: apiError.message,
+      code: apiError.code,
+      details: apiError.details,
+    };
+  }
+}
+
+/**
+ * ZIP 아카이브의 파일을 스토어에 업로드
+ *
+ * @param store - 업로드할 대상 스토어 객체
+ * @param archive - ZIP 파일 내용
+ * @param options - 모든 항목에 적용할 메타데이터와 청킹 설정
+ * @param policies - 같은 내용의 문서가 있을 때 처리 (항목별 정책은 경로로 지정)
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 항목별 결과 (아카이브 안의 순서)
+ * @throws ApiRouteError - 아카이브를 읽을 수 없거나 제한을 넘을 때
+ */
+export async function importArchive(
+  store: FileSearchStore,
+  archive: Buffer,
+  options: Pick<
+    UploadOptions,
+    "customMetadata" | "maxTokensPerChunk" | "maxOverlapTokens"
+  >,
+  policies: DuplicatePolicyOptions,
+  apiKey: string
+): Promise<ArchiveImportResponse> {
+  if (archive.length > MAX_ARCHIVE_SIZE) {
+    throw new ApiRouteError(
+      "FILE_TOO_LARGE",
+      `ZIP 파일 크기가 ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB를 초과합니다`,
+      { maxSize: MAX_ARCHIVE_SIZE / 1024 / 1024 }
+    );
+  }
+  if ((options.customMetadata?.length || 0) > MAX_ARCHIVE_USER_METADATA) {
+    throw new ApiRouteError(
+      "INVALID_METADATA",
+      `아카이브 가져오기의 customMetadata는 최대 ${MAX_ARCHIVE_USER_METADATA}개입니다`,
+      { max: MAX_ARCHIVE_USER_METADATA, field: "customMetadata" }
+    );
+  }
+
+  const entries = readZipEntries(archive).filter(
+    (entry) => !isIgnoredEntry(entry)
+  );
+  if (entries.length === 0) {
+    throw new ApiRouteError("NO_FILES", "ZIP 파일에 가져올 파일이 없습니다");
+  }
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new ApiRouteError(
+      "TOO_MANY_FILES",
+      `ZIP 파일에는 최대 ${MAX_ARCHIVE_ENTRIES}개의 파일만 포함할 수 있습니다`,
+      { max: MAX_ARCHIVE_ENTRIES }
+    );
+  }
+
+  console.log(`\n📦 아카이브 가져오기: ${entries.length}개 항목`);
+
+  // 순서를 유지하며 UPLOAD_CONCURRENCY개씩 동시에 업로드
+  const uploader = createUploadDeduplicator(store, policies, apiKey);
+  const results: ArchiveEntryResult[] = new Array(entries.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < entries.length) {
+      const index = next++;
+      results[index] = await importEntry(uploader, entries[index]!, options);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(UPLOAD_CONCURRENCY, entries.length) }, worker)
+  );
+
+  const successCount = results.filter((r) => r.success).length;
+  const skippedCount = results.filter((r) => r.skipped).length;
+  const failCount = results.length - successCount - skippedCount;
+
+  console.log(
+    `✅ 아카이브 가져오기 완료: 성공 ${successCount}, 실패 ${failCount}, 건너뜀 ${skippedCount}`
+  );
+
+  return { results, successCount, failCount, skippedCount };
+}
@@ -0,0 +1,636 @@
+/**
+ * Fake File Search Backend
+ *
+ * 네트워크와 실제 API 키 없이 동작하는 File Search 구현
+ * - 스토어/문서/업로드 operation을 메모리에 보관
+ * - FAKE_BACKEND_DIR 지정 시 JSON 파일로 디스크에 저장 (dev 서버 재시작 후에도 유지)
+ * - 업로드 operation은 FAKE_OPERATION_DELAY_MS 후 완료되도록 시뮬레이션
+ * - metadataFilter(AIP-160) 평가 및 groundingMetadata 생성
+ * - generateContentStream은 답변을 단어 단위로 나누어 스트리밍
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { ApiError, GenerateContentResponse } from "@google/genai";
+import type {
+  Content,
+  ContentListUnion,
+  GenerateContentParameters,
+  GroundingChunk,
+  GroundingSupport,
+  Tool,
+} from "@google/genai";
+import {
+  parseMetadataFilter,
+  matchesMetadataFilter,
+} from "@/lib/metadata-filter";
+import type { CustomMetadata, Operation } from "@/types";
+import type {
+  FileSearchBackend,
+  GenAIDocument,
+  GenAIFileSearchStore,
+} from "./types";
+
+// ============================================
+// Constants
+// ============================================
+
+const STATE_FILE_NAME = "fake-backend.json";
+const DEFAULT_OPERATION_DELAY_MS = 1500;
+const DEFAULT_PAGE_SIZE = 10;
+const DEFAULT_MAX_TOKENS_PER_CHUNK = 200;
+const DEFAULT_MAX_OVERLAP_TOKENS = 20;
+const MAX_RETRIEVED_CHUNKS = 5;
+const STREAM_DELAY_MS = 30;
+
+/** 텍스트로 색인할 수 있는 MIME 타입 */
+const TEXT_MIME_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+];
+
+// ============================================
+// State Types
+// ============================================
+
+interface FakeDocument {
+  name: string;
+  displayName: string;
+  mimeType: string;
+  sizeBytes: number;
+  createTime: string;
+  updateTime: string;
+  customMetadata: CustomMetadata[];
+  chunks: string[];
+  /** 이 시각(ms) 이후 STATE_ACTIVE */
+  readyAt: number;
+}
+
+interface FakeStore {
+  name: string;
+  displayName: string;
+  createTime: string;
+  updateTime: string;
+  documents: FakeDocument[];
+}
+
+interface FakeOperation {
+  name: string;
+  parent: string;
+  documentName: string;
+  doneAt: number;
+}
+
+interface FakeState {
+  stores: FakeStore[];
+  operations: FakeOperation[];
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+const globalForFake = globalThis as unknown as {
+  __fakeFileSearchState?: FakeState;
+};
+
+function getStateFile(): string | null {
+  const dir = process.env.FAKE_BACKEND_DIR;
+  return dir ? path.join(dir, STATE_FILE_NAME) : null;
+}
+
+/**
+ * 상태 로드 (dev 서버 HMR에도 유지되도록 globalThis에 보관)
+ */
+function loadState(): FakeState {
+  if (globalForFake.__fakeFileSearchState) {
+    return globalForFake.__fakeFileSearchState;
+  }
+
+  let state: FakeState = { stores: [], operations: [] };
+  const stateFile = getStateFile();
+  if (stateFile && fs.existsSync(stateFile)) {
+    state = JSON.parse(fs.readFileSync(stateFile, "utf-8")) as FakeState;
+  }
+
+  globalForFake.__fakeFileSearchState = state;
+  return state;
+}
+
+function saveState(state: FakeState): void {
+  const stateFile = getStateFile();
+  if (!stateFile) return;
+
+  fs.mkdirSync(path.dirname(stateFile), { recursive: true });
+  fs.writeFileSync(stateFile, JSON.stringify(state, null, 2));
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function getOperationDelay(): number {
+  const raw = process.env.FAKE_OPERATION_DELAY_MS;
+  const delay = raw ? parseInt(raw) : NaN;
+  return isNaN(delay) ? DEFAULT_OPERATION_DELAY_MS : delay;
+}
+
+/**
+ * 표시 이름 기반 리소스 ID 생성 (예: "my-store-k3j9x0a1b2c3")
+ */
+function createResourceId(displayName: string): string {
+  const slug =
+    displayName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "resource";
+  const suffix = Math.random().toString(36).slice(2, 14).padEnd(12, "0");
+  return `${slug}-${suffix}`;
+}
+
+function notFound(message: string): ApiError {
+  return new ApiError({ message, status: 404 });
+}
+
+function findStore(state: FakeState, name: string): FakeStore {
+  const store = state.stores.find((s) => s.name === name);
+  if (!store) {
+    throw notFound(`File search store not found: ${name}`);
+  }
+  return store;
+}
+
+function findDocument(
+  state: FakeState,
+  name: string
+): { store: FakeStore; document: FakeDocument } {
+  const parent = name.split("/documents/")[0] || "";
+  const store = findStore(state, parent);
+  const document = store.documents.find((d) => d.name === name);
+  if (!document) {
+    throw notFound(`Document not found: ${name}`);
+  }
+  return { store, document };
+}
+
+/**
+ * 페이지 토큰(오프셋) 기반 목록 자르기
+ */
+function paginate<T>(
+  items: T[],
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  pageToken?: string
+): { items: T[]; nextPageToken?: string } {
+  const offset = pageToken ? parseInt(pageToken) || 0 : 0;
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    nextPageToken: end < items.length ? String(end) : undefined,
+  };
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith("text/") || TEXT_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * 업로드된 바이트에서 색인할 텍스트 추출
+ * 바이너리 형식(PDF, DOCX 등)은 파싱하지 않습니다
+ */
+function extractText(bytes: Uint8Array, mimeType: string): string {
+  if (!isTextMimeType(mimeType)) return "";
+
+  const text = new TextDecoder().decode(bytes);
+  if (mimeType === "text/html") {
+    return text
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<[^>]+>/g, " ");
+  }
+  return text;
+}
+
+/**
+ * 공백 기준 청킹 (단어 1개 ≈ 토큰 1개로 근사)
+ */
+function chunkText(
+  text: string,
+  maxTokensPerChunk: number,
+  maxOverlapTokens: number
+): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const chunks: string[] = [];
+  const step = Math.max(1, maxTokensPerChunk - maxOverlapTokens);
+
+  for (let start = 0; start < words.length; start += step) {
+    chunks.push(words.slice(start, start + maxTokensPerChunk).join(" "));
+    if (start + maxTokensPerChunk >= words.length) break;
+  }
+
+  return chunks;
+}
+
+function tokenizeForSearch(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (word) => word.length > 1
+  );
+}
+
+/**
+ * contents에서 마지막 사용자 질문 텍스트 추출
+ */
+function extractQueryText(contents: ContentListUnion): string {
+  if (typeof contents === "string") return contents;
+
+  const list = Array.isArray(contents) ? contents : [contents];
+  const userContents = list.filter(
+    (c): c is Content =>
+      typeof c === "object" && "parts" in c && c.role !== "model"
+  );
+  const last = userContents[userContents.length - 1];
+  if (last) {
+    return (last.parts || []).map((p) => p.text || "").join(" ");
+  }
+
+  return list
+    .map((c) => (typeof c === "string" ? c : "text" in c ? c.text || "" : ""))
+    .join(" ");
+}
+
+function toDocumentResponse(doc: FakeDocument): GenAIDocument {
+  const now = Date.now();
+  return {
+    name: doc.name,
+    displayName: doc.displayName,
+    state: (now >= doc.readyAt
+      ? "STATE_ACTIVE"
+      : "STATE_PENDING") as GenAIDocument["state"],
+    sizeBytes: String(doc.sizeBytes),
+    mimeType: doc.mimeType,
+    createTime: doc.createTime,
+    updateTime: doc.updateTime,
+    customMetadata: doc.customMetadata,
+  };
+}
+
+function toStoreResponse(store: FakeStore): GenAIFileSearchStore {
+  const now = Date.now();
+  const active = store.documents.filter((d) => now >= d.readyAt);
+  return {
+    name: store.name,
+    displayName: store.displayName,
+    createTime: store.createTime,
+    updateTime: store.updateTime,
+    activeDocumentsCount: String(active.length),
+    pendingDocumentsCount: String(store.documents.length - active.length),
+    failedDocumentsCount: "0",
+    sizeBytes: String(store.documents.reduce((sum, d) => sum + d.sizeBytes, 0)),
+  };
+}
+
+function toOperationResponse(op: FakeOperation): Operation {
+  const done = Date.now() >= op.doneAt;
+  return {
+    name: op.name,
+    done,
+    response: done
+      ? { parent: op.parent, documentName: op.documentName }
+      : undefined,
+  };
+}
+
+// ============================================
+// Retrieval
+// ============================================
+
+interface RetrievedChunk {
+  store: FakeStore;
+  document: FakeDocument;
+  text: string;
+  score: number;
+}
+
+function retrieveChunks(
+  state: FakeState,
+  tools: Tool[] | undefined,
+  query: string
+): RetrievedChunk[] {
+  const fileSearch = tools?.find((t) => t.fileSearch)?.fileSearch;
+  if (!fileSearch) return [];
+
+  let filter = null;
+  if (fileSearch.metadataFilter) {
+    try {
+      filter = parseMetadataFilter(fileSearch.metadataFilter);
+    } catch (error: any) {
+      throw new ApiError({
+        message: `Invalid metadata filter: ${error.message}`,
+        status: 400,
+      });
+    }
+  }
+
+  const terms = new Set(tokenizeForSearch(query));
+  const now = Date.now();
+  const results: RetrievedChunk[] = [];
+
+  for (const storeName of fileSearch.fileSearchStoreNames || []) {
+    const store = findStore(state, storeName);
+
+    for (const document of store.documents) {
+      if (now < document.readyAt) continue;
+      if (filter && !matchesMetadataFilter(filter, document.customMetadata)) {
+        continue;
+      }
+
+      for (const text of document.chunks) {
+        const words = tokenizeForSearch(text);
+        const matched = new Set(words.filter((w) => terms.has(w)));
+        if (matched.size === 0) continue;
+
+        const frequency = words.filter((w) => terms.has(w)).length;
+        results.push({
+          store,
+          document,
+          text,
+          score: matched.size + frequency / (words.length + 1),
+        });
+      }
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, fileSearch.topK || MAX_RETRIEVED_CHUNKS);
+}
+
+/**
+ * 청크 첫 문장(최대 200자)을 답변 문장으로 사용
+ */
+function summarizeChunk(text: string): string {
+  const sentence = text.split(/(?<=[.!?。])\s/)[0] || text;
+  return sentence.length > 200 ? `${sentence.slice(0, 197)}...` : sentence;
+}
+
+/**
+ * 검색된 청크로 답변과 groundingMetadata 구성
+ * segment 인덱스는 실제 API와 동일하게 UTF-8 바이트 단위입니다
+ */
+function buildAnswer(
+  query: string,
+  chunks: RetrievedChunk[]
+): {
+  text: string;
+  groundingChunks: GroundingChunk[];
+  groundingSupports: GroundingSupport[];
+} {
+  if (chunks.length === 0) {
+    return {
+      text: `No information related to "${query.trim()}" was found in the documents.`,
+      groundingChunks: [],
+      groundingSupports: [],
+    };
+  }
+
+  let text = `Here is what the documents say about "${query.trim()}":\n\n`;
+  const groundingSupports: GroundingSupport[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const sentence = summarizeChunk(chunk.text);
+    text += "- ";
+    const startIndex = Buffer.byteLength(text);
+    text += sentence;
+    groundingSupports.push({
+      segment: {
+        startIndex,
+        endIndex: Buffer.byteLength(text),
+        text: sentence,
+      },
+      groundingChunkIndices: [index],
+    });
+    text += "\n";
+  });
+
+  const groundingChunks: GroundingChunk[] = chunks.map((chunk) => ({
+    retrievedContext: {
+      title: chunk.document.displayName,
+      text: chunk.text,
+      documentName: chunk.document.name,
+      fileSearchStore: chunk.store.name,
+    },
+  }));
+
+  return { text: text.trimEnd(), groundingChunks, groundingSupports };
+}
+
+/**
+ * 요청에 대한 답변 및 사용량 계산
+ */
+function generateAnswer(params: GenerateContentParameters) {
+  const state = loadState();
+  const query = extractQueryText(params.contents);
+  const chunks = retrieveChunks(state, params.config?.tools as Tool[], query);
+  const answer = buildAnswer(query, chunks);
+
+  const promptTokenCount = tokenizeForSearch(query).length;
+  const candidatesTokenCount = tokenizeForSearch(answer.text).length;
+
+  return {
+    answer,
+    usageMetadata: {
+      promptTokenCount,
+      candidatesTokenCount,
+      totalTokenCount: promptTokenCount + candidatesTokenCount,
+    },
+  };
+}
+
+/**
+ * GenerateContentResponse 생성
+ * final이 주어지면 groundingMetadata, usageMetadata, finishReason을 포함합니다
+ */
+function createResponse(
+  model: string,
+  text: string,
+  final?: ReturnType<typeof generateAnswer>
+): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.modelVersion = model;
+  response.candidates = [
+    {
+      index: 0,
+      content: { role: "model", parts: [{ text }] },
+      finishReason: final ? ("STOP" as never) : undefined,
+      groundingMetadata:
+        final && final.answer.groundingChunks.length > 0
+          ? {
+              groundingChunks: final.answer.groundingChunks,
+              groundingSupports: final.answer.groundingSupports,
+            }
+          : undefined,
+    },
+  ];
+  if (final) {
+    response.usageMetadata = final.usageMetadata;
+  }
+  return response;
+}
+
+// ============================================
+// Backend
+// ============================================
+
+/**
+ * Fake 백엔드 생성
+ * 모든 인스턴스는 같은 상태를 공유합니다
+ */
+export function createFakeBackend(): FileSearchBackend {
+  return {
+    kind: "fake",
+
+    async createStore({ displayName }) {
+      const state = loadState();
+      const now = new Date().toISOString();
+      const store: FakeStore = {
+        name: `fileSearchStores/${createResourceId(displayName)}`,
+        displayName,
+        createTime: now,
+        updateTime: now,
+        documents: [],
+      };
+      state.stores.push(store);
+      saveState(state);
+      return toStoreResponse(store);
+    },
+
+    async getStore({ name }) {
+      return toStoreResponse(findStore(loadState(), name));
+    },
+
+    async listStores({ pageSize, pageToken }) {
+      const page = paginate(loadState().stores, pageSize, pageToken);
+      return { ...page, items: page.items.map(toStoreResponse) };
+    },
+
+    async deleteStore({ name, force }) {
+      const state = loadState();
+      const store = findStore(state, name);
+      if (store.documents.length > 0 && !force) {
+        throw new ApiError({
+          message: `File search store ${name} is not empty. Use force to delete.`,
+          status: 400,
+        });
+      }
+      state.stores = state.stores.filter((s) => s !== store);
+      state.operations = state.operations.filter((o) => o.parent !== name);
+      saveState(state);
+    },
+
+    async listDocuments({ parent, pageSize, pageToken }) {
+      const store = findStore(loadState(), parent);
+      const page = paginate(store.documents, pageSize, pageToken);
+      return { ...page, items: page.items.map(toDocumentResponse) };
+    },
+
+    async getDocument({ name }) {
+      return toDocumentResponse(findDocument(loadState(), name).document);
+    },
+
+    async deleteDocument({ name }) {
+      const state = loadState();
+      const { store, document } = findDocument(state, name);
+      store.documents = store.documents.filter((d) => d !== document);
+      store.updateTime = new Date().toISOString();
+      saveState(state);
+    },
+
+    async uploadToStore({ file, fileSearchStoreName, config = {} }) {
+      const state = loadState();
+      const store = findStore(state, fileSearchStoreName);
+
+      const bytes =
+        typeof file === "string"
+          ? new Uint8Array(await fs.promises.readFile(file))
+          : new Uint8Array(await file.arrayBuffer());
+      const displayName =
+        config.displayName ||
+        (typeof file === "string" ? path.basename(file) : "file");
+      const mimeType =
+        config.mimeType ||
+        (typeof file === "string" ? "" : file.type) ||
+        "application/octet-stream";
+
+      const whiteSpaceConfig = config.chunkingConfig?.whiteSpaceConfig;
+      const now = new Date().toISOString();
+      const readyAt = Date.now() + getOperationDelay();
+
+      const document: FakeDocument = {
+        name: `${store.name}/documents/${createResourceId(displayName)}`,
+        displayName,
+        mimeType,
+        sizeBytes: bytes.byteLength,
+        createTime: now,
+        updateTime: now,
+        customMetadata: (config.customMetadata || []) as CustomMetadata[],
+        chunks: chunkText(
+          extractText(bytes, mimeType),
+          whiteSpaceConfig?.maxTokensPerChunk ?? DEFAULT_MAX_TOKENS_PER_CHUNK,
+          whiteSpaceConfig?.maxOverlapTokens ?? DEFAULT_MAX_OVERLAP_TOKENS
+        ),
+        readyAt,
+      };
+
+      const operation: FakeOperation = {
+        name: `${store.name}/upload/operations/${createResourceId(displayName)}`,
+        parent: store.name,
+        documentName: document.name,
+        doneAt: readyAt,
+      };
+
+      store.documents.push(document);
+      store.updateTime = now;
+      state.operations.push(operation);
+      saveState(state);
+
+      return toOperationResponse(operation);
+    },
+
+    async getOperation({ name }) {
+      const operation = loadState().operations.find((o) => o.name === name);
+      if (!operation) {
+        throw notFound(`Operation not found: ${name}`);
+      }
+      return toOperationResponse(operation);
+    },
+
+    async generateContent(params: GenerateContentParameters) {
+      const { answer, usageMetadata } = generateAnswer(params);
+      return createResponse(params.model, answer.text, {
+        answer,
+        usageMetadata,
+      });
+    },
+
+    async generateContentStream(params: GenerateContentParameters) {
+      const { answer, usageMetadata } = generateAnswer(params);
+      const pieces = answer.text.match(/\S+\s*/g) || [""];
+      const abortSignal = params.config?.abortSignal;
+
+      return (async function* () {
+        for (let i = 0; i < pieces.length; i++) {
+          if (abortSignal?.aborted) return;
+          await new Promise((resolve) => setTimeout(resolve, STREAM_DELAY_MS));
+
+          // 그라운딩 정보와 사용량은 마지막 청크에만 포함 (실제 API와 동일)
+          const isLast = i === pieces.length - 1;
+          yield createResponse(
+            params.model,
+            pieces[i]!,
+            isLast ? { answer, usageMetadata } : undefined
+          );
+        }
+      })();
+    },
+  };
+}
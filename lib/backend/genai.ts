@@ -0,0 +1,106 @@
+/**
+ * GenAI File Search Backend
+ *
+ * @google/genai SDK를 사용하는 실제 Gemini API 구현
+ */
+
+import { GoogleGenAI, UploadToFileSearchStoreOperation } from "@google/genai";
+import type { Operation } from "@/types";
+import type { FileSearchBackend } from "./types";
+
+/**
+ * GoogleGenAI 클라이언트 초기화
+ * API 키는 필수입니다
+ */
+const getGeminiClient = (apiKey: string) => {
+  if (!apiKey) {
+    throw new Error("API 키가 필요합니다. API 키를 입력해주세요.");
+  }
+
+  return new GoogleGenAI({ apiKey });
+};
+
+/**
+ * API 키를 받아서 GoogleGenAI 클라이언트 반환
+ * 매번 새로운 인스턴스 생성 (사용자별 API 키 지원)
+ */
+export const getAI = (apiKey: string): GoogleGenAI => {
+  return getGeminiClient(apiKey);
+};
+
+/**
+ * SDK operation 객체를 Operation 타입으로 변환
+ */
+function toOperation(op: UploadToFileSearchStoreOperation): Operation {
+  return {
+    name: op.name || "",
+    done: !!op.done,
+    response: op.response,
+    error: op.error as Operation["error"],
+    metadata: op.metadata,
+  };
+}
+
+/**
+ * @google/genai 기반 백엔드 생성
+ *
+ * @param apiKey - Gemini API 키 (필수)
+ */
+export function createGenAIBackend(apiKey: string): FileSearchBackend {
+  const ai = getAI(apiKey);
+
+  return {
+    kind: "genai",
+
+    createStore: ({ displayName }) =>
+      ai.fileSearchStores.create({ config: { displayName } }),
+
+    getStore: ({ name }) => ai.fileSearchStores.get({ name }),
+
+    async listStores({ pageSize, pageToken }) {
+      const pager = await ai.fileSearchStores.list({
+        config: { pageSize, pageToken },
+      });
+      return {
+        items: pager.page,
+        nextPageToken: pager.params.config?.pageToken || undefined,
+      };
+    },
+
+    deleteStore: ({ name, force }) =>
+      ai.fileSearchStores.delete({ name, config: { force } }),
+
+    async listDocuments({ parent, pageSize, pageToken }) {
+      const pager = await ai.fileSearchStores.documents.list({
+        parent,
+        config: { pageSize, pageToken },
+      });
+      return {
+        items: pager.page,
+        nextPageToken: pager.params.config?.pageToken || undefined,
+      };
+    },
+
+    getDocument: ({ name }) => ai.fileSearchStores.documents.get({ name }),
+
+    deleteDocument: ({ name, force }) =>
+      ai.fileSearchStores.documents.delete({ name, config: { force } }),
+
+    async uploadToStore(params) {
+      const op = await ai.fileSearchStores.uploadToFileSearchStore(params);
+      return toOperation(op);
+    },
+
+    async getOperation({ name }) {
+      // operations.get은 operation 인스턴스를 요구하므로 이름만으로 생성
+      const operation = new UploadToFileSearchStoreOperation();
+      operation.name = name;
+      const op = await ai.operations.get({ operation });
+      return toOperation(op as UploadToFileSearchStoreOperation);
+    },
+
+    generateContent: (params) => ai.models.generateContent(params),
+
+    generateContentStream: (params) => ai.models.generateContentStream(params),
+  };
+}
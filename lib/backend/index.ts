@@ -0,0 +1,37 @@
+/**
+ * File Search Backend Selection
+ *
+ * GEMINI_BACKEND 환경 변수로 백엔드를 선택합니다
+ * - "genai" (기본값): 실제 Gemini API
+ * - "fake": 네트워크 없이 동작하는 인메모리/디스크 구현
+ */
+
+import { createGenAIBackend } from "./genai";
+import { createFakeBackend } from "./fake";
+import type { BackendKind, FileSearchBackend } from "./types";
+
+export type { FileSearchBackend, BackendKind } from "./types";
+export { getAI } from "./genai";
+
+/**
+ * 현재 설정된 백엔드 종류
+ */
+export function getBackendKind(): BackendKind {
+  return process.env.GEMINI_BACKEND === "fake" ? "fake" : "genai";
+}
+
+/**
+ * API 키로 File Search 백엔드 생성
+ *
+ * @param apiKey - Gemini API 키 (fake 백엔드에서는 존재 여부만 확인)
+ */
+export function getBackend(apiKey: string): FileSearchBackend {
+  if (getBackendKind() === "fake") {
+    if (!apiKey) {
+      throw new Error("API 키가 필요합니다. API 키를 입력해주세요.");
+    }
+    return createFakeBackend();
+  }
+
+  return createGenAIBackend(apiKey);
+}
@@ -0,0 +1,73 @@
+/**
+ * File Search Backend Interface
+ *
+ * lib/gemini.ts가 사용하는 Gemini File Search 기능의 추상화
+ * - genai: @google/genai SDK를 사용하는 실제 구현
+ * - fake: 네트워크 없이 동작하는 인메모리/디스크 구현 (로컬 개발 및 CI용)
+ *
+ * 요청/응답 형식은 SDK 타입을 그대로 사용하여
+ * 실제 구현이 얇은 래퍼가 되도록 합니다
+ */
+
+import type {
+  FileSearchStore as GenAIFileSearchStore,
+  Document as GenAIDocument,
+  UploadToFileSearchStoreConfig,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from "@google/genai";
+import type { Operation, PageOptions, PagedResult } from "@/types";
+
+export type { GenAIFileSearchStore, GenAIDocument };
+
+/**
+ * 사용 가능한 백엔드 종류
+ * GEMINI_BACKEND 환경 변수로 선택합니다
+ */
+export type BackendKind = "genai" | "fake";
+
+/**
+ * 스토어 업로드 요청 파라미터
+ */
+export interface UploadToStoreParams {
+  /** 파일 경로 또는 Blob */
+  file: string | Blob;
+  /** 전체 스토어 이름 ("fileSearchStores/..." 형식) */
+  fileSearchStoreName: string;
+  /** 업로드 구성 (displayName, customMetadata, chunkingConfig 등) */
+  config?: UploadToFileSearchStoreConfig;
+}
+
+/**
+ * File Search Backend
+ * 모든 이름 인자는 전체 리소스 이름을 사용합니다
+ */
+export interface FileSearchBackend {
+  /** 백엔드 종류 */
+  readonly kind: BackendKind;
+
+  // Stores
+  createStore(params: { displayName: string }): Promise<GenAIFileSearchStore>;
+  getStore(params: { name: string }): Promise<GenAIFileSearchStore>;
+  listStores(options: PageOptions): Promise<PagedResult<GenAIFileSearchStore>>;
+  deleteStore(params: { name: string; force?: boolean }): Promise<void>;
+
+  // Documents
+  listDocuments(
+    params: { parent: string } & PageOptions
+  ): Promise<PagedResult<GenAIDocument>>;
+  getDocument(params: { name: string }): Promise<GenAIDocument>;
+  deleteDocument(params: { name: string; force?: boolean }): Promise<void>;
+
+  // Upload operations
+  uploadToStore(params: UploadToStoreParams): Promise<Operation>;
+  getOperation(params: { name: string }): Promise<Operation>;
+
+  // Generation
+  generateContent(
+    params: GenerateContentParameters
+  ): Promise<GenerateContentResponse>;
+  generateContentStream(
+    params: GenerateContentParameters
+  ): Promise<AsyncGenerator<GenerateContentResponse>>;
+}
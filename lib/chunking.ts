@@ -0,0 +1,101 @@
+/**
+ * Chunking Config
+ *
+ * 업로드 시 사용하는 white-space 청킹 설정
+ * - 기본값과 허용 범위
+ * - 문서가 어떤 설정으로 인덱싱되었는지 customMetadata에 기록/조회
+ *   (documents.get 응답에는 청킹 설정이 포함되지 않으므로)
+ */
+
+import type { ChunkingConfig, CustomMetadata } from "@/types";
+
+/** 청크당 최대 토큰 수 기본값 */
+export const DEFAULT_MAX_TOKENS_PER_CHUNK = 500;
+/** 청크 간 겹치는 최대 토큰 수 기본값 */
+export const DEFAULT_MAX_OVERLAP_TOKENS = 50;
+
+/** 청크당 최대 토큰 수 허용 범위 */
+export const MIN_TOKENS_PER_CHUNK = 50;
+export const MAX_TOKENS_PER_CHUNK = 2048;
+
+/** 청킹 설정을 기록하는 customMetadata 키 */
+export const CHUNKING_METADATA_KEYS = {
+  maxTokensPerChunk: "chunk_max_tokens",
+  maxOverlapTokens: "chunk_overlap_tokens",
+} as const;
+
+export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  maxTokensPerChunk: DEFAULT_MAX_TOKENS_PER_CHUNK,
+  maxOverlapTokens: DEFAULT_MAX_OVERLAP_TOKENS,
+};
+
+/**
+ * 청킹 설정 검증
+ *
+ * @returns 에러 메시지 (유효하면 null)
+ */
+export function validateChunkingConfig(config: ChunkingConfig): string | null {
+  const { maxTokensPerChunk, maxOverlapTokens } = config;
+
+  if (
+    !Number.isInteger(maxTokensPerChunk) ||
+    maxTokensPerChunk < MIN_TOKENS_PER_CHUNK ||
+    maxTokensPerChunk > MAX_TOKENS_PER_CHUNK
+  ) {
+    return `maxTokensPerChunk는 ${MIN_TOKENS_PER_CHUNK}~${MAX_TOKENS_PER_CHUNK} 사이의 정수여야 합니다`;
+  }
+
+  if (
+    !Number.isInteger(maxOverlapTokens) ||
+    maxOverlapTokens < 0 ||
+    maxOverlapTokens >= maxTokensPerChunk
+  ) {
+    return "maxOverlapTokens는 0 이상이고 maxTokensPerChunk보다 작은 정수여야 합니다";
+  }
+
+  return null;
+}
+
+/**
+ * 청킹 설정을 customMetadata 항목으로 변환
+ */
+export function toChunkingMetadata(config: ChunkingConfig): CustomMetadata[] {
+  return [
+    {
+      key: CHUNKING_METADATA_KEYS.maxTokensPerChunk,
+      numericValue: config.maxTokensPerChunk,
+    },
+    {
+      key: CHUNKING_METADATA_KEYS.maxOverlapTokens,
+      numericValue: config.maxOverlapTokens,
+    },
+  ];
+}
+
+/**
+ * customMetadata에서 청킹 설정 조회
+ *
+ * @returns 청킹 설정 (기록되지 않은 문서는 null)
+ */
+export function readChunkingMetadata(
+  customMetadata: CustomMetadata[] | undefined
+): ChunkingConfig | null {
+  const find = (key: string) =>
+    customMetadata?.find((meta) => meta.key === key)?.numericValue;
+
+  const maxTokensPerChunk = find(CHUNKING_METADATA_KEYS.maxTokensPerChunk);
+  const maxOverlapTokens = find(CHUNKING_METADATA_KEYS.maxOverlapTokens);
+
+  if (maxTokensPerChunk === undefined || maxOverlapTokens === undefined) {
+    return null;
+  }
+
+  return { maxTokensPerChunk, maxOverlapTokens };
+}
+
+/**
+ * 청킹 설정 기록용 키인지 확인
+ */
+export function isChunkingMetadataKey(key: string): boolean {
+  return (Object.values(CHUNKING_METADATA_KEYS) as string[]).includes(key);
+}
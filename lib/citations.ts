@@ -0,0 +1,142 @@
+/**
+ * Inline Citations
+ *
+ * groundingSupports를 이용해 답변 마크다운에 인용 번호를 삽입
+ * - 구간 끝에 [n](#cite-n) 형식의 링크를 추가 (렌더링 시 인용 마커로 표시)
+ * - 번호는 답변에 처음 등장하는 청크 순서대로 부여
+ * - 세그먼트 인덱스는 UTF-8 바이트 단위이므로 문자열 인덱스로 변환
+ */
+
+import type { GroundingMetadata } from "@/types";
+
+/** 인용 마커 링크의 href 프리픽스 */
+export const CITATION_HREF_PREFIX = "#cite-";
+
+/**
+ * Citation
+ * 답변에서 참조한 청크 하나
+ */
+export interface Citation {
+  /** 인용 번호 (1부터) */
+  number: number;
+  /** groundingChunks 인덱스 */
+  chunkIndex: number;
+  /** 문서 표시 이름 */
+  title: string;
+  /** 청크 텍스트 */
+  text: string;
+  /** 출처 스토어 표시 이름 */
+  storeName?: string;
+}
+
+/**
+ * UTF-8 바이트 오프셋을 문자열 인덱스로 변환
+ */
+function byteOffsetToIndex(text: string, byteOffset: number): number {
+  let bytes = 0;
+  let index = 0;
+
+  while (index < text.length && bytes < byteOffset) {
+    const codePoint = text.codePointAt(index)!;
+    bytes +=
+      codePoint < 0x80
+        ? 1
+        : codePoint < 0x800
+          ? 2
+          : codePoint < 0x10000
+            ? 3
+            : 4;
+    index += codePoint > 0xffff ? 2 : 1;
+  }
+
+  return index;
+}
+
+/**
+ * 위치가 코드 블록(```) 안인지 확인
+ */
+function isInsideCodeFence(text: string, index: number): boolean {
+  const fences = text.slice(0, index).match(/^\s*```/gm);
+  return !!fences && fences.length % 2 === 1;
+}
+
+/**
+ * 답변 텍스트에 인용 마커를 삽입하고 인용 목록 생성
+ *
+ * @param text - 모델 답변 (마크다운)
+ * @param groundingMetadata - 답변의 그라운딩 메타데이터
+ * @returns 마커가 삽입된 마크다운과 번호순 인용 목록
+ */
+export function buildCitations(
+  text: string,
+  groundingMetadata: GroundingMetadata | null | undefined
+): { markdown: string; citations: Citation[] } {
+  const chunks = groundingMetadata?.groundingChunks || [];
+  const supports = groundingMetadata?.groundingSupports || [];
+
+  const numbers = new Map<number, number>();
+  const citations: Citation[] = [];
+
+  const getNumber = (chunkIndex: number): number | null => {
+    const chunk = chunks[chunkIndex];
+    if (!chunk) return null;
+
+    let number = numbers.get(chunkIndex);
+    if (number === undefined) {
+      number = citations.length + 1;
+      numbers.set(chunkIndex, number);
+      citations.push({
+        number,
+        chunkIndex,
+        title: chunk.retrievedContext?.title || "",
+        text: chunk.retrievedContext?.text || "",
+        storeName: chunk.store?.displayName,
+      });
+    }
+    return number;
+  };
+
+  // 삽입 위치(문자열 인덱스)별 인용 번호
+  const markers = new Map<number, number[]>();
+  const sortedSupports = [...supports].sort(
+    (a, b) => (a.segment?.startIndex || 0) - (b.segment?.startIndex || 0)
+  );
+
+  for (const support of sortedSupports) {
+    if (support.segment?.endIndex === undefined) continue;
+
+    const supportNumbers = (support.groundingChunkIndices || [])
+      .map(getNumber)
+      .filter((number): number is number => number !== null);
+    if (supportNumbers.length === 0) continue;
+
+    // 구간 끝의 공백/줄바꿈 앞에 삽입해 마크다운 구조를 유지
+    let index = byteOffsetToIndex(text, support.segment.endIndex);
+    while (index > 0 && /\s/.test(text[index - 1]!)) {
+      index--;
+    }
+    if (isInsideCodeFence(text, index)) continue;
+
+    const existing = markers.get(index) || [];
+    markers.set(index, Array.from(new Set([...existing, ...supportNumbers])));
+  }
+
+  // 뒤에서부터 삽입해 앞쪽 인덱스를 유지
+  let markdown = text;
+  const positions = Array.from(markers.keys()).sort((a, b) => b - a);
+  for (const index of positions) {
+    const marker = markers
+      .get(index)!
+      .sort((a, b) => a - b)
+      .map((number) => `[${number}](${CITATION_HREF_PREFIX}${number})`)
+      .join("");
+    markdown = markdown.slice(0, index) + marker + markdown.slice(index);
+  }
+
+  // 인용 구간 정보가 없으면 검색된 청크를 모두 출처로 표시
+  if (citations.length === 0) {
+    chunks.forEach((_, chunkIndex) => getNumber(chunkIndex));
+  }
+
+  return { markdown, citations };
+}
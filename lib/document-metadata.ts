@@ -0,0 +1,177 @@
+/**
+ * Document Metadata
+ *
+ * 앱이 문서 customMetadata에 직접 기록하는 예약 키 관리
+ * - 청킹 설정 (lib/chunking.ts)
+ * - 문서 버전 (교체할 때마다 1씩 증가, 기록이 없으면 1)
+ * - 내용 해시 (SHA-256, 업로드 중복 확인용)
+ * - 교체 대상 문서 (새 버전 인덱싱이 성공한 뒤 이전 버전을 삭제하기 위해 기록)
+ *
+ * 아카이브/URL 가져오기의 출처 키(source_path, source_folder, source_url, fetched_at)는
+ * 예약 키가 아니므로 사용자가 수정할 수 있음
+ */
+
+import type {
+  CustomMetadata,
+  DuplicatePolicy,
+  FileSearchDocument,
+} from "@/types";
+import { CHUNKING_METADATA_KEYS, isChunkingMetadataKey } from "@/lib/chunking";
+
+/** 문서당 customMetadata 최대 개수 (File Search API 제한) */
+export const MAX_CUSTOM_METADATA = 20;
+
+/** 문서 버전을 기록하는 customMetadata 키 */
+export const VERSION_METADATA_KEY = "doc_version";
+
+/** 파일 내용의 SHA-256(16진수)을 기록하는 customMetadata 키 */
+export const CONTENT_HASH_METADATA_KEY = "content_sha256";
+
+/** 교체 업로드에서 이전 버전의 문서 이름을 기록하는 customMetadata 키 */
+export const REPLACES_METADATA_KEY = "replaces_document";
+
+/** 사용자가 직접 추가할 수 있는 customMetadata 최대 개수 (예약 키 제외) */
+export const MAX_USER_METADATA =
+  MAX_CUSTOM_METADATA - Object.keys(CHUNKING_METADATA_KEYS).length - 3;
+
+/** 같은 내용의 문서가 있을 때 업로드 정책 (첫 번째가 기본값) */
+export const DUPLICATE_POLICIES = [
+  "skip",
+  "replace",
+  "keep",
+] as const satisfies readonly DuplicatePolicy[];
+
+/** ZIP 아카이브 가져오기와 디렉터리 동기화에서 상대 경로를 기록하는 customMetadata 키 */
+export const ARCHIVE_METADATA_KEYS = {
+  path: "source_path",
+  folder: "source_folder",
+} as const;
+
+/** 아카이브 가져오기에서 사용자가 추가할 수 있는 customMetadata 최대 개수 */
+export const MAX_ARCHIVE_USER_METADATA =
+  MAX_USER_METADATA - Object.keys(ARCHIVE_METADATA_KEYS).length;
+
+/** URL 가져오기에서 페이지 주소와 가져온 날짜를 기록하는 customMetadata 키 */
+export const URL_METADATA_KEYS = {
+  url: "source_url",
+  fetchedAt: "fetched_at",
+} as const;
+
+/** URL 가져오기에서 사용자가 추가할 수 있는 customMetadata 최대 개수 */
+export const MAX_URL_USER_METADATA =
+  MAX_USER_METADATA - Object.keys(URL_METADATA_KEYS).length;
+
+/**
+ * 앱이 관리하는 예약 키인지 확인
+ */
+export function isReservedMetadataKey(key: string): boolean {
+  return (
+    key === VERSION_METADATA_KEY ||
+    key === CONTENT_HASH_METADATA_KEY ||
+    key === REPLACES_METADATA_KEY ||
+    isChunkingMetadataKey(key)
+  );
+}
+
+/**
+ * 예약 키를 제외한 사용자 메타데이터만 반환
+ */
+export function getUserMetadata(
+  customMetadata: CustomMetadata[] | undefined
+): CustomMetadata[] {
+  return (customMetadata || []).filter(
+    (meta) => !isReservedMetadataKey(meta.key)
+  );
+}
+
+/**
+ * customMetadata에서 문서 버전 조회
+ */
+export function readDocumentVersion(
+  customMetadata: CustomMetadata[] | undefined
+): number {
+  const version = customMetadata?.find(
+    (meta) => meta.key === VERSION_METADATA_KEY
+  )?.numericValue;
+  return version !== undefined && version >= 1 ? version : 1;
+}
+
+/**
+ * 문서 버전을 customMetadata 항목으로 변환
+ */
+export function toVersionMetadata(version: number): CustomMetadata {
+  return { key: VERSION_METADATA_KEY, numericValue: version };
+}
+
+/**
+ * customMetadata에서 내용 해시 조회 (해시 없이 업로드된 문서는 undefined)
+ */
+export function readContentHash(
+  customMetadata: CustomMetadata[] | undefined
+): string | undefined {
+  return customMetadata?.find((meta) => meta.key === CONTENT_HASH_METADATA_KEY)
+    ?.stringValue;
+}
+
+/**
+ * customMetadata에서 원본 상대 경로(source_path) 조회 (아카이브/동기화로 올리지 않은 문서는 undefined)
+ */
+export function readSourcePath(
+  customMetadata: CustomMetadata[] | undefined
+): string | undefined {
+  return customMetadata?.find((meta) => meta.key === ARCHIVE_METADATA_KEYS.path)
+    ?.stringValue;
+}
+
+/**
+ * customMetadata에서 교체 대상(이전 버전) 문서 이름 조회
+ */
+export function readReplacedDocument(
+  customMetadata: CustomMetadata[] | undefined
+): string | undefined {
+  return customMetadata?.find((meta) => meta.key === REPLACES_METADATA_KEY)
+    ?.stringValue;
+}
+
+/**
+ * 교체 대상 문서 이름을 customMetadata 항목으로 변환
+ */
+export function toReplacesMetadata(documentName: string): CustomMetadata {
+  return { key: REPLACES_METADATA_KEY, stringValue: documentName };
+}
+
+/**
+ * 내용 해시를 customMetadata 항목으로 변환
+ */
+export function toContentHashMetadata(contentHash: string): CustomMetadata {
+  return { key: CONTENT_HASH_METADATA_KEY, stringValue: contentHash };
+}
+
+/**
+ * 내용 해시별 문서 목록 (해시가 없는 문서 제외, 먼저 만든 문서부터)
+ */
+export function groupByContentHash(
+  documents: FileSearchDocument[]
+): Map<string, FileSearchDocument[]> {
+  const groups = new Map<string, FileSearchDocument[]>();
+  const sorted = [...documents].sort((a, b) =>
+    a.createTime.localeCompare(b.createTime)
+  );
+  for (const document of sorted) {
+    const contentHash = readContentHash(document.customMetadata);
+    if (!contentHash) continue;
+    groups.set(contentHash, [...(groups.get(contentHash) || []), document]);
+  }
+  return groups;
+}
+
+/**
+ * 내용이 같은 문서가 2개 이상인 묶음
+ */
+export function findDuplicateClusters(
+  documents: FileSearchDocument[]
+): FileSearchDocument[][] {
+  return [...groupByContentHash(documents).values()].filter(
+    (group) => group.length > 1
+  );
+}
@@ -5,14 +5,42 @@
  * - TypeScript로 완전히 재작성
  * - Type-safe API 호출
  * - 재시도 로직 및 캐싱 포함
+ * - FileSearchBackend를 통해 실제 API 또는 fake 백엔드 사용
  */
 
-import { GoogleGenAI } from "@google/genai";
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { getBackend } from "@/lib/backend";
+import { withRetry } from "@/lib/retry";
+import {
+  DEFAULT_MAX_TOKENS_PER_CHUNK,
+  DEFAULT_MAX_OVERLAP_TOKENS,
+  isChunkingMetadataKey,
+  readChunkingMetadata,
+  toChunkingMetadata,
+} from "@/lib/chunking";
+import {
+  CONTENT_HASH_METADATA_KEY,
+  getUserMetadata,
+  readDocumentVersion,
+  readReplacedDocument,
+  toContentHashMetadata,
+  toReplacesMetadata,
+  toVersionMetadata,
+} from "@/lib/document-metadata";
 import type {
   FileSearchStore,
   FileSearchDocument,
+  DocumentState,
+  CustomMetadata,
   QueryResponse,
+  QueryStreamEvent,
+  Content,
+  GroundingMetadata,
+  UsageMetadata,
   UploadOptions,
+  PageOptions,
+  PagedResult,
   Operation,
 } from "@/types";
 
@@ -26,6 +54,18 @@ import type {
  */
 const STORE_PREFIX = "fileSearchStores/";
 
+/**
+ * 목록 API 기본 페이지 크기
+ * File Search API가 허용하는 최대값(20)을 사용해 요청 횟수를 줄입니다
+ */
+const LIST_PAGE_SIZE = 20;
+
+/**
+ * 문서 ID 형식 (소문자, 숫자, 대시)
+ * 이 형식이 아니면 표시 이름으로 간주합니다
+ */
+const DOCUMENT_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
 // ============================================
 // Utility Functions for Store Names
 // ============================================
@@ -59,63 +99,29 @@ export function getFullStoreName(storeId: string): string {
 // ============================================
 
 /**
- * GoogleGenAI 클라이언트 초기화
- * API 키는 필수입니다
- */
-const getGeminiClient = (apiKey: string) => {
-  if (!apiKey) {
-    throw new Error("API 키가 필요합니다. API 키를 입력해주세요.");
-  }
-
-  return new GoogleGenAI({ apiKey });
-};
-
-/**
- * API 키를 받아서 GoogleGenAI 클라이언트 반환
- * 매번 새로운 인스턴스 생성 (사용자별 API 키 지원)
+ * GoogleGenAI 클라이언트는 실제 백엔드 구현으로 이동했습니다
+ * (기존 import 경로 호환을 위해 re-export)
  */
-export const getAI = (apiKey: string): GoogleGenAI => {
-  return getGeminiClient(apiKey);
-};
+export { getAI } from "@/lib/backend";
 
 // ============================================
 // Utility Functions
 // ============================================
 
 /**
- * 재시도 로직을 포함한 비동기 함수 실행
+ * 페이지 토큰을 따라가며 모든 항목을 순회
  *
- * @param fn - 실행할 비동기 함수
- * @param maxRetries - 최대 재시도 횟수 (기본값: 3)
- * @param baseDelay - 기본 대기 시간(ms) (기본값: 1000)
- * @returns 함수 실행 결과
- */
-export async function retryWithBackoff<T>(
-  fn: () => Promise<T>,
-  maxRetries: number = 3,
-  baseDelay: number = 1000
-): Promise<T> {
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      const status = error.status || error.statusCode;
-      const isRetriableError =
-        status === 429 || status === 503 || status === 500;
-
-      if (attempt < maxRetries && isRetriableError) {
-        const delay = baseDelay * Math.pow(2, attempt); // 지수 백오프
-        console.log(
-          `재시도 ${attempt + 1}/${maxRetries} - ${delay}ms 후 재시도...`
-        );
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      } else {
-        throw error;
-      }
-    }
-  }
-
-  throw new Error("Maximum retries exceeded");
+ * @param fetchPage - 페이지 토큰으로 한 페이지를 조회하는 함수
+ */
+async function* iterateAllPages<T>(
+  fetchPage: (pageToken?: string) => Promise<PagedResult<T>>
+): AsyncGenerator<T> {
+  let pageToken: string | undefined;
+  do {
+    const page = await withRetry("list", () => fetchPage(pageToken));
+    yield* page.items;
+    pageToken = page.nextPageToken;
+  } while (pageToken);
 }
 
 // ============================================
@@ -135,10 +141,10 @@ export async function createFileSearchStore(
 ): Promise<FileSearchStore> {
   console.log(`\n📦 파일 검색 스토어 생성 중: ${displayName}`);
 
-  const ai = getAI(apiKey);
-  const createStoreOp = await ai.fileSearchStores.create({
-    config: { displayName },
-  });
+  const backend = getBackend(apiKey);
+  const createStoreOp = await withRetry("write", () =>
+    backend.createStore({ displayName })
+  );
 
   console.log(`✅ 스토어가 생성되었습니다: ${createStoreOp.name}`);
 
@@ -146,18 +152,26 @@ export async function createFileSearchStore(
     throw new Error("Failed to create store: Name is missing");
   }
 
-  // ID만 추출하여 저장
-  const storeId = extractStoreId(createStoreOp.name);
+  const store: FileSearchStore = {
+    ...toFileSearchStore(createStoreOp),
+    displayName: createStoreOp.displayName || displayName,
+  };
+
+  return store;
+}
 
+/**
+ * SDK 스토어 응답을 FileSearchStore 타입으로 변환
+ * (ID만 추출하여 저장)
+ */
+function toFileSearchStore(store: any): FileSearchStore {
   const activeDocumentsCountRaw =
-    (createStoreOp as any).activeDocumentsCount ??
-    (createStoreOp as any).activeDocumentCount ??
-    0;
-  const sizeBytesRaw = (createStoreOp as any).sizeBytes ?? 0;
+    store.activeDocumentsCount ?? store.activeDocumentCount ?? 0;
+  const sizeBytesRaw = store.sizeBytes ?? 0;
 
-  const store: FileSearchStore = {
-    name: storeId,
-    displayName: createStoreOp.displayName || displayName,
+  return {
+    name: extractStoreId(store.name),
+    displayName: store.displayName,
     activeDocumentsCount:
       typeof activeDocumentsCountRaw === "string"
         ? parseInt(activeDocumentsCountRaw)
@@ -166,15 +180,32 @@ export async function createFileSearchStore(
       typeof sizeBytesRaw === "string"
         ? parseInt(sizeBytesRaw)
         : sizeBytesRaw || 0,
-    createTime: createStoreOp.createTime || new Date().toISOString(),
-    updateTime: createStoreOp.updateTime || new Date().toISOString(),
+    createTime: store.createTime || new Date().toISOString(),
+    updateTime: store.updateTime || new Date().toISOString(),
   };
+}
 
-  return store;
+/**
+ * ID로 File Search Store 조회
+ *
+ * @param storeId - 스토어 ID 또는 전체 이름
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 스토어 정보
+ */
+export async function getFileSearchStore(
+  storeId: string,
+  apiKey: string
+): Promise<FileSearchStore> {
+  const backend = getBackend(apiKey);
+  const store = await withRetry("read", () =>
+    backend.getStore({ name: getFullStoreName(storeId) })
+  );
+  return toFileSearchStore(store);
 }
 
 /**
  * Display Name으로 Store 찾기
+ * 모든 페이지를 순회하며 검색합니다
  *
  * @param displayName - 찾을 스토어의 표시 이름
  * @param apiKey - Gemini API 키 (필수)
@@ -187,36 +218,15 @@ export async function findStoreByDisplayName(
 ): Promise<FileSearchStore> {
   console.log(`\n🔍 스토어 검색 중: ${displayName}`);
 
-  const ai = getAI(apiKey);
+  const backend = getBackend(apiKey);
   let fileStore: FileSearchStore | null = null;
-  const pager = await ai.fileSearchStores.list({ config: { pageSize: 10 } });
-  const page = pager.page;
+  const stores = iterateAllPages((pageToken) =>
+    backend.listStores({ pageSize: LIST_PAGE_SIZE, pageToken })
+  );
 
-  for (const store of page) {
+  for await (const store of stores) {
     if (store.displayName === displayName && store.name) {
-      // ID만 추출하여 저장
-      const storeId = extractStoreId(store.name);
-
-      const activeDocumentsCountRaw =
-        (store as any).activeDocumentsCount ??
-        (store as any).activeDocumentCount ??
-        0;
-      const sizeBytesRaw = (store as any).sizeBytes ?? 0;
-
-      fileStore = {
-        name: storeId,
-        displayName: store.displayName,
-        activeDocumentsCount:
-          typeof activeDocumentsCountRaw === "string"
-            ? parseInt(activeDocumentsCountRaw)
-            : activeDocumentsCountRaw || 0,
-        sizeBytes:
-          typeof sizeBytesRaw === "string"
-            ? parseInt(sizeBytesRaw)
-            : sizeBytesRaw || 0,
-        createTime: store.createTime || new Date().toISOString(),
-        updateTime: store.updateTime || new Date().toISOString(),
-      };
+      fileStore = toFileSearchStore(store);
       break;
     }
   }
@@ -230,8 +240,38 @@ export async function findStoreByDisplayName(
   return fileStore;
 }
 
+/**
+ * File Search Store 목록 한 페이지 조회
+ *
+ * @param apiKey - Gemini API 키 (필수)
+ * @param options - 페이지 크기 및 페이지 토큰
+ * @returns 현재 페이지의 스토어 목록과 다음 페이지 토큰
+ */
+export async function listStoresPage(
+  apiKey: string,
+  options: PageOptions = {}
+): Promise<PagedResult<FileSearchStore>> {
+  const backend = getBackend(apiKey);
+  const page = await withRetry("list", () =>
+    backend.listStores({
+      pageSize: options.pageSize || LIST_PAGE_SIZE,
+      pageToken: options.pageToken,
+    })
+  );
+
+  const items = page.items
+    .filter((store) => store.name && store.displayName)
+    .map(toFileSearchStore);
+
+  return {
+    items,
+    nextPageToken: page.nextPageToken,
+  };
+}
+
 /**
  * 모든 File Search Store 목록 조회
+ * 다음 페이지 토큰이 없을 때까지 모든 페이지를 순회합니다
  *
  * @param apiKey - Gemini API 키 (필수)
  * @returns 스토어 목록
@@ -239,36 +279,15 @@ export async function findStoreByDisplayName(
 export async function listAllStores(
   apiKey: string
 ): Promise<FileSearchStore[]> {
-  const ai = getAI(apiKey);
+  const backend = getBackend(apiKey);
   const stores: FileSearchStore[] = [];
-  const pager = await ai.fileSearchStores.list({ config: { pageSize: 20 } });
-  const page = pager.page;
+  const allStores = iterateAllPages((pageToken) =>
+    backend.listStores({ pageSize: LIST_PAGE_SIZE, pageToken })
+  );
 
-  for (const store of page) {
+  for await (const store of allStores) {
     if (store.name && store.displayName) {
-      // ID만 추출하여 저장
-      const storeId = extractStoreId(store.name);
-
-      const activeDocumentsCountRaw =
-        (store as any).activeDocumentsCount ??
-        (store as any).activeDocumentCount ??
-        0;
-      const sizeBytesRaw = (store as any).sizeBytes ?? 0;
-
-      stores.push({
-        name: storeId,
-        displayName: store.displayName,
-        activeDocumentsCount:
-          typeof activeDocumentsCountRaw === "string"
-            ? parseInt(activeDocumentsCountRaw)
-            : activeDocumentsCountRaw || 0,
-        sizeBytes:
-          typeof sizeBytesRaw === "string"
-            ? parseInt(sizeBytesRaw)
-            : sizeBytesRaw || 0,
-        createTime: store.createTime || new Date().toISOString(),
-        updateTime: store.updateTime || new Date().toISOString(),
-      });
+      stores.push(toFileSearchStore(store));
     }
   }
 
@@ -289,14 +308,13 @@ export async function deleteFileSearchStore(
 ): Promise<void> {
   console.log(`\n🗑️  파일 검색 스토어 삭제 중: ${fileStore.displayName}`);
 
-  const ai = getAI(apiKey);
+  const backend = getBackend(apiKey);
 
   // API 호출 시 전체 이름 사용
   const fullStoreName = getFullStoreName(fileStore.name);
-  await ai.fileSearchStores.delete({
-    name: fullStoreName,
-    config: { force: true },
-  });
+  await withRetry("delete", () =>
+    backend.deleteStore({ name: fullStoreName, force: true })
+  );
 
   console.log(`✅ 스토어가 성공적으로 삭제되었습니다`);
 }
@@ -307,8 +325,9 @@ export async function deleteFileSearchStore(
 
 /**
  * 파일 MIME 타입 자동 감지
+ * 지원하지 않는 확장자는 application/octet-stream
  */
-function getMimeType(filePath: string): string {
+export function getMimeType(filePath: string): string {
   const ext = filePath.substring(filePath.lastIndexOf(".")).toLowerCase();
 
   const mimeMap: Record<string, string> = {
@@ -333,15 +352,35 @@ function getMimeType(filePath: string): string {
 }
 
 /**
- * 커스텀 청킹 전략으로 파일 업로드
+ * 파일 내용의 SHA-256 (16진수)
+ *
+ * @param file - 파일 경로 또는 파일 내용
+ */
+export async function computeContentHash(
+  file: string | Uint8Array
+): Promise<string> {
+  const hash = createHash("sha256");
+  if (typeof file === "string") {
+    for await (const chunk of createReadStream(file)) {
+      hash.update(chunk);
+    }
+  } else {
+    hash.update(file);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * 커스텀 청킹 전략으로 파일 업로드 시작
+ * 파일 전송 후 인덱싱 완료를 기다리지 않고 operation을 바로 반환합니다
  *
  * @param fileStore - 업로드할 대상 스토어 객체
  * @param file - 업로드할 파일 (경로 문자열 또는 Uint8Array/Buffer)
  * @param options - 업로드 옵션
  * @param apiKey - Gemini API 키 (필수)
- * @returns 업로드 완료된 operation 결과
+ * @returns 진행 중인 operation (getUploadOperation으로 상태 확인)
  */
-export async function uploadWithCustomChunking(
+export async function startUploadWithCustomChunking(
   fileStore: FileSearchStore,
   file: string | Uint8Array,
   options: UploadOptions = {},
@@ -355,18 +394,32 @@ export async function uploadWithCustomChunking(
     (isFilePath ? file.substring(file.lastIndexOf("/") + 1) : "file");
 
   const {
-    customMetadata = [],
-    maxTokensPerChunk = 500,
-    maxOverlapTokens = 50,
+    maxTokensPerChunk = DEFAULT_MAX_TOKENS_PER_CHUNK,
+    maxOverlapTokens = DEFAULT_MAX_OVERLAP_TOKENS,
     mimeType,
   } = options;
 
-  console.log(`\n📄 커스텀 청킹으로 업로드 중: ${displayName}`);
+  // 인덱싱에 사용한 청킹 설정과 내용 해시를 customMetadata에 함께 기록
+  const contentHash = options.contentHash || (await computeContentHash(file));
+  const customMetadata = [
+    ...(options.customMetadata || []).filter(
+      (meta) =>
+        !isChunkingMetadataKey(meta.key) &&
+        meta.key !== CONTENT_HASH_METADATA_KEY
+    ),
+    ...toChunkingMetadata({ maxTokensPerChunk, maxOverlapTokens }),
+    toContentHashMetadata(contentHash),
+  ];
+
+  console.log(`\n📄 커스텀 청킹으로 업로드 중: ${displayName}`, {
+    maxTokensPerChunk,
+    maxOverlapTokens,
+  });
 
   const resolvedMimeType =
     mimeType || (isFilePath ? getMimeType(file) : "application/octet-stream");
 
-  const ai = getAI(apiKey);
+  const backend = getBackend(apiKey);
 
   const fileInput: string | Blob = isFilePath
     ? file
@@ -376,8 +429,8 @@ export async function uploadWithCustomChunking(
   const fullStoreName = getFullStoreName(fileStore.name);
 
   // 재시도 로직 적용하여 업로드
-  let advancedUploadOp = await retryWithBackoff(async () => {
-    return await ai.fileSearchStores.uploadToFileSearchStore({
+  const advancedUploadOp = await withRetry("upload", async () => {
+    return await backend.uploadToStore({
       file: fileInput,
       fileSearchStoreName: fullStoreName,
       config: {
@@ -394,23 +447,73 @@ export async function uploadWithCustomChunking(
     });
   });
 
+  console.log(`📨 업로드 작업 시작: ${advancedUploadOp.name}`);
+
+  return advancedUploadOp;
+}
+
+/**
+ * 업로드 operation 상태 조회
+ *
+ * @param operationName - "fileSearchStores/.../operations/..." 형식의 operation 이름
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 현재 operation 상태
+ */
+export async function getUploadOperation(
+  operationName: string,
+  apiKey: string
+): Promise<Operation> {
+  const backend = getBackend(apiKey);
+  return await withRetry("poll", async () => {
+    return await backend.getOperation({ name: operationName });
+  });
+}
+
+/**
+ * 커스텀 청킹 전략으로 파일 업로드 (인덱싱 완료까지 대기)
+ *
+ * @param fileStore - 업로드할 대상 스토어 객체
+ * @param file - 업로드할 파일 (경로 문자열 또는 Uint8Array/Buffer)
+ * @param options - 업로드 옵션
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 업로드 완료된 operation 결과
+ */
+export async function uploadWithCustomChunking(
+  fileStore: FileSearchStore,
+  file: string | Uint8Array,
+  options: UploadOptions = {},
+  apiKey: string
+): Promise<Operation> {
+  const displayName =
+    options.displayName ||
+    (typeof file === "string"
+      ? file.substring(file.lastIndexOf("/") + 1)
+      : "file");
+
+  let operation = await startUploadWithCustomChunking(
+    fileStore,
+    file,
+    options,
+    apiKey
+  );
+
   // 파일 처리 완료까지 폴링 (1초마다 상태 확인, 최대 5분)
   const maxPollAttempts = 300; // 5분
   let pollAttempts = 0;
 
-  while (!advancedUploadOp.done && pollAttempts < maxPollAttempts) {
+  while (!operation.done && pollAttempts < maxPollAttempts) {
     await new Promise((resolve) => setTimeout(resolve, 1000));
-    advancedUploadOp = await ai.operations.get({ operation: advancedUploadOp });
+    operation = await getUploadOperation(operation.name, apiKey);
     pollAttempts++;
   }
 
-  if (!advancedUploadOp.done) {
+  if (!operation.done) {
     throw new Error(`파일 처리 시간 초과: ${displayName}`);
   }
 
   console.log(`✅ 고급 파일 처리 완료: ${displayName}`);
 
-  return advancedUploadOp as Operation;
+  return operation;
 }
 
 // ============================================
@@ -418,38 +521,19 @@ export async function uploadWithCustomChunking(
 // ============================================
 
 /**
- * File Search를 사용한 생성 쿼리 (RAG)
- *
- * @param fileStore - 검색할 스토어 객체
- * @param query - 사용자의 질문 또는 쿼리
- * @param apiKey - Gemini API 키 (필수)
- * @param metadataFilter - 메타데이터 필터 (선택사항)
- * @param model - 사용할 Gemini 모델 (기본값: gemini-2.5-flash)
- * @param systemInstruction - 시스템 지시사항 (선택사항)
- * @param generationConfig - 생성 구성 옵션 (선택사항)
- * @param safetySettings - 안전 설정 (선택사항)
- * @returns AI 생성 응답 객체
+ * File Search 도구를 포함한 generateContent config 구성
  */
-export async function generateContentWithFileSearch(
-  fileStore: FileSearchStore,
-  query: string,
-  apiKey: string,
-  metadataFilter: string | null = null,
-  model: string = "gemini-2.5-flash",
+function buildFileSearchConfig(
+  fullStoreNames: string[],
+  metadataFilter: string | null,
   systemInstruction?: string,
   generationConfig?: any,
-  safetySettings?: any[]
-): Promise<QueryResponse> {
-  console.log(`\n💬 쿼리로 콘텐츠 생성 중: "${query}" (모델: ${model})`);
-
-  const ai = getAI(apiKey);
-
-  // API 호출 시 전체 이름 사용
-  const fullStoreName = getFullStoreName(fileStore.name);
-
+  safetySettings?: any[],
+  abortSignal?: AbortSignal
+): any {
   const toolsConfig: any = {
     fileSearch: {
-      fileSearchStoreNames: [fullStoreName],
+      fileSearchStoreNames: fullStoreNames,
     },
   };
 
@@ -470,9 +554,10 @@ export async function generateContentWithFileSearch(
       "답변은 다음 형식으로 작성해주세요: 답변을 md형식으로 작성해주세요. 답변은 짧고 요점을 명확하게 작성해주세요. 순서대로 정리되게 작성해주세요.";
   }
 
-  // generationConfig 추가 (제공된 경우)
+  // 생성 설정 추가 (제공된 경우)
+  // @google/genai의 GenerateContentConfig는 temperature 등을 최상위 필드로 받음
   if (generationConfig) {
-    config.generationConfig = generationConfig;
+    Object.assign(config, generationConfig);
   }
 
   // safetySettings 추가 (제공된 경우)
@@ -480,9 +565,107 @@ export async function generateContentWithFileSearch(
     config.safetySettings = safetySettings;
   }
 
+  // 스트리밍 중단 신호 (제공된 경우)
+  if (abortSignal) {
+    config.abortSignal = abortSignal;
+  }
+
+  return config;
+}
+
+/**
+ * 각 grounding chunk에 출처 스토어 정보 추가
+ * retrievedContext의 스토어/문서 이름으로 찾고, 단일 스토어 쿼리면 그 스토어로 지정합니다
+ */
+function annotateGroundingStores(
+  groundingMetadata: GroundingMetadata | null | undefined,
+  fileStores: FileSearchStore[]
+): GroundingMetadata | null {
+  if (!groundingMetadata?.groundingChunks) {
+    return groundingMetadata || null;
+  }
+
+  const storesById = new Map(fileStores.map((store) => [store.name, store]));
+
+  return {
+    ...groundingMetadata,
+    groundingChunks: groundingMetadata.groundingChunks.map((chunk) => {
+      const context = chunk.retrievedContext;
+      const fullStoreName =
+        context?.fileSearchStore ||
+        context?.documentName?.split("/documents/")[0];
+      const store =
+        (fullStoreName && storesById.get(extractStoreId(fullStoreName))) ||
+        (fileStores.length === 1 ? fileStores[0] : undefined);
+
+      return store
+        ? {
+            ...chunk,
+            store: { name: store.name, displayName: store.displayName },
+          }
+        : chunk;
+    }),
+  };
+}
+
+/**
+ * 로그용 쿼리 요약 (멀티턴이면 마지막 user 턴과 턴 수)
+ */
+function describeQuery(query: string | Content[]): string {
+  if (typeof query === "string") {
+    return `"${query}"`;
+  }
+  const lastUser = [...query].reverse().find((c) => c.role === "user");
+  const text = lastUser?.parts.map((p) => p.text).join(" ") || "";
+  return `"${text}" (${query.length}턴)`;
+}
+
+/**
+ * File Search를 사용한 생성 쿼리 (RAG)
+ *
+ * @param fileStore - 검색할 스토어 객체 (여러 스토어를 함께 검색하려면 배열)
+ * @param query - 사용자의 질문 또는 멀티턴 대화 내용 (마지막은 user 턴)
+ * @param apiKey - Gemini API 키 (필수)
+ * @param metadataFilter - 메타데이터 필터 (선택사항)
+ * @param model - 사용할 Gemini 모델 (기본값: gemini-2.5-flash)
+ * @param systemInstruction - 시스템 지시사항 (선택사항)
+ * @param generationConfig - 생성 구성 옵션 (선택사항)
+ * @param safetySettings - 안전 설정 (선택사항)
+ * @returns AI 생성 응답 객체
+ */
+export async function generateContentWithFileSearch(
+  fileStore: FileSearchStore | FileSearchStore[],
+  query: string | Content[],
+  apiKey: string,
+  metadataFilter: string | null = null,
+  model: string = "gemini-2.5-flash",
+  systemInstruction?: string,
+  generationConfig?: any,
+  safetySettings?: any[]
+): Promise<QueryResponse> {
+  console.log(
+    `\n💬 쿼리로 콘텐츠 생성 중: ${describeQuery(query)} (모델: ${model})`
+  );
+
+  const backend = getBackend(apiKey);
+
+  // API 호출 시 전체 이름 사용
+  const fileStores = Array.isArray(fileStore) ? fileStore : [fileStore];
+  const fullStoreNames = fileStores.map((store) =>
+    getFullStoreName(store.name)
+  );
+
+  const config = buildFileSearchConfig(
+    fullStoreNames,
+    metadataFilter,
+    systemInstruction,
+    generationConfig,
+    safetySettings
+  );
+
   // 재시도 로직 적용하여 쿼리 실행
-  const response = await retryWithBackoff(async () => {
-    return await ai.models.generateContent({
+  const response = await withRetry("query", async () => {
+    return await backend.generateContent({
       model,
       contents: query,
       config,
@@ -498,8 +681,108 @@ export async function generateContentWithFileSearch(
 
   return {
     text: response.text || "",
-    groundingMetadata: response.candidates?.[0]?.groundingMetadata as any,
+    groundingMetadata: annotateGroundingStores(
+      response.candidates?.[0]?.groundingMetadata as GroundingMetadata,
+      fileStores
+    ),
     candidates: response.candidates as any,
+    usageMetadata: response.usageMetadata,
+  };
+}
+
+/**
+ * File Search를 사용한 스트리밍 생성 쿼리 (RAG)
+ *
+ * 텍스트 조각(delta)을 도착하는 대로 전달하고,
+ * 마지막에 전체 텍스트와 groundingMetadata, 사용량을 전달합니다
+ *
+ * @param fileStore - 검색할 스토어 객체 (여러 스토어를 함께 검색하려면 배열)
+ * @param query - 사용자의 질문 또는 멀티턴 대화 내용 (마지막은 user 턴)
+ * @param apiKey - Gemini API 키 (필수)
+ * @param metadataFilter - 메타데이터 필터 (선택사항)
+ * @param model - 사용할 Gemini 모델 (기본값: gemini-2.5-flash)
+ * @param systemInstruction - 시스템 지시사항 (선택사항)
+ * @param generationConfig - 생성 구성 옵션 (선택사항)
+ * @param safetySettings - 안전 설정 (선택사항)
+ * @param abortSignal - 스트리밍 중단 신호 (선택사항)
+ * @returns delta 이벤트들과 마지막 done 이벤트
+ */
+export async function* generateContentStreamWithFileSearch(
+  fileStore: FileSearchStore | FileSearchStore[],
+  query: string | Content[],
+  apiKey: string,
+  metadataFilter: string | null = null,
+  model: string = "gemini-2.5-flash",
+  systemInstruction?: string,
+  generationConfig?: any,
+  safetySettings?: any[],
+  abortSignal?: AbortSignal
+): AsyncGenerator<QueryStreamEvent> {
+  console.log(
+    `\n💬 스트리밍 쿼리 시작: ${describeQuery(query)} (모델: ${model})`
+  );
+
+  const backend = getBackend(apiKey);
+
+  // API 호출 시 전체 이름 사용
+  const fileStores = Array.isArray(fileStore) ? fileStore : [fileStore];
+  const fullStoreNames = fileStores.map((store) =>
+    getFullStoreName(store.name)
+  );
+
+  const config = buildFileSearchConfig(
+    fullStoreNames,
+    metadataFilter,
+    systemInstruction,
+    generationConfig,
+    safetySettings,
+    abortSignal
+  );
+
+  // 스트림 시작까지만 재시도 (이미 전송된 delta는 되돌릴 수 없음)
+  const stream = await withRetry(
+    "query",
+    async () => {
+      return await backend.generateContentStream({
+        model,
+        contents: query,
+        config,
+      });
+    },
+    { signal: abortSignal }
+  );
+
+  let text = "";
+  let groundingMetadata: GroundingMetadata | null = null;
+  let usageMetadata: UsageMetadata | undefined;
+
+  for await (const chunk of stream) {
+    if (abortSignal?.aborted) {
+      break;
+    }
+
+    const delta = chunk.text;
+    if (delta) {
+      text += delta;
+      yield { type: "delta", text: delta };
+    }
+
+    const chunkGrounding = chunk.candidates?.[0]?.groundingMetadata;
+    if (chunkGrounding) {
+      groundingMetadata = chunkGrounding as GroundingMetadata;
+    }
+    if (chunk.usageMetadata) {
+      usageMetadata = chunk.usageMetadata;
+    }
+  }
+
+  console.log(`✅ 스트리밍 완료 (${text.length}자)`);
+
+  yield {
+    type: "done",
+    text,
+    groundingMetadata: annotateGroundingStores(groundingMetadata, fileStores),
+    usageMetadata,
   };
 }
 
@@ -507,8 +790,74 @@ export async function generateContentWithFileSearch(
 // Document Management Functions
 // ============================================
 
+/**
+ * SDK 문서 응답을 FileSearchDocument 타입으로 변환
+ * displayName이 없으면 name의 마지막 부분을 사용합니다
+ */
+function toFileSearchDocument(doc: any): FileSearchDocument {
+  return {
+    name: doc.name,
+    displayName: doc.displayName || doc.name.split("/").pop() || doc.name,
+    createTime: doc.createTime || new Date().toISOString(),
+    updateTime: doc.updateTime || new Date().toISOString(),
+    customMetadata: toCustomMetadata(doc.customMetadata),
+    state: doc.state as DocumentState | undefined,
+    mimeType: doc.mimeType,
+    sizeBytes:
+      typeof doc.sizeBytes === "string"
+        ? parseInt(doc.sizeBytes)
+        : doc.sizeBytes,
+  };
+}
+
+/**
+ * SDK customMetadata를 값 종류별 CustomMetadata로 변환
+ * (numericValue는 문자열로 올 수 있어 숫자로 정규화)
+ */
+function toCustomMetadata(raw: any[] | undefined): CustomMetadata[] | undefined {
+  if (!raw) return undefined;
+
+  return raw.map((item): CustomMetadata => {
+    if (item.numericValue !== undefined) {
+      return { key: item.key, numericValue: Number(item.numericValue) };
+    }
+    if (item.stringListValue !== undefined) {
+      return {
+        key: item.key,
+        stringListValue: { values: item.stringListValue.values || [] },
+      };
+    }
+    return { key: item.key, stringValue: item.stringValue ?? "" };
+  });
+}
+
+/**
+ * 문서 상세 조회 (documents.get)
+ *
+ * @param fileStore - 문서가 속한 스토어 객체
+ * @param documentId - 문서 ID 또는 전체 문서 이름
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 문서 정보 (customMetadata, 상태 포함)
+ */
+export async function getDocument(
+  fileStore: FileSearchStore,
+  documentId: string,
+  apiKey: string
+): Promise<FileSearchDocument> {
+  const backend = getBackend(apiKey);
+
+  // API 호출 시 전체 이름 사용
+  const name = documentId.startsWith(STORE_PREFIX)
+    ? documentId
+    : `${getFullStoreName(fileStore.name)}/documents/${documentId}`;
+
+  const document = await withRetry("read", () => backend.getDocument({ name }));
+  return toFileSearchDocument(document);
+}
+
 /**
  * Store 내 특정 문서 찾기
+ * 모든 페이지를 순회하며 검색합니다
  *
  * @param fileStore - 검색할 스토어 객체
  * @param displayName - 찾을 문서의 표시 이름
@@ -523,33 +872,23 @@ export async function findDocumentByDisplayName(
 ): Promise<FileSearchDocument> {
   console.log(`\n🔍 문서 검색 중: ${displayName}`);
 
-  const ai = getAI(apiKey);
+  const backend = getBackend(apiKey);
 
   // API 호출 시 전체 이름 사용
   const fullStoreName = getFullStoreName(fileStore.name);
 
   let targetDoc: FileSearchDocument | null = null;
-  const documentPager = await ai.fileSearchStores.documents.list({
-    parent: fullStoreName,
-  });
-  const page = documentPager.page;
-
-  for (const document of page) {
+  const documents = iterateAllPages((pageToken) =>
+    backend.listDocuments({
+      parent: fullStoreName,
+      pageSize: LIST_PAGE_SIZE,
+      pageToken,
+    })
+  );
+
+  for await (const document of documents) {
     if (document.displayName === displayName && document.name) {
-      targetDoc = {
-        name: document.name,
-        displayName: document.displayName,
-        createTime: document.createTime || new Date().toISOString(),
-        updateTime: document.updateTime || new Date().toISOString(),
-        metadata: (document as any).metadata as
-          | Record<string, string>
-          | undefined,
-        mimeType: document.mimeType,
-        sizeBytes:
-          typeof document.sizeBytes === "string"
-            ? parseInt(document.sizeBytes)
-            : document.sizeBytes,
-      };
+      targetDoc = toFileSearchDocument(document);
       break;
     }
   }
@@ -563,8 +902,71 @@ export async function findDocumentByDisplayName(
   return targetDoc;
 }
 
+/**
+ * 문서 ID 또는 표시 이름으로 문서 상세 조회
+ * ID로 찾지 못하면 표시 이름으로 다시 검색합니다
+ *
+ * @param fileStore - 문서가 속한 스토어 객체
+ * @param nameOrId - 문서 ID 또는 표시 이름
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 문서 정보 (customMetadata, 상태 포함)
+ */
+export async function resolveDocument(
+  fileStore: FileSearchStore,
+  nameOrId: string,
+  apiKey: string
+): Promise<FileSearchDocument> {
+  if (DOCUMENT_ID_PATTERN.test(nameOrId)) {
+    try {
+      return await getDocument(fileStore, nameOrId, apiKey);
+    } catch (error: any) {
+      if ((error.status || error.statusCode) !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  const found = await findDocumentByDisplayName(fileStore, nameOrId, apiKey);
+  return await getDocument(fileStore, found.name, apiKey);
+}
+
+/**
+ * Store 내 문서 목록 한 페이지 조회
+ *
+ * @param fileStore - 스토어 객체
+ * @param apiKey - Gemini API 키 (필수)
+ * @param options - 페이지 크기 및 페이지 토큰
+ * @returns 현재 페이지의 문서 목록과 다음 페이지 토큰
+ */
+export async function listDocumentsPage(
+  fileStore: FileSearchStore,
+  apiKey: string,
+  options: PageOptions = {}
+): Promise<PagedResult<FileSearchDocument>> {
+  const backend = getBackend(apiKey);
+
+  // API 호출 시 전체 이름 사용
+  const fullStoreName = getFullStoreName(fileStore.name);
+
+  const page = await withRetry("list", () =>
+    backend.listDocuments({
+      parent: fullStoreName,
+      pageSize: options.pageSize || LIST_PAGE_SIZE,
+      pageToken: options.pageToken,
+    })
+  );
+
+  const items = page.items.filter((doc) => doc.name).map(toFileSearchDocument);
+
+  return {
+    items,
+    nextPageToken: page.nextPageToken,
+  };
+}
+
 /**
  * Store 내 모든 문서 목록 조회
+ * 다음 페이지 토큰이 없을 때까지 모든 페이지를 순회합니다
  *
  * @param fileStore - 스토어 객체
  * @param apiKey - Gemini API 키 (필수)
@@ -576,43 +978,23 @@ export async function listDocuments(
 ): Promise<FileSearchDocument[]> {
   console.log(`\n📋 문서 목록 조회 중: ${fileStore.displayName}`);
 
-  const ai = getAI(apiKey);
+  const backend = getBackend(apiKey);
 
   // API 호출 시 전체 이름 사용
   const fullStoreName = getFullStoreName(fileStore.name);
 
   const documents: FileSearchDocument[] = [];
-  const documentPager = await ai.fileSearchStores.documents.list({
-    parent: fullStoreName,
-  });
-  const page = documentPager.page;
-
-  console.log(`\n📄 문서 수: ${page.length}`);
-
-  for (const doc of page) {
+  const allDocuments = iterateAllPages((pageToken) =>
+    backend.listDocuments({
+      parent: fullStoreName,
+      pageSize: LIST_PAGE_SIZE,
+      pageToken,
+    })
+  );
+
+  for await (const doc of allDocuments) {
     if (doc.name) {
-      // displayName이 없으면 name의 마지막 부분을 사용
-      const displayName =
-        doc.displayName || doc.name.split("/").pop() || doc.name;
-
-      console.log(`  📄 문서 추가:`, {
-        name: doc.name,
-        displayName,
-        originalDisplayName: doc.displayName,
-      });
-
-      documents.push({
-        name: doc.name,
-        displayName,
-        createTime: doc.createTime || new Date().toISOString(),
-        updateTime: doc.updateTime || new Date().toISOString(),
-        metadata: (doc as any).metadata as Record<string, string> | undefined,
-        mimeType: doc.mimeType,
-        sizeBytes:
-          typeof doc.sizeBytes === "string"
-            ? parseInt(doc.sizeBytes)
-            : doc.sizeBytes,
-      });
+      documents.push(toFileSearchDocument(doc));
     }
   }
 
@@ -633,72 +1015,208 @@ export async function deleteDocument(
 ): Promise<void> {
   console.log(`\n🗑️  문서 삭제 중: ${document.displayName}`);
 
-  const ai = getAI(apiKey);
-  await ai.fileSearchStores.documents.delete({
-    name: document.name,
-    config: { force: true },
-  });
+  const backend = getBackend(apiKey);
+  await withRetry("delete", () =>
+    backend.deleteDocument({ name: document.name, force: true })
+  );
 
   console.log(`✅ 문서가 성공적으로 삭제되었습니다`);
 }
 
 /**
- * 문서 업데이트
+ * 문서 교체 시작
+ * 새 버전 업로드만 시작하고, 이전 버전은 새 버전의 인덱싱이 성공한 뒤
+ * finishReplaceDocument에서 삭제합니다 (업로드/인덱싱 실패 시 이전 버전 유지)
+ *
+ * - options에 없는 customMetadata와 청킹 설정은 이전 버전의 값을 유지
+ * - 문서 버전(doc_version)은 이전 버전 + 1로 기록
+ * - 이전 버전의 문서 이름은 replaces_document 메타데이터에 기록
  *
  * @param fileStore - 문서가 속한 스토어 객체
- * @param docDisplayName - 업데이트할 문서의 표시 이름
- * @param localDocPath - 새 버전 파일의 로컬 경로
+ * @param previous - 교체할 기존 문서
+ * @param file - 새 버전 파일 (경로 문자열 또는 Uint8Array/Buffer)
+ * @param options - 덮어쓸 업로드 옵션 (표시 이름은 항상 이전 버전과 동일)
  * @param apiKey - Gemini API 키 (필수)
- * @returns 업로드 완료된 operation 결과
+ * @returns 진행 중인 operation과 새 문서 버전
  */
-export async function updateDocument(
+export async function startReplaceDocument(
   fileStore: FileSearchStore,
-  docDisplayName: string,
-  localDocPath: string,
+  previous: FileSearchDocument,
+  file: string | Uint8Array,
+  options: UploadOptions = {},
   apiKey: string
-): Promise<Operation> {
-  console.log(`\n🔄 문서 업데이트 중: ${docDisplayName}`);
+): Promise<{ operation: Operation; version: number }> {
+  const version = readDocumentVersion(previous.customMetadata) + 1;
+  const previousChunking = readChunkingMetadata(previous.customMetadata);
+
+  console.log(`\n🔄 문서 교체 중: ${previous.displayName} (v${version})`);
+
+  const operation = await startUploadWithCustomChunking(
+    fileStore,
+    file,
+    {
+      displayName: previous.displayName,
+      mimeType: options.mimeType || previous.mimeType,
+      customMetadata: [
+        ...getUserMetadata(options.customMetadata ?? previous.customMetadata),
+        toVersionMetadata(version),
+        toReplacesMetadata(previous.name),
+      ],
+      maxTokensPerChunk:
+        options.maxTokensPerChunk ?? previousChunking?.maxTokensPerChunk,
+      maxOverlapTokens:
+        options.maxOverlapTokens ?? previousChunking?.maxOverlapTokens,
+      contentHash: options.contentHash,
+    },
+    apiKey
+  );
 
-  const ai = getAI(apiKey);
+  return { operation, version };
+}
 
-  // API 호출 시 전체 이름 사용
-  const fullStoreName = getFullStoreName(fileStore.name);
+/**
+ * 교체된 이전 버전 삭제 (이미 삭제되었으면 false)
+ */
+async function deleteReplacedDocument(
+  name: string,
+  apiKey: string
+): Promise<boolean> {
+  const backend = getBackend(apiKey);
+  try {
+    await withRetry("delete", () =>
+      backend.deleteDocument({ name, force: true })
+    );
+  } catch (error: any) {
+    if ((error.status || error.statusCode) === 404) {
+      return false;
+    }
+    throw error;
+  }
+  console.log(`✅ 이전 버전이 삭제되었습니다: ${name}`);
+  return true;
+}
 
-  // 1. 기존 문서 찾기
-  const documentPager = await ai.fileSearchStores.documents.list({
-    parent: fullStoreName,
-  });
-  let foundDoc: any = null;
+/**
+ * 교체 업로드 마무리
+ * operation이 오류 없이 완료되었고 새 문서가 교체 업로드로 만들어졌으면 이전 버전을 삭제합니다
+ * (operation 상태 조회, CLI 대기, updateDocument가 완료를 확인할 때 호출, 여러 번 호출해도 안전)
+ * operation을 조회하지 않은 교체는 sweepReplacedDocuments가 다음 목록 조회/업로드/동기화에서 정리
+ *
+ * @param operation - 조회한 업로드 operation
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 삭제한 이전 버전의 문서 이름 (삭제하지 않았으면 undefined)
+ */
+export async function finishReplaceDocument(
+  operation: Operation,
+  apiKey: string
+): Promise<string | undefined> {
+  const documentName: string | undefined = operation.response?.documentName;
+  if (!operation.done || operation.error || !documentName) {
+    return undefined;
+  }
 
-  for (const doc of documentPager.page) {
-    if (doc.displayName === docDisplayName) {
-      foundDoc = doc;
-      break;
+  const backend = getBackend(apiKey);
+  const document = toFileSearchDocument(
+    await withRetry("read", () => backend.getDocument({ name: documentName }))
+  );
+  const previousName = readReplacedDocument(document.customMetadata);
+  if (!previousName || previousName === documentName) {
+    return undefined;
+  }
+
+  // 이미 삭제된 경우 (이전 조회나 목록 정리에서 마무리됨)
+  return (await deleteReplacedDocument(previousName, apiKey))
+    ? previousName
+    : undefined;
+}
+
+/**
+ * 교체가 끝난 이전 버전 정리
+ * 인덱싱이 끝난(STATE_ACTIVE) 새 버전이 replaces_document로 가리키는 이전 버전이 목록에 남아 있으면 삭제합니다
+ * (클라이언트가 operation 상태를 조회하지 않은 교체 업로드도 다음 목록 조회에서 마무리)
+ *
+ * @param documents - 스토어의 문서 목록
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 삭제한 이전 버전을 제외한 문서 목록
+ */
+export async function sweepReplacedDocuments(
+  documents: FileSearchDocument[],
+  apiKey: string
+): Promise<FileSearchDocument[]> {
+  const names = new Set(documents.map((document) => document.name));
+  const replaced = new Set<string>();
+  for (const document of documents) {
+    const previousName = readReplacedDocument(document.customMetadata);
+    if (
+      document.state === "STATE_ACTIVE" &&
+      previousName &&
+      previousName !== document.name &&
+      names.has(previousName)
+    ) {
+      replaced.add(previousName);
     }
   }
 
-  // 2. 기존 문서가 있으면 삭제
-  if (foundDoc) {
-    await ai.fileSearchStores.documents.delete({
-      name: foundDoc.name,
-      config: { force: true },
-    });
-    console.log(`✅ 이전 버전이 삭제되었습니다`);
+  for (const name of replaced) {
+    await deleteReplacedDocument(name, apiKey);
   }
+  return documents.filter((document) => !replaced.has(document.name));
+}
 
-  // 3. 새 버전 파일 업로드 및 인덱싱
-  let updateOp = await ai.fileSearchStores.uploadToFileSearchStore({
-    file: localDocPath,
-    fileSearchStoreName: fullStoreName,
-    config: { displayName: docDisplayName },
-  });
+/**
+ * 문서 업데이트 (인덱싱 완료까지 대기)
+ *
+ * @param fileStore - 문서가 속한 스토어 객체
+ * @param docDisplayName - 업데이트할 문서의 표시 이름
+ * @param file - 새 버전 파일 (경로 문자열 또는 Uint8Array/Buffer)
+ * @param options - 덮어쓸 업로드 옵션 (없으면 이전 버전의 메타데이터/청킹 유지)
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 업로드 완료된 operation 결과
+ */
+export async function updateDocument(
+  fileStore: FileSearchStore,
+  docDisplayName: string,
+  file: string | Uint8Array,
+  options: UploadOptions = {},
+  apiKey: string
+): Promise<Operation> {
+  console.log(`\n🔄 문서 업데이트 중: ${docDisplayName}`);
+
+  const previous = await findDocumentByDisplayName(
+    fileStore,
+    docDisplayName,
+    apiKey
+  );
+  let { operation } = await startReplaceDocument(
+    fileStore,
+    previous,
+    file,
+    options,
+    apiKey
+  );
+
+  // 인덱싱 완료까지 폴링 (1초마다 상태 확인, 최대 5분)
+  const maxPollAttempts = 300; // 5분
+  let pollAttempts = 0;
 
-  while (!updateOp.done) {
+  while (!operation.done && pollAttempts < maxPollAttempts) {
     await new Promise((resolve) => setTimeout(resolve, 1000));
-    updateOp = await ai.operations.get({ operation: updateOp });
+    operation = await getUploadOperation(operation.name, apiKey);
+    pollAttempts++;
+  }
+
+  if (!operation.done) {
+    throw new Error(`파일 처리 시간 초과: ${docDisplayName}`);
   }
+  if (operation.error) {
+    throw new Error(
+      `새 버전 인덱싱 실패 (이전 버전 유지): ${operation.error.message}`
+    );
+  }
+
+  await finishReplaceDocument(operation, apiKey);
 
   console.log(`✅ 새 버전이 업로드되고 인덱싱되었습니다`);
 
-  return updateOp as Operation;
+  return operation;
 }
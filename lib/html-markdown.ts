@@ -0,0 +1,535 @@
+/**
+ * HTML to Markdown
+ *
+ * 웹 페이지 가져오기(lib/url-ingest.ts)에서 HTML을 인덱싱용 마크다운으로 변환
+ * - 본문(main, article, role="main")이 있으면 그 부분만 변환
+ * - 스크립트/스타일과 내비게이션, 헤더, 푸터, 사이드바 같은 공통 영역은 제거
+ * - 링크는 페이지 URL 기준 절대 주소로 변환하고, 크롤링용 링크 목록도 함께 반환
+ * - 잘못 닫힌 태그를 허용하는 간단한 파서 (스크립트 실행, CSS 해석 없음)
+ */
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+/** 변환 결과 */
+export interface HtmlConversion {
+  /** 페이지 제목 (title, 없으면 첫 번째 h1) */
+  title: string;
+  /** 본문 마크다운 */
+  markdown: string;
+  /** 페이지의 http(s) 링크 (절대 주소, # 제외, 중복 제거) */
+  links: string[];
+}
+
+/** 닫는 태그가 없는 요소 */
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** 내용을 HTML로 해석하지 않는 요소 */
+const RAW_TEXT_TAGS = new Set(["script", "style", "textarea", "title"]);
+
+/** 본문이 아닌 요소 (내용 전체 제거) */
+const BOILERPLATE_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "head",
+  "nav",
+  "header",
+  "footer",
+  "aside",
+  "form",
+  "button",
+  "select",
+  "textarea",
+  "dialog",
+]);
+
+/** 본문이 아닌 영역의 role */
+const BOILERPLATE_ROLES = new Set([
+  "navigation",
+  "banner",
+  "contentinfo",
+  "complementary",
+  "search",
+  "dialog",
+]);
+
+/** 본문이 아닌 영역의 class/id */
+const BOILERPLATE_NAME =
+  /(^|[\s_-])(nav|navbar|menu|sidebar|breadcrumbs?|cookies?|share|social|skip-link|advert|ads)([\s_-]|$)/i;
+
+/** 새 블록이 시작되면 열려 있는 p를 닫는 요소 */
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "div",
+  "dl",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "pre",
+  "section",
+  "table",
+  "ul",
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  middot: "·",
+  bull: "•",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+};
+
+/**
+ * HTML 엔티티 디코딩
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (match, entity: string) => {
+      if (entity[0] === "#") {
+        const code =
+          entity[1] === "x" || entity[1] === "X"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10);
+        return code > 0 && code <= 0x10ffff
+          ? String.fromCodePoint(code)
+          : match;
+      }
+      return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    }
+  );
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    attrs[match[1]!.toLowerCase()] = decodeEntities(
+      match[2] ?? match[3] ?? match[4] ?? ""
+    );
+  }
+  return attrs;
+}
+
+/**
+ * HTML을 요소 트리로 파싱 (루트는 가상의 #root 요소)
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "#root", attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1]!;
+
+  /** tag가 열려 있으면 그 요소까지 닫음 (stopAt을 만나면 중단) */
+  const closeTo = (tag: string, stopAt: string[] = []) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      const open = stack[i]!.tag;
+      if (open === tag) {
+        stack.length = i;
+        return;
+      }
+      if (stopAt.includes(open)) return;
+    }
+  };
+
+  const pattern =
+    /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    const [token, closing, rawTag, rawAttrs] = match;
+
+    if (!rawTag) {
+      // 주석, doctype은 무시
+      if (!token.startsWith("<!") && !token.startsWith("<?")) {
+        current().children.push(decodeEntities(token));
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      if (tag === "p" || tag === "li") {
+        closeTo(tag, ["ul", "ol", "div", "section", "article", "main"]);
+      } else {
+        closeTo(tag);
+      }
+      continue;
+    }
+
+    // 암시적으로 닫히는 요소 (<li>a<li>b, <p>a<div>)
+    if (tag === "li") closeTo("li", ["ul", "ol"]);
+    if (tag === "dt" || tag === "dd") {
+      closeTo("dt", ["dl"]);
+      closeTo("dd", ["dl"]);
+    }
+    if (tag === "tr") closeTo("tr", ["table", "thead", "tbody"]);
+    if (tag === "td" || tag === "th") {
+      closeTo("td", ["tr"]);
+      closeTo("th", ["tr"]);
+    }
+    if (BLOCK_TAGS.has(tag)) closeTo("p", ["div", "li", "td", "th"]);
+
+    const element: HtmlElement = {
+      tag,
+      attrs: parseAttributes(rawAttrs || ""),
+      children: [],
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = html.toLowerCase().indexOf(`</${tag}`, pattern.lastIndex);
+      const stop = end === -1 ? html.length : end;
+      element.children.push(html.slice(pattern.lastIndex, stop));
+      const close = html.indexOf(">", stop);
+      pattern.lastIndex = close === -1 ? html.length : close + 1;
+      continue;
+    }
+
+    if (!VOID_TAGS.has(tag) && !token.endsWith("/>")) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+function findElement(
+  node: HtmlElement,
+  predicate: (element: HtmlElement) => boolean
+): HtmlElement | null {
+  for (const child of node.children) {
+    if (typeof child === "string") continue;
+    if (predicate(child)) return child;
+    const found = findElement(child, predicate);
+    if (found) return found;
+  }
+  return null;
+}
+
+function textContent(node: HtmlNode): string {
+  return typeof node === "string"
+    ? node
+    : node.children.map(textContent).join("");
+}
+
+function isBoilerplate(element: HtmlElement): boolean {
+  const { role, id, class: className } = element.attrs;
+  return (
+    BOILERPLATE_TAGS.has(element.tag) ||
+    (!!role && BOILERPLATE_ROLES.has(role.toLowerCase())) ||
+    element.attrs["aria-hidden"] === "true" ||
+    "hidden" in element.attrs ||
+    BOILERPLATE_NAME.test(id || "") ||
+    BOILERPLATE_NAME.test(className || "")
+  );
+}
+
+/**
+ * 상대 주소를 절대 주소로 변환 (http/https가 아니면 null)
+ */
+function resolveUrl(href: string, base: string): string | null {
+  try {
+    const url = new URL(href.trim(), base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+interface RenderContext {
+  base: string;
+  /** 목록 들여쓰기 깊이 */
+  listDepth: number;
+}
+
+function renderChildren(element: HtmlElement, ctx: RenderContext): string {
+  return element.children.map((child) => renderNode(child, ctx)).join("");
+}
+
+function renderList(
+  element: HtmlElement,
+  ctx: RenderContext,
+  ordered: boolean
+): string {
+  const indent = "  ".repeat(ctx.listDepth);
+  const nested = { ...ctx, listDepth: ctx.listDepth + 1 };
+  let index = 0;
+  const items = element.children
+    .filter((child): child is HtmlElement => typeof child !== "string")
+    .filter((child) => child.tag === "li")
+    .map((item) => {
+      index++;
+      const content = renderChildren(item, nested)
+        .trim()
+        .replace(/\n{2,}/g, "\n");
+      if (!content) return null;
+      const marker = ordered ? `${index}.` : "-";
+      return `${indent}${marker} ${content.replace(/\n(?!\s*(?:-|\d+\.) )/g, `\n${indent}  `)}`;
+    })
+    .filter((item): item is string => item !== null);
+  return items.length > 0 ? `\n\n${items.join("\n")}\n\n` : "";
+}
+
+function renderTable(element: HtmlElement, ctx: RenderContext): string {
+  const rows: string[][] = [];
+  const collectRows = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (typeof child === "string") continue;
+      if (child.tag === "tr") {
+        rows.push(
+          child.children
+            .filter(
+              (cell): cell is HtmlElement =>
+                typeof cell !== "string" &&
+                (cell.tag === "td" || cell.tag === "th")
+            )
+            .map((cell) =>
+              renderChildren(cell, ctx)
+                .replace(/\s+/g, " ")
+                .replace(/\|/g, "\\|")
+                .trim()
+            )
+        );
+      } else if (child.tag !== "table") {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(element);
+
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (width === 0) return "";
+  const lines = rows.map(
+    (row) =>
+      `| ${Array.from({ length: width }, (_, i) => row[i] || "").join(" | ")} |`
+  );
+  lines.splice(1, 0, `|${" --- |".repeat(width)}`);
+  return `\n\n${lines.join("\n")}\n\n`;
+}
+
+function renderNode(node: HtmlNode, ctx: RenderContext): string {
+  if (typeof node === "string") {
+    return node.replace(/\s+/g, " ");
+  }
+  if (isBoilerplate(node)) {
+    return "";
+  }
+
+  const { tag } = node;
+  switch (tag) {
+    case "h1":
+    case "h2":
+    case "h3":
+    case "h4":
+    case "h5":
+    case "h6": {
+      const text = renderChildren(node, ctx).replace(/\s+/g, " ").trim();
+      return text ? `\n\n${"#".repeat(Number(tag[1]))} ${text}\n\n` : "";
+    }
+    case "p":
+    case "div":
+    case "section":
+    case "article":
+    case "main":
+    case "address":
+    case "figure":
+    case "figcaption":
+    case "details":
+    case "summary":
+    case "dl":
+      return `\n\n${renderChildren(node, ctx)}\n\n`;
+    case "dt":
+      return `\n\n**${renderChildren(node, ctx).trim()}**\n`;
+    case "dd":
+      return `\n${renderChildren(node, ctx).trim()}\n\n`;
+    case "br":
+      return "  \n";
+    case "hr":
+      return "\n\n---\n\n";
+    case "ul":
+    case "menu":
+      return renderList(node, ctx, false);
+    case "ol":
+      return renderList(node, ctx, true);
+    case "li":
+      // ul/ol 밖의 li
+      return `\n- ${renderChildren(node, ctx).trim()}\n`;
+    case "blockquote": {
+      const content = renderChildren(node, ctx).trim();
+      return content
+        ? `\n\n${content
+            .split("\n")
+            .map((line) => `> ${line}`.trimEnd())
+            .join("\n")}\n\n`
+        : "";
+    }
+    case "pre": {
+      const code = textContent(node).replace(/^\n/, "").trimEnd();
+      const language = (
+        findElement(node, (el) => el.tag === "code")?.attrs.class || ""
+      ).match(/language-([\w+-]+)/)?.[1];
+      return code ? `\n\n\`\`\`${language || ""}\n${code}\n\`\`\`\n\n` : "";
+    }
+    case "code":
+    case "kbd":
+    case "samp": {
+      const code = textContent(node).replace(/\s+/g, " ");
+      return code.trim() ? `\`${code.replace(/`/g, "'")}\`` : "";
+    }
+    case "strong":
+    case "b": {
+      const text = renderChildren(node, ctx);
+      return text.trim() ? `**${text.trim()}**` : text;
+    }
+    case "em":
+    case "i": {
+      const text = renderChildren(node, ctx);
+      return text.trim() ? `_${text.trim()}_` : text;
+    }
+    case "a": {
+      const text = renderChildren(node, ctx).replace(/\s+/g, " ").trim();
+      const href = node.attrs.href && resolveUrl(node.attrs.href, ctx.base);
+      if (!text) return "";
+      return href ? `[${text}](${href})` : text;
+    }
+    case "img": {
+      const alt = node.attrs.alt?.trim();
+      return alt || "";
+    }
+    case "table":
+      return renderTable(node, ctx);
+    default:
+      return renderChildren(node, ctx);
+  }
+}
+
+/**
+ * 블록 사이 빈 줄과 줄 끝 공백 정리
+ */
+function normalizeMarkdown(markdown: string): string {
+  const lines: string[] = [];
+  let inCode = false;
+  for (const line of markdown.split("\n")) {
+    if (line.trimStart().startsWith("```")) {
+      inCode = !inCode;
+      lines.push(line.trim());
+      continue;
+    }
+    lines.push(inCode ? line : line.replace(/^ +(?![-\d])/, "").trimEnd());
+  }
+  return lines
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * HTML 페이지를 마크다운으로 변환
+ *
+ * @param html - 페이지 HTML
+ * @param pageUrl - 페이지 URL (상대 링크 변환 기준, <base href>가 있으면 그 주소)
+ */
+export function htmlToMarkdown(html: string, pageUrl: string): HtmlConversion {
+  const root = parseHtml(html);
+
+  const baseHref = findElement(root, (el) => el.tag === "base")?.attrs.href;
+  const base = (baseHref && resolveUrl(baseHref, pageUrl)) || pageUrl;
+
+  // 크롤링용 링크는 내비게이션을 포함한 전체 문서에서 수집
+  const links = new Set<string>();
+  const collectLinks = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (typeof child === "string") continue;
+      if (child.tag === "a" && child.attrs.href) {
+        const href = resolveUrl(child.attrs.href, base);
+        if (href) {
+          links.add(href.replace(/#.*$/, ""));
+        }
+      }
+      collectLinks(child);
+    }
+  };
+  collectLinks(root);
+
+  const titleElement = findElement(root, (el) => el.tag === "title");
+  const h1 = findElement(root, (el) => el.tag === "h1");
+  const title = decodeEntities(
+    textContent(titleElement || h1 || "")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+
+  const content =
+    findElement(root, (el) => el.tag === "main") ||
+    findElement(root, (el) => el.attrs.role === "main") ||
+    findElement(root, (el) => el.tag === "article") ||
+    findElement(root, (el) => el.tag === "body") ||
+    root;
+
+  const markdown = normalizeMarkdown(
+    renderNode(
+      // 본문 요소 자체가 공통 영역으로 분류되어도 내용은 유지
+      { ...content, tag: "div", attrs: {} },
+      { base, listDepth: 0 }
+    )
+  );
+
+  return { title, markdown, links: [...links] };
+}
@@ -0,0 +1,466 @@
+/**
+ * Metadata Filter (AIP-160)
+ *
+ * File Search의 metadataFilter 표현식 파서 및 평가기
+ * - https://google.aip.dev/160 문법의 부분집합 지원
+ * - AND / OR / NOT, 괄호, 비교 연산자(=, !=, <, <=, >, >=, :)
+ * - AIP-160 규칙대로 OR가 AND보다 우선순위가 높습니다
+ */
+
+import type { CustomMetadata } from "@/types";
+
+// ============================================
+// AST Types
+// ============================================
+
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | ":";
+
+export type FilterNode =
+  | { type: "and"; children: FilterNode[] }
+  | { type: "or"; children: FilterNode[] }
+  | { type: "not"; child: FilterNode }
+  | {
+      type: "comparison";
+      key: string;
+      operator: ComparisonOperator;
+      value: string | number;
+    };
+
+// ============================================
+// Tokenizer
+// ============================================
+
+type Token =
+  | { kind: "ident"; value: string; pos: number }
+  | { kind: "string"; value: string; pos: number }
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "op"; value: ComparisonOperator; pos: number }
+  | { kind: "lparen" | "rparen" | "and" | "or" | "not"; pos: number };
+
+const OPERATORS: ComparisonOperator[] = ["!=", "<=", ">=", "=", "<", ">", ":"];
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "lparen" : "rparen", pos: i });
+      i++;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== ch) {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          i++;
+        }
+        value += input[i];
+        i++;
+      }
+      if (i >= input.length) {
+        throw new Error(`닫히지 않은 문자열입니다 (위치 ${start})`);
+      }
+      i++;
+      tokens.push({ kind: "string", value, pos: start });
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => input.startsWith(o, i));
+    if (op) {
+      tokens.push({ kind: "op", value: op, pos: i });
+      i += op.length;
+      continue;
+    }
+
+    const numberMatch = /^-?\d+(\.\d+)?/.exec(input.slice(i));
+    if (numberMatch) {
+      tokens.push({ kind: "number", value: Number(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_.-]*/.exec(input.slice(i));
+    if (identMatch) {
+      const word = identMatch[0];
+      if (word === "AND") tokens.push({ kind: "and", pos: i });
+      else if (word === "OR") tokens.push({ kind: "or", pos: i });
+      else if (word === "NOT") tokens.push({ kind: "not", pos: i });
+      else tokens.push({ kind: "ident", value: word, pos: i });
+      i += word.length;
+      continue;
+    }
+
+    throw new Error(`알 수 없는 문자 '${ch}' (위치 ${i})`);
+  }
+
+  return tokens;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+/**
+ * 메타데이터 필터 문자열을 AST로 파싱
+ *
+ * @param input - AIP-160 형식의 필터 문자열 (예: `genre = "fiction" AND year > 2000`)
+ * @returns 파싱된 필터 트리
+ * @throws 문법 오류가 있을 경우
+ */
+export function parseMetadataFilter(input: string): FilterNode {
+  const tokens = tokenize(input);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const describe = (token: Token | undefined) =>
+    token ? `위치 ${token.pos}` : "입력 끝";
+
+  // expression := sequence { AND sequence }
+  function parseExpression(): FilterNode {
+    const children = [parseSequence()];
+    while (peek()?.kind === "and") {
+      index++;
+      children.push(parseSequence());
+    }
+    return children.length === 1 ? children[0]! : { type: "and", children };
+  }
+
+  // sequence := factor { factor }  (암묵적 AND)
+  function parseSequence(): FilterNode {
+    const children = [parseFactor()];
+    while (
+      peek() &&
+      ["ident", "string", "lparen", "not"].includes(peek()!.kind)
+    ) {
+      children.push(parseFactor());
+    }
+    return children.length === 1 ? children[0]! : { type: "and", children };
+  }
+
+  // factor := term { OR term }
+  function parseFactor(): FilterNode {
+    const children = [parseTerm()];
+    while (peek()?.kind === "or") {
+      index++;
+      children.push(parseTerm());
+    }
+    return children.length === 1 ? children[0]! : { type: "or", children };
+  }
+
+  // term := [NOT] simple
+  function parseTerm(): FilterNode {
+    if (peek()?.kind === "not") {
+      index++;
+      return { type: "not", child: parseSimple() };
+    }
+    return parseSimple();
+  }
+
+  // simple := restriction | "(" expression ")"
+  function parseSimple(): FilterNode {
+    const token = peek();
+
+    if (token?.kind === "lparen") {
+      index++;
+      const node = parseExpression();
+      if (peek()?.kind !== "rparen") {
+        throw new Error(`')'가 필요합니다 (${describe(peek())})`);
+      }
+      index++;
+      return node;
+    }
+
+    if (token?.kind !== "ident" && token?.kind !== "string") {
+      throw new Error(`메타데이터 키가 필요합니다 (${describe(token)})`);
+    }
+    index++;
+
+    const opToken = peek();
+    if (opToken?.kind !== "op") {
+      throw new Error(`비교 연산자가 필요합니다 (${describe(opToken)})`);
+    }
+    index++;
+
+    const valueToken = peek();
+    if (
+      valueToken?.kind !== "string" &&
+      valueToken?.kind !== "number" &&
+      valueToken?.kind !== "ident"
+    ) {
+      throw new Error(`비교 값이 필요합니다 (${describe(valueToken)})`);
+    }
+    index++;
+
+    return {
+      type: "comparison",
+      key: token.value,
+      operator: opToken.value,
+      value: valueToken.value,
+    };
+  }
+
+  if (tokens.length === 0) {
+    throw new Error("필터 표현식이 비어 있습니다");
+  }
+
+  const root = parseExpression();
+  if (index < tokens.length) {
+    throw new Error(`예상하지 못한 토큰입니다 (${describe(peek())})`);
+  }
+
+  return root;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function compare(
+  actual: string | number,
+  operator: ComparisonOperator,
+  expected: string | number
+): boolean {
+  switch (operator) {
+    case "=":
+    case ":":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+  }
+}
+
+/**
+ * 문서의 customMetadata가 필터 조건을 만족하는지 평가
+ * 키가 없거나 값 타입이 맞지 않으면 비교 결과는 false입니다
+ *
+ * @param node - 파싱된 필터 트리
+ * @param customMetadata - 문서의 커스텀 메타데이터
+ * @returns 조건 만족 여부
+ */
+export function matchesMetadataFilter(
+  node: FilterNode,
+  customMetadata: CustomMetadata[] = []
+): boolean {
+  switch (node.type) {
+    case "and":
+      return node.children.every((c) =>
+        matchesMetadataFilter(c, customMetadata)
+      );
+    case "or":
+      return node.children.some((c) =>
+        matchesMetadataFilter(c, customMetadata)
+      );
+    case "not":
+      return !matchesMetadataFilter(node.child, customMetadata);
+    case "comparison": {
+      const entry = customMetadata.find((m) => m.key === node.key);
+      if (!entry) return false;
+
+      if (entry.numericValue !== undefined) {
+        return (
+          typeof node.value === "number" &&
+          compare(entry.numericValue, node.operator, node.value)
+        );
+      }
+
+      if (entry.stringListValue) {
+        const values = entry.stringListValue.values || [];
+        const expected = String(node.value);
+        if (node.operator === "!=") return !values.includes(expected);
+        if (node.operator === "=" || node.operator === ":") {
+          return values.includes(expected);
+        }
+        return false;
+      }
+
+      if (entry.stringValue !== undefined) {
+        return compare(entry.stringValue, node.operator, String(node.value));
+      }
+
+      return false;
+    }
+  }
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+const IDENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const KEYWORDS = ["AND", "OR", "NOT"];
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function serializeKey(key: string): string {
+  return IDENT_PATTERN.test(key) && !KEYWORDS.includes(key) ? key : quote(key);
+}
+
+function serializeValue(value: string | number): string {
+  return typeof value === "number" ? String(value) : quote(value);
+}
+
+/**
+ * 필터 트리를 AIP-160 문자열로 변환
+ * 중첩된 그룹은 우선순위와 관계없이 괄호로 감쌉니다
+ *
+ * @param node - 필터 트리
+ * @returns parseMetadataFilter로 다시 파싱할 수 있는 필터 문자열
+ */
+export function serializeMetadataFilter(node: FilterNode): string {
+  const serializeChild = (child: FilterNode) =>
+    child.type === "and" || child.type === "or"
+      ? `(${serializeMetadataFilter(child)})`
+      : serializeMetadataFilter(child);
+
+  switch (node.type) {
+    case "and":
+      return node.children.map(serializeChild).join(" AND ");
+    case "or":
+      return node.children.map(serializeChild).join(" OR ");
+    case "not":
+      return `NOT ${serializeChild(node.child)}`;
+    case "comparison":
+      return node.operator === ":"
+        ? `${serializeKey(node.key)}:${serializeValue(node.value)}`
+        : `${serializeKey(node.key)} ${node.operator} ${serializeValue(node.value)}`;
+  }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * 문서에 실제로 존재하는 메타데이터 키 정보 (키 추천 및 검증용)
+ */
+export interface MetadataKeyInfo {
+  key: string;
+  type: "string" | "numeric" | "stringList";
+  /** 문서에서 관찰된 값 (최대 MAX_SAMPLE_VALUES개) */
+  values: string[];
+}
+
+const MAX_SAMPLE_VALUES = 20;
+
+/**
+ * 문서 목록의 customMetadata에서 키 정보 수집
+ *
+ * @param documents - customMetadata를 포함한 문서 목록
+ * @returns 키 이름순으로 정렬된 키 정보
+ */
+export function collectMetadataKeys(
+  documents: Array<{ customMetadata?: CustomMetadata[] }>
+): MetadataKeyInfo[] {
+  const keys = new Map<string, MetadataKeyInfo>();
+
+  for (const document of documents) {
+    for (const entry of document.customMetadata || []) {
+      const type: MetadataKeyInfo["type"] =
+        entry.numericValue !== undefined
+          ? "numeric"
+          : entry.stringListValue
+            ? "stringList"
+            : "string";
+      const values =
+        type === "numeric"
+          ? [String(entry.numericValue)]
+          : type === "stringList"
+            ? entry.stringListValue!.values || []
+            : [entry.stringValue ?? ""];
+
+      let info = keys.get(entry.key);
+      if (!info) {
+        info = { key: entry.key, type, values: [] };
+        keys.set(entry.key, info);
+      }
+      for (const value of values) {
+        if (
+          value &&
+          !info.values.includes(value) &&
+          info.values.length < MAX_SAMPLE_VALUES
+        ) {
+          info.values.push(value);
+        }
+      }
+    }
+  }
+
+  return Array.from(keys.values()).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * 필터 문자열 검증
+ * 문법 오류와, 알려진 키의 값 타입과 맞지 않는 비교를 확인합니다
+ *
+ * @param input - 필터 문자열 (비어 있으면 유효)
+ * @param keys - 스토어 문서에서 수집한 키 정보 (없으면 문법만 검사)
+ * @returns 에러 메시지 (유효하면 null)
+ */
+export function validateMetadataFilter(
+  input: string,
+  keys: MetadataKeyInfo[] = []
+): string | null {
+  if (!input.trim()) return null;
+
+  let root: FilterNode;
+  try {
+    root = parseMetadataFilter(input);
+  } catch (error: any) {
+    return error.message;
+  }
+
+  const check = (node: FilterNode): string | null => {
+    switch (node.type) {
+      case "and":
+      case "or":
+        for (const child of node.children) {
+          const error = check(child);
+          if (error) return error;
+        }
+        return null;
+      case "not":
+        return check(node.child);
+      case "comparison": {
+        const info = keys.find((k) => k.key === node.key);
+        if (!info) return null;
+
+        if (info.type === "numeric" && typeof node.value !== "number") {
+          return `'${node.key}'는 숫자 메타데이터이므로 숫자 값과 비교해야 합니다`;
+        }
+        if (
+          info.type === "stringList" &&
+          !["=", "!=", ":"].includes(node.operator)
+        ) {
+          return `'${node.key}'는 문자열 목록이므로 :, =, != 로만 비교할 수 있습니다`;
+        }
+        if (info.type === "string" && typeof node.value === "number") {
+          return `'${node.key}'는 문자열 메타데이터이므로 값을 따옴표로 감싸야 합니다`;
+        }
+        return null;
+      }
+    }
+  };
+
+  return check(root);
+}
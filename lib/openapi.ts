@@ -0,0 +1,1092 @@
+/**
+ * OpenAPI Document
+ *
+ * /api 라우트의 OpenAPI 3 문서 생성 (GET /api/openapi.json, 문서 페이지 /docs)
+ * - 요청 스키마(경로/쿼리 파라미터, JSON 본문, multipart 필드)는 lib/schemas.ts에서 변환
+ * - 응답 스키마는 types/api.ts의 응답 타입과 같은 형태로 작성
+ * - 에러 코드는 lib/api-error.ts의 정의에서 생성
+ * - 라우트를 추가하면 ROUTES에도 등록
+ */
+
+import * as z from "zod";
+import { listApiErrors } from "@/lib/api-error";
+import { getApiKeyMode } from "@/lib/api-key";
+import { getRateLimit, type RateLimitCategory } from "@/lib/rate-limit";
+import {
+  MAX_ARCHIVE_ENTRIES,
+  MAX_ARCHIVE_SIZE,
+  MAX_FILE_SIZE,
+  MAX_FILES,
+} from "@/lib/upload-form";
+import {
+  ARCHIVE_METADATA_KEYS,
+  CONTENT_HASH_METADATA_KEY,
+  DUPLICATE_POLICIES,
+  MAX_ARCHIVE_USER_METADATA,
+  MAX_URL_USER_METADATA,
+  MAX_USER_METADATA,
+  URL_METADATA_KEYS,
+} from "@/lib/document-metadata";
+import {
+  DEFAULT_CRAWL_PAGES,
+  MAX_ALLOWED_DOMAINS,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+} from "@/lib/web-crawl";
+import {
+  chunkingFieldsSchema,
+  createStoreRequestSchema,
+  customMetadataEntrySchema,
+  documentParamsSchema,
+  multiStoreQueryRequestSchema,
+  operationParamsSchema,
+  pageQuerySchema,
+  queryRequestSchema,
+  MAX_SYNC_ENTRIES,
+  storeParamsSchema,
+} from "@/lib/schemas";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * 라우트 정의
+ */
+interface RouteDefinition {
+  method: "get" | "post" | "put" | "delete";
+  /** OpenAPI 경로 (예: /api/stores/{storeId}) */
+  path: string;
+  tag: "Stores" | "Documents" | "Query" | "Operations" | "Config";
+  summary: string;
+  description?: string;
+  /** 요청 제한 종류 (없으면 제한 없음) */
+  rateLimit?: RateLimitCategory;
+  /** false면 API 키가 필요 없음 */
+  auth?: boolean;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  /** JSON 본문 스키마 */
+  body?: z.ZodType;
+  /** multipart 본문 스키마 */
+  multipart?: JsonSchema;
+  /** 성공 응답의 data 스키마 (없으면 message만 반환) */
+  data?: JsonSchema;
+  /** text/event-stream, application/x-ndjson 스트리밍 지원 */
+  streaming?: boolean;
+}
+
+const ref = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+/**
+ * zod 스키마를 OpenAPI 3.0 JSON Schema로 변환 (요청 입력 형태)
+ */
+function toSchema(schema: z.ZodType): JsonSchema {
+  const json = z.toJSONSchema(schema, {
+    io: "input",
+    target: "openapi-3.0",
+    unrepresentable: "any",
+  }) as JsonSchema;
+  delete json.$schema;
+  return stripSafeIntegerBounds(json);
+}
+
+/**
+ * 정수 스키마에 자동으로 붙는 ±Number.MAX_SAFE_INTEGER 범위 제거
+ */
+function stripSafeIntegerBounds(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (
+      (key === "maximum" && value === Number.MAX_SAFE_INTEGER) ||
+      (key === "minimum" && value === Number.MIN_SAFE_INTEGER)
+    ) {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      result[key] = value.map((item) =>
+        item && typeof item === "object"
+          ? stripSafeIntegerBounds(item as JsonSchema)
+          : item
+      );
+    } else if (value && typeof value === "object") {
+      result[key] = stripSafeIntegerBounds(value as JsonSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * 객체 스키마를 경로/쿼리 파라미터 목록으로 변환
+ */
+function toParameters(schema: z.ZodObject, location: "path" | "query") {
+  const json = toSchema(schema);
+  const properties = (json.properties || {}) as Record<string, JsonSchema>;
+  const required = (json.required || []) as string[];
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === "path" || required.includes(name),
+    schema: property,
+  }));
+}
+
+// ============================================
+// Schemas
+// ============================================
+
+const customMetadataSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    key: { type: "string" },
+    stringValue: { type: "string" },
+    numericValue: { type: "number" },
+    stringListValue: {
+      type: "object",
+      properties: { values: { type: "array", items: { type: "string" } } },
+    },
+  },
+  required: ["key"],
+};
+
+const fileSearchStoreSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", example: "fileSearchStores/my-store-abc123" },
+    displayName: { type: "string" },
+    activeDocumentsCount: { type: "integer" },
+    sizeBytes: { type: "integer" },
+    createTime: { type: "string", format: "date-time" },
+    updateTime: { type: "string", format: "date-time" },
+  },
+  required: ["name", "displayName"],
+};
+
+const fileSearchDocumentSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    displayName: { type: "string" },
+    createTime: { type: "string", format: "date-time" },
+    updateTime: { type: "string", format: "date-time" },
+    customMetadata: { type: "array", items: ref("CustomMetadata") },
+    state: {
+      type: "string",
+      enum: [
+        "STATE_UNSPECIFIED",
+        "STATE_PENDING",
+        "STATE_ACTIVE",
+        "STATE_FAILED",
+      ],
+    },
+    mimeType: { type: "string" },
+    sizeBytes: { type: "integer" },
+  },
+  required: ["name", "displayName"],
+};
+
+const listOf = (item: JsonSchema): JsonSchema => ({
+  type: "object",
+  properties: {
+    data: { type: "array", items: item },
+    count: { type: "integer" },
+    nextPageToken: {
+      type: "string",
+      description: "다음 페이지 토큰 (pageToken/pageSize로 요청한 경우)",
+    },
+  },
+  required: ["data", "count"],
+});
+
+const errorFields: Record<string, JsonSchema> = {
+  error: { type: "string", description: "한국어 에러 메시지 (로그용)" },
+  code: ref("ApiErrorCode"),
+  details: {
+    type: "object",
+    additionalProperties: { oneOf: [{ type: "string" }, { type: "number" }] },
+    description: "메시지 번역에 사용하는 값 (field, reason, max 등)",
+  },
+};
+
+const queryResponseDataSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    text: { type: "string" },
+    groundingMetadata: {
+      type: "object",
+      nullable: true,
+      description: "출처 (groundingChunks, groundingSupports)",
+    },
+    usageMetadata: {
+      type: "object",
+      properties: {
+        promptTokenCount: { type: "integer" },
+        candidatesTokenCount: { type: "integer" },
+        totalTokenCount: { type: "integer" },
+      },
+    },
+  },
+  required: ["text", "groundingMetadata"],
+};
+
+const uploadFileResultSchema: JsonSchema = {
+  type: "object",
+  properties: {
+    fileName: { type: "string" },
+    success: { type: "boolean" },
+    document: ref("FileSearchDocument"),
+    operationName: {
+      type: "string",
+      description: "인덱싱 operation 이름 (GET /api/operations/{id})",
+    },
+    duplicate: {
+      type: "object",
+      description:
+        "내용이 같은 기존 문서 (policy가 skip이면 업로드하지 않아 operationName 없음)",
+      properties: {
+        name: {
+          type: "string",
+          description: "기존 문서 이름 (같은 요청의 앞선 파일이면 없음)",
+        },
+        displayName: { type: "string" },
+        policy: { type: "string", enum: [...DUPLICATE_POLICIES] },
+      },
+      required: ["displayName", "policy"],
+    },
+    ...errorFields,
+  },
+  required: ["fileName", "success"],
+};
+
+function buildComponentSchemas(): Record<string, JsonSchema> {
+  return {
+    ApiErrorCode: {
+      type: "string",
+      enum: listApiErrors().map((error) => error.code),
+    },
+    ErrorResponse: {
+      type: "object",
+      properties: {
+        success: { type: "boolean", enum: [false] },
+        ...errorFields,
+        fieldErrors: {
+          type: "array",
+          description: "필드별 검증 오류 (요청 검증 실패 시)",
+          items: {
+            type: "object",
+            properties: {
+              field: {
+                type: "string",
+                example: "generationConfig.temperature",
+              },
+              message: { type: "string" },
+            },
+            required: ["field", "message"],
+          },
+        },
+      },
+      required: ["success", "error"],
+    },
+    RetryReport: {
+      type: "object",
+      properties: {
+        retries: { type: "integer" },
+        delayMs: { type: "integer" },
+      },
+    },
+    CustomMetadata: customMetadataSchema,
+    FileSearchStore: fileSearchStoreSchema,
+    FileSearchDocument: fileSearchDocumentSchema,
+    ListStoresResponse: listOf(ref("FileSearchStore")),
+    ListDocumentsResponse: listOf(ref("FileSearchDocument")),
+    CreateStoreResponse: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        displayName: { type: "string" },
+      },
+      required: ["name", "displayName"],
+    },
+    QueryResponseData: queryResponseDataSchema,
+    QueryStreamEvent: {
+      oneOf: [
+        {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["delta"] },
+            text: { type: "string" },
+          },
+          required: ["type", "text"],
+        },
+        {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["done"] },
+            ...(queryResponseDataSchema.properties as object),
+          },
+          required: ["type", "text", "groundingMetadata"],
+        },
+        {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["error"] },
+            ...errorFields,
+          },
+          required: ["type", "error"],
+        },
+      ],
+    },
+    UploadFileResult: uploadFileResultSchema,
+    UploadFilesResponse: {
+      type: "object",
+      properties: {
+        results: { type: "array", items: ref("UploadFileResult") },
+        successCount: { type: "integer" },
+        failCount: { type: "integer" },
+      },
+      required: ["results", "successCount", "failCount"],
+    },
+    ArchiveEntryResult: {
+      type: "object",
+      properties: {
+        ...(uploadFileResultSchema.properties as object),
+        fileName: {
+          type: "string",
+          description: "아카이브 안의 경로",
+          example: "guides/setup.md",
+        },
+        skipped: {
+          type: "boolean",
+          description: "지원하지 않는 형식이라 건너뛴 항목",
+        },
+      },
+      required: ["fileName", "success"],
+    },
+    ArchiveImportResponse: {
+      type: "object",
+      properties: {
+        results: { type: "array", items: ref("ArchiveEntryResult") },
+        successCount: { type: "integer" },
+        failCount: { type: "integer" },
+        skippedCount: { type: "integer" },
+      },
+      required: ["results", "successCount", "failCount", "skippedCount"],
+    },
+    StoreManifest: {
+      type: "object",
+      properties: {
+        manifestVersion: { type: "integer", enum: [1] },
+        exportedAt: { type: "string", format: "date-time" },
+        store: {
+          type: "object",
+          properties: {
+            ...(fileSearchStoreSchema.properties as object),
+            documentCount: { type: "integer" },
+          },
+          required: ["name", "displayName", "documentCount"],
+        },
+        documents: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string", description: "원래 문서 이름 (참고용)" },
+              displayName: { type: "string" },
+              mimeType: { type: "string" },
+              sizeBytes: { type: "integer" },
+              createTime: { type: "string", format: "date-time" },
+              customMetadata: {
+                type: "array",
+                description: "앱 예약 키(버전, 해시, 청킹)를 제외한 메타데이터",
+                items: ref("CustomMetadata"),
+              },
+              chunking: {
+                type: "object",
+                nullable: true,
+                description: "청킹 설정 (기록되지 않은 문서는 null)",
+                properties: {
+                  maxTokensPerChunk: { type: "integer" },
+                  maxOverlapTokens: { type: "integer" },
+                },
+              },
+              contentHash: {
+                type: "string",
+                description: "내용 SHA-256 (기록되지 않은 문서는 없음)",
+              },
+              version: { type: "integer" },
+            },
+            required: [
+              "name",
+              "displayName",
+              "customMetadata",
+              "chunking",
+              "version",
+            ],
+          },
+        },
+      },
+      required: ["manifestVersion", "exportedAt", "store", "documents"],
+    },
+    RestoreDocumentResult: {
+      type: "object",
+      properties: {
+        ...(uploadFileResultSchema.properties as object),
+        fileName: {
+          type: "string",
+          description: "매니페스트의 문서 표시 이름",
+        },
+        archivePath: {
+          type: "string",
+          description: "일치한 아카이브 항목 경로",
+        },
+        matchedBy: {
+          type: "string",
+          enum: ["hash", "path", "name"],
+          description:
+            "hash: 내용 해시, path: source_path 또는 표시 이름, name: 파일 이름",
+        },
+        missing: {
+          type: "boolean",
+          description: "아카이브에 파일이 없어 복원하지 못한 문서",
+        },
+        contentChanged: {
+          type: "boolean",
+          description: "경로/이름으로 찾았지만 내용이 매니페스트의 해시와 다름",
+        },
+      },
+      required: ["fileName", "success"],
+    },
+    RestoreStoreResponse: {
+      type: "object",
+      properties: {
+        store: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            displayName: { type: "string" },
+          },
+          required: ["name", "displayName"],
+        },
+        results: { type: "array", items: ref("RestoreDocumentResult") },
+        successCount: { type: "integer" },
+        failCount: { type: "integer" },
+        missingCount: { type: "integer" },
+        unmatchedFiles: { type: "array", items: { type: "string" } },
+      },
+      required: [
+        "store",
+        "results",
+        "successCount",
+        "failCount",
+        "missingCount",
+        "unmatchedFiles",
+      ],
+    },
+    SyncItem: {
+      type: "object",
+      properties: {
+        path: { type: "string", example: "guides/setup.md" },
+        action: {
+          type: "string",
+          enum: ["upload", "replace", "delete", "unchanged"],
+        },
+        documentName: {
+          type: "string",
+          description: "기존 문서 이름 (replace, delete, unchanged)",
+        },
+        operationName: {
+          type: "string",
+          description:
+            "시작한 업로드 operation 이름 (upload, replace 성공 시). GET /api/operations/{id}로 인덱싱 완료를 확인합니다",
+        },
+        success: {
+          type: "boolean",
+          description: "실행 결과 (dryRun이거나 unchanged이면 없음)",
+        },
+        ...errorFields,
+      },
+      required: ["path", "action"],
+    },
+    SyncResponse: {
+      type: "object",
+      properties: {
+        dryRun: { type: "boolean" },
+        items: { type: "array", items: ref("SyncItem") },
+        summary: {
+          type: "object",
+          properties: {
+            upload: { type: "integer" },
+            replace: { type: "integer" },
+            delete: { type: "integer" },
+            unchanged: { type: "integer" },
+          },
+          required: ["upload", "replace", "delete", "unchanged"],
+        },
+        failCount: { type: "integer" },
+      },
+      required: ["dryRun", "items", "summary", "failCount"],
+    },
+    ReplaceDocumentResponse: {
+      type: "object",
+      properties: {
+        displayName: { type: "string" },
+        version: { type: "integer" },
+        previousDocumentName: { type: "string" },
+        operationName: { type: "string" },
+      },
+      required: [
+        "displayName",
+        "version",
+        "previousDocumentName",
+        "operationName",
+      ],
+    },
+    OperationStatusResponse: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        done: { type: "boolean" },
+        documentName: { type: "string" },
+        error: { type: "string" },
+      },
+      required: ["name", "done"],
+    },
+    ServerConfigResponse: {
+      type: "object",
+      properties: {
+        apiKeyMode: { type: "string", enum: ["client", "server"] },
+        allowByok: { type: "boolean" },
+      },
+      required: ["apiKeyMode", "allowByok"],
+    },
+  };
+}
+
+/**
+ * multipart 업로드 필드 (청킹/메타데이터는 배치 전체에 적용)
+ */
+function uploadFields(): Record<string, JsonSchema> {
+  const chunking = toSchema(chunkingFieldsSchema).properties as Record<
+    string,
+    JsonSchema
+  >;
+  return {
+    customMetadata: {
+      type: "string",
+      description: `JSON 배열 문자열, 최대 ${MAX_USER_METADATA}개. 항목 형식: ${JSON.stringify(
+        toSchema(customMetadataEntrySchema)
+      )}`,
+      example: JSON.stringify([
+        { key: "category", type: "string", value: "manual" },
+        { key: "year", type: "number", value: "2025" },
+        { key: "tags", type: "stringList", value: "guide, setup" },
+      ]),
+    },
+    maxTokensPerChunk: {
+      ...chunking.maxTokensPerChunk,
+      description: "청크당 최대 토큰 수 (생략 시 기본값)",
+    },
+    maxOverlapTokens: {
+      ...chunking.maxOverlapTokens,
+      description: "청크 간 겹치는 토큰 수 (maxTokensPerChunk보다 작아야 함)",
+    },
+  };
+}
+
+/**
+ * 중복 업로드 정책 필드 (업로드, 아카이브 가져오기)
+ */
+function duplicateFields(): Record<string, JsonSchema> {
+  return {
+    duplicatePolicy: {
+      type: "string",
+      enum: [...DUPLICATE_POLICIES],
+      default: DUPLICATE_POLICIES[0],
+      description: `내용(${CONTENT_HASH_METADATA_KEY} 메타데이터)이 같은 문서가 이미 있을 때: skip(건너뜀), replace(기존 문서를 새 버전으로 교체), keep(새 문서로 업로드)`,
+    },
+    duplicatePolicies: {
+      type: "string",
+      description:
+        "파일별 정책 JSON 객체 문자열 (키는 파일명, 아카이브는 경로, URL은 페이지 URL)",
+      example: JSON.stringify({ "setup.md": "replace" }),
+    },
+  };
+}
+
+// ============================================
+// Routes
+// ============================================
+
+const ROUTES: RouteDefinition[] = [
+  {
+    method: "get",
+    path: "/api/stores",
+    tag: "Stores",
+    summary: "스토어 목록 조회",
+    description:
+      "pageToken 또는 pageSize(최대 20)가 지정되면 해당 페이지만, 아니면 전체 목록을 반환합니다",
+    rateLimit: "read",
+    query: pageQuerySchema,
+    data: ref("ListStoresResponse"),
+  },
+  {
+    method: "post",
+    path: "/api/stores",
+    tag: "Stores",
+    summary: "스토어 생성",
+    rateLimit: "admin",
+    body: createStoreRequestSchema,
+    data: ref("CreateStoreResponse"),
+  },
+  {
+    method: "get",
+    path: "/api/stores/{storeId}",
+    tag: "Stores",
+    summary: "스토어 조회",
+    rateLimit: "read",
+    params: storeParamsSchema,
+    data: ref("FileSearchStore"),
+  },
+  {
+    method: "delete",
+    path: "/api/stores/{storeId}",
+    tag: "Stores",
+    summary: "스토어 삭제 (문서 포함)",
+    rateLimit: "admin",
+    params: storeParamsSchema,
+  },
+  {
+    method: "get",
+    path: "/api/stores/{storeId}/export",
+    tag: "Stores",
+    summary: "스토어 매니페스트 내보내기",
+    description:
+      "스토어 설정과 모든 문서의 표시 이름, MIME 타입, 크기, 메타데이터, 청킹 설정, 내용 해시, 버전을 반환합니다. 파일 내용은 포함하지 않습니다",
+    rateLimit: "read",
+    params: storeParamsSchema,
+    data: ref("StoreManifest"),
+  },
+  {
+    method: "post",
+    path: "/api/stores/restore",
+    tag: "Stores",
+    summary: "백업에서 새 스토어 복원",
+    description: `새 스토어를 만들고 원본 파일 ZIP(최대 ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB, ${MAX_ARCHIVE_ENTRIES}개 파일)의 항목을 매니페스트의 문서와 연결해 같은 표시 이름, 메타데이터, 청킹 설정으로 업로드합니다. 항목은 내용 해시, 경로(${ARCHIVE_METADATA_KEYS.path} 또는 표시 이름), 파일 이름 순으로 연결합니다. 아카이브에 없는 문서는 missing, 사용하지 않은 항목은 unmatchedFiles로 보고합니다. 연결되는 문서가 하나도 없으면 스토어를 만들지 않고 400(NO_FILES)을 반환합니다`,
+    rateLimit: "upload",
+    multipart: {
+      type: "object",
+      properties: {
+        manifest: {
+          type: "string",
+          format: "binary",
+          description:
+            "GET /api/stores/{storeId}/export의 data (JSON 파일 또는 문자열)",
+        },
+        archive: { type: "string", format: "binary" },
+        displayName: {
+          type: "string",
+          description: "새 스토어 표시 이름 (생략 시 매니페스트의 스토어 이름)",
+        },
+      },
+      required: ["manifest", "archive"],
+    },
+    data: ref("RestoreStoreResponse"),
+  },
+  {
+    method: "get",
+    path: "/api/stores/{storeId}/documents",
+    tag: "Documents",
+    summary: "문서 목록 조회",
+    description:
+      "새 버전의 인덱싱이 끝난 교체 업로드가 있으면 남아 있는 이전 버전을 삭제하고 목록에서 제외합니다",
+    rateLimit: "read",
+    params: storeParamsSchema,
+    query: pageQuerySchema,
+    data: ref("ListDocumentsResponse"),
+  },
+  {
+    method: "post",
+    path: "/api/stores/{storeId}/upload",
+    tag: "Documents",
+    summary: "파일 업로드 / URL 가져오기",
+    description: `최대 ${MAX_FILES}개, 파일당 ${MAX_FILE_SIZE / 1024 / 1024}MB. 업로드가 시작되면 바로 응답하고 인덱싱은 operationName으로 확인합니다. 일부 파일만 실패하면 200, 모두 실패하면 400(UPLOAD_FAILED)과 파일별 결과를 반환합니다. files 대신 url을 보내면 웹 페이지(또는 사이트맵의 페이지)를 가져와 마크다운 문서로 업로드하고, 페이지 URL과 가져온 날짜를 ${URL_METADATA_KEYS.url}, ${URL_METADATA_KEYS.fetchedAt} 메타데이터로 기록합니다. 이때 결과의 fileName은 페이지 URL입니다. 내용이 같은 문서가 이미 있으면 duplicatePolicy에 따라 처리하고 결과의 duplicate에 기존 문서를 표시합니다`,
+    rateLimit: "upload",
+    params: storeParamsSchema,
+    multipart: {
+      type: "object",
+      properties: {
+        files: {
+          type: "array",
+          items: { type: "string", format: "binary" },
+          maxItems: MAX_FILES,
+          description: "업로드할 파일 (url과 함께 보낼 수 없음)",
+        },
+        url: {
+          type: "string",
+          format: "uri",
+          description: "가져올 웹 페이지 또는 사이트맵 URL (http/https)",
+          example: "https://help.example.com/sitemap.xml",
+        },
+        mode: {
+          type: "string",
+          enum: ["auto", "page", "sitemap"],
+          default: "auto",
+          description:
+            "auto: 응답이 사이트맵 XML이면 사이트맵, 아니면 페이지로 처리",
+        },
+        maxDepth: {
+          type: "integer",
+          minimum: 0,
+          maximum: MAX_CRAWL_DEPTH,
+          default: 0,
+          description:
+            "페이지 모드에서 링크를 따라갈 깊이 (0이면 해당 페이지만)",
+        },
+        maxPages: {
+          type: "integer",
+          minimum: 1,
+          maximum: MAX_CRAWL_PAGES,
+          default: DEFAULT_CRAWL_PAGES,
+          description: "가져올 최대 페이지 수",
+        },
+        allowedDomains: {
+          type: "string",
+          description: `쉼표로 구분한 허용 도메인 (최대 ${MAX_ALLOWED_DOMAINS}개, 하위 도메인 포함). 생략 시 시작 URL의 호스트`,
+          example: "example.com, docs.example.com",
+        },
+        ...uploadFields(),
+        ...duplicateFields(),
+        customMetadata: {
+          ...uploadFields().customMetadata,
+          description: `${uploadFields().customMetadata!.description} (url 사용 시 최대 ${MAX_URL_USER_METADATA}개)`,
+        },
+      },
+    },
+    data: ref("UploadFilesResponse"),
+  },
+  {
+    method: "post",
+    path: "/api/stores/{storeId}/import",
+    tag: "Documents",
+    summary: "ZIP 아카이브 가져오기",
+    description: `ZIP 파일(최대 ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB, ${MAX_ARCHIVE_ENTRIES}개 파일)을 풀어 지원하는 형식의 파일을 업로드합니다. 문서 표시 이름은 아카이브 안의 경로이고, 경로와 최상위 폴더가 ${ARCHIVE_METADATA_KEYS.path}, ${ARCHIVE_METADATA_KEYS.folder} 메타데이터로 기록됩니다. 지원하지 않는 형식과 숨김 파일은 건너뜁니다. 실패한 항목이 있으면 400(UPLOAD_FAILED)과 항목별 결과를 반환합니다`,
+    rateLimit: "upload",
+    params: storeParamsSchema,
+    multipart: {
+      type: "object",
+      properties: {
+        archive: { type: "string", format: "binary" },
+        ...uploadFields(),
+        ...duplicateFields(),
+        customMetadata: {
+          ...uploadFields().customMetadata,
+          description: `모든 항목에 추가할 메타데이터 (JSON 배열 문자열, 최대 ${MAX_ARCHIVE_USER_METADATA}개)`,
+        },
+      },
+      required: ["archive"],
+    },
+    data: ref("ArchiveImportResponse"),
+  },
+  {
+    method: "post",
+    path: "/api/stores/{storeId}/sync",
+    tag: "Documents",
+    summary: "디렉터리/매니페스트 동기화",
+    description: `서버 디렉터리(directory) 또는 경로+해시 목록(manifest, 최대 ${MAX_SYNC_ENTRIES}개)을 문서의 ${ARCHIVE_METADATA_KEYS.path}, ${CONTENT_HASH_METADATA_KEY} 메타데이터와 비교해 새 파일은 업로드하고 내용이 바뀐 파일은 교체합니다. deleteRemoved=true이면 목록에 없는 경로의 문서를 삭제합니다 (${ARCHIVE_METADATA_KEYS.path}가 없는 문서는 건드리지 않음). dryRun=true이면 계획만 반환합니다. directory는 서버의 SYNC_ROOT 기준 경로이고 SYNC_ROOT가 없으면 400(DIRECTORY_NOT_ALLOWED)입니다. manifest를 보낼 때는 업로드/교체할 파일을 files로 함께 보내고 파일 이름은 manifest의 path와 같아야 합니다. 업로드/교체가 시작되면 바로 응답하고 인덱싱은 항목별 operationName으로 확인합니다. 교체한 이전 버전은 operation 상태 조회에서 인덱싱 완료가 확인되면(또는 다음 동기화에서) 삭제됩니다. 업로드를 시작하지 못한 항목이 있으면 400(UPLOAD_FAILED)과 항목별 결과를 반환합니다`,
+    rateLimit: "upload",
+    params: storeParamsSchema,
+    multipart: {
+      type: "object",
+      properties: {
+        directory: {
+          type: "string",
+          description:
+            "SYNC_ROOT 기준 디렉터리 경로 (manifest와 함께 사용 불가)",
+          example: "handbook",
+        },
+        manifest: {
+          type: "string",
+          description:
+            "[{ path, hash }] JSON 배열 문자열 (hash는 파일 내용의 SHA-256 16진수)",
+          example: JSON.stringify([
+            { path: "guides/setup.md", hash: "9f86d0…" },
+          ]),
+        },
+        files: {
+          type: "array",
+          items: { type: "string", format: "binary" },
+          description: `manifest에서 업로드/교체할 파일 (파일 이름은 path, 최대 ${MAX_FILE_SIZE / 1024 / 1024}MB)`,
+        },
+        deleteRemoved: { type: "string", enum: ["true", "false"] },
+        dryRun: { type: "string", enum: ["true", "false"] },
+        ...uploadFields(),
+        customMetadata: {
+          ...uploadFields().customMetadata,
+          description: `업로드/교체할 문서에 추가할 메타데이터 (JSON 배열 문자열, 최대 ${MAX_ARCHIVE_USER_METADATA}개, 생략 시 교체할 문서는 이전 값 유지)`,
+        },
+      },
+    },
+    data: ref("SyncResponse"),
+  },
+  {
+    method: "get",
+    path: "/api/stores/{storeId}/documents/{docName}",
+    tag: "Documents",
+    summary: "문서 조회",
+    description: "docName은 문서 ID 또는 URL 인코딩된 표시 이름입니다",
+    rateLimit: "read",
+    params: documentParamsSchema,
+    data: ref("FileSearchDocument"),
+  },
+  {
+    method: "put",
+    path: "/api/stores/{storeId}/documents/{docName}",
+    tag: "Documents",
+    summary: "문서 교체",
+    description:
+      "새 파일로 문서를 교체합니다. 생략한 메타데이터와 청킹 설정은 이전 문서의 값을 유지하고, doc_version 메타데이터가 1 증가합니다. 이전 버전은 새 버전의 인덱싱이 성공한 뒤 삭제됩니다: GET /api/operations/{id}로 operationName을 조회하면 교체가 마무리되고, 조회하지 않으면 다음 문서 목록 조회, 업로드 또는 동기화에서 정리됩니다. 인덱싱이 실패하면 이전 버전이 유지됩니다",
+    rateLimit: "upload",
+    params: documentParamsSchema,
+    multipart: {
+      type: "object",
+      properties: {
+        file: { type: "string", format: "binary" },
+        ...uploadFields(),
+      },
+      required: ["file"],
+    },
+    data: ref("ReplaceDocumentResponse"),
+  },
+  {
+    method: "delete",
+    path: "/api/stores/{storeId}/documents/{docName}",
+    tag: "Documents",
+    summary: "문서 삭제",
+    description:
+      "docName은 문서 ID 또는 URL 인코딩된 표시 이름입니다 (표시 이름이 같은 문서가 여러 개면 문서 ID 사용)",
+    rateLimit: "admin",
+    params: documentParamsSchema,
+  },
+  {
+    method: "post",
+    path: "/api/stores/{storeId}/query",
+    tag: "Query",
+    summary: "스토어 검색 (RAG 쿼리)",
+    description:
+      "query(단일 질문) 또는 contents(멀티턴 대화) 중 하나가 필요합니다. Accept 헤더가 text/event-stream 또는 application/x-ndjson이면 QueryStreamEvent를 스트리밍합니다",
+    rateLimit: "query",
+    params: storeParamsSchema,
+    body: queryRequestSchema,
+    data: ref("QueryResponseData"),
+    streaming: true,
+  },
+  {
+    method: "post",
+    path: "/api/query",
+    tag: "Query",
+    summary: "여러 스토어 검색",
+    description:
+      "storeIds의 스토어를 함께 검색합니다. 각 출처에는 스토어 정보가 포함됩니다. 스트리밍은 /api/stores/{storeId}/query와 같습니다",
+    rateLimit: "query",
+    body: multiStoreQueryRequestSchema,
+    data: ref("QueryResponseData"),
+    streaming: true,
+  },
+  {
+    method: "get",
+    path: "/api/operations/{id}",
+    tag: "Operations",
+    summary: "업로드(인덱싱) 상태 조회",
+    description:
+      "id는 업로드 응답의 operationName을 URL 인코딩한 값입니다. 교체 업로드(문서 교체, duplicatePolicy=replace, 동기화의 replace)의 operation이 성공적으로 완료되었으면 이 조회가 이전 버전을 삭제해 교체를 마무리합니다",
+    rateLimit: "read",
+    params: operationParamsSchema,
+    data: ref("OperationStatusResponse"),
+  },
+  {
+    method: "get",
+    path: "/api/config",
+    tag: "Config",
+    summary: "API 키 모드 조회",
+    auth: false,
+    data: ref("ServerConfigResponse"),
+  },
+];
+
+// ============================================
+// Document
+// ============================================
+
+const errorResponse = (description: string, headers?: JsonSchema) => ({
+  description,
+  ...(headers && { headers }),
+  content: { "application/json": { schema: ref("ErrorResponse") } },
+});
+
+function buildOperation(route: RouteDefinition) {
+  const successSchema: JsonSchema = {
+    type: "object",
+    properties: {
+      success: { type: "boolean", enum: [true] },
+      message: { type: "string" },
+      ...(route.data && { data: route.data }),
+      meta: {
+        type: "object",
+        properties: { retry: ref("RetryReport") },
+        description: "Gemini API 호출을 재시도한 경우",
+      },
+    },
+    required: ["success"],
+  };
+
+  const rateLimit = route.rateLimit && getRateLimit(route.rateLimit);
+  const description = [
+    route.description,
+    rateLimit &&
+      `요청 제한(${route.rateLimit}): 최대 ${rateLimit.capacity}회 연속, 초당 ${rateLimit.refillPerSecond}회 충전, 동시 ${rateLimit.maxConcurrent}개`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const responses: Record<string, unknown> = {
+    "200": {
+      description: "성공",
+      headers: {
+        "X-Retry-Count": { $ref: "#/components/headers/RetryCount" },
+        "X-Retry-Delay-Ms": { $ref: "#/components/headers/RetryDelayMs" },
+      },
+      content: {
+        "application/json": { schema: successSchema },
+        ...(route.streaming && {
+          "text/event-stream": { schema: ref("QueryStreamEvent") },
+          "application/x-ndjson": { schema: ref("QueryStreamEvent") },
+        }),
+      },
+    },
+  };
+  if (route.auth !== false) {
+    responses["400"] = errorResponse("잘못된 요청 (fieldErrors에 필드별 오류)");
+    responses["401"] = errorResponse("MISSING_API_KEY, INVALID_API_KEY");
+    responses["404"] = errorResponse(
+      "STORE_NOT_FOUND, DOCUMENT_NOT_FOUND, OPERATION_NOT_FOUND"
+    );
+  }
+  if (rateLimit) {
+    responses["429"] = errorResponse(
+      "CLIENT_RATE_LIMITED, TOO_MANY_CONCURRENT_REQUESTS, RATE_LIMITED",
+      { "Retry-After": { $ref: "#/components/headers/RetryAfter" } }
+    );
+  }
+  responses.default = errorResponse("기타 오류 (code 참고)");
+
+  return {
+    tags: [route.tag],
+    summary: route.summary,
+    ...(description && { description }),
+    operationId: `${route.method}${route.path
+      .replace(/[{}]/g, "")
+      .split("/")
+      .filter((segment) => segment && segment !== "api")
+      .map((segment) => segment[0]!.toUpperCase() + segment.slice(1))
+      .join("")}`,
+    ...(route.auth === false && { security: [] }),
+    parameters: [
+      ...(route.params ? toParameters(route.params, "path") : []),
+      ...(route.query ? toParameters(route.query, "query") : []),
+    ],
+    ...(route.body && {
+      requestBody: {
+        required: true,
+        content: { "application/json": { schema: toSchema(route.body) } },
+      },
+    }),
+    ...(route.multipart && {
+      requestBody: {
+        required: true,
+        content: { "multipart/form-data": { schema: route.multipart } },
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * 에러 코드 표 (문서 설명에 포함)
+ */
+function buildErrorTable(): string {
+  const rows = listApiErrors().map(
+    ({ code, status, message }) => `| \`${code}\` | ${status} | ${message} |`
+  );
+  return ["| code | HTTP | 설명 |", "| --- | --- | --- |", ...rows].join("\n");
+}
+
+/**
+ * OpenAPI 문서 생성
+ *
+ * @param serverUrl - 문서의 servers에 넣을 URL (요청 origin)
+ */
+export function buildOpenApiDocument(serverUrl?: string) {
+  // server 모드에서는 x-api-key 없이도 서버 키로 호출 가능
+  const isServerMode = getApiKeyMode() === "server";
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const route of ROUTES) {
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: buildOperation(route),
+    };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Gemini File Search API",
+      version: "2.0.0",
+      description: [
+        "Gemini File Search 스토어/문서 관리와 RAG 쿼리 API",
+        "모든 응답은 `{ success, message?, data?, error?, code?, details?, fieldErrors?, meta? }` 형식입니다. 실패 응답의 code는 아래 표의 값 중 하나입니다",
+        buildErrorTable(),
+      ].join("\n\n"),
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    tags: [
+      { name: "Stores", description: "File Search 스토어" },
+      { name: "Documents", description: "문서 업로드, 교체, 삭제" },
+      { name: "Query", description: "RAG 쿼리" },
+      { name: "Operations", description: "인덱싱 상태" },
+      { name: "Config", description: "서버 설정" },
+    ],
+    security: isServerMode ? [{ ApiKeyAuth: [] }, {}] : [{ ApiKeyAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        ApiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "x-api-key",
+          description: isServerMode
+            ? "본인 Gemini API 키 (선택, 생략하면 서버 키 사용)"
+            : "Gemini API 키",
+        },
+      },
+      headers: {
+        RetryAfter: {
+          description: "다시 요청할 수 있을 때까지 남은 시간(초)",
+          schema: { type: "integer" },
+        },
+        RetryCount: {
+          description: "Gemini API 호출 재시도 횟수 (재시도한 경우)",
+          schema: { type: "integer" },
+        },
+        RetryDelayMs: {
+          description: "재시도 대기 시간 합계 ms (재시도한 경우)",
+          schema: { type: "integer" },
+        },
+      },
+      schemas: buildComponentSchemas(),
+    },
+  };
+}
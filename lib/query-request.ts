@@ -0,0 +1,69 @@
+/**
+ * Query Request Parsing
+ *
+ * 쿼리 API 요청 본문에서 모델 입력 추출
+ * - query: 단일 질문
+ * - contents: 멀티턴 대화 (user/model 역할, 마지막은 user 턴)
+ */
+
+import type { Content, QueryRequest } from "@/types";
+
+/**
+ * contents 검증 및 정리
+ * 빈 턴은 제거하고, 마지막 턴이 user인지 확인합니다
+ *
+ * @returns 정리된 contents 또는 오류 메시지
+ */
+function normalizeContents(contents: unknown): Content[] | string {
+  if (!Array.isArray(contents)) {
+    return "contents는 배열이어야 합니다";
+  }
+
+  const normalized: Content[] = [];
+  for (const content of contents) {
+    if (content?.role !== "user" && content?.role !== "model") {
+      return "contents의 role은 user 또는 model이어야 합니다";
+    }
+    const parts = Array.isArray(content.parts)
+      ? content.parts
+          .filter((part: any) => typeof part?.text === "string")
+          .map((part: any) => ({ text: part.text as string }))
+      : [];
+    if (parts.some((part: { text: string }) => part.text.trim())) {
+      normalized.push({ role: content.role, parts });
+    }
+  }
+
+  if (normalized.length === 0) {
+    return "contents가 비어 있습니다";
+  }
+  if (normalized[normalized.length - 1]?.role !== "user") {
+    return "contents의 마지막 턴은 user여야 합니다";
+  }
+
+  return normalized;
+}
+
+/**
+ * 요청 본문에서 모델 입력 추출
+ * contents가 있으면 우선 사용하고, 없으면 query를 사용합니다
+ *
+ * @param body - 쿼리 요청 본문
+ * @returns 모델 입력 또는 오류 메시지
+ */
+export function resolveQueryInput(
+  body: Pick<QueryRequest, "query" | "contents">
+): { input: string | Content[] } | { error: string } {
+  if (body.contents !== undefined) {
+    const normalized = normalizeContents(body.contents);
+    return typeof normalized === "string"
+      ? { error: normalized }
+      : { input: normalized };
+  }
+
+  if (body.query && body.query.trim()) {
+    return { input: body.query.trim() };
+  }
+
+  return { error: "query 또는 contents가 필요합니다" };
+}
@@ -0,0 +1,171 @@
+/**
+ * Query Stream Encoding
+ *
+ * 스트리밍 쿼리 이벤트의 직렬화/역직렬화
+ * - 서버: QueryStreamEvent를 SSE 또는 NDJSON으로 인코딩하여 스트리밍 응답 생성
+ * - 클라이언트: fetch 응답 본문을 QueryStreamEvent로 디코딩
+ */
+
+import { toApiRouteError } from "@/lib/api-error";
+import type { QueryStreamEvent } from "@/types";
+
+export type StreamFormat = "sse" | "ndjson";
+
+const CONTENT_TYPES: Record<StreamFormat, string> = {
+  sse: "text/event-stream",
+  ndjson: "application/x-ndjson",
+};
+
+/**
+ * Accept 헤더로 스트리밍 형식 결정
+ *
+ * @param accept - 요청의 Accept 헤더
+ * @returns 스트리밍 형식 (스트리밍 요청이 아니면 null)
+ */
+export function getStreamFormat(accept: string | null): StreamFormat | null {
+  if (!accept) return null;
+  if (accept.includes(CONTENT_TYPES.sse)) return "sse";
+  if (accept.includes(CONTENT_TYPES.ndjson)) return "ndjson";
+  return null;
+}
+
+/**
+ * 스트리밍 형식의 Content-Type
+ */
+export function getStreamContentType(format: StreamFormat): string {
+  return `${CONTENT_TYPES[format]}; charset=utf-8`;
+}
+
+/**
+ * 이벤트 하나를 스트리밍 형식으로 인코딩
+ */
+export function encodeStreamEvent(
+  event: QueryStreamEvent,
+  format: StreamFormat
+): string {
+  if (format === "ndjson") {
+    return `${JSON.stringify(event)}\n`;
+  }
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * 쿼리 이벤트 스트림을 HTTP 스트리밍 응답으로 변환
+ *
+ * 첫 이벤트까지는 여기서 기다리므로 시작 단계 오류는 호출자에게 throw되어
+ * 일반 JSON 에러로 응답할 수 있습니다. 이후 오류는 error 이벤트로 전달합니다
+ *
+ * @param events - 쿼리 이벤트 제너레이터
+ * @param format - 스트리밍 형식
+ * @param signal - 요청 중단 신호 (클라이언트 연결 종료)
+ */
+export async function createQueryStreamResponse(
+  events: AsyncGenerator<QueryStreamEvent>,
+  format: StreamFormat,
+  signal: AbortSignal
+): Promise<Response> {
+  const first = await events.next();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        if (!first.done) {
+          controller.enqueue(
+            encoder.encode(encodeStreamEvent(first.value, format))
+          );
+        }
+        for await (const event of events) {
+          controller.enqueue(encoder.encode(encodeStreamEvent(event, format)));
+        }
+      } catch (error: any) {
+        if (!signal.aborted) {
+          console.error("스트리밍 쿼리 오류:", error);
+          const apiError = toApiRouteError(error);
+          controller.enqueue(
+            encoder.encode(
+              encodeStreamEvent(
+                {
+                  type: "error",
+                  error: apiError.message,
+                  code: apiError.code,
+                  details: apiError.details,
+                },
+                format
+              )
+            )
+          );
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // 클라이언트가 연결을 끊어 이미 닫힌 경우
+        }
+      }
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": getStreamContentType(format),
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * 스트리밍 응답 본문을 이벤트 단위로 읽기
+ * Content-Type에 따라 SSE 또는 NDJSON으로 파싱합니다
+ *
+ * @param response - 스트리밍 fetch 응답
+ */
+export async function* readQueryStream(
+  response: Response
+): AsyncGenerator<QueryStreamEvent> {
+  if (!response.body) return;
+
+  const isNdjson = (response.headers.get("content-type") || "").includes(
+    CONTENT_TYPES.ndjson
+  );
+  const separator = isNdjson ? "\n" : "\n\n";
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const parse = (block: string): QueryStreamEvent | null => {
+    if (isNdjson) {
+      return block.trim() ? (JSON.parse(block) as QueryStreamEvent) : null;
+    }
+    const data = block
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).trim())
+      .join("\n");
+    return data ? (JSON.parse(data) as QueryStreamEvent) : null;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let index: number;
+      while ((index = buffer.indexOf(separator)) !== -1) {
+        const event = parse(buffer.slice(0, index));
+        buffer = buffer.slice(index + separator.length);
+        if (event) yield event;
+      }
+    }
+
+    const event = parse(buffer + decoder.decode());
+    if (event) yield event;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Rate Limiting
+ *
+ * 클라이언트별 API 라우트 요청 제한 (팀이 공유하는 Gemini 할당량 보호)
+ * - 라우트 종류(쿼리/업로드/관리/조회)별 token bucket + 동시 요청 수 제한
+ * - 클라이언트 구분: 클라이언트 IP, 본인 API 키를 보냈으면 키 지문(SHA-256 앞부분)으로도 제한
+ *   (키를 바꿔 보내도 IP 제한은 그대로 적용)
+ * - 클라이언트 IP는 RATE_LIMIT_TRUSTED_PROXIES(앞단 프록시 수)를 설정했을 때만
+ *   x-forwarded-for에서 읽음 (설정하지 않으면 키 지문으로만 구분하고,
+ *   키 없이 서버 키를 쓰는 요청은 모두 하나의 제한을 공유)
+ * - 저장소는 기본 인메모리, setRateLimitStore로 교체 가능 (예: 여러 인스턴스가 공유하는 Redis)
+ * - 응답 생성은 lib/api-response.ts의 withRateLimit
+ */
+
+import { createHash } from "node:crypto";
+import { ApiRouteError } from "@/lib/api-error";
+import { isByokAllowed } from "@/lib/api-key";
+
+/**
+ * 라우트 종류
+ * - query: 생성 쿼리, upload: 파일 업로드/교체
+ * - admin: 스토어 생성/삭제, 문서 삭제, read: 목록/단건/operation 조회
+ */
+export type RateLimitCategory = "query" | "upload" | "admin" | "read";
+
+/**
+ * 요청 제한
+ */
+export interface RateLimit {
+  /** bucket 크기 (연속으로 보낼 수 있는 최대 요청 수) */
+  capacity: number;
+  /** 초당 채워지는 토큰 수 */
+  refillPerSecond: number;
+  /** 동시에 처리할 수 있는 최대 요청 수 */
+  maxConcurrent: number;
+}
+
+/**
+ * 요청 제한 상태 저장소
+ * 여러 서버 인스턴스가 제한을 공유하려면 외부 저장소로 구현해 setRateLimitStore로 등록
+ */
+export interface RateLimitStore {
+  /**
+   * 토큰 하나 소비
+   * @returns 허용되면 0, 아니면 다음 토큰까지 남은 시간(ms)
+   */
+  consume(key: string, limit: RateLimit): Promise<number>;
+  /**
+   * 동시 요청 슬롯 획득
+   * @returns 획득했으면 true (max에 도달했으면 false)
+   */
+  acquire(key: string, max: number): Promise<boolean>;
+  /** consume으로 소비한 토큰 하나 되돌리기 (다른 식별자의 제한에 걸린 요청) */
+  refund(key: string): Promise<void>;
+  /** 동시 요청 슬롯 반환 */
+  release(key: string): Promise<void>;
+}
+
+/** 라우트 종류별 요청 제한 */
+const RATE_LIMITS: Record<RateLimitCategory, RateLimit> = {
+  // 생성 쿼리는 호출 비용이 가장 큼
+  query: { capacity: 10, refillPerSecond: 0.5, maxConcurrent: 3 },
+  // 요청 하나에 여러 파일이 포함됨
+  upload: { capacity: 10, refillPerSecond: 0.2, maxConcurrent: 2 },
+  admin: { capacity: 20, refillPerSecond: 0.5, maxConcurrent: 5 },
+  // 업로드 상태 폴링이 작업마다 2초 간격으로 요청
+  read: { capacity: 120, refillPerSecond: 5, maxConcurrent: 20 },
+};
+
+/** 인메모리 저장소가 이 개수를 넘으면 가득 찬 bucket 정리 */
+const MAX_MEMORY_BUCKETS = 10_000;
+
+/**
+ * 인메모리 요청 제한 저장소 (단일 서버 인스턴스용)
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number; limit: RateLimit }
+  >();
+  const inFlight = new Map<string, number>();
+
+  const refill = (
+    bucket: { tokens: number; updatedAt: number; limit: RateLimit },
+    now: number
+  ) => {
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      bucket.limit.capacity,
+      bucket.tokens + elapsed * bucket.limit.refillPerSecond
+    );
+    bucket.updatedAt = now;
+  };
+
+  const sweep = (now: number) => {
+    buckets.forEach((bucket, key) => {
+      refill(bucket, now);
+      if (bucket.tokens >= bucket.limit.capacity) {
+        buckets.delete(key);
+      }
+    });
+  };
+
+  return {
+    async consume(key, limit) {
+      const now = Date.now();
+      if (buckets.size > MAX_MEMORY_BUCKETS) {
+        sweep(now);
+      }
+
+      const bucket = buckets.get(key) || {
+        tokens: limit.capacity,
+        updatedAt: now,
+        limit,
+      };
+      bucket.limit = limit;
+      refill(bucket, now);
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil(((1 - bucket.tokens) / limit.refillPerSecond) * 1000);
+    },
+
+    async refund(key) {
+      const bucket = buckets.get(key);
+      if (!bucket) return;
+      refill(bucket, Date.now());
+      bucket.tokens = Math.min(bucket.limit.capacity, bucket.tokens + 1);
+    },
+
+    async acquire(key, max) {
+      const count = inFlight.get(key) || 0;
+      if (count >= max) return false;
+      inFlight.set(key, count + 1);
+      return true;
+    },
+
+    async release(key) {
+      const count = (inFlight.get(key) || 0) - 1;
+      if (count > 0) {
+        inFlight.set(key, count);
+      } else {
+        inFlight.delete(key);
+      }
+    },
+  };
+}
+
+// 개발 서버의 모듈 재로드에도 제한 상태 유지
+const globalForRateLimit = globalThis as unknown as {
+  __rateLimitStore?: RateLimitStore;
+};
+
+function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.__rateLimitStore) {
+    globalForRateLimit.__rateLimitStore = createMemoryRateLimitStore();
+  }
+  return globalForRateLimit.__rateLimitStore;
+}
+
+/**
+ * 요청 제한 저장소 교체
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.__rateLimitStore = store;
+}
+
+/**
+ * 라우트 종류의 요청 제한 조회
+ */
+export function getRateLimit(category: RateLimitCategory): RateLimit {
+  return RATE_LIMITS[category];
+}
+
+/**
+ * 라우트 종류의 요청 제한 변경
+ */
+export function configureRateLimit(
+  category: RateLimitCategory,
+  patch: Partial<RateLimit>
+): void {
+  RATE_LIMITS[category] = { ...RATE_LIMITS[category], ...patch };
+}
+
+/**
+ * 신뢰하는 앞단 프록시 수 (RATE_LIMIT_TRUSTED_PROXIES, 없거나 잘못된 값이면 0)
+ */
+function getTrustedProxyCount(): number {
+  const raw = process.env.RATE_LIMIT_TRUSTED_PROXIES?.trim();
+  return raw && /^\d+$/.test(raw) ? parseInt(raw, 10) : 0;
+}
+
+/**
+ * 요청을 보낸 클라이언트 IP
+ * 신뢰하는 프록시가 N개면 x-forwarded-for의 오른쪽에서 N번째 값
+ * (클라이언트가 보낸 값은 왼쪽에 남으므로 무시됨)
+ *
+ * @returns 클라이언트 IP (신뢰하는 프록시가 없거나 헤더가 없으면 null)
+ */
+export function getClientIp(request: Request): string | null {
+  const trustedProxies = getTrustedProxyCount();
+  if (trustedProxies === 0) return null;
+
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return forwarded[Math.max(0, forwarded.length - trustedProxies)] ?? null;
+}
+
+/**
+ * 요청을 보낸 클라이언트 식별자 (모든 식별자의 제한을 적용)
+ * - 클라이언트 IP
+ * - 본인 API 키를 보냈으면 키 지문 (키 자체는 저장하지 않음)
+ *
+ * IP를 알 수 없으면 키 지문만 사용하고, 키도 없으면 모든 요청이 ip:unknown 하나를 공유
+ */
+export function getClientIds(request: Request): string[] {
+  const ip = getClientIp(request);
+  const ids = ip ? [`ip:${ip}`] : [];
+
+  const apiKey = request.headers.get("x-api-key")?.trim();
+  if (apiKey && isByokAllowed()) {
+    const fingerprint = createHash("sha256")
+      .update(apiKey)
+      .digest("hex")
+      .slice(0, 16);
+    ids.push(`key:${fingerprint}`);
+  }
+  return ids.length > 0 ? ids : ["ip:unknown"];
+}
+
+/**
+ * 요청 제한 확인 및 동시 요청 슬롯 획득
+ *
+ * @returns 허용되면 슬롯을 반환하는 release (응답이 끝나면 호출),
+ *          제한에 걸리면 error (details.retryAfter는 초 단위)
+ */
+export async function acquireRateLimit(
+  request: Request,
+  category: RateLimitCategory
+): Promise<{ release: () => Promise<void> } | { error: ApiRouteError }> {
+  const store = getRateLimitStore();
+  const limit = RATE_LIMITS[category];
+  const keys = getClientIds(request).map((id) => `${category}:${id}`);
+  const acquired: string[] = [];
+  const releaseAll = async () => {
+    for (const key of acquired) {
+      await store.release(key);
+    }
+  };
+
+  // 동시 요청 제한에 걸린 요청은 토큰을 소비하지 않음
+  for (const key of keys) {
+    if (!(await store.acquire(key, limit.maxConcurrent))) {
+      await releaseAll();
+      return {
+        error: new ApiRouteError("TOO_MANY_CONCURRENT_REQUESTS", undefined, {
+          category,
+          maxConcurrent: limit.maxConcurrent,
+          retryAfter: 1,
+        }),
+      };
+    }
+    acquired.push(key);
+  }
+
+  // 하나라도 제한에 걸리면 이미 소비한 다른 식별자의 토큰은 되돌림
+  const consumed: string[] = [];
+  for (const key of keys) {
+    const waitMs = await store.consume(key, limit);
+    if (waitMs > 0) {
+      for (const consumedKey of consumed) {
+        await store.refund(consumedKey);
+      }
+      await releaseAll();
+      return {
+        error: new ApiRouteError("CLIENT_RATE_LIMITED", undefined, {
+          category,
+          retryAfter: Math.ceil(waitMs / 1000),
+        }),
+      };
+    }
+    consumed.push(key);
+  }
+
+  return { release: releaseAll };
+}
@@ -0,0 +1,320 @@
+/**
+ * Retry Policy
+ *
+ * Gemini API 호출 재시도 정책
+ * - 호출 종류(조회/업로드/쿼리 등)별 정책, configureRetryPolicy로 변경 가능
+ * - 환경 변수 RETRY_<호출 종류>_MAX_RETRIES / RETRY_<호출 종류>_MAX_DELAY_MS로
+ *   재시도 횟수와 최대 대기 시간 변경 (예: RETRY_UPLOAD_MAX_RETRIES=8, 서버와 CLI 공통)
+ * - 서버가 알려준 대기 시간(Retry-After 헤더, 429 응답의 RetryInfo.retryDelay) 우선
+ * - 지수 백오프에 jitter를 더해 동시 요청이 같은 시점에 몰리지 않게 함
+ * - AbortSignal로 대기 중인 재시도 취소
+ * - trackRetries 안에서 실행된 재시도는 횟수/대기 시간을 집계 (응답 메타데이터용)
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { RetryReport } from "@/types";
+
+/**
+ * 재시도 정책
+ */
+export interface RetryPolicy {
+  /** 최대 재시도 횟수 (첫 시도 제외) */
+  maxRetries: number;
+  /** 첫 재시도 대기 시간(ms), 이후 2배씩 증가 */
+  baseDelayMs: number;
+  /** 최대 대기 시간(ms), 서버가 이보다 긴 대기를 요구하면 재시도하지 않음 */
+  maxDelayMs: number;
+  /** 대기 시간에 더하는 무작위 비율 (0~1) */
+  jitter: number;
+  /** 재시도할 HTTP 상태 코드 */
+  retryableStatuses: number[];
+}
+
+/**
+ * 호출 종류
+ * - read: 스토어/문서 단건 조회, list: 목록 조회, poll: operation 상태 조회
+ * - write: 스토어 생성, upload: 파일 업로드, delete: 삭제, query: 생성 쿼리
+ */
+export type RetryCallType =
+  | "read"
+  | "list"
+  | "poll"
+  | "write"
+  | "upload"
+  | "delete"
+  | "query";
+
+/**
+ * 재시도 옵션
+ */
+export interface RetryOptions {
+  /** 이번 호출에만 적용할 정책 변경 */
+  policy?: Partial<RetryPolicy>;
+  /** 취소 신호 (없으면 trackRetries에 전달된 요청 신호 사용) */
+  signal?: AbortSignal;
+}
+
+const TRANSIENT_STATUSES = [429, 500, 502, 503, 504];
+
+/** 호출 종류별 재시도 정책 */
+const RETRY_POLICIES: Record<RetryCallType, RetryPolicy> = {
+  read: {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 10_000,
+    jitter: 0.3,
+    retryableStatuses: TRANSIENT_STATUSES,
+  },
+  list: {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 10_000,
+    jitter: 0.3,
+    retryableStatuses: TRANSIENT_STATUSES,
+  },
+  poll: {
+    maxRetries: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+    jitter: 0.3,
+    retryableStatuses: TRANSIENT_STATUSES,
+  },
+  // 생성은 처리 여부를 알 수 없는 5xx에서 재시도하면 중복될 수 있음
+  write: {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+    jitter: 0.3,
+    retryableStatuses: [429, 503],
+  },
+  // 업로드도 처리 여부를 알 수 없는 5xx에서 재시도하면 중복 문서가 생길 수 있음
+  upload: {
+    maxRetries: 4,
+    baseDelayMs: 2000,
+    maxDelayMs: 60_000,
+    jitter: 0.3,
+    retryableStatuses: [429, 503],
+  },
+  delete: {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+    jitter: 0.3,
+    retryableStatuses: TRANSIENT_STATUSES,
+  },
+  // 사용자가 기다리는 요청이므로 짧게
+  query: {
+    maxRetries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 15_000,
+    jitter: 0.3,
+    retryableStatuses: [429, 500, 503],
+  },
+};
+
+/**
+ * 호출 종류의 재시도 정책 조회
+ */
+export function getRetryPolicy(callType: RetryCallType): RetryPolicy {
+  return RETRY_POLICIES[callType];
+}
+
+/**
+ * 호출 종류의 재시도 정책 변경 (예: 배치 작업에서 재시도 횟수 증가)
+ */
+export function configureRetryPolicy(
+  callType: RetryCallType,
+  patch: Partial<RetryPolicy>
+): void {
+  RETRY_POLICIES[callType] = { ...RETRY_POLICIES[callType], ...patch };
+}
+
+/**
+ * 환경 변수의 0 이상 정수 값 (없거나 잘못된 값이면 undefined)
+ */
+function readEnvInteger(name: string): number | undefined {
+  const raw = process.env[name]?.trim();
+  if (!raw || !/^\d+$/.test(raw)) return undefined;
+  return parseInt(raw, 10);
+}
+
+/**
+ * 환경 변수의 재시도 정책 변경 적용 (모듈 로드 시 한 번)
+ */
+function applyRetryPolicyEnv(): void {
+  for (const callType of Object.keys(RETRY_POLICIES) as RetryCallType[]) {
+    const prefix = `RETRY_${callType.toUpperCase()}`;
+    const maxRetries = readEnvInteger(`${prefix}_MAX_RETRIES`);
+    const maxDelayMs = readEnvInteger(`${prefix}_MAX_DELAY_MS`);
+    configureRetryPolicy(callType, {
+      ...(maxRetries !== undefined && { maxRetries }),
+      ...(maxDelayMs !== undefined && { maxDelayMs }),
+    });
+  }
+}
+
+applyRetryPolicyEnv();
+
+/**
+ * 시간 문자열을 ms로 변환 ("24s", "1.5s", Retry-After의 초 또는 HTTP 날짜)
+ */
+function parseDelay(value: string): number | null {
+  const trimmed = value.trim();
+  const seconds = /^(\d+(?:\.\d+)?)s?$/.exec(trimmed);
+  if (seconds) {
+    return Math.ceil(parseFloat(seconds[1]!) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * 에러에서 서버가 요구한 대기 시간(ms) 추출
+ * - Retry-After 헤더 (headers 또는 retryAfter 속성)
+ * - 429 응답 본문의 google.rpc.RetryInfo retryDelay (SDK 에러 메시지에 JSON으로 포함)
+ *
+ * @returns 대기 시간 (알 수 없으면 null)
+ */
+export function getServerRetryDelay(error: any): number | null {
+  const header =
+    (typeof error?.headers?.get === "function"
+      ? error.headers.get("retry-after")
+      : error?.headers?.["retry-after"]) ?? error?.retryAfter;
+  if (header !== undefined && header !== null) {
+    const delay = parseDelay(String(header));
+    if (delay !== null) return delay;
+  }
+
+  const retryInfo = /"retryDelay"\s*:\s*"([\d.]+s)"/.exec(
+    String(error?.message || "")
+  );
+  return retryInfo ? parseDelay(retryInfo[1]!) : null;
+}
+
+/**
+ * 재시도 전 대기 시간 계산
+ *
+ * @param attempt - 지금까지 실패한 시도 횟수 - 1 (첫 재시도는 0)
+ * @returns 대기 시간(ms), 재시도하지 않아야 하면 null
+ */
+export function getRetryDelay(
+  error: any,
+  attempt: number,
+  policy: RetryPolicy
+): number | null {
+  const status = error?.status || error?.statusCode;
+  if (
+    attempt >= policy.maxRetries ||
+    !policy.retryableStatuses.includes(status)
+  ) {
+    return null;
+  }
+
+  const serverDelay = getServerRetryDelay(error);
+  if (serverDelay !== null) {
+    // 요구한 시간을 기다릴 수 없으면 재시도하지 않음 (한도가 풀리기 전 재요청 방지)
+    if (serverDelay > policy.maxDelayMs) return null;
+    return serverDelay + Math.random() * policy.jitter * policy.baseDelayMs;
+  }
+
+  const delay = Math.min(
+    policy.baseDelayMs * Math.pow(2, attempt),
+    policy.maxDelayMs
+  );
+  return delay * (1 - policy.jitter + Math.random() * policy.jitter * 2);
+}
+
+function abortError(signal: AbortSignal): Error {
+  if (signal.reason instanceof Error) return signal.reason;
+  const error = new Error("재시도가 취소되었습니다");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * 취소할 수 있는 대기
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+interface RetryContext {
+  report: RetryReport;
+  signal?: AbortSignal;
+}
+
+const retryContext = new AsyncLocalStorage<RetryContext>();
+
+/**
+ * 재시도 정책을 적용하여 비동기 함수 실행
+ *
+ * @param callType - 호출 종류 (정책 선택)
+ * @param fn - 실행할 비동기 함수
+ * @param options - 정책 변경 및 취소 신호
+ * @returns 함수 실행 결과
+ */
+export async function withRetry<T>(
+  callType: RetryCallType,
+  fn: () => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = { ...RETRY_POLICIES[callType], ...options.policy };
+  const context = retryContext.getStore();
+  const signal = options.signal || context?.signal;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw abortError(signal);
+    }
+
+    try {
+      return await fn();
+    } catch (error: any) {
+      const delay = signal?.aborted
+        ? null
+        : getRetryDelay(error, attempt, policy);
+      if (delay === null) {
+        throw error;
+      }
+
+      const waitMs = Math.round(delay);
+      console.log(
+        `재시도 ${attempt + 1}/${policy.maxRetries} (${callType}, ${error.status || error.statusCode}) - ${waitMs}ms 후 재시도...`
+      );
+      if (context) {
+        context.report.retries++;
+        context.report.delayMs += waitMs;
+      }
+      await sleep(waitMs, signal);
+    }
+  }
+}
+
+/**
+ * 함수 실행 중 발생한 재시도 집계
+ * fn 안에서 호출된 withRetry는 signal이 없으면 여기서 전달한 signal로 취소됩니다
+ *
+ * @returns 함수 결과와 재시도 집계
+ */
+export async function trackRetries<T>(
+  fn: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ result: T; report: RetryReport }> {
+  const context: RetryContext = { report: { retries: 0, delayMs: 0 }, signal };
+  const result = await retryContext.run(context, fn);
+  return { result, report: context.report };
+}
@@ -0,0 +1,544 @@
+/**
+ * Request Schemas
+ *
+ * API 라우트 입력(JSON 본문, multipart 필드, 경로 파라미터)의 런타임 스키마
+ * - 잘못된 입력은 400 + 필드별 오류(fieldErrors)로 응답
+ * - types/api.ts의 요청 타입은 이 스키마에서 추론
+ * - 오류 메시지는 한국어 (zod ko 로케일)
+ */
+
+import * as z from "zod";
+import { ApiRouteError } from "@/lib/api-error";
+import { MAX_TOKENS_PER_CHUNK, MIN_TOKENS_PER_CHUNK } from "@/lib/chunking";
+import {
+  DUPLICATE_POLICIES,
+  MAX_USER_METADATA,
+  isReservedMetadataKey,
+} from "@/lib/document-metadata";
+import { validateMetadataFilter } from "@/lib/metadata-filter";
+import {
+  MAX_ALLOWED_DOMAINS,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+} from "@/lib/web-crawl";
+import { HarmBlockThreshold, HarmCategory } from "@/types/gemini";
+import type { ApiErrorCode, ApiErrorDetails, ApiFieldError } from "@/types";
+
+/** 단일 질문/시스템 지시사항 최대 길이 */
+const MAX_TEXT_LENGTH = 10_000;
+/** 멀티턴 대화 최대 턴 수 */
+const MAX_CONTENTS = 100;
+/** 멀티 스토어 쿼리에서 한 번에 검색할 수 있는 최대 스토어 수 */
+const MAX_QUERY_STORES = 10;
+/** 메타데이터 필터 최대 길이 */
+const MAX_METADATA_FILTER_LENGTH = 2048;
+/** 목록 페이지 최대 크기 (File Search 목록 API 제한) */
+const MAX_PAGE_SIZE = 20;
+
+const errorMap = z.locales.ko().localeError;
+
+// ============================================
+// Path Parameters
+// ============================================
+
+/** 스토어 ID ("fileSearchStores/" 프리픽스 허용) */
+const storeIdSchema = z
+  .string()
+  .trim()
+  .max(128)
+  .regex(
+    /^(fileSearchStores\/)?[a-z0-9][a-z0-9-]*$/,
+    "스토어 ID는 소문자, 숫자, 대시만 사용할 수 있습니다"
+  );
+
+/** URL 인코딩된 경로 세그먼트 디코딩 */
+const encodedSegmentSchema = z
+  .string()
+  .min(1)
+  .transform((value, ctx) => {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      ctx.addIssue({ code: "custom", message: "URL 인코딩이 잘못되었습니다" });
+      return z.NEVER;
+    }
+  });
+
+export const storeParamsSchema = z.object({ storeId: storeIdSchema });
+
+/** docName은 문서 ID 또는 표시 이름 (디코딩된 값으로 변환) */
+export const documentParamsSchema = z.object({
+  storeId: storeIdSchema,
+  docName: encodedSegmentSchema.pipe(z.string().trim().min(1).max(1024)),
+});
+
+/** id는 URL 인코딩된 operation 이름 (디코딩된 값으로 변환) */
+export const operationParamsSchema = z.object({
+  id: encodedSegmentSchema.pipe(
+    z
+      .string()
+      .refine(
+        (name) =>
+          name.startsWith("fileSearchStores/") && name.includes("/operations/"),
+        "잘못된 operation 이름입니다"
+      )
+  ),
+});
+
+// ============================================
+// Query Parameters
+// ============================================
+
+/** 목록 페이지 (pageToken/pageSize) */
+export const pageQuerySchema = z.object({
+  pageToken: z.string().min(1).optional(),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+});
+
+// ============================================
+// JSON Bodies
+// ============================================
+
+/** POST /api/stores */
+export const createStoreRequestSchema = z.object({
+  displayName: z.string().trim().min(1).max(512),
+});
+
+const contentSchema = z.object({
+  role: z.enum(["user", "model"]),
+  parts: z.array(z.object({ text: z.string() })),
+});
+
+const generationConfigSchema = z.object({
+  stopSequences: z.array(z.string()).max(5).optional(),
+  responseMimeType: z.string().optional(),
+  responseSchema: z.record(z.string(), z.any()).optional(),
+  candidateCount: z.number().int().min(1).max(8).optional(),
+  maxOutputTokens: z.number().int().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  topP: z.number().min(0).max(1).optional(),
+  topK: z.number().int().min(1).optional(),
+  seed: z.number().int().optional(),
+  presencePenalty: z.number().min(-2).max(2).optional(),
+  frequencyPenalty: z.number().min(-2).max(2).optional(),
+  responseLogprobs: z.boolean().optional(),
+  logprobs: z.number().int().min(0).max(20).optional(),
+});
+
+const safetySettingSchema = z.object({
+  category: z.enum(HarmCategory),
+  threshold: z.enum(HarmBlockThreshold),
+});
+
+/** POST /api/stores/[storeId]/query */
+export const queryRequestSchema = z.object({
+  /** 단일 질문 (contents가 없을 때 사용) */
+  query: z.string().max(MAX_TEXT_LENGTH).optional(),
+  /** 멀티턴 대화 내용 (user/model 역할, 마지막은 user 턴) */
+  contents: z.array(contentSchema).max(MAX_CONTENTS).optional(),
+  metadataFilter: z
+    .string()
+    .max(MAX_METADATA_FILTER_LENGTH)
+    .nullable()
+    .optional()
+    .superRefine((filter, ctx) => {
+      const error = filter ? validateMetadataFilter(filter) : null;
+      if (error) {
+        ctx.addIssue({ code: "custom", message: error });
+      }
+    }),
+  model: z
+    .string()
+    .regex(/^[\w.\-/]+$/, "모델 이름이 올바르지 않습니다")
+    .optional(),
+  /** 시스템 지시사항 */
+  systemInstruction: z.string().max(MAX_TEXT_LENGTH).optional(),
+  /** 생성 구성 옵션 */
+  generationConfig: generationConfigSchema.optional(),
+  /** 안전 설정 */
+  safetySettings: z.array(safetySettingSchema).max(10).optional(),
+});
+
+/** POST /api/query */
+export const multiStoreQueryRequestSchema = queryRequestSchema.extend({
+  /** 검색할 스토어 ID 목록 */
+  storeIds: z.array(storeIdSchema).min(1).max(MAX_QUERY_STORES),
+});
+
+// ============================================
+// Multipart Fields
+// ============================================
+
+/**
+ * 업로드 폼의 customMetadata 항목
+ * value는 type에 맞는 문자열 (stringList는 쉼표로 구분)
+ */
+export const customMetadataEntrySchema = z
+  .object({
+    key: z.string().trim().min(1).max(128),
+    type: z.enum(["string", "number", "stringList"]).default("string"),
+    value: z.union([z.string(), z.number()]),
+  })
+  .superRefine((entry, ctx) => {
+    if (isReservedMetadataKey(entry.key)) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["key"],
+        message: `'${entry.key}' 키는 사용할 수 없습니다`,
+        params: { code: "RESERVED_METADATA_KEY", key: entry.key },
+      });
+    }
+    if (
+      entry.type === "number" &&
+      (String(entry.value).trim() === "" || !isFinite(Number(entry.value)))
+    ) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["value"],
+        message: "number 타입의 값은 숫자여야 합니다",
+      });
+    }
+  });
+
+/** customMetadata 필드 (JSON 배열 문자열) */
+export const customMetadataFieldSchema = z
+  .string()
+  .transform((value, ctx) => {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      ctx.addIssue({
+        code: "custom",
+        message: "customMetadata는 올바른 JSON이어야 합니다",
+      });
+      return z.NEVER;
+    }
+  })
+  .pipe(z.array(customMetadataEntrySchema).max(MAX_USER_METADATA));
+
+/** 폼 문자열 숫자 필드 (빈 값은 생략으로 간주) */
+const optionalIntegerField = (schema: z.ZodNumber) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() ? Number(value) : undefined,
+    schema.optional()
+  );
+
+/** 청킹 설정 필드 (교차 검증은 validateChunkingConfig) */
+export const chunkingFieldsSchema = z.object({
+  maxTokensPerChunk: optionalIntegerField(
+    z.number().int().min(MIN_TOKENS_PER_CHUNK).max(MAX_TOKENS_PER_CHUNK)
+  ),
+  maxOverlapTokens: optionalIntegerField(z.number().int().min(0)),
+});
+
+/** 중복 업로드 정책 필드 (같은 내용의 문서가 이미 있을 때) */
+export const duplicatePolicyFieldsSchema = z.object({
+  duplicatePolicy: z.enum(DUPLICATE_POLICIES).default(DUPLICATE_POLICIES[0]),
+  /** 파일명별 정책 ({ "파일명": "skip" | "replace" | "keep" } JSON 문자열) */
+  duplicatePolicies: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({
+          code: "custom",
+          message: "duplicatePolicies는 올바른 JSON이어야 합니다",
+        });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.string(), z.enum(DUPLICATE_POLICIES)))
+    .optional(),
+});
+
+/** 도메인 이름 (*.example.com 형식 허용) */
+const domainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    /^(\*\.)?[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/,
+    "도메인 형식이 올바르지 않습니다"
+  );
+
+/** URL 가져오기 필드 (업로드 라우트에서 files 대신 url을 보낼 때) */
+export const urlIngestFieldsSchema = z.object({
+  /** 시작 페이지 또는 사이트맵 URL */
+  url: z.url({ protocol: /^https?$/ }).max(2048),
+  mode: z.enum(["auto", "page", "sitemap"]).default("auto"),
+  maxDepth: optionalIntegerField(z.number().int().min(0).max(MAX_CRAWL_DEPTH)),
+  maxPages: optionalIntegerField(z.number().int().min(1).max(MAX_CRAWL_PAGES)),
+  /** 쉼표로 구분한 허용 도메인 (생략 시 시작 URL의 호스트) */
+  allowedDomains: z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim()
+        ? value
+            .split(",")
+            .map((domain) => domain.trim())
+            .filter((domain) => domain)
+        : undefined,
+    z.array(domainSchema).max(MAX_ALLOWED_DOMAINS).optional()
+  ),
+});
+
+/** 한 번에 동기화할 수 있는 최대 파일 수 (디렉터리, 매니페스트) */
+export const MAX_SYNC_ENTRIES = 5000;
+
+/** 폼 문자열 불리언 필드 ("true" | "false", 생략 시 false) */
+const booleanField = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((value) => value === "true");
+
+/** 파일 내용의 SHA-256 (16진수) */
+const sha256Schema = z
+  .string()
+  .toLowerCase()
+  .regex(/^[0-9a-f]{64}$/, "SHA-256 16진수 문자열이어야 합니다");
+
+/** 동기화 매니페스트 항목 */
+export const syncManifestEntrySchema = z.object({
+  /** /로 구분한 상대 경로 (문서 표시 이름) */
+  path: z
+    .string()
+    .min(1)
+    .max(1024)
+    .refine(
+      (value) =>
+        value
+          .split("/")
+          .every((segment) => segment && segment !== "." && segment !== ".."),
+      "path는 /로 구분한 상대 경로여야 합니다 (빈 세그먼트, ., .. 불가)"
+    ),
+  hash: sha256Schema,
+});
+
+/** 동기화 필드 (서버 디렉터리 또는 업로드한 매니페스트 중 하나) */
+export const syncFieldsSchema = z
+  .object({
+    /** SYNC_ROOT 기준 디렉터리 경로 */
+    directory: z.string().trim().min(1).max(1024).optional(),
+    /** [{ path, hash }] JSON 문자열 */
+    manifest: z
+      .string()
+      .transform((value, ctx) => {
+        try {
+          return JSON.parse(value) as unknown;
+        } catch {
+          ctx.addIssue({
+            code: "custom",
+            message: "manifest는 올바른 JSON이어야 합니다",
+          });
+          return z.NEVER;
+        }
+      })
+      .pipe(
+        z
+          .array(syncManifestEntrySchema)
+          .max(MAX_SYNC_ENTRIES)
+          .refine(
+            (entries) =>
+              new Set(entries.map((entry) => entry.path)).size ===
+              entries.length,
+            "manifest에 같은 path가 여러 번 있습니다"
+          )
+      )
+      .optional(),
+    /** 동기화 대상에 없는 문서 삭제 */
+    deleteRemoved: booleanField,
+    /** 계획만 반환 */
+    dryRun: booleanField,
+  })
+  .refine(
+    (fields) =>
+      (fields.directory === undefined) !== (fields.manifest === undefined),
+    {
+      message: "directory와 manifest 중 하나만 지정해야 합니다",
+      path: ["directory"],
+    }
+  );
+
+/** 스토어 매니페스트 (GET /api/stores/[storeId]/export 응답, 복원 요청의 manifest) */
+export const storeManifestSchema = z.object({
+  manifestVersion: z.literal(1),
+  exportedAt: z.string(),
+  store: z.looseObject({
+    name: z.string(),
+    displayName: z.string(),
+  }),
+  documents: z.array(
+    z.looseObject({
+      displayName: z.string().min(1).max(1024),
+      mimeType: z.string().optional(),
+      /** API 형식 메타데이터 (stringValue | numericValue | stringListValue) */
+      customMetadata: z
+        .array(
+          z.object({
+            key: z.string().min(1),
+            stringValue: z.string().optional(),
+            numericValue: z.number().optional(),
+            stringListValue: z
+              .object({ values: z.array(z.string()) })
+              .optional(),
+          })
+        )
+        .max(MAX_USER_METADATA),
+      chunking: z
+        .object({
+          maxTokensPerChunk: z
+            .number()
+            .int()
+            .min(MIN_TOKENS_PER_CHUNK)
+            .max(MAX_TOKENS_PER_CHUNK),
+          maxOverlapTokens: z.number().int().min(0),
+        })
+        .nullable(),
+      contentHash: sha256Schema.optional(),
+      version: z.number().int().min(1),
+    })
+  ),
+});
+
+/** 스토어 복원 필드 (POST /api/stores/restore) */
+export const restoreFieldsSchema = z.object({
+  /** 내보낸 매니페스트 JSON 문자열 */
+  manifest: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        ctx.addIssue({
+          code: "custom",
+          message: "manifest는 올바른 JSON이어야 합니다",
+        });
+        return z.NEVER;
+      }
+    })
+    .pipe(storeManifestSchema),
+  /** 새 스토어 표시 이름 (생략 시 매니페스트의 스토어 이름) */
+  displayName: createStoreRequestSchema.shape.displayName.optional(),
+});
+
+// ============================================
+// Client Files
+// ============================================
+
+/** 설정 프리셋 이름 최대 길이 */
+export const MAX_PRESET_NAME_LENGTH = 100;
+/** 프리셋 파일 하나에 담을 수 있는 최대 프리셋 수 */
+const MAX_PRESETS_PER_FILE = 100;
+
+/** 워크스페이스 설정 프리셋 파일 (가져오기/내보내기, 쿼리 요청과 같은 검증) */
+export const settingsPresetFileSchema = z.object({
+  presetsVersion: z.literal(1),
+  exportedAt: z.string(),
+  presets: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(MAX_PRESET_NAME_LENGTH),
+        model: queryRequestSchema.shape.model.unwrap(),
+        systemInstruction: z.string().max(MAX_TEXT_LENGTH).default(""),
+        generationConfig: generationConfigSchema
+          .pick({
+            temperature: true,
+            maxOutputTokens: true,
+            topP: true,
+            topK: true,
+          })
+          .default({}),
+        safetySettings: z.array(safetySettingSchema).max(10).default([]),
+        metadataFilter: queryRequestSchema.shape.metadataFilter.transform(
+          (filter) => filter ?? ""
+        ),
+      })
+    )
+    .max(MAX_PRESETS_PER_FILE)
+    .refine(
+      (presets) =>
+        new Set(presets.map((preset) => preset.name)).size === presets.length,
+      { message: "프리셋 이름이 중복됩니다" }
+    ),
+});
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * 오류 경로를 필드 이름으로 변환 (예: "generationConfig.temperature", "customMetadata[2].value")
+ */
+function formatPath(path: PropertyKey[], prefix?: string): string {
+  return path.reduce<string>(
+    (field, segment) =>
+      typeof segment === "number"
+        ? `${field}[${segment}]`
+        : field
+          ? `${field}.${String(segment)}`
+          : String(segment),
+    prefix || ""
+  );
+}
+
+/**
+ * 스키마로 입력 검증
+ * 실패하면 첫 번째 오류의 메시지와 필드, 전체 필드별 오류를 담은 ApiRouteError 반환
+ * (custom 오류의 params.code가 있으면 그 에러 코드와 params를 details로 사용)
+ *
+ * @param code - 검증 실패 시 에러 코드
+ * @param options.field - 오류 경로 앞에 붙일 필드 이름 (예: multipart 필드 이름)
+ * @param options.details - 에러 details에 추가할 값
+ */
+export function parseWithSchema<S extends z.ZodType>(
+  schema: S,
+  input: unknown,
+  code: ApiErrorCode = "INVALID_REQUEST",
+  options: { field?: string; details?: ApiErrorDetails } = {}
+): { data: z.output<S> } | { error: ApiRouteError } {
+  const result = schema.safeParse(input, { error: errorMap });
+  if (result.success) {
+    return { data: result.data };
+  }
+
+  const fieldErrors: ApiFieldError[] = result.error.issues.map((issue) => ({
+    field: formatPath(issue.path, options.field) || "body",
+    message: issue.message,
+  }));
+  const first = result.error.issues[0]!;
+  const firstField = fieldErrors[0]!;
+  const { code: issueCode, ...params } =
+    first.code === "custom" && first.params ? first.params : {};
+
+  return {
+    error: new ApiRouteError(
+      (issueCode as ApiErrorCode | undefined) || code,
+      `${firstField.field}: ${firstField.message}`,
+      { ...options.details, ...params, field: firstField.field },
+      fieldErrors
+    ),
+  };
+}
+
+/**
+ * 요청 본문(JSON)을 읽고 스키마로 검증
+ */
+export async function parseJsonBody<S extends z.ZodType>(
+  request: Request,
+  schema: S
+): Promise<{ data: z.output<S> } | { error: ApiRouteError }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      error: new ApiRouteError(
+        "INVALID_REQUEST",
+        "요청 본문은 올바른 JSON이어야 합니다",
+        { field: "body" }
+      ),
+    };
+  }
+  return parseWithSchema(schema, body);
+}
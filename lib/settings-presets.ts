@@ -0,0 +1,106 @@
+/**
+ * Settings Presets
+ *
+ * 워크스페이스 설정 프리셋의 생성/비교와 JSON 파일 변환
+ * - 프리셋: 모델, 시스템 지시, 생성 설정, 안전 설정, 메타데이터 필터
+ * - 파일에는 이름과 설정만 포함 (ID, 기본 프리셋 지정은 포함하지 않음)
+ * - 가져오기 검증은 settingsPresetFileSchema (쿼리 요청과 같은 제한)
+ */
+
+import { settingsPresetFileSchema } from "@/lib/schemas";
+import type { ModelState } from "@/types/store";
+import type {
+  PresetSettings,
+  SettingsPreset,
+  SettingsPresetFile,
+} from "@/types";
+
+/**
+ * 현재 워크스페이스 설정을 프리셋 설정으로 변환
+ * 값이 없는 생성 설정 항목은 포함하지 않음
+ */
+export function pickPresetSettings(
+  state: Pick<
+    ModelState,
+    | "selectedModel"
+    | "systemInstruction"
+    | "temperature"
+    | "maxOutputTokens"
+    | "topP"
+    | "topK"
+    | "safetySettings"
+    | "metadataFilter"
+  >
+): PresetSettings {
+  const { temperature, maxOutputTokens, topP, topK } = state;
+  return {
+    model: state.selectedModel,
+    systemInstruction: state.systemInstruction.trim(),
+    generationConfig: {
+      ...(temperature !== undefined && { temperature }),
+      ...(maxOutputTokens !== undefined && { maxOutputTokens }),
+      ...(topP !== undefined && { topP }),
+      ...(topK !== undefined && { topK }),
+    },
+    safetySettings: state.safetySettings,
+    metadataFilter: state.metadataFilter.trim(),
+  };
+}
+
+/**
+ * 두 설정이 같은지 비교 (항목 순서 무시)
+ */
+export function isSamePresetSettings(
+  a: PresetSettings,
+  b: PresetSettings
+): boolean {
+  const normalize = (settings: PresetSettings) =>
+    JSON.stringify([
+      settings.model,
+      settings.systemInstruction,
+      settings.generationConfig.temperature,
+      settings.generationConfig.maxOutputTokens,
+      settings.generationConfig.topP,
+      settings.generationConfig.topK,
+      [...settings.safetySettings]
+        .map(({ category, threshold }) => `${category}=${threshold}`)
+        .sort(),
+      settings.metadataFilter,
+    ]);
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * 프리셋 목록을 내보낼 파일 내용으로 변환
+ */
+export function buildPresetFile(presets: SettingsPreset[]): SettingsPresetFile {
+  return {
+    presetsVersion: 1,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map((preset) => ({
+      name: preset.name,
+      model: preset.model,
+      systemInstruction: preset.systemInstruction,
+      generationConfig: preset.generationConfig,
+      safetySettings: preset.safetySettings,
+      metadataFilter: preset.metadataFilter,
+    })),
+  };
+}
+
+/**
+ * 프리셋 파일 내용 검증
+ *
+ * @param text - 파일 텍스트
+ * @returns 검증된 파일 (JSON이 아니거나 형식이 맞지 않으면 null)
+ */
+export function parsePresetFile(text: string): SettingsPresetFile | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const result = settingsPresetFileSchema.safeParse(value);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,352 @@
+/**
+ * Store Backup
+ *
+ * 스토어 매니페스트 내보내기와 새 스토어로 복원
+ * (GET /api/stores/[storeId]/export, POST /api/stores/restore, CLI stores export/restore)
+ * - 매니페스트: 스토어 설정과 문서별 표시 이름, MIME 타입, 크기, 메타데이터, 청킹 설정, 내용 해시, 버전
+ * - 파일 내용은 포함하지 않으므로 복원하려면 원본 파일의 ZIP 아카이브가 필요
+ * - 아카이브 항목은 내용 해시 → 경로(source_path, 표시 이름) → 파일 이름 순으로 문서와 연결
+ * - MAX_FILE_SIZE를 넘는 항목은 압축을 풀지 않음 (연결된 문서는 FILE_TOO_LARGE로 실패)
+ * - 아카이브에 없는 문서와 어떤 문서와도 연결되지 않은 항목은 결과에 보고
+ * - 인덱싱 완료를 기다리지 않고 문서별 operation 이름을 반환
+ */
+
+import path from "node:path";
+import {
+  computeContentHash,
+  createFileSearchStore,
+  getMimeType,
+  listDocuments,
+  startUploadWithCustomChunking,
+  sweepReplacedDocuments,
+} from "@/lib/gemini";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import { isIgnoredEntry } from "@/lib/archive-import";
+import { readChunkingMetadata } from "@/lib/chunking";
+import {
+  getUserMetadata,
+  readContentHash,
+  readDocumentVersion,
+  readSourcePath,
+  toVersionMetadata,
+} from "@/lib/document-metadata";
+import {
+  MAX_ARCHIVE_ENTRIES,
+  MAX_ARCHIVE_SIZE,
+  MAX_FILE_SIZE,
+} from "@/lib/upload-form";
+import { readZipEntries, type ZipEntry } from "@/lib/zip";
+import type {
+  FileSearchDocument,
+  FileSearchStore,
+  RestoreDocumentResult,
+  RestoreStoreResponse,
+  StoreManifest,
+  StoreManifestDocument,
+} from "@/types";
+
+/** 동시에 업로드할 문서 수 */
+const UPLOAD_CONCURRENCY = 4;
+
+/** 복원에 사용하는 매니페스트 문서 정보 */
+type RestorableDocument = Pick<
+  StoreManifestDocument,
+  | "displayName"
+  | "mimeType"
+  | "customMetadata"
+  | "chunking"
+  | "contentHash"
+  | "version"
+>;
+
+/**
+ * 내용 해시를 계산한 아카이브 항목 (크기 제한을 넘는 항목은 해시가 없음)
+ * 내용은 보관하지 않고 업로드할 때 다시 압축을 풂
+ */
+interface HashedEntry {
+  entry: ZipEntry;
+  hash?: string;
+}
+
+/**
+ * 아카이브 항목과 문서의 연결
+ */
+interface DocumentMatch {
+  entry: HashedEntry;
+  matchedBy: NonNullable<RestoreDocumentResult["matchedBy"]>;
+}
+
+/**
+ * 스토어와 문서 목록으로 매니페스트 생성 (문서는 표시 이름순)
+ */
+export function buildStoreManifest(
+  store: FileSearchStore,
+  documents: FileSearchDocument[]
+): StoreManifest {
+  return {
+    manifestVersion: 1,
+    exportedAt: new Date().toISOString(),
+    store: {
+      name: store.name,
+      displayName: store.displayName,
+      createTime: store.createTime,
+      updateTime: store.updateTime,
+      sizeBytes:
+        store.sizeBytes === undefined ? undefined : Number(store.sizeBytes),
+      documentCount: documents.length,
+    },
+    documents: [...documents]
+      .sort((a, b) => a.displayName.localeCompare(b.displayName))
+      .map((document) => ({
+        name: document.name,
+        displayName: document.displayName,
+        mimeType: document.mimeType,
+        sizeBytes:
+          document.sizeBytes === undefined
+            ? undefined
+            : Number(document.sizeBytes),
+        createTime: document.createTime,
+        customMetadata: getUserMetadata(document.customMetadata),
+        chunking: readChunkingMetadata(document.customMetadata),
+        contentHash: readContentHash(document.customMetadata),
+        version: readDocumentVersion(document.customMetadata),
+      })),
+  };
+}
+
+/**
+ * 스토어 매니페스트 내보내기
+ *
+ * @param store - 내보낼 스토어 객체
+ * @param apiKey - Gemini API 키 (필수)
+ */
+export async function exportStoreManifest(
+  store: FileSearchStore,
+  apiKey: string
+): Promise<StoreManifest> {
+  const documents = await sweepReplacedDocuments(
+    await listDocuments(store, apiKey),
+    apiKey
+  );
+  console.log(`📤 매니페스트 내보내기: ${documents.length}개 문서`);
+  return buildStoreManifest(store, documents);
+}
+
+/**
+ * 문서와 연결할 아카이브 항목 찾기
+ * 1. 내용 해시가 같은 항목
+ * 2. 경로가 source_path 또는 표시 이름과 같은 항목
+ * 3. 파일 이름이 표시 이름의 파일 이름과 같은 유일한 항목
+ */
+function matchDocument(
+  document: RestorableDocument,
+  byHash: Map<string, HashedEntry>,
+  byPath: Map<string, HashedEntry>,
+  byName: Map<string, HashedEntry[]>
+): DocumentMatch | undefined {
+  const hashMatch = document.contentHash && byHash.get(document.contentHash);
+  if (hashMatch) {
+    return { entry: hashMatch, matchedBy: "hash" };
+  }
+
+  for (const candidate of [
+    readSourcePath(document.customMetadata),
+    document.displayName,
+  ]) {
+    const pathMatch = candidate && byPath.get(candidate);
+    if (pathMatch) {
+      return { entry: pathMatch, matchedBy: "path" };
+    }
+  }
+
+  const nameMatches = byName.get(path.posix.basename(document.displayName));
+  if (nameMatches?.length === 1) {
+    return { entry: nameMatches[0]!, matchedBy: "name" };
+  }
+  return undefined;
+}
+
+/**
+ * 문서 하나 업로드 (실패해도 throw하지 않고 결과로 반환)
+ */
+async function restoreDocument(
+  store: FileSearchStore,
+  document: RestorableDocument,
+  match: DocumentMatch,
+  apiKey: string
+): Promise<RestoreDocumentResult> {
+  const { entry, hash } = match.entry;
+  const result: RestoreDocumentResult = {
+    fileName: document.displayName,
+    success: false,
+    archivePath: entry.path,
+    matchedBy: match.matchedBy,
+    ...(document.contentHash &&
+      hash &&
+      document.contentHash !== hash && { contentChanged: true }),
+  };
+
+  try {
+    if (entry.size > MAX_FILE_SIZE) {
+      throw new ApiRouteError(
+        "FILE_TOO_LARGE",
+        `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
+        { maxSize: MAX_FILE_SIZE / 1024 / 1024 }
+      );
+    }
+
+    const operation = await startUploadWithCustomChunking(
+      store,
+      entry.read(),
+      {
+        displayName: document.displayName,
+        mimeType: document.mimeType || getMimeType(entry.path),
+        customMetadata: [
+          ...getUserMetadata(document.customMetadata),
+          ...(document.version > 1
+            ? [toVersionMetadata(document.version)]
+            : []),
+        ],
+        maxTokensPerChunk: document.chunking?.maxTokensPerChunk,
+        maxOverlapTokens: document.chunking?.maxOverlapTokens,
+        contentHash: hash,
+      },
+      apiKey
+    );
+    return { ...result, success: true, operationName: operation.name };
+  } catch (error: any) {
+    console.error(`문서 복원 오류 (${document.displayName}):`, error);
+    const apiError = toApiRouteError(error);
+    return {
+      ...result,
+      error: apiError.message,
+      code: apiError.code,
+      details: apiError.details,
+    };
+  }
+}
+
+/**
+ * 매니페스트와 원본 파일 아카이브로 새 스토어 복원
+ * 아카이브가 올바르지 않거나 연결되는 문서가 하나도 없으면 스토어를 만들지 않음
+ *
+ * @param manifest - 내보낸 매니페스트 (documents만 사용)
+ * @param archive - 원본 파일 ZIP 내용
+ * @param displayName - 새 스토어 표시 이름
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 새 스토어와 문서별 결과 (매니페스트 순서)
+ * @throws ApiRouteError - 아카이브를 읽을 수 없거나, 제한을 넘거나, 연결되는 문서가 없을 때
+ */
+export async function restoreStore(
+  manifest: { documents: RestorableDocument[] },
+  archive: Buffer,
+  displayName: string,
+  apiKey: string
+): Promise<RestoreStoreResponse> {
+  if (archive.length > MAX_ARCHIVE_SIZE) {
+    throw new ApiRouteError(
+      "FILE_TOO_LARGE",
+      `ZIP 파일 크기가 ${MAX_ARCHIVE_SIZE / 1024 / 1024}MB를 초과합니다`,
+      { maxSize: MAX_ARCHIVE_SIZE / 1024 / 1024 }
+    );
+  }
+
+  const entries = readZipEntries(archive).filter(
+    (entry) => !isIgnoredEntry(entry)
+  );
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new ApiRouteError(
+      "TOO_MANY_FILES",
+      `ZIP 파일에는 최대 ${MAX_ARCHIVE_ENTRIES}개의 파일만 포함할 수 있습니다`,
+      { max: MAX_ARCHIVE_ENTRIES }
+    );
+  }
+
+  // 항목 색인 (같은 해시/경로는 아카이브에서 먼저 나온 항목)
+  // 해시만 보관하고 내용은 업로드할 때 다시 읽음 (압축을 푼 내용이 메모리에 쌓이지 않도록)
+  const byHash = new Map<string, HashedEntry>();
+  const byPath = new Map<string, HashedEntry>();
+  const byName = new Map<string, HashedEntry[]>();
+  for (const entry of entries) {
+    const name = path.posix.basename(entry.path);
+    const hashed: HashedEntry = { entry };
+    if (entry.size <= MAX_FILE_SIZE) {
+      hashed.hash = await computeContentHash(entry.read());
+      if (!byHash.has(hashed.hash)) byHash.set(hashed.hash, hashed);
+    }
+    byPath.set(entry.path, byPath.get(entry.path) ?? hashed);
+    byName.set(name, [...(byName.get(name) || []), hashed]);
+  }
+
+  const matches = manifest.documents.map((document) =>
+    matchDocument(document, byHash, byPath, byName)
+  );
+  if (
+    manifest.documents.length > 0 &&
+    matches.every((match) => match === undefined)
+  ) {
+    throw new ApiRouteError(
+      "NO_FILES",
+      "ZIP 파일에서 매니페스트의 문서를 찾을 수 없습니다",
+      { field: "archive" }
+    );
+  }
+
+  const created = await createFileSearchStore(displayName, apiKey);
+  const store: FileSearchStore = { ...created, displayName };
+
+  console.log(
+    `\n♻️  스토어 복원: ${displayName} (${manifest.documents.length}개 문서, 아카이브 ${entries.length}개 항목)`
+  );
+
+  // 순서를 유지하며 UPLOAD_CONCURRENCY개씩 동시에 업로드
+  const results: RestoreDocumentResult[] = manifest.documents.map(
+    (document, index) =>
+      matches[index]
+        ? { fileName: document.displayName, success: false }
+        : {
+            fileName: document.displayName,
+            success: false,
+            missing: true,
+            error: "ZIP 파일에 문서의 원본 파일이 없습니다",
+          }
+  );
+  const pending = matches.flatMap((match, index) => (match ? [index] : []));
+  let next = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const index = pending[next++]!;
+      results[index] = await restoreDocument(
+        store,
+        manifest.documents[index]!,
+        matches[index]!,
+        apiKey
+      );
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(UPLOAD_CONCURRENCY, pending.length) }, worker)
+  );
+
+  const used = new Set(matches.map((match) => match?.entry.entry.path));
+  const unmatchedFiles = entries
+    .map((entry) => entry.path)
+    .filter((entryPath) => !used.has(entryPath))
+    .sort();
+  const successCount = results.filter((r) => r.success).length;
+  const missingCount = results.filter((r) => r.missing).length;
+  const failCount = results.length - successCount - missingCount;
+
+  console.log(
+    `✅ 스토어 복원 완료: 성공 ${successCount}, 실패 ${failCount}, 누락 ${missingCount}, 사용하지 않은 항목 ${unmatchedFiles.length}`
+  );
+
+  return {
+    store: { name: store.name, displayName: store.displayName },
+    results,
+    successCount,
+    failCount,
+    missingCount,
+    unmatchedFiles,
+  };
+}
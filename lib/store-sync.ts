@@ -0,0 +1,465 @@
+/**
+ * Store Sync
+ *
+ * 로컬 디렉터리(또는 경로+해시 매니페스트)를 스토어에 반영 (POST /api/stores/[storeId]/sync, CLI docs sync)
+ * - 문서의 source_path(상대 경로)와 content_sha256(내용 해시) 메타데이터로 스토어와 비교
+ * - 새 경로는 업로드, 내용이 바뀐 경로는 새 버전으로 교체, 없어진 경로는 deleteRemoved일 때만 삭제
+ * - source_path가 없는 문서(직접 업로드, URL 가져오기)는 동기화 대상이 아님
+ * - 지원하지 않는 형식과 숨김 파일은 디렉터리/매니페스트 모두에서 제외
+ * - dryRun이면 계획만 반환하고 스토어를 바꾸지 않음
+ * - 업로드/교체는 시작만 하고 항목별 operationName을 반환 (인덱싱은 operation 상태 조회로 확인)
+ * - 교체는 새 버전의 인덱싱이 끝난 뒤 이전 버전을 삭제 (operation 상태 조회, 다음 목록 조회/업로드/동기화에서,
+ *   그동안 이전 버전으로 검색 가능)
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  computeContentHash,
+  deleteDocument,
+  getMimeType,
+  listDocuments,
+  startUploadWithCustomChunking,
+} from "@/lib/gemini";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import { toArchiveMetadata } from "@/lib/archive-import";
+import {
+  ARCHIVE_METADATA_KEYS,
+  MAX_ARCHIVE_USER_METADATA,
+  getUserMetadata,
+  readContentHash,
+  readDocumentVersion,
+  readReplacedDocument,
+  readSourcePath,
+  toReplacesMetadata,
+  toVersionMetadata,
+} from "@/lib/document-metadata";
+import { MAX_SYNC_ENTRIES } from "@/lib/schemas";
+import { MAX_FILE_SIZE } from "@/lib/upload-form";
+import type {
+  FileSearchDocument,
+  FileSearchStore,
+  SyncAction,
+  SyncItem,
+  SyncManifestEntry,
+  SyncResponse,
+  UploadOptions,
+} from "@/types";
+
+/** 동시에 업로드할 파일 수 */
+const SYNC_CONCURRENCY = 4;
+
+/**
+ * 동기화할 파일 목록
+ * - directory: 디렉터리 아래의 파일 (해시는 읽으면서 계산)
+ * - manifest: 경로와 해시 목록, 업로드할 파일 내용은 files(경로 → 내용)에서 찾음
+ */
+export type SyncSource =
+  | { directory: string }
+  | { manifest: SyncManifestEntry[]; files: Map<string, Uint8Array> };
+
+/**
+ * 동기화 옵션
+ */
+export interface SyncOptions {
+  /** 동기화 대상에 없는 문서 삭제 */
+  deleteRemoved: boolean;
+  /** 계획만 반환 */
+  dryRun: boolean;
+}
+
+/**
+ * 동기화하지 않을 경로 (숨김 파일/디렉터리, 지원하지 않는 형식)
+ */
+function isIgnoredPath(relativePath: string): boolean {
+  return (
+    relativePath.split("/").some((segment) => segment.startsWith(".")) ||
+    getMimeType(relativePath) === "application/octet-stream"
+  );
+}
+
+/**
+ * 디렉터리 아래의 모든 파일 (base 기준 /로 구분한 상대 경로, 심볼릭 링크 제외)
+ */
+async function walk(base: string, dir = ""): Promise<string[]> {
+  const entries = await fs.promises.readdir(path.join(base, dir), {
+    withFileTypes: true,
+  });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const relative = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+        files.push(...(await walk(base, relative)));
+      }
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+}
+
+/**
+ * 디렉터리의 매니페스트 (경로순)
+ *
+ * @param directory - 절대 경로
+ * @throws ApiRouteError - 디렉터리가 없거나 파일이 너무 많을 때
+ */
+export async function readDirectoryManifest(
+  directory: string
+): Promise<SyncManifestEntry[]> {
+  const stat = await fs.promises.stat(directory).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new ApiRouteError(
+      "DIRECTORY_NOT_ALLOWED",
+      `디렉터리를 찾을 수 없습니다: ${directory}`
+    );
+  }
+
+  const files = (await walk(directory))
+    .filter((file) => !isIgnoredPath(file))
+    .sort();
+  if (files.length > MAX_SYNC_ENTRIES) {
+    throw new ApiRouteError(
+      "TOO_MANY_FILES",
+      `한 번에 최대 ${MAX_SYNC_ENTRIES}개의 파일만 동기화할 수 있습니다`,
+      { max: MAX_SYNC_ENTRIES }
+    );
+  }
+
+  const manifest: SyncManifestEntry[] = [];
+  for (const file of files) {
+    manifest.push({
+      path: file,
+      hash: await computeContentHash(path.join(directory, file)),
+    });
+  }
+  return manifest;
+}
+
+/**
+ * API 요청의 디렉터리를 SYNC_ROOT 안의 절대 경로로 변환
+ * SYNC_ROOT를 설정하지 않은 서버는 디렉터리 동기화를 허용하지 않음
+ *
+ * @param directory - SYNC_ROOT 기준 상대 경로
+ * @throws ApiRouteError(DIRECTORY_NOT_ALLOWED) - 설정이 없거나 SYNC_ROOT 밖의 경로일 때
+ */
+export async function resolveSyncDirectory(directory: string): Promise<string> {
+  const root = process.env.SYNC_ROOT;
+  if (!root) {
+    throw new ApiRouteError(
+      "DIRECTORY_NOT_ALLOWED",
+      "서버 디렉터리 동기화가 설정되지 않았습니다 (SYNC_ROOT)",
+      { field: "directory" }
+    );
+  }
+
+  // 심볼릭 링크를 따라간 실제 경로로 비교
+  const realRoot = await fs.promises.realpath(path.resolve(root));
+  const resolved = await fs.promises
+    .realpath(path.resolve(realRoot, directory))
+    .catch(() => null);
+  if (!resolved) {
+    throw new ApiRouteError(
+      "DIRECTORY_NOT_ALLOWED",
+      `디렉터리를 찾을 수 없습니다: ${directory}`,
+      { field: "directory" }
+    );
+  }
+  if (resolved !== realRoot && !resolved.startsWith(realRoot + path.sep)) {
+    throw new ApiRouteError(
+      "DIRECTORY_NOT_ALLOWED",
+      "SYNC_ROOT 밖의 디렉터리는 동기화할 수 없습니다",
+      { field: "directory" }
+    );
+  }
+  return resolved;
+}
+
+/**
+ * 매니페스트와 스토어 문서를 비교한 동기화 계획 (경로순)
+ * 같은 경로의 문서가 여러 개면 가장 최근 문서를 기준으로 하고,
+ * 최근 문서의 인덱싱이 끝났으면(STATE_ACTIVE) 나머지는 삭제 대상
+ * (deleteRemoved가 아니어도 인덱싱이 끝난 최근 문서가 교체한 이전 버전은 삭제 대상)
+ * 최근 문서가 인덱싱 중이거나 실패했으면 내용이 같아도 다시 올림 (replace)
+ *
+ * @param manifest - 동기화할 파일 목록
+ * @param documents - 스토어의 전체 문서
+ * @param deleteRemoved - 매니페스트에 없는 경로의 문서를 삭제할지 여부
+ */
+export function planSync(
+  manifest: SyncManifestEntry[],
+  documents: FileSearchDocument[],
+  deleteRemoved: boolean
+): SyncItem[] {
+  // 경로별 문서 (최근 문서부터, 생성 시각이 같으면 교체된 문서를 뒤로)
+  const replacedNames = new Set(
+    documents.map((document) => readReplacedDocument(document.customMetadata))
+  );
+  const byPath = new Map<string, FileSearchDocument[]>();
+  const sorted = [...documents].sort(
+    (a, b) =>
+      b.createTime.localeCompare(a.createTime) ||
+      Number(replacedNames.has(a.name)) - Number(replacedNames.has(b.name))
+  );
+  for (const document of sorted) {
+    const sourcePath = readSourcePath(document.customMetadata);
+    if (!sourcePath) continue;
+    byPath.set(sourcePath, [...(byPath.get(sourcePath) || []), document]);
+  }
+
+  const items: SyncItem[] = manifest.map((entry): SyncItem => {
+    const current = byPath.get(entry.path)?.[0];
+    if (!current) {
+      return { path: entry.path, action: "upload" };
+    }
+    return {
+      path: entry.path,
+      action:
+        current.state === "STATE_ACTIVE" &&
+        readContentHash(current.customMetadata) === entry.hash
+          ? "unchanged"
+          : "replace",
+      documentName: current.name,
+    };
+  });
+
+  const paths = new Set(manifest.map((entry) => entry.path));
+  for (const [sourcePath, pathDocuments] of byPath) {
+    const [current, ...older] = pathDocuments;
+    const active = current?.state === "STATE_ACTIVE";
+    const replaced = active
+      ? readReplacedDocument(current.customMetadata)
+      : undefined;
+    // 최근 문서가 인덱싱 중이거나 실패했으면 이전 버전은 남겨 둠 (검색할 문서가 없어지지 않도록)
+    const removed =
+      deleteRemoved && !paths.has(sourcePath)
+        ? pathDocuments
+        : deleteRemoved && active
+          ? older
+          : older.filter((document) => document.name === replaced);
+    for (const document of removed) {
+      items.push({
+        path: sourcePath,
+        action: "delete",
+        documentName: document.name,
+      });
+    }
+  }
+
+  return items.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+}
+
+/**
+ * 업로드할 파일 내용 (디렉터리는 파일 경로, 매니페스트는 함께 보낸 파일)
+ *
+ * @throws ApiRouteError - 파일이 없거나, 크기 제한을 넘거나, 매니페스트의 해시와 다를 때
+ */
+async function readSourceFile(
+  source: SyncSource,
+  entry: SyncManifestEntry
+): Promise<{ file: string | Uint8Array; contentHash: string }> {
+  if ("directory" in source) {
+    const file = path.join(source.directory, entry.path);
+    const { size } = await fs.promises.stat(file);
+    if (size > MAX_FILE_SIZE) {
+      throw new ApiRouteError(
+        "FILE_TOO_LARGE",
+        `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
+        { maxSize: MAX_FILE_SIZE / 1024 / 1024 }
+      );
+    }
+    // 계획 이후에 바뀐 파일은 새 내용의 해시로 기록
+    return { file, contentHash: await computeContentHash(file) };
+  }
+
+  const file = source.files.get(entry.path);
+  if (!file) {
+    throw new ApiRouteError("NO_FILES", `파일이 필요합니다: ${entry.path}`, {
+      fileName: entry.path,
+    });
+  }
+  if (file.length > MAX_FILE_SIZE) {
+    throw new ApiRouteError(
+      "FILE_TOO_LARGE",
+      `파일 크기가 ${MAX_FILE_SIZE / 1024 / 1024}MB를 초과합니다`,
+      { maxSize: MAX_FILE_SIZE / 1024 / 1024 }
+    );
+  }
+  const contentHash = await computeContentHash(file);
+  if (contentHash !== entry.hash) {
+    throw new ApiRouteError(
+      "INVALID_REQUEST",
+      `파일 내용이 manifest의 hash와 다릅니다: ${entry.path}`,
+      { fileName: entry.path, field: "manifest" }
+    );
+  }
+  return { file, contentHash };
+}
+
+/**
+ * 계획 항목 하나 실행 (실패해도 throw하지 않고 결과로 반환)
+ * 업로드/교체는 시작한 operation 이름을 반환 (교체한 이전 버전은 인덱싱이 끝난 뒤 삭제)
+ */
+async function runSyncItem(
+  store: FileSearchStore,
+  source: SyncSource,
+  entry: SyncManifestEntry | undefined,
+  previous: FileSearchDocument | undefined,
+  item: SyncItem,
+  options: Pick<
+    UploadOptions,
+    "customMetadata" | "maxTokensPerChunk" | "maxOverlapTokens"
+  >,
+  apiKey: string
+): Promise<SyncItem> {
+  try {
+    if (item.action === "delete") {
+      await deleteDocument(previous!, apiKey);
+      return { ...item, success: true };
+    }
+
+    const { file, contentHash } = await readSourceFile(source, entry!);
+    const userMetadata = (
+      options.customMetadata ?? getUserMetadata(previous?.customMetadata)
+    ).filter(
+      (meta) => !Object.values<string>(ARCHIVE_METADATA_KEYS).includes(meta.key)
+    );
+
+    const operation = await startUploadWithCustomChunking(
+      store,
+      file,
+      {
+        displayName: item.path,
+        mimeType: getMimeType(item.path),
+        customMetadata: [
+          ...userMetadata,
+          ...toArchiveMetadata(item.path),
+          ...(previous
+            ? [
+                toVersionMetadata(
+                  readDocumentVersion(previous.customMetadata) + 1
+                ),
+                toReplacesMetadata(previous.name),
+              ]
+            : []),
+        ],
+        maxTokensPerChunk: options.maxTokensPerChunk,
+        maxOverlapTokens: options.maxOverlapTokens,
+        contentHash,
+      },
+      apiKey
+    );
+    if (operation.error) {
+      throw new ApiRouteError("UPLOAD_FAILED", operation.error.message);
+    }
+    return { ...item, success: true, operationName: operation.name };
+  } catch (error: any) {
+    console.error(`동기화 오류 (${item.action} ${item.path}):`, error);
+    const apiError = toApiRouteError(error);
+    return {
+      ...item,
+      success: false,
+      error: apiError.message,
+      code: apiError.code,
+      details: apiError.details,
+    };
+  }
+}
+
+/**
+ * 디렉터리 또는 매니페스트를 스토어에 동기화
+ *
+ * @param store - 동기화할 대상 스토어 객체
+ * @param source - 동기화할 파일 목록
+ * @param uploadOptions - 업로드/교체할 문서에 적용할 메타데이터와 청킹 설정
+ *                        (customMetadata를 생략하면 교체할 문서는 이전 버전의 값 유지)
+ * @param options - deleteRemoved, dryRun
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 경로별 계획과 실행 결과
+ * @throws ApiRouteError - 디렉터리를 읽을 수 없거나 제한을 넘을 때
+ */
+export async function syncStore(
+  store: FileSearchStore,
+  source: SyncSource,
+  uploadOptions: Pick<
+    UploadOptions,
+    "customMetadata" | "maxTokensPerChunk" | "maxOverlapTokens"
+  >,
+  options: SyncOptions,
+  apiKey: string
+): Promise<SyncResponse> {
+  if ((uploadOptions.customMetadata?.length || 0) > MAX_ARCHIVE_USER_METADATA) {
+    throw new ApiRouteError(
+      "INVALID_METADATA",
+      `동기화의 customMetadata는 최대 ${MAX_ARCHIVE_USER_METADATA}개입니다`,
+      { max: MAX_ARCHIVE_USER_METADATA, field: "customMetadata" }
+    );
+  }
+
+  const manifest = (
+    "directory" in source
+      ? await readDirectoryManifest(source.directory)
+      : source.manifest
+  ).filter((entry) => !isIgnoredPath(entry.path));
+  const documents = await listDocuments(store, apiKey);
+  const items = planSync(manifest, documents, options.deleteRemoved);
+
+  const summary: Record<SyncAction, number> = {
+    upload: 0,
+    replace: 0,
+    delete: 0,
+    unchanged: 0,
+  };
+  for (const item of items) {
+    summary[item.action]++;
+  }
+
+  console.log(
+    `\n🔁 스토어 동기화${options.dryRun ? " (dry run)" : ""}: 업로드 ${summary.upload}, 교체 ${summary.replace}, 삭제 ${summary.delete}, 변경 없음 ${summary.unchanged}`
+  );
+
+  if (options.dryRun) {
+    return { dryRun: true, items, summary, failCount: 0 };
+  }
+
+  const entries = new Map(manifest.map((entry) => [entry.path, entry]));
+  const documentsByName = new Map(
+    documents.map((document) => [document.name, document])
+  );
+
+  // 업로드/교체를 먼저 끝낸 뒤 삭제 (순서를 유지하며 SYNC_CONCURRENCY개씩)
+  const results = [...items];
+  for (const actions of [["upload", "replace"], ["delete"]]) {
+    const pending = items.flatMap((item, index) =>
+      actions.includes(item.action) ? [index] : []
+    );
+    let next = 0;
+    const worker = async () => {
+      while (next < pending.length) {
+        const index = pending[next++]!;
+        const item = items[index]!;
+        results[index] = await runSyncItem(
+          store,
+          source,
+          entries.get(item.path),
+          item.documentName
+            ? documentsByName.get(item.documentName)
+            : undefined,
+          item,
+          uploadOptions,
+          apiKey
+        );
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(SYNC_CONCURRENCY, pending.length) }, worker)
+    );
+  }
+
+  const failCount = results.filter((item) => item.success === false).length;
+  console.log(`✅ 스토어 동기화 완료: 실패 ${failCount}`);
+
+  return { dryRun: false, items: results, summary, failCount };
+}
@@ -0,0 +1,166 @@
+/**
+ * Upload Deduplication
+ *
+ * 업로드 전에 같은 내용(SHA-256)의 문서가 스토어에 있는지 확인하고 파일별 중복 정책 적용
+ * (업로드 라우트, 아카이브/URL 가져오기, CLI docs upload가 공유)
+ * - skip: 업로드하지 않고 기존 문서를 결과에 표시
+ * - replace: 기존 문서를 새 버전으로 교체 (표시 이름 유지, startReplaceDocument)
+ * - keep: 기존 문서를 그대로 두고 새 문서로 업로드
+ *
+ * 스토어 문서 목록은 처음 업로드할 때 한 번만 조회합니다
+ * 같은 요청에서 먼저 업로드한 파일과 내용이 같으면 keep이 아닌 한 건너뜁니다
+ * 해시를 기록하기 전에 업로드한 문서는 비교하지 않습니다
+ */
+
+import {
+  computeContentHash,
+  getDocument,
+  listDocuments,
+  startReplaceDocument,
+  startUploadWithCustomChunking,
+  sweepReplacedDocuments,
+} from "@/lib/gemini";
+import { groupByContentHash } from "@/lib/document-metadata";
+import type {
+  DuplicatePolicy,
+  FileSearchDocument,
+  FileSearchStore,
+  UploadFileResult,
+  UploadOptions,
+} from "@/types";
+
+/**
+ * 중복 정책 (업로드 폼의 duplicatePolicy, duplicatePolicies 필드)
+ */
+export interface DuplicatePolicyOptions {
+  /** 기본 정책 */
+  duplicatePolicy: DuplicatePolicy;
+  /** 파일명별 정책 (업로드는 파일명, 아카이브는 경로, URL은 페이지 URL) */
+  duplicatePolicies?: Record<string, DuplicatePolicy>;
+}
+
+/**
+ * 요청 하나의 업로드를 중복 확인과 함께 시작
+ */
+export interface UploadDeduplicator {
+  /**
+   * 중복 정책을 적용해 업로드 시작
+   *
+   * @param fileName - 결과의 파일명 (파일별 정책을 찾는 키)
+   * @returns 업로드 결과 (skip이면 operationName 없이 duplicate만 포함)
+   * @throws 업로드 시작에 실패하면
+   */
+  upload(
+    fileName: string,
+    file: string | Uint8Array,
+    options: UploadOptions & { displayName: string }
+  ): Promise<UploadFileResult>;
+}
+
+/**
+ * 기존 문서 중 비교할 문서 (같은 표시 이름 우선, 없으면 가장 먼저 만든 문서)
+ */
+function pickDuplicate(
+  candidates: FileSearchDocument[] | undefined,
+  displayName: string
+): FileSearchDocument | undefined {
+  return (
+    candidates?.find((document) => document.displayName === displayName) ||
+    candidates?.[0]
+  );
+}
+
+/**
+ * 스토어에 대한 중복 확인 업로더 생성
+ *
+ * @param store - 업로드할 대상 스토어 객체
+ * @param policies - 기본 정책과 파일별 정책
+ * @param apiKey - Gemini API 키 (필수)
+ */
+export function createUploadDeduplicator(
+  store: FileSearchStore,
+  policies: DuplicatePolicyOptions,
+  apiKey: string
+): UploadDeduplicator {
+  let storeIndex: Promise<Map<string, FileSearchDocument[]>> | undefined;
+  // 이 요청에서 업로드를 시작한 내용 (해시 → 표시 이름)
+  const started = new Map<string, string>();
+
+  return {
+    async upload(fileName, file, options) {
+      const policy =
+        policies.duplicatePolicies?.[fileName] ?? policies.duplicatePolicy;
+      // 교체가 끝난 이전 버전은 정리한 뒤 비교
+      storeIndex ??= listDocuments(store, apiKey)
+        .then((documents) => sweepReplacedDocuments(documents, apiKey))
+        .then(groupByContentHash);
+      const [contentHash, index] = await Promise.all([
+        computeContentHash(file),
+        storeIndex,
+      ]);
+      const uploadOptions = { ...options, contentHash };
+
+      // 같은 요청의 파일끼리는 교체할 문서가 아직 없으므로 replace도 건너뜀
+      const pending = started.get(contentHash);
+      if (pending !== undefined && policy !== "keep") {
+        console.log(`⏭️  중복 파일 건너뜀: ${fileName} (= ${pending})`);
+        return {
+          fileName,
+          success: true,
+          duplicate: { displayName: pending, policy: "skip" },
+        };
+      }
+
+      const existing = pickDuplicate(
+        index.get(contentHash),
+        options.displayName
+      );
+      const duplicate = existing
+        ? { name: existing.name, displayName: existing.displayName, policy }
+        : pending !== undefined
+          ? { displayName: pending, policy }
+          : undefined;
+
+      if (existing && policy === "skip") {
+        console.log(
+          `⏭️  중복 파일 건너뜀: ${fileName} (= ${existing.displayName})`
+        );
+        return { fileName, success: true, duplicate };
+      }
+
+      if (existing && policy === "replace") {
+        started.set(contentHash, existing.displayName);
+        const previous = await getDocument(store, existing.name, apiKey);
+        const { operation } = await startReplaceDocument(
+          store,
+          previous,
+          file,
+          uploadOptions,
+          apiKey
+        );
+        return {
+          fileName,
+          success: true,
+          operationName: operation.name,
+          duplicate,
+        };
+      }
+
+      if (!started.has(contentHash)) {
+        started.set(contentHash, options.displayName);
+      }
+      const operation = await startUploadWithCustomChunking(
+        store,
+        file,
+        uploadOptions,
+        apiKey
+      );
+      return {
+        fileName,
+        success: true,
+        operationName: operation.name,
+        ...(duplicate && { duplicate }),
+      };
+    },
+  };
+}
@@ -0,0 +1,170 @@
+/**
+ * Upload Form Fields
+ *
+ * 업로드/교체 라우트가 공유하는 multipart 필드 파싱 (스키마는 lib/schemas.ts)
+ * - customMetadata: [{ key, type, value }] JSON → API 형식
+ * - maxTokensPerChunk / maxOverlapTokens: 청킹 설정
+ * - url / mode / maxDepth / maxPages / allowedDomains: URL 가져오기
+ * - duplicatePolicy / duplicatePolicies: 같은 내용의 문서가 있을 때 처리 (lib/upload-dedup.ts)
+ */
+
+import { ApiRouteError } from "@/lib/api-error";
+import {
+  MAX_TOKENS_PER_CHUNK,
+  MIN_TOKENS_PER_CHUNK,
+  validateChunkingConfig,
+} from "@/lib/chunking";
+import { MAX_USER_METADATA } from "@/lib/document-metadata";
+import {
+  chunkingFieldsSchema,
+  customMetadataFieldSchema,
+  duplicatePolicyFieldsSchema,
+  parseWithSchema,
+  urlIngestFieldsSchema,
+} from "@/lib/schemas";
+import { DEFAULT_CRAWL_PAGES } from "@/lib/web-crawl";
+import type { DuplicatePolicyOptions } from "@/lib/upload-dedup";
+import type { UrlIngestOptions } from "@/lib/url-ingest";
+import type { ChunkingConfig, CustomMetadata } from "@/types";
+
+/** 파일당 최대 크기 */
+export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+/** 한 번에 업로드할 수 있는 최대 파일 수 */
+export const MAX_FILES = 10;
+/** ZIP 아카이브 최대 크기 (아카이브 가져오기) */
+export const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024; // 200MB
+/** ZIP 아카이브 하나에서 가져올 수 있는 최대 파일 수 */
+export const MAX_ARCHIVE_ENTRIES = 5000;
+
+/**
+ * customMetadata 필드 파싱
+ *
+ * @returns 변환된 메타데이터 (필드가 없으면 metadata: undefined)
+ */
+export function parseCustomMetadataField(
+  value: FormDataEntryValue | null
+): { metadata: CustomMetadata[] | undefined } | { error: ApiRouteError } {
+  if (typeof value !== "string") {
+    return { metadata: undefined };
+  }
+
+  const parsed = parseWithSchema(
+    customMetadataFieldSchema,
+    value,
+    "INVALID_METADATA",
+    { field: "customMetadata", details: { max: MAX_USER_METADATA } }
+  );
+  if ("error" in parsed) {
+    return parsed;
+  }
+
+  // Convert to API format
+  const metadata = parsed.data.map((meta) => {
+    const result: CustomMetadata = { key: meta.key };
+
+    if (meta.type === "number") {
+      result.numericValue = Number(meta.value);
+    } else if (meta.type === "stringList") {
+      // Parse comma-separated values
+      const values = String(meta.value)
+        .split(",")
+        .map((v) => v.trim())
+        .filter((v) => v);
+      result.stringListValue = { values };
+    } else {
+      result.stringValue = String(meta.value);
+    }
+
+    return result;
+  });
+
+  return { metadata };
+}
+
+/**
+ * 청킹 설정 필드 파싱
+ *
+ * @param fields - maxTokensPerChunk / maxOverlapTokens 값을 가진 폼 (FormData, CLI 옵션 등)
+ * @param fallback - 필드가 없을 때 사용할 설정
+ */
+export function parseChunkingFields(
+  fields: { get(name: string): unknown },
+  fallback: ChunkingConfig
+): { config: ChunkingConfig } | { error: ApiRouteError } {
+  const details = { min: MIN_TOKENS_PER_CHUNK, max: MAX_TOKENS_PER_CHUNK };
+  const parsed = parseWithSchema(
+    chunkingFieldsSchema,
+    {
+      maxTokensPerChunk: fields.get("maxTokensPerChunk"),
+      maxOverlapTokens: fields.get("maxOverlapTokens"),
+    },
+    "INVALID_CHUNKING",
+    { details }
+  );
+  if ("error" in parsed) {
+    return parsed;
+  }
+
+  const config: ChunkingConfig = {
+    maxTokensPerChunk:
+      parsed.data.maxTokensPerChunk ?? fallback.maxTokensPerChunk,
+    maxOverlapTokens: parsed.data.maxOverlapTokens ?? fallback.maxOverlapTokens,
+  };
+
+  const error = validateChunkingConfig(config);
+  if (error) {
+    return {
+      error: new ApiRouteError("INVALID_CHUNKING", error, {
+        ...details,
+        field: "maxOverlapTokens",
+      }),
+    };
+  }
+  return { config };
+}
+
+/**
+ * URL 가져오기 필드 파싱
+ *
+ * @param fields - url, mode, maxDepth, maxPages, allowedDomains 값을 가진 폼 (FormData, CLI 옵션 등)
+ */
+export function parseUrlIngestFields(fields: {
+  get(name: string): unknown;
+}): { options: UrlIngestOptions } | { error: ApiRouteError } {
+  const parsed = parseWithSchema(urlIngestFieldsSchema, {
+    url: fields.get("url") ?? undefined,
+    mode: fields.get("mode") || undefined,
+    maxDepth: fields.get("maxDepth") ?? undefined,
+    maxPages: fields.get("maxPages") ?? undefined,
+    allowedDomains: fields.get("allowedDomains") ?? undefined,
+  });
+  if ("error" in parsed) {
+    return parsed;
+  }
+
+  return {
+    options: {
+      ...parsed.data,
+      maxDepth: parsed.data.maxDepth ?? 0,
+      maxPages: parsed.data.maxPages ?? DEFAULT_CRAWL_PAGES,
+    },
+  };
+}
+
+/**
+ * 중복 업로드 정책 필드 파싱 (생략 시 skip)
+ *
+ * @param fields - duplicatePolicy, duplicatePolicies 값을 가진 폼 (FormData, CLI 옵션 등)
+ */
+export function parseDuplicatePolicyFields(fields: {
+  get(name: string): unknown;
+}): { policies: DuplicatePolicyOptions } | { error: ApiRouteError } {
+  const parsed = parseWithSchema(duplicatePolicyFieldsSchema, {
+    duplicatePolicy: fields.get("duplicatePolicy") || undefined,
+    duplicatePolicies: fields.get("duplicatePolicies") || undefined,
+  });
+  if ("error" in parsed) {
+    return parsed;
+  }
+  return { policies: parsed.data };
+}
@@ -0,0 +1,461 @@
+/**
+ * URL Ingestion
+ *
+ * 웹 페이지나 사이트맵을 가져와 마크다운으로 변환한 뒤 스토어에 업로드
+ * (POST /api/stores/[storeId]/upload의 url 모드, CLI docs fetch)
+ * - 시작 페이지에서 링크를 maxDepth 단계까지 따라가며 최대 maxPages개 페이지 수집 (허용 도메인만)
+ * - 사이트맵(urlset, sitemapindex)이면 나열된 페이지를 깊이 0으로 수집
+ * - 문서 표시 이름은 호스트 + 경로 (예: help.example.com/articles/setup.md)
+ * - 페이지 URL과 가져온 날짜를 customMetadata(source_url, fetched_at)로 기록
+ * - 내용이 같은 문서가 있으면 중복 정책 적용 (lib/upload-dedup.ts)
+ * - 사설 네트워크 주소(localhost 등)는 URL_INGEST_ALLOW_PRIVATE_HOSTS=true일 때만 허용
+ *   (로컬 fixture 서버로 테스트할 때, npm run fixture-server)
+ * - 페이지는 한 번에 하나씩 가져오고, 인덱싱 완료를 기다리지 않고 페이지별 operation 이름을 반환
+ */
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import {
+  createUploadDeduplicator,
+  type DuplicatePolicyOptions,
+  type UploadDeduplicator,
+} from "@/lib/upload-dedup";
+import { ApiRouteError, toApiRouteError } from "@/lib/api-error";
+import {
+  MAX_URL_USER_METADATA,
+  URL_METADATA_KEYS,
+} from "@/lib/document-metadata";
+import { htmlToMarkdown, type HtmlConversion } from "@/lib/html-markdown";
+import {
+  isAllowedHost,
+  isPageLink,
+  isSitemap,
+  normalizePageUrl,
+  parseSitemap,
+  toPageDocumentName,
+  type CrawlMode,
+} from "@/lib/web-crawl";
+import type { FileSearchStore, UploadFileResult, UploadOptions } from "@/types";
+
+/** 페이지 하나를 가져오는 최대 시간 */
+const FETCH_TIMEOUT_MS = 15_000;
+/** 페이지 최대 크기 */
+const MAX_PAGE_SIZE = 5 * 1024 * 1024; // 5MB
+/** 따라갈 최대 리디렉션 수 */
+const MAX_REDIRECTS = 5;
+/** sitemapindex에서 읽을 최대 하위 사이트맵 수 */
+const MAX_SITEMAPS = 10;
+const USER_AGENT = "GeminiFileSearchManager/2.0 (+url-ingest)";
+
+/** 가져올 수 없는 주소 (루프백, 사설망, 링크 로컬 등) */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["::ffff:0:0", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * URL 가져오기 옵션 (업로드 폼 필드, lib/upload-form.ts의 parseUrlIngestFields)
+ */
+export interface UrlIngestOptions {
+  /** 시작 페이지 또는 사이트맵 URL */
+  url: string;
+  mode: CrawlMode;
+  /** 링크를 따라갈 깊이 (0이면 시작 페이지만) */
+  maxDepth: number;
+  /** 가져올 최대 페이지 수 */
+  maxPages: number;
+  /** 허용 도메인 (생략 시 시작 URL의 호스트, 하위 도메인 포함) */
+  allowedDomains?: string[];
+}
+
+interface FetchedPage {
+  /** 리디렉션 후 최종 URL */
+  url: string;
+  contentType: string;
+  body: string;
+}
+
+function fetchFailed(url: string, reason: string): ApiRouteError {
+  return new ApiRouteError(
+    "URL_FETCH_FAILED",
+    `페이지를 가져오지 못했습니다: ${url} (${reason})`,
+    { url, reason }
+  );
+}
+
+function notAllowed(url: string, reason: string): ApiRouteError {
+  return new ApiRouteError(
+    "URL_NOT_ALLOWED",
+    `가져올 수 없는 URL입니다: ${url} (${reason})`,
+    { url, reason }
+  );
+}
+
+/**
+ * 사설 네트워크 주소로 연결되는 호스트 차단 (서버 내부 요청 방지)
+ */
+async function assertPublicHost(url: URL): Promise<void> {
+  if (process.env.URL_INGEST_ALLOW_PRIVATE_HOSTS === "true") {
+    return;
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses: Array<{ address: string; family: number }>;
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true });
+    } catch {
+      throw fetchFailed(url.href, "호스트를 찾을 수 없습니다");
+    }
+  }
+
+  for (const { address, family } of addresses) {
+    if (PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")) {
+      throw notAllowed(url.href, "사설 네트워크 주소입니다");
+    }
+  }
+}
+
+/**
+ * 응답 본문 읽기 (MAX_PAGE_SIZE를 넘으면 중단)
+ */
+async function readBody(response: Response, url: string): Promise<string> {
+  if (Number(response.headers.get("content-length")) > MAX_PAGE_SIZE) {
+    throw fetchFailed(url, "페이지가 너무 큽니다");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_PAGE_SIZE) {
+      await reader.cancel();
+      throw fetchFailed(url, "페이지가 너무 큽니다");
+    }
+    chunks.push(value);
+  }
+
+  const charset =
+    response.headers
+      .get("content-type")
+      ?.match(/charset=["']?([\w-]+)/i)?.[1] || "utf-8";
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder("utf-8");
+  }
+  return decoder.decode(Buffer.concat(chunks));
+}
+
+/**
+ * 페이지 가져오기 (리디렉션마다 허용 도메인과 주소 확인)
+ */
+async function fetchPage(
+  url: string,
+  allowedDomains: string[]
+): Promise<FetchedPage> {
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (current.protocol !== "http:" && current.protocol !== "https:") {
+      throw notAllowed(current.href, "http 또는 https URL이 아닙니다");
+    }
+    if (!isAllowedHost(current.hostname, allowedDomains)) {
+      throw notAllowed(current.href, "허용 도메인이 아닙니다");
+    }
+    await assertPublicHost(current);
+
+    let response: Response;
+    try {
+      response = await fetch(current, {
+        redirect: "manual",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+        headers: {
+          "user-agent": USER_AGENT,
+          accept:
+            "text/html,application/xhtml+xml,application/xml;q=0.9,text/plain;q=0.8",
+        },
+      });
+    } catch (error: any) {
+      throw fetchFailed(
+        current.href,
+        error?.name === "TimeoutError"
+          ? "시간 초과"
+          : error?.cause?.code || error?.message || "네트워크 오류"
+      );
+    }
+
+    const location = response.headers.get("location");
+    if (!response.ok) {
+      await response.body?.cancel();
+    }
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw fetchFailed(current.href, "리디렉션이 너무 많습니다");
+      }
+      current = new URL(location, current);
+      continue;
+    }
+    if (!response.ok) {
+      throw fetchFailed(current.href, `HTTP ${response.status}`);
+    }
+
+    return {
+      url: current.href,
+      contentType: response.headers.get("content-type") || "",
+      body: await readBody(response, current.href),
+    };
+  }
+}
+
+/**
+ * 사이트맵의 페이지 URL 목록 (sitemapindex는 하위 사이트맵을 MAX_SITEMAPS개까지 읽음)
+ */
+async function readSitemapPages(
+  sitemap: FetchedPage,
+  allowedDomains: string[],
+  maxPages: number
+): Promise<string[]> {
+  const { pages, sitemaps } = parseSitemap(sitemap.body);
+
+  for (const child of sitemaps.slice(0, MAX_SITEMAPS)) {
+    if (pages.length >= maxPages) break;
+    try {
+      const childPages = parseSitemap(
+        (await fetchPage(child, allowedDomains)).body
+      ).pages;
+      pages.push(...childPages);
+    } catch (error) {
+      // 읽을 수 없는 하위 사이트맵은 건너뜀
+      console.error(`사이트맵 읽기 오류 (${child}):`, error);
+    }
+  }
+
+  return pages.filter((page) => {
+    try {
+      return isAllowedHost(new URL(page).hostname, allowedDomains);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * 응답을 마크다운으로 변환 (HTML, 일반 텍스트, 마크다운만 지원)
+ */
+function toMarkdown(page: FetchedPage): HtmlConversion {
+  const type = page.contentType.split(";")[0]!.trim().toLowerCase();
+  if (type === "text/html" || type === "application/xhtml+xml" || !type) {
+    return htmlToMarkdown(page.body, page.url);
+  }
+  if (type === "text/plain" || type === "text/markdown") {
+    return { title: "", markdown: page.body.trim(), links: [] };
+  }
+  throw fetchFailed(page.url, `지원하지 않는 형식입니다 (${type})`);
+}
+
+/**
+ * 페이지 하나를 가져와 업로드 (실패해도 throw하지 않고 결과로 반환)
+ *
+ * @returns 업로드 결과와 페이지의 링크 (크롤링용)
+ */
+async function ingestPage(
+  uploader: UploadDeduplicator,
+  url: string,
+  prefetched: FetchedPage | undefined,
+  allowedDomains: string[],
+  options: Pick<
+    UploadOptions,
+    "customMetadata" | "maxTokensPerChunk" | "maxOverlapTokens"
+  >,
+  fetchedAt: string
+): Promise<{ result: UploadFileResult; links: string[] }> {
+  try {
+    const page = prefetched || (await fetchPage(url, allowedDomains));
+    const { title, markdown, links } = toMarkdown(page);
+    if (!markdown) {
+      throw fetchFailed(page.url, "본문이 없습니다");
+    }
+
+    // 본문이 제목으로 시작하지 않으면 제목과 출처를 앞에 추가
+    const content = [
+      ...(title && !markdown.startsWith("# ") ? [`# ${title}`] : []),
+      `Source: ${page.url}`,
+      markdown,
+    ].join("\n\n");
+
+    const result = await uploader.upload(
+      page.url,
+      Buffer.from(content, "utf8"),
+      {
+        ...options,
+        displayName: toPageDocumentName(page.url),
+        mimeType: "text/markdown",
+        customMetadata: [
+          ...(options.customMetadata || []).filter(
+            (meta) =>
+              !Object.values<string>(URL_METADATA_KEYS).includes(meta.key)
+          ),
+          { key: URL_METADATA_KEYS.url, stringValue: page.url },
+          { key: URL_METADATA_KEYS.fetchedAt, stringValue: fetchedAt },
+        ],
+      }
+    );
+
+    return { result, links };
+  } catch (error: any) {
+    console.error(`페이지 가져오기 오류 (${url}):`, error);
+    const apiError = toApiRouteError(error);
+    return {
+      result: {
+        fileName: url,
+        success: false,
+        error: apiError.message,
+        code: apiError.code,
+        details: apiError.details,
+      },
+      links: [],
+    };
+  }
+}
+
+/**
+ * URL(페이지 또는 사이트맵)에서 페이지를 수집해 스토어에 업로드
+ *
+ * @param store - 업로드할 대상 스토어 객체
+ * @param options - 시작 URL과 크롤링 범위
+ * @param uploadOptions - 모든 페이지에 적용할 메타데이터와 청킹 설정
+ * @param policies - 같은 내용의 문서가 있을 때 처리 (페이지별 정책은 페이지 URL로 지정)
+ * @param apiKey - Gemini API 키 (필수)
+ * @returns 페이지별 결과 (가져온 순서, fileName은 페이지 URL)
+ * @throws ApiRouteError - 시작 URL을 가져올 수 없거나 허용되지 않을 때
+ */
+export async function ingestUrls(
+  store: FileSearchStore,
+  options: UrlIngestOptions,
+  uploadOptions: Pick<
+    UploadOptions,
+    "customMetadata" | "maxTokensPerChunk" | "maxOverlapTokens"
+  >,
+  policies: DuplicatePolicyOptions,
+  apiKey: string
+): Promise<UploadFileResult[]> {
+  if ((uploadOptions.customMetadata?.length || 0) > MAX_URL_USER_METADATA) {
+    throw new ApiRouteError(
+      "INVALID_METADATA",
+      `URL 가져오기의 customMetadata는 최대 ${MAX_URL_USER_METADATA}개입니다`,
+      { max: MAX_URL_USER_METADATA, field: "customMetadata" }
+    );
+  }
+
+  const start = new URL(options.url);
+  const allowedDomains = options.allowedDomains?.length
+    ? options.allowedDomains
+    : [start.hostname];
+  if (!isAllowedHost(start.hostname, allowedDomains)) {
+    throw notAllowed(start.href, "시작 URL이 허용 도메인에 포함되지 않습니다");
+  }
+
+  console.log(`\n🌐 URL 가져오기: ${start.href}`, {
+    mode: options.mode,
+    maxDepth: options.maxDepth,
+    maxPages: options.maxPages,
+    allowedDomains,
+  });
+
+  const fetchedAt = new Date().toISOString().slice(0, 10);
+  const first = await fetchPage(start.href, allowedDomains);
+  const queue: Array<{ url: string; depth: number; page?: FetchedPage }> = [];
+
+  if (
+    options.mode === "sitemap" ||
+    (options.mode === "auto" && isSitemap(first.contentType, first.body))
+  ) {
+    if (!isSitemap(first.contentType, first.body)) {
+      throw fetchFailed(first.url, "사이트맵 XML이 아닙니다");
+    }
+    const pages = await readSitemapPages(
+      first,
+      allowedDomains,
+      options.maxPages
+    );
+    if (pages.length === 0) {
+      throw new ApiRouteError(
+        "NO_FILES",
+        "사이트맵에 가져올 페이지가 없습니다",
+        { url: first.url }
+      );
+    }
+    queue.push(...pages.map((url) => ({ url, depth: 0 })));
+  } else {
+    queue.push({ url: first.url, depth: 0, page: first });
+  }
+
+  const seen = new Set([
+    normalizePageUrl(start.href),
+    ...queue.map((item) => normalizePageUrl(item.url)),
+  ]);
+  const uploader = createUploadDeduplicator(store, policies, apiKey);
+  const results: UploadFileResult[] = [];
+
+  // 너비 우선으로 한 페이지씩 가져옴
+  while (queue.length > 0 && results.length < options.maxPages) {
+    const item = queue.shift()!;
+    const { result, links } = await ingestPage(
+      uploader,
+      item.url,
+      item.page,
+      allowedDomains,
+      uploadOptions,
+      fetchedAt
+    );
+    results.push(result);
+
+    if (item.depth >= options.maxDepth) continue;
+    for (const link of links) {
+      if (results.length + queue.length >= options.maxPages) break;
+      const normalized = normalizePageUrl(link);
+      if (
+        seen.has(normalized) ||
+        !isPageLink(link) ||
+        !isAllowedHost(new URL(link).hostname, allowedDomains)
+      ) {
+        continue;
+      }
+      seen.add(normalized);
+      queue.push({ url: normalized, depth: item.depth + 1 });
+    }
+  }
+
+  const successCount = results.filter((r) => r.success).length;
+  console.log(
+    `✅ URL 가져오기 완료: 성공 ${successCount}, 실패 ${results.length - successCount}`
+  );
+
+  return results;
+}
@@ -98,6 +98,18 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Generate a unique identifier
+ *
+ * @returns Random UUID (falls back to timestamp + random suffix)
+ */
+export function generateId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
 /**
  * Check if code is running on client side
  *
@@ -121,3 +133,20 @@ export function safeJsonParse<T>(value: string, fallback: T): T {
     return fallback;
   }
 }
+
+/**
+ * Download a value as a pretty-printed JSON file (browser only)
+ *
+ * @param fileName - Name of the downloaded file
+ * @param value - Value to serialize
+ */
+export function downloadJson(fileName: string, value: unknown): void {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(value, null, 2)], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
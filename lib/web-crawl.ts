@@ -0,0 +1,97 @@
+/**
+ * Web Crawl
+ *
+ * 웹 페이지 가져오기(lib/url-ingest.ts)의 크롤링 범위와 사이트맵 해석
+ * - 크롤링 깊이/페이지 수 제한 (요청 스키마 lib/schemas.ts와 공유)
+ * - 허용 도메인 확인 (하위 도메인 포함), 따라갈 링크 선택
+ * - sitemap.xml(urlset, sitemapindex)의 <loc> 목록 추출
+ */
+
+import { decodeEntities } from "@/lib/html-markdown";
+
+/** 링크를 따라갈 최대 깊이 */
+export const MAX_CRAWL_DEPTH = 3;
+/** 한 번에 가져올 수 있는 최대 페이지 수 */
+export const MAX_CRAWL_PAGES = 100;
+/** maxPages를 생략했을 때 가져올 페이지 수 */
+export const DEFAULT_CRAWL_PAGES = 20;
+/** 허용 도메인 최대 개수 */
+export const MAX_ALLOWED_DOMAINS = 20;
+
+/** URL 가져오기 방식 (auto: 응답이 사이트맵 XML이면 사이트맵으로 처리) */
+export type CrawlMode = "auto" | "page" | "sitemap";
+
+/**
+ * 중복 확인용 URL 정리 (# 제거, 호스트 소문자)
+ */
+export function normalizePageUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  return parsed.href;
+}
+
+/**
+ * 호스트가 허용 도메인(또는 그 하위 도메인)인지 확인
+ */
+export function isAllowedHost(host: string, allowedDomains: string[]): boolean {
+  const hostname = host.toLowerCase().replace(/\.$/, "");
+  return allowedDomains.some((domain) => {
+    const allowed = domain.toLowerCase().replace(/^\*?\./, "");
+    return hostname === allowed || hostname.endsWith(`.${allowed}`);
+  });
+}
+
+/** 크롤링에서 따라가지 않을 링크 (이미지, 스타일, 스크립트, 파일 다운로드 등) */
+const ASSET_EXTENSION =
+  /\.(png|jpe?g|gif|webp|svg|ico|bmp|css|js|mjs|map|woff2?|ttf|eot|mp[34]|webm|mov|avi|zip|gz|tar|rar|7z|exe|dmg|pdf|docx?|xlsx?|pptx?)$/i;
+
+/**
+ * 크롤링에서 따라갈 링크인지 확인 (페이지로 보이지 않는 파일 제외)
+ */
+export function isPageLink(url: string): boolean {
+  return !ASSET_EXTENSION.test(new URL(url).pathname);
+}
+
+/**
+ * 응답이 사이트맵 XML인지 확인
+ */
+export function isSitemap(contentType: string, body: string): boolean {
+  return (
+    /xml/i.test(contentType) &&
+    /<(urlset|sitemapindex)[\s>]/i.test(body.slice(0, 4096))
+  );
+}
+
+/**
+ * 사이트맵의 URL 목록
+ *
+ * @returns pages: 페이지 URL (urlset), sitemaps: 하위 사이트맵 URL (sitemapindex)
+ */
+export function parseSitemap(xml: string): {
+  pages: string[];
+  sitemaps: string[];
+} {
+  const locations = [...xml.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi)].map(
+    (match) =>
+      decodeEntities(match[1]!.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1"))
+  );
+  return /<sitemapindex[\s>]/i.test(xml)
+    ? { pages: [], sitemaps: locations }
+    : { pages: locations, sitemaps: [] };
+}
+
+/**
+ * 페이지 문서의 표시 이름 (호스트 + 경로 + .md, 쿼리 문자열 포함)
+ * 예: https://help.example.com/articles/setup → help.example.com/articles/setup.md
+ */
+export function toPageDocumentName(url: string): string {
+  const { host, pathname, search } = new URL(url);
+  let path = pathname.endsWith("/") ? `${pathname}index` : pathname;
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // 잘못 인코딩된 경로는 그대로 사용
+  }
+  const name = `${host}${path}${search}`.replace(/\.(html?|php|aspx?)$/i, "");
+  return `${name}.md`;
+}
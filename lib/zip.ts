@@ -0,0 +1,165 @@
+/**
+ * ZIP Archive Reader
+ *
+ * 업로드된 ZIP 아카이브의 항목 목록과 내용 읽기 (아카이브 가져오기용, lib/archive-import.ts)
+ * - 중앙 디렉터리(central directory)를 기준으로 항목을 읽음
+ * - 압축 방식: stored(0), deflate(8)
+ * - ZIP64와 암호화된 항목은 지원하지 않음
+ * - 항목 내용은 read()를 호출할 때 압축 해제 (선언된 크기를 넘으면 중단)
+ */
+
+import { inflateRawSync } from "node:zlib";
+import { ApiRouteError } from "@/lib/api-error";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+/** EOCD 레코드 최소 크기 (주석 제외) */
+const EOCD_SIZE = 22;
+/** 아카이브 주석 최대 길이 */
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/**
+ * 아카이브 항목
+ */
+export interface ZipEntry {
+  /** 아카이브 안의 경로 (/ 구분, 앞의 /, . 과 .. 세그먼트 제거) */
+  path: string;
+  /** 디렉터리 항목 여부 */
+  isDirectory: boolean;
+  /** 압축 해제 후 크기 (바이트) */
+  size: number;
+  /** 내용 읽기 (압축 해제) */
+  read(): Buffer;
+}
+
+function invalidArchive(reason: string): ApiRouteError {
+  return new ApiRouteError(
+    "INVALID_ARCHIVE",
+    `ZIP 파일을 읽을 수 없습니다: ${reason}`,
+    {
+      reason,
+    }
+  );
+}
+
+/**
+ * End of Central Directory 레코드 위치 (파일 끝에서 역방향 탐색)
+ */
+function findEndOfCentralDirectory(archive: Buffer): number {
+  const start = Math.max(0, archive.length - EOCD_SIZE - MAX_COMMENT_LENGTH);
+  for (let offset = archive.length - EOCD_SIZE; offset >= start; offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw invalidArchive("ZIP 형식이 아닙니다");
+}
+
+/**
+ * 항목 경로 정리 (역슬래시, 앞의 /, . 과 .. 세그먼트 제거)
+ */
+function normalizeEntryPath(name: string): string {
+  return name
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/");
+}
+
+/**
+ * ZIP 아카이브의 항목 목록 읽기
+ *
+ * @param archive - ZIP 파일 내용
+ * @throws ApiRouteError(INVALID_ARCHIVE) - ZIP 형식이 아니거나 지원하지 않는 형식일 때
+ */
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+  if (archive.length < EOCD_SIZE) {
+    throw invalidArchive("ZIP 형식이 아닙니다");
+  }
+
+  const eocd = findEndOfCentralDirectory(archive);
+  const entryCount = archive.readUInt16LE(eocd + 10);
+  const directorySize = archive.readUInt32LE(eocd + 12);
+  const directoryOffset = archive.readUInt32LE(eocd + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw invalidArchive("ZIP64 형식은 지원하지 않습니다");
+  }
+  if (directoryOffset + directorySize > archive.length) {
+    throw invalidArchive("중앙 디렉터리가 손상되었습니다");
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > archive.length ||
+      archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw invalidArchive("중앙 디렉터리가 손상되었습니다");
+    }
+
+    const flags = archive.readUInt16LE(offset + 8);
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeaderOffset = archive.readUInt32LE(offset + 42);
+    // UTF-8 플래그(0x800)가 없는 이름도 UTF-8로 읽음 (macOS, 최신 Windows 압축 도구)
+    const name = archive
+      .subarray(offset + 46, offset + 46 + nameLength)
+      .toString("utf8");
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const path = normalizeEntryPath(name);
+    entries.push({
+      path,
+      isDirectory: name.endsWith("/") || name.endsWith("\\"),
+      size,
+      read: () => {
+        if (flags & FLAG_ENCRYPTED) {
+          throw invalidArchive(`암호화된 항목은 지원하지 않습니다 (${path})`);
+        }
+        if (
+          localHeaderOffset + 30 > archive.length ||
+          archive.readUInt32LE(localHeaderOffset) !== LOCAL_FILE_HEADER
+        ) {
+          throw invalidArchive(`항목 헤더가 손상되었습니다 (${path})`);
+        }
+
+        const dataStart =
+          localHeaderOffset +
+          30 +
+          archive.readUInt16LE(localHeaderOffset + 26) +
+          archive.readUInt16LE(localHeaderOffset + 28);
+        const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === METHOD_STORED) {
+          return Buffer.from(data);
+        }
+        if (method === METHOD_DEFLATE) {
+          // 선언된 크기보다 크게 풀리는 항목(압축 폭탄)은 중단
+          try {
+            return inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+          } catch {
+            throw invalidArchive(`항목을 압축 해제할 수 없습니다 (${path})`);
+          }
+        }
+        throw invalidArchive(
+          `지원하지 않는 압축 방식입니다 (${path}, method ${method})`
+        );
+      },
+    });
+  }
+
+  return entries;
+}
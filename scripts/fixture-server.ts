@@ -0,0 +1,58 @@
+/**
+ * Fixture HTTP Server
+ *
+ * URL 가져오기(lib/url-ingest.ts)를 네트워크 없이 테스트하기 위한 정적 파일 서버
+ * - fixtures/help-center의 파일을 제공 (디렉터리는 index.html)
+ * - .html/.xml 파일의 {{origin}}은 서버 주소로 치환 (사이트맵의 절대 URL)
+ * - localhost 주소이므로 앱은 URL_INGEST_ALLOW_PRIVATE_HOSTS=true로 실행
+ *
+ * 실행: npm run fixture-server (FIXTURE_PORT, 기본 4010)
+ */
+
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+
+const ROOT = path.resolve(process.cwd(), "fixtures/help-center");
+const PORT = Number(process.env.FIXTURE_PORT) || 4010;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".xml": "application/xml; charset=utf-8",
+  ".txt": "text/plain; charset=utf-8",
+  ".md": "text/markdown; charset=utf-8",
+};
+
+const server = http.createServer((request, response) => {
+  const { pathname } = new URL(request.url || "/", `http://localhost:${PORT}`);
+  let filePath = path.join(ROOT, decodeURIComponent(pathname));
+  if (!filePath.startsWith(ROOT)) {
+    response.writeHead(403).end();
+    return;
+  }
+  if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+    filePath = path.join(filePath, "index.html");
+  }
+  if (!fs.existsSync(filePath)) {
+    response.writeHead(404, { "content-type": "text/plain" }).end("Not Found");
+    console.log(`404 ${pathname}`);
+    return;
+  }
+
+  const ext = path.extname(filePath);
+  const origin = `http://${request.headers.host || `localhost:${PORT}`}`;
+  const body = fs
+    .readFileSync(filePath, "utf8")
+    .replaceAll("{{origin}}", origin);
+  response
+    .writeHead(200, {
+      "content-type": CONTENT_TYPES[ext] || "application/octet-stream",
+    })
+    .end(body);
+  console.log(`200 ${pathname}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`Fixture server: http://localhost:${PORT} (${ROOT})`);
+  console.log(`Sitemap: http://localhost:${PORT}/sitemap.xml`);
+});
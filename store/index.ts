@@ -4,8 +4,10 @@ import { createUISlice } from "./slices/uiSlice";
 import { createStoresSlice } from "./slices/storesSlice";
 import { createDocumentsSlice } from "./slices/documentsSlice";
 import { createQuerySlice } from "./slices/querySlice";
+import { createUploadsSlice } from "./slices/uploadsSlice";
 import { createApiKeySlice } from "./slices/apiKeySlice";
 import { createModelSlice } from "./slices/modelSlice";
+import { createPresetsSlice } from "./slices/presetsSlice";
 import type { AppStore } from "@/types/store";
 
 /**
@@ -30,12 +32,18 @@ export const useAppStore = create<AppStore>()(
       // Query slice (with persistence)
       ...createQuerySlice(...args),
 
+      // Uploads slice (with persistence)
+      ...createUploadsSlice(...args),
+
       // API Key slice (with persistence)
       ...createApiKeySlice(...args),
 
       // Model slice (with persistence)
       ...createModelSlice(...args),
 
+      // Presets slice (with persistence)
+      ...createPresetsSlice(...args),
+
       // Hydration state (not persisted)
       _hasHydrated: false,
       setHasHydrated: (state: boolean) => {
@@ -63,10 +71,17 @@ export const useAppStore = create<AppStore>()(
         currentStore: state.currentStore,
         lastUpdated: state.lastUpdated,
         cacheTTL: state.cacheTTL,
+        chunkingDefaults: state.chunkingDefaults,
 
         // Query slice
         history: state.history,
         maxHistorySize: state.maxHistorySize,
+        threads: state.threads,
+        activeThreadIds: state.activeThreadIds,
+        selectedStoreIds: state.selectedStoreIds,
+
+        // Uploads slice
+        uploadJobs: state.uploadJobs,
 
         // API Key slice
         apiKey: state.apiKey,
@@ -74,10 +89,15 @@ export const useAppStore = create<AppStore>()(
         // Model slice
         selectedModel: state.selectedModel,
 
+        // Presets slice
+        presets: state.presets,
+        defaultPresetIds: state.defaultPresetIds,
+
         // Do NOT persist:
         // - UI state (isLoading, error, etc.)
         // - Documents state (should be fetched fresh)
         // - currentResult (temporary)
+        // - activePresetId (고급 설정은 저장하지 않음)
         // - _hasHydrated (hydration state)
       }),
       onRehydrateStorage: () => (state) => {
@@ -119,6 +139,10 @@ export const useStoresState = () => {
   const removeStore = useAppStore((state) => state.removeStore);
   const clearStores = useAppStore((state) => state.clearStores);
   const isCacheValid = useAppStore((state) => state.isCacheValid);
+  const chunkingDefaults = useAppStore((state) => state.chunkingDefaults);
+  const setChunkingDefaults = useAppStore(
+    (state) => state.setChunkingDefaults
+  );
 
   return {
     stores,
@@ -130,6 +154,8 @@ export const useStoresState = () => {
     removeStore,
     clearStores,
     isCacheValid,
+    chunkingDefaults,
+    setChunkingDefaults,
   };
 };
 
@@ -163,17 +189,59 @@ export const useQueryState = () => {
   const history = useAppStore((state) => state.history);
   const currentResult = useAppStore((state) => state.currentResult);
   const addToHistory = useAppStore((state) => state.addToHistory);
+  const removeFromHistory = useAppStore((state) => state.removeFromHistory);
   const setCurrentResult = useAppStore((state) => state.setCurrentResult);
   const clearHistory = useAppStore((state) => state.clearHistory);
   const clearCurrentResult = useAppStore((state) => state.clearCurrentResult);
+  const threads = useAppStore((state) => state.threads);
+  const activeThreadIds = useAppStore((state) => state.activeThreadIds);
+  const createThread = useAppStore((state) => state.createThread);
+  const renameThread = useAppStore((state) => state.renameThread);
+  const deleteThread = useAppStore((state) => state.deleteThread);
+  const setActiveThread = useAppStore((state) => state.setActiveThread);
+  const addMessage = useAppStore((state) => state.addMessage);
+  const updateMessage = useAppStore((state) => state.updateMessage);
+  const selectedStoreIds = useAppStore((state) => state.selectedStoreIds);
+  const setSelectedStoreIds = useAppStore(
+    (state) => state.setSelectedStoreIds
+  );
 
   return {
     history,
     currentResult,
     addToHistory,
+    removeFromHistory,
     setCurrentResult,
     clearHistory,
     clearCurrentResult,
+    threads,
+    activeThreadIds,
+    createThread,
+    renameThread,
+    deleteThread,
+    setActiveThread,
+    addMessage,
+    updateMessage,
+    selectedStoreIds,
+    setSelectedStoreIds,
+  };
+};
+
+export const useUploadsState = () => {
+  const uploadJobs = useAppStore((state) => state.uploadJobs);
+  const addUploadJobs = useAppStore((state) => state.addUploadJobs);
+  const updateUploadJob = useAppStore((state) => state.updateUploadJob);
+  const removeUploadJob = useAppStore((state) => state.removeUploadJob);
+  const clearFinishedUploadJobs = useAppStore(
+    (state) => state.clearFinishedUploadJobs
+  );
+
+  return {
+    uploadJobs,
+    addUploadJobs,
+    updateUploadJob,
+    removeUploadJob,
+    clearFinishedUploadJobs,
   };
 };
 
@@ -192,6 +260,8 @@ export const useModelState = () => {
   const setTopK = useAppStore((state) => state.setTopK);
   const metadataFilter = useAppStore((state) => state.metadataFilter);
   const setMetadataFilter = useAppStore((state) => state.setMetadataFilter);
+  const safetySettings = useAppStore((state) => state.safetySettings);
+  const setSafetySettings = useAppStore((state) => state.setSafetySettings);
 
   return {
     selectedModel,
@@ -208,5 +278,31 @@ export const useModelState = () => {
     setTopK,
     metadataFilter,
     setMetadataFilter,
+    safetySettings,
+    setSafetySettings,
+  };
+};
+
+export const usePresetsState = () => {
+  const presets = useAppStore((state) => state.presets);
+  const defaultPresetIds = useAppStore((state) => state.defaultPresetIds);
+  const activePresetId = useAppStore((state) => state.activePresetId);
+  const savePreset = useAppStore((state) => state.savePreset);
+  const updatePreset = useAppStore((state) => state.updatePreset);
+  const deletePreset = useAppStore((state) => state.deletePreset);
+  const applyPreset = useAppStore((state) => state.applyPreset);
+  const setDefaultPreset = useAppStore((state) => state.setDefaultPreset);
+  const importPresets = useAppStore((state) => state.importPresets);
+
+  return {
+    presets,
+    defaultPresetIds,
+    activePresetId,
+    savePreset,
+    updatePreset,
+    deletePreset,
+    applyPreset,
+    setDefaultPreset,
+    importPresets,
   };
 };
@@ -1,5 +1,6 @@
 import type { StateCreator } from "zustand";
 import type { AppStore } from "@/types/store";
+import type { ApiKeyMode, ServerConfigResponse } from "@/types";
 
 /**
  * API Key Slice
@@ -7,10 +8,16 @@ import type { AppStore } from "@/types/store";
  * Gemini API 키를 관리하는 slice
  * - localStorage에 API 키 저장
  * - API 키 유효성 검증
+ * - 서버가 알려준 API 키 모드 (server 모드면 본인 키 없이도 사용 가능, 저장하지 않음)
  */
 export interface ApiKeySlice {
   apiKey: string | null;
+  /** 서버 API 키 모드 (GET /api/config 응답 전에는 null) */
+  apiKeyMode: ApiKeyMode | null;
+  /** server 모드에서 본인 키를 사용할 수 있는지 여부 */
+  allowByok: boolean;
   setApiKey: (key: string) => void;
+  setServerConfig: (config: ServerConfigResponse) => void;
   clearApiKey: () => void;
   hasApiKey: () => boolean;
 }
@@ -20,11 +27,17 @@ export const createApiKeySlice: StateCreator<AppStore, [], [], ApiKeySlice> = (
   get
 ) => ({
   apiKey: null,
+  apiKeyMode: null,
+  allowByok: true,
 
   setApiKey: (key: string) => {
     set({ apiKey: key.trim() });
   },
 
+  setServerConfig: (config: ServerConfigResponse) => {
+    set({ apiKeyMode: config.apiKeyMode, allowByok: config.allowByok });
+  },
+
   clearApiKey: () => {
     set(() => ({
       // API Key
@@ -39,19 +52,27 @@ export const createApiKeySlice: StateCreator<AppStore, [], [], ApiKeySlice> = (
       stores: [],
       currentStore: null,
       lastUpdated: null,
+      chunkingDefaults: {},
 
       // Documents 상태 초기화
       documents: [],
       selectedDocuments: [],
 
-      // Query 상태 초기화
-      history: [],
+      // Query 상태 초기화 (쿼리 히스토리는 유지)
       currentResult: null,
+      threads: [],
+      activeThreadIds: {},
+      selectedStoreIds: {},
+
+      // Uploads 상태 초기화
+      uploadJobs: [],
     }));
   },
 
   hasApiKey: () => {
-    const { apiKey } = get();
+    const { apiKey, apiKeyMode } = get();
+    // server 모드에서는 본인 키가 없어도 서버 키로 요청 가능
+    if (apiKeyMode === "server") return true;
     return !!apiKey && apiKey.trim().length > 0;
   },
 });
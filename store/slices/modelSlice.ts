@@ -1,5 +1,6 @@
 import type { StateCreator } from "zustand";
 import type { AppStore } from "@/types/store";
+import type { SafetySetting } from "@/types";
 
 /**
  * Model Slice
@@ -25,6 +26,8 @@ export interface ModelSlice {
   setTopK: (topK: number | undefined) => void;
   metadataFilter: string;
   setMetadataFilter: (filter: string) => void;
+  safetySettings: SafetySetting[];
+  setSafetySettings: (settings: SafetySetting[]) => void;
 }
 
 /**
@@ -60,4 +63,7 @@ export const createModelSlice: StateCreator<AppStore, [], [], ModelSlice> = (
   setTopK: (topK: number | undefined) => set({ topK: topK }),
   metadataFilter: "",
   setMetadataFilter: (filter: string) => set({ metadataFilter: filter }),
+  safetySettings: [],
+  setSafetySettings: (settings: SafetySetting[]) =>
+    set({ safetySettings: settings }),
 });
@@ -0,0 +1,138 @@
+import type { StateCreator } from "zustand";
+import type {
+  AppStore,
+  PresetSettings,
+  PresetsState,
+  SettingsPreset,
+} from "@/types/store";
+import { generateId } from "@/lib/utils";
+
+/**
+ * 이름이 같은 프리셋은 설정을 덮어쓰고, 없으면 새로 추가
+ *
+ * @returns 변경된 프리셋 목록과 대상 프리셋 ID
+ */
+function upsertPreset(
+  presets: SettingsPreset[],
+  name: string,
+  settings: PresetSettings,
+  now: number
+): [SettingsPreset[], string] {
+  const existing = presets.find((preset) => preset.name === name);
+  if (existing) {
+    return [
+      presets.map((preset) =>
+        preset.id === existing.id
+          ? { ...preset, ...settings, updatedAt: now }
+          : preset
+      ),
+      existing.id,
+    ];
+  }
+
+  const preset: SettingsPreset = {
+    ...settings,
+    id: generateId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return [[...presets, preset], preset.id];
+}
+
+/**
+ * Presets State Slice
+ *
+ * 워크스페이스 설정 프리셋을 관리하는 Zustand slice
+ * - 이름이 붙은 설정 묶음 (모델, 시스템 지시, 생성/안전 설정, 메타데이터 필터)
+ * - 스토어별 기본 프리셋
+ * - 프리셋 적용 시 Model slice의 설정을 교체
+ *
+ * persist middleware가 적용됨 (activePresetId 제외)
+ */
+export const createPresetsSlice: StateCreator<
+  AppStore,
+  [],
+  [],
+  PresetsState
+> = (set, get) => ({
+  // Initial state
+  presets: [],
+  defaultPresetIds: {},
+  activePresetId: null,
+
+  // Actions
+  savePreset: (name, settings) => {
+    const [presets, id] = upsertPreset(
+      get().presets,
+      name.trim(),
+      settings,
+      Date.now()
+    );
+    set({ presets, activePresetId: id });
+    return id;
+  },
+
+  updatePreset: (id, patch) =>
+    set((state) => ({
+      presets: state.presets.map((preset) =>
+        preset.id === id
+          ? {
+              ...preset,
+              ...patch,
+              name: patch.name?.trim() || preset.name,
+              updatedAt: Date.now(),
+            }
+          : preset
+      ),
+    })),
+
+  deletePreset: (id) =>
+    set((state) => ({
+      presets: state.presets.filter((preset) => preset.id !== id),
+      defaultPresetIds: Object.fromEntries(
+        Object.entries(state.defaultPresetIds).filter(
+          ([, presetId]) => presetId !== id
+        )
+      ),
+      activePresetId: state.activePresetId === id ? null : state.activePresetId,
+    })),
+
+  applyPreset: (id) => {
+    const preset = get().presets.find((p) => p.id === id);
+    if (!preset) return;
+
+    set({
+      selectedModel: preset.model,
+      systemInstruction: preset.systemInstruction,
+      temperature: preset.generationConfig.temperature,
+      maxOutputTokens: preset.generationConfig.maxOutputTokens,
+      topP: preset.generationConfig.topP,
+      topK: preset.generationConfig.topK,
+      safetySettings: preset.safetySettings,
+      metadataFilter: preset.metadataFilter,
+      activePresetId: id,
+    });
+  },
+
+  setDefaultPreset: (storeName, id) =>
+    set((state) => {
+      const defaultPresetIds = { ...state.defaultPresetIds };
+      if (id) {
+        defaultPresetIds[storeName] = id;
+      } else {
+        delete defaultPresetIds[storeName];
+      }
+      return { defaultPresetIds };
+    }),
+
+  importPresets: (items) => {
+    const now = Date.now();
+    let presets = get().presets;
+    for (const { name, ...settings } of items) {
+      [presets] = upsertPreset(presets, name.trim(), settings, now);
+    }
+    set({ presets });
+    return items.length;
+  },
+});
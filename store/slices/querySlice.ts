@@ -1,5 +1,6 @@
 import type { StateCreator } from "zustand";
-import type { QueryState, AppStore } from "@/types/store";
+import type { QueryState, AppStore, ChatThread } from "@/types/store";
+import { generateId } from "@/lib/utils";
 
 const MAX_HISTORY_SIZE = 50;
 
@@ -7,8 +8,10 @@ const MAX_HISTORY_SIZE = 50;
  * Query State Slice
  *
  * RAG 쿼리 상태를 관리하는 Zustand slice
- * - 쿼리 히스토리
+ * - 스토어별 쿼리 히스토리 (답변, 그라운딩 정보, 모델/설정 포함)
  * - 현재 결과
+ * - 스토어별 대화 스레드
+ * - 함께 검색할 스토어 선택
  *
  * persist middleware가 적용됨
  */
@@ -19,32 +22,126 @@ export const createQuerySlice: StateCreator<AppStore, [], [], QueryState> = (
   history: [],
   currentResult: null,
   maxHistorySize: MAX_HISTORY_SIZE,
+  threads: [],
+  activeThreadIds: {},
+  selectedStoreIds: {},
 
   // Actions
   addToHistory: (item) =>
     set((state) => {
-      const newHistory = [item, ...state.history];
-      // Keep only maxHistorySize items
-      if (newHistory.length > state.maxHistorySize) {
-        newHistory.splice(state.maxHistorySize);
-      }
+      // Keep only maxHistorySize items per store
+      let storeCount = 0;
+      const newHistory = [item, ...state.history].filter(
+        (entry) =>
+          entry.storeName !== item.storeName ||
+          ++storeCount <= state.maxHistorySize
+      );
       return {
         history: newHistory,
       };
     }),
 
+  removeFromHistory: (id) =>
+    set((state) => ({
+      history: state.history.filter((item) => item.id !== id),
+    })),
+
   setCurrentResult: (result) =>
     set({
       currentResult: result,
     }),
 
-  clearHistory: () =>
-    set({
-      history: [],
-    }),
+  clearHistory: (storeName) =>
+    set((state) => ({
+      history: storeName
+        ? state.history.filter((item) => item.storeName !== storeName)
+        : [],
+    })),
 
   clearCurrentResult: () =>
     set({
       currentResult: null,
     }),
+
+  createThread: (storeName, title = "") => {
+    const now = Date.now();
+    const thread: ChatThread = {
+      id: generateId(),
+      storeName,
+      title,
+      messages: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    set((state) => ({
+      threads: [thread, ...state.threads],
+      activeThreadIds: { ...state.activeThreadIds, [storeName]: thread.id },
+    }));
+
+    return thread.id;
+  },
+
+  renameThread: (threadId, title) =>
+    set((state) => ({
+      threads: state.threads.map((thread) =>
+        thread.id === threadId
+          ? { ...thread, title: title.trim(), updatedAt: Date.now() }
+          : thread
+      ),
+    })),
+
+  deleteThread: (threadId) =>
+    set((state) => {
+      const target = state.threads.find((thread) => thread.id === threadId);
+      if (!target) return {};
+
+      const activeThreadIds = { ...state.activeThreadIds };
+      if (activeThreadIds[target.storeName] === threadId) {
+        activeThreadIds[target.storeName] = null;
+      }
+
+      return {
+        threads: state.threads.filter((thread) => thread.id !== threadId),
+        activeThreadIds,
+      };
+    }),
+
+  setActiveThread: (storeName, threadId) =>
+    set((state) => ({
+      activeThreadIds: { ...state.activeThreadIds, [storeName]: threadId },
+    })),
+
+  addMessage: (threadId, message) =>
+    set((state) => ({
+      threads: state.threads.map((thread) =>
+        thread.id === threadId
+          ? {
+              ...thread,
+              messages: [...thread.messages, message],
+              updatedAt: Date.now(),
+            }
+          : thread
+      ),
+    })),
+
+  updateMessage: (threadId, messageId, patch) =>
+    set((state) => ({
+      threads: state.threads.map((thread) =>
+        thread.id === threadId
+          ? {
+              ...thread,
+              messages: thread.messages.map((message) =>
+                message.id === messageId ? { ...message, ...patch } : message
+              ),
+              updatedAt: Date.now(),
+            }
+          : thread
+      ),
+    })),
+
+  setSelectedStoreIds: (storeName, storeIds) =>
+    set((state) => ({
+      selectedStoreIds: { ...state.selectedStoreIds, [storeName]: storeIds },
+    })),
 });
@@ -10,6 +10,7 @@ const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
  * - 스토어 목록
  * - 현재 선택된 스토어
  * - 캐시 관리
+ * - 스토어별 기본 청킹 설정
  *
  * persist middleware가 적용됨
  */
@@ -24,6 +25,7 @@ export const createStoresSlice: StateCreator<
   currentStore: null,
   lastUpdated: null,
   cacheTTL: CACHE_TTL,
+  chunkingDefaults: {},
 
   // Actions
   setStores: (stores) =>
@@ -65,4 +67,15 @@ export const createStoresSlice: StateCreator<
     if (!lastUpdated) return false;
     return Date.now() - lastUpdated < cacheTTL;
   },
+
+  setChunkingDefaults: (storeName, config) =>
+    set((state) => {
+      const chunkingDefaults = { ...state.chunkingDefaults };
+      if (config) {
+        chunkingDefaults[storeName] = config;
+      } else {
+        delete chunkingDefaults[storeName];
+      }
+      return { chunkingDefaults };
+    }),
 });
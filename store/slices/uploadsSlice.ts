@@ -0,0 +1,57 @@
+import type { StateCreator } from "zustand";
+import type { UploadsState, AppStore } from "@/types/store";
+import { generateId } from "@/lib/utils";
+
+/**
+ * Uploads State Slice
+ *
+ * 업로드 후 인덱싱 operation 상태를 관리하는 Zustand slice
+ * - 파일별 인덱싱 진행 상태
+ * - 페이지 이동/새로고침 후에도 폴링을 이어가기 위해 persist middleware가 적용됨
+ */
+export const createUploadsSlice: StateCreator<
+  AppStore,
+  [],
+  [],
+  UploadsState
+> = (set) => ({
+  // Initial state
+  uploadJobs: [],
+
+  // Actions
+  addUploadJobs: (jobs) =>
+    set((state) => {
+      const now = Date.now();
+      return {
+        uploadJobs: [
+          ...jobs.map((job) => ({
+            ...job,
+            id: generateId(),
+            status: "processing" as const,
+            createdAt: now,
+            updatedAt: now,
+          })),
+          ...state.uploadJobs,
+        ],
+      };
+    }),
+
+  updateUploadJob: (id, patch) =>
+    set((state) => ({
+      uploadJobs: state.uploadJobs.map((job) =>
+        job.id === id ? { ...job, ...patch, updatedAt: Date.now() } : job
+      ),
+    })),
+
+  removeUploadJob: (id) =>
+    set((state) => ({
+      uploadJobs: state.uploadJobs.filter((job) => job.id !== id),
+    })),
+
+  clearFinishedUploadJobs: (storeName) =>
+    set((state) => ({
+      uploadJobs: state.uploadJobs.filter(
+        (job) => job.storeName !== storeName || job.status === "processing"
+      ),
+    })),
+});
@@ -0,0 +1,83 @@
+/**
+ * 테스트 공통 설정
+ */
+
+import { beforeEach, mock } from "node:test";
+import { crc32 } from "node:zlib";
+
+/** 테스트용 API 키 (fake 백엔드는 키를 검사하지 않음) */
+export const API_KEY = "AIza-test";
+
+/**
+ * 진행 로그(console.log) 숨김
+ * 테스트 러너가 자식 프로세스의 stdout으로 결과를 받으므로 로그가 섞이지 않게 함
+ */
+export function silenceLogs(): void {
+  mock.method(console, "log", () => {});
+}
+
+/**
+ * 테스트마다 비어 있는 인메모리 fake 백엔드 사용 (업로드 operation은 바로 완료)
+ */
+export function useFakeBackend(): void {
+  silenceLogs();
+  process.env.GEMINI_BACKEND = "fake";
+  process.env.FAKE_OPERATION_DELAY_MS = "0";
+  delete process.env.FAKE_BACKEND_DIR;
+
+  beforeEach(() => {
+    (globalThis as { __fakeFileSearchState?: unknown }).__fakeFileSearchState =
+      undefined;
+  });
+}
+
+/**
+ * 압축하지 않은(stored) ZIP 아카이브 생성
+ *
+ * @param entries - 경로와 내용 (declaredSize를 주면 중앙 디렉터리에 그 크기를 기록)
+ */
+export function buildZip(
+  entries: Array<{ path: string; content: string; declaredSize?: number }>
+): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const { path, content, declaredSize } of entries) {
+    const name = Buffer.from(path);
+    const data = Buffer.from(content);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(declaredSize ?? data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(data.length, 20);
+    header.writeUInt32LE(declaredSize ?? data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, data);
+    directory.push(header, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, centralDirectory, end]);
+}
@@ -0,0 +1,133 @@
+/**
+ * Metadata Filter 테스트
+ * 파싱(우선순위, 오류), 평가(값 타입별), 직렬화, 검증
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  collectMetadataKeys,
+  matchesMetadataFilter,
+  parseMetadataFilter,
+  serializeMetadataFilter,
+  validateMetadataFilter,
+} from "@/lib/metadata-filter";
+import type { CustomMetadata } from "@/types";
+
+const metadata: CustomMetadata[] = [
+  { key: "genre", stringValue: "fiction" },
+  { key: "year", numericValue: 2010 },
+  { key: "tags", stringListValue: { values: ["a", "b"] } },
+];
+
+function matches(filter: string): boolean {
+  return matchesMetadataFilter(parseMetadataFilter(filter), metadata);
+}
+
+describe("parseMetadataFilter", () => {
+  it("OR를 AND보다 먼저 묶음 (AIP-160)", () => {
+    assert.deepEqual(parseMetadataFilter("a = 1 AND b = 2 OR c = 3"), {
+      type: "and",
+      children: [
+        { type: "comparison", key: "a", operator: "=", value: 1 },
+        {
+          type: "or",
+          children: [
+            { type: "comparison", key: "b", operator: "=", value: 2 },
+            { type: "comparison", key: "c", operator: "=", value: 3 },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("공백으로 나열한 조건은 AND", () => {
+    assert.equal(parseMetadataFilter('a = "x" b = "y"').type, "and");
+  });
+
+  it("문자열의 이스케이프 처리", () => {
+    assert.deepEqual(parseMetadataFilter('title = "say \\"hi\\""'), {
+      type: "comparison",
+      key: "title",
+      operator: "=",
+      value: 'say "hi"',
+    });
+  });
+
+  it("문법 오류는 위치와 함께 throw", () => {
+    assert.throws(() => parseMetadataFilter(""), /비어 있습니다/);
+    assert.throws(() => parseMetadataFilter('genre = "x'), /닫히지 않은/);
+    assert.throws(() => parseMetadataFilter("(genre = 1"), /'\)'가 필요/);
+    assert.throws(() => parseMetadataFilter("genre"), /비교 연산자/);
+    assert.throws(() => parseMetadataFilter("genre = 1 )"), /위치 10/);
+  });
+});
+
+describe("matchesMetadataFilter", () => {
+  it("문자열 값 비교", () => {
+    assert.equal(matches('genre = "fiction"'), true);
+    assert.equal(matches('genre != "fiction"'), false);
+    assert.equal(matches('genre < "g"'), true);
+  });
+
+  it("숫자 값은 숫자와만 비교", () => {
+    assert.equal(matches("year >= 2010"), true);
+    assert.equal(matches("year < 2000"), false);
+    assert.equal(matches('year = "2010"'), false);
+  });
+
+  it("문자열 목록은 포함 여부로 비교", () => {
+    assert.equal(matches('tags : "a"'), true);
+    assert.equal(matches('tags = "c"'), false);
+    assert.equal(matches('tags != "c"'), true);
+    assert.equal(matches('tags > "a"'), false);
+  });
+
+  it("없는 키는 false, NOT으로 뒤집을 수 있음", () => {
+    assert.equal(matches('missing = "x"'), false);
+    assert.equal(matches('NOT missing = "x"'), true);
+    assert.equal(
+      matches('(genre = "poetry" OR year > 2000) AND tags:"b"'),
+      true
+    );
+  });
+});
+
+describe("serializeMetadataFilter", () => {
+  it("다시 파싱하면 같은 트리", () => {
+    for (const filter of [
+      'genre = "fiction" AND (year > 2000 OR NOT tags:"a")',
+      '"AND" = "x y" OR "odd key" != "q\\"uote"',
+    ]) {
+      const node = parseMetadataFilter(filter);
+      assert.deepEqual(
+        parseMetadataFilter(serializeMetadataFilter(node)),
+        node
+      );
+    }
+  });
+});
+
+describe("validateMetadataFilter", () => {
+  const keys = collectMetadataKeys([{ customMetadata: metadata }]);
+
+  it("문서에서 키 타입과 값 수집", () => {
+    assert.deepEqual(keys, [
+      { key: "genre", type: "string", values: ["fiction"] },
+      { key: "tags", type: "stringList", values: ["a", "b"] },
+      { key: "year", type: "numeric", values: ["2010"] },
+    ]);
+  });
+
+  it("빈 필터와 알려지지 않은 키는 유효", () => {
+    assert.equal(validateMetadataFilter("  ", keys), null);
+    assert.equal(validateMetadataFilter('other = "x"', keys), null);
+  });
+
+  it("키 타입과 맞지 않는 비교는 오류", () => {
+    assert.match(validateMetadataFilter('year = "x"', keys)!, /숫자/);
+    assert.match(validateMetadataFilter('tags > "a"', keys)!, /문자열 목록/);
+    assert.match(validateMetadataFilter("genre = 1", keys)!, /따옴표/);
+    assert.match(validateMetadataFilter("genre =", keys)!, /비교 값/);
+  });
+});
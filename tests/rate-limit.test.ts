@@ -0,0 +1,175 @@
+/**
+ * Rate Limiting 테스트
+ * 인메모리 token bucket, 클라이언트 구분(신뢰하는 프록시, 본인 API 키), 요청 제한
+ */
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  acquireRateLimit,
+  configureRateLimit,
+  createMemoryRateLimitStore,
+  getClientIds,
+  getClientIp,
+  setRateLimitStore,
+} from "@/lib/rate-limit";
+
+function request(headers: Record<string, string>): Request {
+  return new Request("http://localhost/api/stores", { headers });
+}
+
+beforeEach(() => {
+  setRateLimitStore(createMemoryRateLimitStore());
+  delete process.env.GEMINI_API_KEY;
+  delete process.env.RATE_LIMIT_TRUSTED_PROXIES;
+});
+
+describe("createMemoryRateLimitStore", () => {
+  const limit = { capacity: 2, refillPerSecond: 1, maxConcurrent: 1 };
+
+  it("bucket이 비면 다음 토큰까지 남은 시간 반환", async () => {
+    const store = createMemoryRateLimitStore();
+    assert.equal(await store.consume("a", limit), 0);
+    assert.equal(await store.consume("a", limit), 0);
+    const waitMs = await store.consume("a", limit);
+    assert.ok(waitMs > 900 && waitMs <= 1000);
+    // 다른 클라이언트는 별도 bucket
+    assert.equal(await store.consume("b", limit), 0);
+  });
+
+  it("동시 요청 슬롯은 반환해야 다시 획득", async () => {
+    const store = createMemoryRateLimitStore();
+    assert.equal(await store.acquire("a", 1), true);
+    assert.equal(await store.acquire("a", 1), false);
+    await store.release("a");
+    assert.equal(await store.acquire("a", 1), true);
+  });
+});
+
+describe("getClientIp", () => {
+  const headers = { "x-forwarded-for": "6.6.6.6, 1.2.3.4, 10.0.0.1" };
+
+  it("신뢰하는 프록시가 없으면 x-forwarded-for를 쓰지 않음", () => {
+    assert.equal(getClientIp(request(headers)), null);
+  });
+
+  it("프록시 수만큼 오른쪽에서 센 값 (클라이언트가 보낸 값 무시)", () => {
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "1";
+    assert.equal(getClientIp(request(headers)), "10.0.0.1");
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "2";
+    assert.equal(getClientIp(request(headers)), "1.2.3.4");
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "5";
+    assert.equal(getClientIp(request(headers)), "6.6.6.6");
+    assert.equal(getClientIp(request({})), null);
+  });
+});
+
+describe("getClientIds", () => {
+  it("본인 API 키를 보내면 IP와 키 지문 모두 사용", () => {
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "1";
+    const ids = getClientIds(
+      request({ "x-forwarded-for": "1.2.3.4", "x-api-key": "AIza-secret" })
+    );
+    assert.equal(ids.length, 2);
+    assert.equal(ids[0], "ip:1.2.3.4");
+    assert.match(ids[1]!, /^key:[0-9a-f]{16}$/);
+    assert.ok(!ids[1]!.includes("secret"));
+  });
+
+  it("신뢰하는 프록시가 없으면 키 지문만 사용, 키도 없으면 하나의 제한을 공유", () => {
+    const [id, ...rest] = getClientIds(
+      request({ "x-forwarded-for": "1.2.3.4", "x-api-key": "AIza-secret" })
+    );
+    assert.match(id!, /^key:[0-9a-f]{16}$/);
+    assert.deepEqual(rest, []);
+    assert.deepEqual(getClientIds(request({})), ["ip:unknown"]);
+  });
+
+  it("서버 키가 있고 BYOK를 끄면 키를 무시", () => {
+    process.env.GEMINI_API_KEY = "AIza-server";
+    process.env.GEMINI_ALLOW_BYOK = "false";
+    try {
+      assert.deepEqual(getClientIds(request({ "x-api-key": "AIza-mine" })), [
+        "ip:unknown",
+      ]);
+    } finally {
+      delete process.env.GEMINI_ALLOW_BYOK;
+    }
+  });
+});
+
+describe("acquireRateLimit", () => {
+  beforeEach(() => {
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = "1";
+    configureRateLimit("query", {
+      capacity: 2,
+      refillPerSecond: 0.001,
+      maxConcurrent: 1,
+    });
+  });
+
+  it("키를 바꿔 보내도 같은 IP의 제한은 유지", async () => {
+    const codes: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      const result = await acquireRateLimit(
+        request({ "x-forwarded-for": "1.2.3.4", "x-api-key": `AIza-${i}` }),
+        "query"
+      );
+      if ("release" in result) await result.release();
+      codes.push("error" in result ? result.error.code : "ok");
+    }
+    assert.deepEqual(codes, ["ok", "ok", "CLIENT_RATE_LIMITED"]);
+
+    // 다른 IP는 별도 제한
+    const other = await acquireRateLimit(
+      request({ "x-forwarded-for": "5.6.7.8" }),
+      "query"
+    );
+    assert.ok("release" in other);
+  });
+
+  it("키 제한에 걸린 요청은 IP 토큰을 되돌림", async () => {
+    const send = async (ip: string, apiKey?: string) => {
+      const result = await acquireRateLimit(
+        request({
+          "x-forwarded-for": ip,
+          ...(apiKey && { "x-api-key": apiKey }),
+        }),
+        "query"
+      );
+      if ("release" in result) await result.release();
+      return "error" in result ? result.error.code : "ok";
+    };
+
+    // 키의 토큰을 다른 IP에서 모두 사용
+    assert.equal(await send("1.2.3.4", "AIza-shared"), "ok");
+    assert.equal(await send("5.6.7.8", "AIza-shared"), "ok");
+    assert.equal(await send("1.2.3.4", "AIza-shared"), "CLIENT_RATE_LIMITED");
+    // 1.2.3.4의 두 번째 토큰은 남아 있음
+    assert.equal(await send("1.2.3.4"), "ok");
+    assert.equal(await send("1.2.3.4"), "CLIENT_RATE_LIMITED");
+  });
+
+  it("동시 요청 제한은 토큰을 소비하지 않고 슬롯을 모두 반환", async () => {
+    const first = await acquireRateLimit(
+      request({ "x-forwarded-for": "1.2.3.4", "x-api-key": "AIza-a" }),
+      "query"
+    );
+    assert.ok("release" in first);
+
+    const second = await acquireRateLimit(
+      request({ "x-forwarded-for": "1.2.3.4", "x-api-key": "AIza-b" }),
+      "query"
+    );
+    assert.ok("error" in second);
+    assert.equal(second.error.code, "TOO_MANY_CONCURRENT_REQUESTS");
+
+    await first.release();
+    // 실패한 요청이 키 슬롯을 잡고 있지 않음
+    const third = await acquireRateLimit(
+      request({ "x-forwarded-for": "1.2.3.4", "x-api-key": "AIza-b" }),
+      "query"
+    );
+    assert.ok("release" in third);
+  });
+});
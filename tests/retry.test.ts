@@ -0,0 +1,149 @@
+/**
+ * Retry Policy 테스트
+ * 서버 대기 시간 파싱, 재시도 대기 계산, withRetry 실행과 집계
+ */
+
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getRetryDelay,
+  getRetryPolicy,
+  getServerRetryDelay,
+  trackRetries,
+  withRetry,
+  type RetryPolicy,
+} from "@/lib/retry";
+import { silenceLogs } from "./helpers";
+
+silenceLogs();
+
+const policy: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  jitter: 0,
+  retryableStatuses: [429, 503],
+};
+
+/** 대기 없이 재시도하는 정책 */
+const fast = { baseDelayMs: 1, maxDelayMs: 10, jitter: 0 };
+
+function httpError(status: number, extra: Record<string, unknown> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), { status, ...extra });
+}
+
+/** 처음 failures번은 error로 실패하는 함수 */
+function failing(failures: number, error: Error) {
+  let calls = 0;
+  const fn = async () => {
+    calls++;
+    if (calls <= failures) throw error;
+    return "ok";
+  };
+  return { fn, calls: () => calls };
+}
+
+describe("getServerRetryDelay", () => {
+  it("Retry-After 헤더 (초, HTTP 날짜)", () => {
+    assert.equal(
+      getServerRetryDelay({ headers: new Headers({ "retry-after": "3" }) }),
+      3000
+    );
+    assert.equal(
+      getServerRetryDelay({ headers: { "retry-after": "1.5" } }),
+      1500
+    );
+    const date = new Date(Date.now() + 60_000).toUTCString();
+    const delay = getServerRetryDelay({ retryAfter: date })!;
+    assert.ok(delay > 55_000 && delay <= 60_000);
+  });
+
+  it("429 응답 메시지의 RetryInfo.retryDelay", () => {
+    const message = `{"error":{"details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"24s"}]}}`;
+    assert.equal(getServerRetryDelay({ message }), 24_000);
+  });
+
+  it("알 수 없으면 null", () => {
+    assert.equal(getServerRetryDelay(new Error("boom")), null);
+    assert.equal(getServerRetryDelay({ retryAfter: "soon" }), null);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("지수 백오프, maxDelayMs에서 멈춤", () => {
+    const error = httpError(503);
+    assert.equal(getRetryDelay(error, 0, policy), 100);
+    assert.equal(getRetryDelay(error, 2, policy), 400);
+    assert.equal(getRetryDelay(error, 2, { ...policy, maxDelayMs: 300 }), 300);
+  });
+
+  it("jitter 범위 안의 값", () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = getRetryDelay(httpError(429), 1, {
+        ...policy,
+        jitter: 0.5,
+      })!;
+      assert.ok(delay >= 100 && delay <= 300);
+    }
+  });
+
+  it("재시도하지 않는 상태 코드와 횟수 초과는 null", () => {
+    assert.equal(getRetryDelay(httpError(500), 0, policy), null);
+    assert.equal(getRetryDelay(httpError(400), 0, policy), null);
+    assert.equal(getRetryDelay(httpError(503), 3, policy), null);
+  });
+
+  it("서버가 요구한 대기 시간 우선, 너무 길면 재시도하지 않음", () => {
+    assert.equal(
+      getRetryDelay(httpError(429, { retryAfter: "0.5" }), 2, policy),
+      500
+    );
+    assert.equal(
+      getRetryDelay(httpError(429, { retryAfter: "5" }), 0, policy),
+      null
+    );
+  });
+});
+
+describe("withRetry", () => {
+  it("일시적 오류는 재시도 후 결과 반환, 재시도 집계", async () => {
+    const { fn, calls } = failing(2, httpError(503));
+    const { result, report } = await trackRetries(() =>
+      withRetry("read", fn, { policy: fast })
+    );
+    assert.equal(result, "ok");
+    assert.equal(calls(), 3);
+    assert.equal(report.retries, 2);
+  });
+
+  it("재시도 횟수를 넘으면 마지막 오류를 throw", async () => {
+    const error = httpError(503);
+    const { fn, calls } = failing(10, error);
+    await assert.rejects(
+      withRetry("read", fn, { policy: { ...fast, maxRetries: 2 } }),
+      error
+    );
+    assert.equal(calls(), 3);
+  });
+
+  it("업로드와 생성은 500에서 재시도하지 않음 (중복 방지)", async () => {
+    assert.ok(!getRetryPolicy("upload").retryableStatuses.includes(500));
+    assert.ok(!getRetryPolicy("write").retryableStatuses.includes(500));
+
+    const { fn, calls } = failing(1, httpError(500));
+    await assert.rejects(withRetry("upload", fn, { policy: fast }));
+    assert.equal(calls(), 1);
+  });
+
+  it("취소되면 대기 중인 재시도 중단", async () => {
+    const controller = new AbortController();
+    const { fn, calls } = failing(10, httpError(503));
+    const pending = withRetry("read", fn, {
+      policy: { baseDelayMs: 10_000, maxDelayMs: 10_000, jitter: 0 },
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+    await assert.rejects(pending, { name: "AbortError" });
+    assert.equal(calls(), 1);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Store Backup 테스트 (fake 백엔드)
+ * 매니페스트 생성, 아카이브 항목과 문서 연결(해시 → 경로 → 파일 이름), 복원 결과
+ */
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  computeContentHash,
+  createFileSearchStore,
+  listAllStores,
+  listDocuments,
+  startUploadWithCustomChunking,
+} from "@/lib/gemini";
+import {
+  ARCHIVE_METADATA_KEYS,
+  readDocumentVersion,
+  readSourcePath,
+} from "@/lib/document-metadata";
+import { exportStoreManifest, restoreStore } from "@/lib/store-backup";
+import { MAX_FILE_SIZE } from "@/lib/upload-form";
+import type { FileSearchStore, StoreManifest } from "@/types";
+import { API_KEY, buildZip, useFakeBackend } from "./helpers";
+
+useFakeBackend();
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("exportStoreManifest", () => {
+  it("표시 이름순, 예약 메타데이터는 필드로 분리", async () => {
+    const store = await createFileSearchStore("export", API_KEY);
+    for (const [name, text] of [
+      ["b.md", "B"],
+      ["a.md", "A"],
+    ]) {
+      await startUploadWithCustomChunking(
+        store,
+        encode(text!),
+        {
+          displayName: name,
+          customMetadata: [{ key: "team", stringValue: "docs" }],
+          maxTokensPerChunk: 300,
+          maxOverlapTokens: 30,
+        },
+        API_KEY
+      );
+    }
+
+    const manifest = await exportStoreManifest(store, API_KEY);
+    assert.equal(manifest.store.documentCount, 2);
+    assert.deepEqual(
+      manifest.documents.map((document) => document.displayName),
+      ["a.md", "b.md"]
+    );
+    const [first] = manifest.documents;
+    assert.deepEqual(first!.customMetadata, [
+      { key: "team", stringValue: "docs" },
+    ]);
+    assert.deepEqual(first!.chunking, {
+      maxTokensPerChunk: 300,
+      maxOverlapTokens: 30,
+    });
+    assert.equal(first!.contentHash, await computeContentHash(encode("A")));
+    assert.equal(first!.version, 1);
+  });
+});
+
+describe("restoreStore", () => {
+  let manifest: Pick<StoreManifest, "documents">;
+
+  async function restored(store: { name: string }) {
+    return listDocuments(store as FileSearchStore, API_KEY);
+  }
+
+  beforeEach(async () => {
+    const document = async (
+      displayName: string,
+      text: string,
+      extra: Partial<StoreManifest["documents"][number]> = {}
+    ) => ({
+      name: `fileSearchStores/old/documents/${displayName}`,
+      displayName,
+      createTime: "2024-01-01T00:00:00Z",
+      customMetadata: [],
+      chunking: null,
+      contentHash: await computeContentHash(encode(text)),
+      version: 1,
+      ...extra,
+    });
+
+    manifest = {
+      documents: [
+        // 내용 해시로 연결 (아카이브에서 이름이 바뀜)
+        await document("renamed.md", "hash match", { version: 3 }),
+        // source_path로 연결 (내용이 바뀜)
+        await document("guide.md", "old guide", {
+          customMetadata: [
+            { key: ARCHIVE_METADATA_KEYS.path, stringValue: "docs/guide.md" },
+          ],
+        }),
+        // 파일 이름으로 연결 (다른 폴더에 하나뿐)
+        await document("notes/faq.md", "old faq"),
+        // 같은 파일 이름이 여러 개면 연결하지 않음
+        await document("readme.md", "old readme"),
+        // 아카이브에 없음
+        await document("missing.md", "missing"),
+      ],
+    };
+  });
+
+  it("해시 → 경로 → 파일 이름 순으로 연결하고 설정 복원", async () => {
+    const archive = buildZip([
+      { path: "other-name.md", content: "hash match" },
+      { path: "docs/guide.md", content: "new guide" },
+      { path: "archive/faq.md", content: "new faq" },
+      { path: "a/readme.md", content: "readme a" },
+      { path: "b/readme.md", content: "readme b" },
+      { path: ".hidden/skip.md", content: "ignored" },
+    ]);
+
+    const report = await restoreStore(manifest, archive, "restored", API_KEY);
+    const byName = new Map(report.results.map((r) => [r.fileName, r]));
+
+    assert.equal(byName.get("renamed.md")!.matchedBy, "hash");
+    assert.equal(byName.get("renamed.md")!.archivePath, "other-name.md");
+    assert.equal(byName.get("renamed.md")!.contentChanged, undefined);
+    assert.equal(byName.get("guide.md")!.matchedBy, "path");
+    assert.equal(byName.get("guide.md")!.contentChanged, true);
+    assert.equal(byName.get("notes/faq.md")!.matchedBy, "name");
+    assert.equal(byName.get("readme.md")!.missing, true);
+    assert.equal(byName.get("missing.md")!.missing, true);
+
+    assert.equal(report.successCount, 3);
+    assert.equal(report.missingCount, 2);
+    assert.equal(report.failCount, 0);
+    assert.deepEqual(report.unmatchedFiles, ["a/readme.md", "b/readme.md"]);
+
+    const documents = await restored(report.store);
+    assert.equal(documents.length, 3);
+    const renamed = documents.find((d) => d.displayName === "renamed.md")!;
+    assert.equal(readDocumentVersion(renamed.customMetadata), 3);
+    const guide = documents.find((d) => d.displayName === "guide.md")!;
+    assert.equal(readSourcePath(guide.customMetadata), "docs/guide.md");
+  });
+
+  it("크기 제한을 넘는 항목은 압축을 풀지 않고 FILE_TOO_LARGE", async () => {
+    const archive = buildZip([
+      { path: "other-name.md", content: "hash match" },
+      {
+        path: "docs/guide.md",
+        content: "not read",
+        declaredSize: MAX_FILE_SIZE + 1,
+      },
+    ]);
+
+    const report = await restoreStore(manifest, archive, "restored", API_KEY);
+    const guide = report.results.find((r) => r.fileName === "guide.md")!;
+
+    assert.equal(guide.success, false);
+    assert.equal(guide.matchedBy, "path");
+    assert.equal(guide.code, "FILE_TOO_LARGE");
+    assert.equal(report.failCount, 1);
+  });
+
+  it("연결되는 문서가 없으면 스토어를 만들지 않음", async () => {
+    const archive = buildZip([{ path: "unrelated.md", content: "?" }]);
+
+    await assert.rejects(restoreStore(manifest, archive, "restored", API_KEY), {
+      code: "NO_FILES",
+    });
+    assert.deepEqual(await listAllStores(API_KEY), []);
+  });
+
+  it("ZIP이 아니면 INVALID_ARCHIVE", async () => {
+    await assert.rejects(
+      restoreStore(
+        manifest,
+        Buffer.from("not a zip file at all"),
+        "x",
+        API_KEY
+      ),
+      { code: "INVALID_ARCHIVE" }
+    );
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * Store Sync 테스트
+ * 동기화 계획(planSync)과 매니페스트 동기화 실행 (fake 백엔드)
+ */
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  computeContentHash,
+  createFileSearchStore,
+  finishReplaceDocument,
+  getUploadOperation,
+  listDocuments,
+} from "@/lib/gemini";
+import {
+  ARCHIVE_METADATA_KEYS,
+  CONTENT_HASH_METADATA_KEY,
+  REPLACES_METADATA_KEY,
+  readSourcePath,
+} from "@/lib/document-metadata";
+import { planSync, syncStore } from "@/lib/store-sync";
+import type {
+  DocumentState,
+  FileSearchDocument,
+  FileSearchStore,
+  SyncItem,
+} from "@/types";
+import { API_KEY, useFakeBackend } from "./helpers";
+
+useFakeBackend();
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+function doc(
+  name: string,
+  sourcePath: string,
+  hash: string,
+  createTime: string,
+  extra: { state?: DocumentState; replaces?: string } = {}
+): FileSearchDocument {
+  return {
+    name,
+    displayName: sourcePath,
+    createTime,
+    updateTime: createTime,
+    state: extra.state ?? "STATE_ACTIVE",
+    customMetadata: [
+      { key: ARCHIVE_METADATA_KEYS.path, stringValue: sourcePath },
+      { key: CONTENT_HASH_METADATA_KEY, stringValue: hash },
+      ...(extra.replaces
+        ? [{ key: REPLACES_METADATA_KEY, stringValue: extra.replaces }]
+        : []),
+    ],
+  };
+}
+
+const actions = (items: SyncItem[]) =>
+  items.map((item) => `${item.action} ${item.path} ${item.documentName ?? ""}`);
+
+describe("planSync", () => {
+  const documents = [
+    doc("d/a", "a.md", "h-a", "2024-01-01T00:00:00Z"),
+    doc("d/b", "b.md", "h-b", "2024-01-01T00:00:00Z"),
+    doc("d/gone", "gone.md", "h-gone", "2024-01-01T00:00:00Z"),
+    // source_path가 없는 문서는 대상이 아님
+    { ...doc("d/manual", "", "h", "2024-01-01T00:00:00Z"), customMetadata: [] },
+  ];
+  const manifest = [
+    { path: "a.md", hash: "h-a" },
+    { path: "b.md", hash: "h-b2" },
+    { path: "c.md", hash: "h-c" },
+  ];
+
+  it("새 경로는 upload, 바뀐 내용은 replace, 같으면 unchanged (경로순)", () => {
+    assert.deepEqual(actions(planSync(manifest, documents, false)), [
+      "unchanged a.md d/a",
+      "replace b.md d/b",
+      "upload c.md ",
+    ]);
+  });
+
+  it("deleteRemoved이면 없어진 경로 삭제", () => {
+    assert.deepEqual(actions(planSync(manifest, documents, true)), [
+      "unchanged a.md d/a",
+      "replace b.md d/b",
+      "upload c.md ",
+      "delete gone.md d/gone",
+    ]);
+  });
+
+  it("같은 경로의 문서가 여러 개면 최근 문서 기준, 나머지는 deleteRemoved일 때 삭제", () => {
+    const duplicated = [
+      doc("d/old", "a.md", "h-old", "2024-01-01T00:00:00Z"),
+      doc("d/new", "a.md", "h-a", "2024-02-01T00:00:00Z"),
+    ];
+    const entries = [{ path: "a.md", hash: "h-a" }];
+
+    assert.deepEqual(actions(planSync(entries, duplicated, false)), [
+      "unchanged a.md d/new",
+    ]);
+    assert.deepEqual(actions(planSync(entries, duplicated, true)), [
+      "unchanged a.md d/new",
+      "delete a.md d/old",
+    ]);
+  });
+
+  /** d/old를 교체한 d/new (내용은 매니페스트와 같음) */
+  const replaced = (state: DocumentState) => [
+    doc("d/old", "a.md", "h-old", "2024-01-01T00:00:00Z"),
+    doc("d/new", "a.md", "h-a", "2024-02-01T00:00:00Z", {
+      state,
+      replaces: "d/old",
+    }),
+  ];
+
+  it("인덱싱이 끝난 새 버전이 교체한 이전 버전은 항상 삭제", () => {
+    const entries = [{ path: "a.md", hash: "h-a" }];
+    assert.deepEqual(
+      actions(planSync(entries, replaced("STATE_ACTIVE"), false)),
+      ["unchanged a.md d/new", "delete a.md d/old"]
+    );
+  });
+
+  it("최근 문서가 인덱싱 중이거나 실패했으면 다시 올리고 이전 버전 유지", () => {
+    const entries = [{ path: "a.md", hash: "h-a" }];
+    for (const state of ["STATE_FAILED", "STATE_PENDING"] as const) {
+      const documents = replaced(state);
+      assert.deepEqual(actions(planSync(entries, documents, false)), [
+        "replace a.md d/new",
+      ]);
+      assert.deepEqual(actions(planSync(entries, documents, true)), [
+        "replace a.md d/new",
+      ]);
+    }
+  });
+});
+
+describe("syncStore", () => {
+  let store: FileSearchStore;
+
+  async function sync(
+    files: Record<string, string>,
+    options: { deleteRemoved?: boolean; dryRun?: boolean; send?: string[] } = {}
+  ) {
+    const manifest = await Promise.all(
+      Object.entries(files).map(async ([path, text]) => ({
+        path,
+        hash: await computeContentHash(encode(text)),
+      }))
+    );
+    const sent = options.send ?? Object.keys(files);
+    return syncStore(
+      store,
+      {
+        manifest,
+        files: new Map(sent.map((path) => [path, encode(files[path]!)])),
+      },
+      {},
+      {
+        deleteRemoved: options.deleteRemoved ?? false,
+        dryRun: options.dryRun ?? false,
+      },
+      API_KEY
+    );
+  }
+
+  async function storePaths() {
+    return (await listDocuments(store, API_KEY))
+      .map((document) => readSourcePath(document.customMetadata))
+      .sort();
+  }
+
+  beforeEach(async () => {
+    store = await createFileSearchStore("sync", API_KEY);
+  });
+
+  it("dryRun은 계획만 반환", async () => {
+    const report = await sync({ "a.md": "A" }, { dryRun: true });
+    assert.equal(report.dryRun, true);
+    assert.equal(report.summary.upload, 1);
+    assert.deepEqual(await storePaths(), []);
+  });
+
+  it("업로드는 시작만 하고 항목별 operationName 반환", async () => {
+    const report = await sync({ "a.md": "A", "docs/b.md": "B" });
+    assert.equal(report.failCount, 0);
+    for (const item of report.items) {
+      assert.equal(item.success, true);
+      assert.match(item.operationName!, /\/operations\//);
+    }
+    assert.deepEqual(await storePaths(), ["a.md", "docs/b.md"]);
+  });
+
+  it("교체한 이전 버전은 operation 완료 확인 후 삭제", async () => {
+    await sync({ "a.md": "A" });
+    const report = await sync({ "a.md": "A2" });
+    const [item] = report.items;
+    assert.equal(item!.action, "replace");
+    assert.deepEqual(await storePaths(), ["a.md", "a.md"]);
+
+    const operation = await getUploadOperation(item!.operationName!, API_KEY);
+    assert.equal(
+      await finishReplaceDocument(operation, API_KEY),
+      item!.documentName
+    );
+    assert.deepEqual(await storePaths(), ["a.md"]);
+  });
+
+  it("상태를 확인하지 않은 이전 버전은 다음 동기화에서 삭제", async () => {
+    await sync({ "a.md": "A" });
+    await sync({ "a.md": "A2" });
+    const report = await sync({ "a.md": "A2" });
+
+    assert.deepEqual(
+      report.items.map((item) => item.action),
+      ["unchanged", "delete"]
+    );
+    assert.deepEqual(await storePaths(), ["a.md"]);
+  });
+
+  it("deleteRemoved이면 없어진 파일의 문서 삭제", async () => {
+    await sync({ "a.md": "A", "b.md": "B" });
+    await sync({ "a.md": "A" });
+    assert.deepEqual(await storePaths(), ["a.md", "b.md"]);
+
+    await sync({ "a.md": "A" }, { deleteRemoved: true });
+    assert.deepEqual(await storePaths(), ["a.md"]);
+  });
+
+  it("파일이 없거나 해시가 다르면 항목만 실패", async () => {
+    const report = await sync({ "a.md": "A", "b.md": "B" }, { send: ["a.md"] });
+    assert.equal(report.failCount, 1);
+    assert.equal(report.items[1]!.code, "NO_FILES");
+
+    const mismatch = await syncStore(
+      store,
+      {
+        manifest: [{ path: "c.md", hash: "0".repeat(64) }],
+        files: new Map([["c.md", encode("C")]]),
+      },
+      {},
+      { deleteRemoved: false, dryRun: false },
+      API_KEY
+    );
+    assert.equal(mismatch.items[0]!.code, "INVALID_REQUEST");
+  });
+
+  it("숨김 파일과 지원하지 않는 형식은 제외", async () => {
+    const report = await sync({
+      ".env.md": "secret",
+      "image.bin": "x",
+      "a.md": "A",
+    });
+    assert.deepEqual(
+      report.items.map((item) => item.path),
+      ["a.md"]
+    );
+  });
+});
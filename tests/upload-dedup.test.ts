@@ -0,0 +1,194 @@
+/**
+ * Upload Deduplication 테스트 (fake 백엔드)
+ * 중복 정책(skip/replace/keep), 파일별 정책, 같은 요청 안의 중복
+ */
+
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import {
+  createFileSearchStore,
+  finishReplaceDocument,
+  getFullStoreName,
+  getUploadOperation,
+  listDocuments,
+  sweepReplacedDocuments,
+} from "@/lib/gemini";
+import { getBackend } from "@/lib/backend";
+import { readContentHash, readDocumentVersion } from "@/lib/document-metadata";
+import { createUploadDeduplicator } from "@/lib/upload-dedup";
+import type { FileSearchStore } from "@/types";
+import { API_KEY, useFakeBackend } from "./helpers";
+
+useFakeBackend();
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe("createUploadDeduplicator", () => {
+  let store: FileSearchStore;
+
+  beforeEach(async () => {
+    store = await createFileSearchStore("dedup", API_KEY);
+    const uploader = createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "keep" },
+      API_KEY
+    );
+    await uploader.upload("guide.md", encode("# Guide"), {
+      displayName: "guide.md",
+    });
+  });
+
+  it("업로드한 문서에 내용 해시 기록", async () => {
+    const [document] = await listDocuments(store, API_KEY);
+    assert.match(readContentHash(document!.customMetadata)!, /^[0-9a-f]{64}$/);
+  });
+
+  it("skip: 같은 내용이 있으면 업로드하지 않고 기존 문서 표시", async () => {
+    const uploader = createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "skip" },
+      API_KEY
+    );
+    const result = await uploader.upload("copy.md", encode("# Guide"), {
+      displayName: "copy.md",
+    });
+
+    assert.equal(result.success, true);
+    assert.equal(result.operationName, undefined);
+    assert.equal(result.duplicate?.displayName, "guide.md");
+    assert.equal(result.duplicate?.policy, "skip");
+    assert.equal((await listDocuments(store, API_KEY)).length, 1);
+  });
+
+  it("replace: 새 버전을 올리고 인덱싱이 끝나면 이전 버전 삭제", async () => {
+    const [previous] = await listDocuments(store, API_KEY);
+    const uploader = createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "replace" },
+      API_KEY
+    );
+    const result = await uploader.upload("guide.md", encode("# Guide"), {
+      displayName: "guide.md",
+    });
+    assert.ok(result.operationName);
+
+    // 상태를 확인하기 전에는 이전 버전 유지
+    assert.equal((await listDocuments(store, API_KEY)).length, 2);
+
+    const operation = await getUploadOperation(result.operationName, API_KEY);
+    assert.equal(
+      await finishReplaceDocument(operation, API_KEY),
+      previous!.name
+    );
+    const documents = await listDocuments(store, API_KEY);
+    assert.equal(documents.length, 1);
+    assert.notEqual(documents[0]!.name, previous!.name);
+    assert.equal(readDocumentVersion(documents[0]!.customMetadata), 2);
+
+    // 다시 호출해도 안전
+    assert.equal(await finishReplaceDocument(operation, API_KEY), undefined);
+  });
+
+  it("replace: 상태를 조회하지 않아도 다음 업로드나 목록 정리에서 이전 버전 삭제", async () => {
+    const [previous] = await listDocuments(store, API_KEY);
+    await createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "replace" },
+      API_KEY
+    ).upload("guide.md", encode("# Guide"), { displayName: "guide.md" });
+
+    await createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "skip" },
+      API_KEY
+    ).upload("other.md", encode("# Other"), { displayName: "other.md" });
+
+    const documents = await listDocuments(store, API_KEY);
+    assert.equal(documents.length, 2);
+    assert.ok(documents.every((document) => document.name !== previous!.name));
+    assert.deepEqual(
+      await sweepReplacedDocuments(documents, API_KEY),
+      documents
+    );
+  });
+
+  it("keep: 기존 문서를 두고 새 문서로 업로드", async () => {
+    const uploader = createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "keep" },
+      API_KEY
+    );
+    const result = await uploader.upload("copy.md", encode("# Guide"), {
+      displayName: "copy.md",
+    });
+
+    assert.ok(result.operationName);
+    assert.equal(result.duplicate?.policy, "keep");
+    assert.equal((await listDocuments(store, API_KEY)).length, 2);
+  });
+
+  it("파일별 정책이 기본 정책보다 우선", async () => {
+    const uploader = createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "skip", duplicatePolicies: { "copy.md": "keep" } },
+      API_KEY
+    );
+    const skipped = await uploader.upload("a.md", encode("# Guide"), {
+      displayName: "a.md",
+    });
+    const kept = await uploader.upload("copy.md", encode("# Guide"), {
+      displayName: "copy.md",
+    });
+
+    assert.equal(skipped.operationName, undefined);
+    assert.ok(kept.operationName);
+  });
+
+  it("같은 요청에서 먼저 올린 파일과 같은 내용은 건너뜀 (keep 제외)", async () => {
+    for (const duplicatePolicy of ["skip", "replace"] as const) {
+      const uploader = createUploadDeduplicator(
+        store,
+        { duplicatePolicy },
+        API_KEY
+      );
+      const first = await uploader.upload("new.md", encode(duplicatePolicy), {
+        displayName: "new.md",
+      });
+      const second = await uploader.upload(
+        "again.md",
+        encode(duplicatePolicy),
+        {
+          displayName: "again.md",
+        }
+      );
+
+      assert.ok(first.operationName);
+      assert.equal(first.duplicate, undefined);
+      assert.equal(second.operationName, undefined);
+      assert.deepEqual(second.duplicate, {
+        displayName: "new.md",
+        policy: "skip",
+      });
+    }
+  });
+
+  it("해시가 기록되지 않은 문서는 비교하지 않음", async () => {
+    // 해시 기록 기능 이전에 올린 문서
+    await getBackend(API_KEY).uploadToStore({
+      file: new Blob([encode("legacy")], { type: "text/markdown" }),
+      fileSearchStoreName: getFullStoreName(store.name),
+      config: { displayName: "legacy.md" },
+    });
+    const uploader = createUploadDeduplicator(
+      store,
+      { duplicatePolicy: "skip" },
+      API_KEY
+    );
+    const result = await uploader.upload("legacy.md", encode("legacy"), {
+      displayName: "legacy.md",
+    });
+
+    assert.ok(result.operationName);
+    assert.equal(result.duplicate, undefined);
+  });
+});
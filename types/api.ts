@@ -5,12 +5,105 @@
  */
 
 import type {
+  ChunkingConfig,
+  CustomMetadata,
   FileSearchStore,
   FileSearchDocument,
   QueryResponse,
-  GenerationConfig,
-  SafetySetting,
+  GroundingMetadata,
+  UsageMetadata,
 } from "./gemini";
+import type { z } from "zod";
+import type {
+  createStoreRequestSchema,
+  multiStoreQueryRequestSchema,
+  queryRequestSchema,
+  syncManifestEntrySchema,
+} from "@/lib/schemas";
+
+/**
+ * API Error Code
+ * 에러 응답의 안정적인 기계용 코드 (클라이언트는 messages/*.json의 errors 섹션으로 번역)
+ */
+export type ApiErrorCode =
+  | "MISSING_API_KEY"
+  | "INVALID_API_KEY"
+  | "PERMISSION_DENIED"
+  | "RATE_LIMITED"
+  | "CLIENT_RATE_LIMITED"
+  | "TOO_MANY_CONCURRENT_REQUESTS"
+  | "SERVICE_UNAVAILABLE"
+  | "INVALID_REQUEST"
+  | "STORE_NOT_FOUND"
+  | "DOCUMENT_NOT_FOUND"
+  | "OPERATION_NOT_FOUND"
+  | "NO_FILES"
+  | "TOO_MANY_FILES"
+  | "FILE_TOO_LARGE"
+  | "INVALID_METADATA"
+  | "RESERVED_METADATA_KEY"
+  | "INVALID_CHUNKING"
+  | "UPLOAD_FAILED"
+  | "INVALID_ARCHIVE"
+  | "URL_NOT_ALLOWED"
+  | "URL_FETCH_FAILED"
+  | "DIRECTORY_NOT_ALLOWED"
+  | "INTERNAL_ERROR";
+
+/**
+ * API Error Details
+ * 에러 메시지 번역에 사용하는 값 (예: maxSize, fileName)
+ * reason은 Gemini API가 반환한 원본 메시지
+ */
+export type ApiErrorDetails = Record<string, string | number>;
+
+/**
+ * API Field Error
+ * 요청 검증 실패 시 필드별 오류
+ */
+export interface ApiFieldError {
+  /** 필드 경로 (예: "generationConfig.temperature", "customMetadata[2].value") */
+  field: string;
+  /** 오류 메시지 */
+  message: string;
+}
+
+/**
+ * Retry Report
+ * 요청 처리 중 Gemini API 호출을 재시도한 내역
+ */
+export interface RetryReport {
+  /** 재시도 횟수 */
+  retries: number;
+  /** 재시도 대기 시간 합계 (ms) */
+  delayMs: number;
+}
+
+/**
+ * API Response Metadata
+ */
+export interface ApiResponseMeta {
+  /** 재시도 내역 (재시도가 있었던 경우) */
+  retry?: RetryReport;
+}
+
+/**
+ * API Key Mode
+ * - client: 브라우저가 x-api-key 헤더로 키를 전달
+ * - server: 서버의 GEMINI_API_KEY 환경 변수 사용
+ */
+export type ApiKeyMode = "client" | "server";
+
+/**
+ * Server Config Response
+ * GET /api/config
+ */
+export interface ServerConfigResponse {
+  /** API 키 모드 */
+  apiKeyMode: ApiKeyMode;
+  /** x-api-key 헤더로 본인 키를 사용할 수 있는지 여부 */
+  allowByok: boolean;
+}
 
 /**
  * Standard API Response
@@ -26,15 +119,20 @@ export interface ApiResponse<T = any> {
   /** 에러 메시지 (실패 시) */
   error?: string;
   /** 에러 코드 (실패 시) */
-  code?: number;
+  code?: ApiErrorCode;
+  /** 에러 상세 (실패 시) */
+  details?: ApiErrorDetails;
+  /** 필드별 검증 오류 (요청 검증 실패 시) */
+  fieldErrors?: ApiFieldError[];
+  /** 응답 메타데이터 */
+  meta?: ApiResponseMeta;
 }
 
 /**
  * Create Store Request
+ * 스키마: createStoreRequestSchema (lib/schemas.ts)
  */
-export interface CreateStoreRequest {
-  displayName: string;
-}
+export type CreateStoreRequest = z.input<typeof createStoreRequestSchema>;
 
 /**
  * Create Store Response
@@ -50,22 +148,24 @@ export interface CreateStoreResponse {
 export interface ListStoresResponse {
   data: FileSearchStore[];
   count: number;
+  /** 다음 페이지 토큰 (pageToken/pageSize로 요청한 경우) */
+  nextPageToken?: string;
 }
 
 /**
  * Query Request
+ * 스키마: queryRequestSchema (lib/schemas.ts)
  */
-export interface QueryRequest {
-  query: string;
-  metadataFilter?: string | null;
-  model?: string;
-  /** 시스템 지시사항 */
-  systemInstruction?: string;
-  /** 생성 구성 옵션 */
-  generationConfig?: GenerationConfig;
-  /** 안전 설정 */
-  safetySettings?: SafetySetting[];
-}
+export type QueryRequest = z.input<typeof queryRequestSchema>;
+
+/**
+ * Multi-Store Query Request
+ * POST /api/query - 여러 스토어를 한 번에 검색
+ * 스키마: multiStoreQueryRequestSchema (lib/schemas.ts)
+ */
+export type MultiStoreQueryRequest = z.input<
+  typeof multiStoreQueryRequestSchema
+>;
 
 /**
  * Query Response Data
@@ -73,6 +173,51 @@ export interface QueryRequest {
 export interface QueryResponseData {
   text: string;
   groundingMetadata: QueryResponse["groundingMetadata"];
+  usageMetadata?: UsageMetadata;
+}
+
+/**
+ * Query Stream Event
+ * 스트리밍 쿼리(SSE / NDJSON)로 전송되는 이벤트
+ * - delta: 새로 생성된 텍스트 조각
+ * - done: 전체 텍스트, 그라운딩 메타데이터, 사용량 (마지막 이벤트)
+ * - error: 스트리밍 중 발생한 오류
+ */
+export type QueryStreamEvent =
+  | { type: "delta"; text: string }
+  | {
+      type: "done";
+      text: string;
+      groundingMetadata: GroundingMetadata | null;
+      usageMetadata?: UsageMetadata;
+    }
+  | {
+      type: "error";
+      error: string;
+      code?: ApiErrorCode;
+      details?: ApiErrorDetails;
+    };
+
+/**
+ * Duplicate Policy
+ * 같은 내용(SHA-256)의 문서가 이미 있을 때의 업로드 처리
+ * - skip: 업로드하지 않음
+ * - replace: 기존 문서를 새 버전으로 교체 (표시 이름 유지)
+ * - keep: 기존 문서를 두고 새 문서로 업로드
+ */
+export type DuplicatePolicy = "skip" | "replace" | "keep";
+
+/**
+ * Duplicate Match
+ * 업로드한 파일과 내용이 같은 기존 문서
+ */
+export interface DuplicateMatch {
+  /** 기존 문서 이름 (같은 요청에서 먼저 업로드한 파일이면 없음) */
+  name?: string;
+  /** 기존 문서 표시 이름 */
+  displayName: string;
+  /** 적용한 정책 */
+  policy: DuplicatePolicy;
 }
 
 /**
@@ -85,8 +230,16 @@ export interface UploadFileResult {
   success: boolean;
   /** 에러 메시지 (실패 시) */
   error?: string;
+  /** 에러 코드 (실패 시) */
+  code?: ApiErrorCode;
+  /** 에러 상세 (실패 시) */
+  details?: ApiErrorDetails;
   /** 문서 정보 (성공 시) */
   document?: FileSearchDocument;
+  /** 인덱싱 operation 이름 (업로드 시작 성공 시, GET /api/operations/[id]로 상태 확인) */
+  operationName?: string;
+  /** 내용이 같은 기존 문서 (policy가 skip이면 operationName 없음) */
+  duplicate?: DuplicateMatch;
 }
 
 /**
@@ -98,12 +251,194 @@ export interface UploadFilesResponse {
   failCount: number;
 }
 
+/**
+ * Archive Import Entry Result
+ * fileName은 아카이브 안의 상대 경로 (문서 표시 이름으로 사용)
+ */
+export interface ArchiveEntryResult extends UploadFileResult {
+  /** 지원하지 않는 형식 등으로 업로드하지 않은 항목 */
+  skipped?: boolean;
+}
+
+/**
+ * Archive Import Response
+ * POST /api/stores/[storeId]/import
+ */
+export interface ArchiveImportResponse {
+  results: ArchiveEntryResult[];
+  successCount: number;
+  failCount: number;
+  skippedCount: number;
+}
+
+/**
+ * Sync Action
+ * 경로별 동기화 작업
+ * - upload: 스토어에 없는 경로 (새 문서)
+ * - replace: 내용이 바뀐 경로 (새 버전으로 교체)
+ * - delete: 동기화 대상에 없는 경로 (deleteRemoved일 때만)
+ * - unchanged: 내용이 같은 경로
+ */
+export type SyncAction = "upload" | "replace" | "delete" | "unchanged";
+
+/**
+ * Sync Manifest Entry
+ * 동기화할 파일의 상대 경로와 내용 해시 (SHA-256)
+ * 스키마: syncManifestEntrySchema (lib/schemas.ts)
+ */
+export type SyncManifestEntry = z.output<typeof syncManifestEntrySchema>;
+
+/**
+ * Sync Item
+ * 경로 하나의 동기화 계획과 실행 결과
+ */
+export interface SyncItem {
+  /** 상대 경로 (문서 표시 이름, source_path 메타데이터) */
+  path: string;
+  /** 작업 */
+  action: SyncAction;
+  /** 기존 문서 이름 (replace, delete, unchanged) */
+  documentName?: string;
+  /** 시작한 업로드 operation 이름 (upload, replace 성공 시, 인덱싱은 이 operation으로 확인) */
+  operationName?: string;
+  /** 성공 여부 (실행한 경우) */
+  success?: boolean;
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+  /** 에러 코드 (실패 시) */
+  code?: ApiErrorCode;
+  /** 에러 상세 (실패 시) */
+  details?: ApiErrorDetails;
+}
+
+/**
+ * Sync Response
+ * POST /api/stores/[storeId]/sync
+ */
+export interface SyncResponse {
+  /** 계획만 만들고 실행하지 않았는지 여부 */
+  dryRun: boolean;
+  /** 경로순 항목 */
+  items: SyncItem[];
+  /** 작업별 항목 수 */
+  summary: Record<SyncAction, number>;
+  /** 실패한 항목 수 */
+  failCount: number;
+}
+
+/**
+ * Store Manifest Document
+ * 내보낸 문서 하나의 설정 (복원 시 같은 설정으로 다시 업로드)
+ */
+export interface StoreManifestDocument {
+  /** 원래 문서 이름 (참고용, 복원하면 새 이름) */
+  name: string;
+  /** 문서 표시 이름 */
+  displayName: string;
+  /** MIME 타입 */
+  mimeType?: string;
+  /** 크기 (바이트) */
+  sizeBytes?: number;
+  /** 생성 시각 */
+  createTime: string;
+  /** 앱 예약 키(버전, 해시, 청킹)를 제외한 메타데이터 */
+  customMetadata: CustomMetadata[];
+  /** 청킹 설정 (기록되지 않은 문서는 null) */
+  chunking: ChunkingConfig | null;
+  /** 내용 SHA-256 (기록되지 않은 문서는 없음) */
+  contentHash?: string;
+  /** 문서 버전 (doc_version) */
+  version: number;
+}
+
+/**
+ * Store Manifest
+ * GET /api/stores/[storeId]/export
+ * 스키마: storeManifestSchema (lib/schemas.ts, 복원 요청 검증)
+ */
+export interface StoreManifest {
+  /** 매니페스트 형식 버전 */
+  manifestVersion: 1;
+  /** 내보낸 시각 */
+  exportedAt: string;
+  /** 스토어 설정 */
+  store: Pick<
+    FileSearchStore,
+    "name" | "displayName" | "createTime" | "updateTime" | "sizeBytes"
+  > & { documentCount: number };
+  /** 문서 목록 (표시 이름순) */
+  documents: StoreManifestDocument[];
+}
+
+/**
+ * Restore Document Result
+ * fileName은 매니페스트의 문서 표시 이름
+ */
+export interface RestoreDocumentResult extends UploadFileResult {
+  /** 일치한 아카이브 항목 경로 */
+  archivePath?: string;
+  /** 일치 방법 (hash: 내용 해시, path: source_path 또는 표시 이름, name: 파일 이름) */
+  matchedBy?: "hash" | "path" | "name";
+  /** 아카이브에 파일이 없어 복원하지 못한 문서 */
+  missing?: boolean;
+  /** 경로/이름으로 찾았지만 내용이 매니페스트의 해시와 다름 */
+  contentChanged?: boolean;
+}
+
+/**
+ * Restore Store Response
+ * POST /api/stores/restore
+ */
+export interface RestoreStoreResponse {
+  /** 새로 만든 스토어 */
+  store: Pick<FileSearchStore, "name" | "displayName">;
+  /** 매니페스트 순서의 문서별 결과 */
+  results: RestoreDocumentResult[];
+  successCount: number;
+  failCount: number;
+  missingCount: number;
+  /** 매니페스트의 어떤 문서와도 일치하지 않은 아카이브 항목 */
+  unmatchedFiles: string[];
+}
+
+/**
+ * Replace Document Response
+ * PUT /api/stores/[storeId]/documents/[docName]
+ */
+export interface ReplaceDocumentResponse {
+  /** 교체된 문서 표시 이름 */
+  displayName: string;
+  /** 새 문서 버전 */
+  version: number;
+  /** 이전 버전 문서 이름 (새 버전 인덱싱이 성공하면 삭제) */
+  previousDocumentName: string;
+  /** 인덱싱 operation 이름 (GET /api/operations/[id]로 상태 확인) */
+  operationName: string;
+}
+
+/**
+ * Operation Status Response
+ * GET /api/operations/[id]
+ */
+export interface OperationStatusResponse {
+  /** operation 이름 */
+  name: string;
+  /** 완료 여부 (성공 또는 실패) */
+  done: boolean;
+  /** 생성된 문서 이름 (성공 시) */
+  documentName?: string;
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+}
+
 /**
  * List Documents Response
  */
 export interface ListDocumentsResponse {
   data: FileSearchDocument[];
   count: number;
+  /** 다음 페이지 토큰 (pageToken/pageSize로 요청한 경우) */
+  nextPageToken?: string;
 }
 
 /**
@@ -112,7 +447,9 @@ export interface ListDocumentsResponse {
 export interface ErrorResponse {
   success: false;
   error: string;
-  code?: number;
+  code?: ApiErrorCode;
+  details?: ApiErrorDetails;
+  fieldErrors?: ApiFieldError[];
 }
 
 /**
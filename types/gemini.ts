@@ -39,14 +39,26 @@ export interface FileSearchDocument {
   createTime: string;
   /** 업데이트 시각 */
   updateTime: string;
-  /** 메타데이터 (옵션) */
-  metadata?: Record<string, string>;
+  /** 커스텀 메타데이터 (업로드 시 지정한 key-value) */
+  customMetadata?: CustomMetadata[];
+  /** 처리 상태 */
+  state?: DocumentState;
   /** MIME 타입 */
   mimeType?: string;
   /** 파일 크기 (바이트) */
   sizeBytes?: number;
 }
 
+/**
+ * Document State
+ * 문서 처리 상태 (PENDING: 청킹/임베딩 진행 중)
+ */
+export type DocumentState =
+  | "STATE_UNSPECIFIED"
+  | "STATE_PENDING"
+  | "STATE_ACTIVE"
+  | "STATE_FAILED";
+
 /**
  * Grounding Metadata
  * AI 응답의 출처 정보 (인용)
@@ -65,16 +77,25 @@ export interface GroundingMetadata {
  * 검색된 문서 청크
  */
 export interface GroundingChunk {
-  /** 청크 인덱스 */
-  chunkIndex?: number;
-  /** 청크 내용 */
-  content?: string;
-  /** 소스 문서 */
-  source?: {
-    /** 문서 이름 */
-    name?: string;
-    /** 문서 표시 이름 */
-    displayName?: string;
+  /** File Search로 검색된 컨텍스트 */
+  retrievedContext?: {
+    /** 문서 제목 (표시 이름) */
+    title?: string;
+    /** 청크 텍스트 */
+    text?: string;
+    /** 문서 URI */
+    uri?: string;
+    /** 문서 전체 이름 */
+    documentName?: string;
+    /** 청크가 속한 스토어 전체 이름 */
+    fileSearchStore?: string;
+  };
+  /** 청크를 가져온 스토어 (서버에서 추가) */
+  store?: {
+    /** 스토어 ID */
+    name: string;
+    /** 스토어 표시 이름 */
+    displayName: string;
   };
 }
 
@@ -83,14 +104,51 @@ export interface GroundingChunk {
  * 응답의 특정 부분이 어떤 청크에서 왔는지 매핑
  */
 export interface GroundingSupport {
-  /** 지원하는 청크 인덱스들 */
-  chunkIndices?: number[];
-  /** 응답 텍스트의 시작 인덱스 */
+  /** 응답 텍스트 구간 */
+  segment?: GroundingSegment;
+  /** 지원하는 청크 인덱스들 (groundingChunks 기준) */
+  groundingChunkIndices?: number[];
+  /** 청크별 신뢰도 점수 */
+  confidenceScores?: number[];
+}
+
+/**
+ * Grounding Segment
+ * 응답 텍스트의 구간 (인덱스는 UTF-8 바이트 단위)
+ */
+export interface GroundingSegment {
+  /** 파트 인덱스 */
+  partIndex?: number;
+  /** 시작 바이트 오프셋 (생략 시 0) */
   startIndex?: number;
-  /** 응답 텍스트의 종료 인덱스 */
+  /** 종료 바이트 오프셋 (미포함) */
   endIndex?: number;
-  /** 신뢰도 점수 */
-  confidenceScore?: number;
+  /** 구간 텍스트 */
+  text?: string;
+}
+
+/**
+ * Content
+ * 대화의 한 턴 (Gemini API의 contents 항목)
+ */
+export interface Content {
+  /** 발화자 역할 */
+  role: "user" | "model";
+  /** 텍스트 파트들 */
+  parts: Array<{ text: string }>;
+}
+
+/**
+ * Usage Metadata
+ * 요청/응답 토큰 사용량
+ */
+export interface UsageMetadata {
+  /** 프롬프트 토큰 수 */
+  promptTokenCount?: number;
+  /** 응답 후보 토큰 수 */
+  candidatesTokenCount?: number;
+  /** 전체 토큰 수 */
+  totalTokenCount?: number;
 }
 
 /**
@@ -109,6 +167,8 @@ export interface QueryResponse {
     };
     groundingMetadata?: GroundingMetadata;
   }>;
+  /** 토큰 사용량 */
+  usageMetadata?: UsageMetadata;
 }
 
 /**
@@ -137,6 +197,17 @@ export interface CustomMetadata {
   numericValue?: number;
 }
 
+/**
+ * Chunking Config
+ * white-space 청킹 설정
+ */
+export interface ChunkingConfig {
+  /** 청크당 최대 토큰 수 */
+  maxTokensPerChunk: number;
+  /** 청크 간 겹치는 최대 토큰 수 */
+  maxOverlapTokens: number;
+}
+
 /**
  * Upload Options
  * 파일 업로드 시 옵션
@@ -152,6 +223,30 @@ export interface UploadOptions {
   maxOverlapTokens?: number;
   /** MIME 타입 */
   mimeType?: string;
+  /** 파일 내용의 SHA-256 (생략 시 업로드하면서 계산) */
+  contentHash?: string;
+}
+
+/**
+ * Page Request Options
+ * 목록 API 페이지 단위 조회 옵션
+ */
+export interface PageOptions {
+  /** 한 페이지당 항목 수 */
+  pageSize?: number;
+  /** 이전 응답에서 받은 다음 페이지 토큰 */
+  pageToken?: string;
+}
+
+/**
+ * Paged Result
+ * 페이지 단위 조회 결과
+ */
+export interface PagedResult<T> {
+  /** 현재 페이지의 항목들 */
+  items: T[];
+  /** 다음 페이지 토큰 (마지막 페이지면 undefined) */
+  nextPageToken?: string;
 }
 
 /**
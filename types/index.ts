@@ -8,25 +8,57 @@
 export type {
   FileSearchStore,
   FileSearchDocument,
+  DocumentState,
   GroundingMetadata,
   GroundingChunk,
   GroundingSupport,
+  GroundingSegment,
   QueryResponse,
+  Content,
+  UsageMetadata,
+  CustomMetadata,
   UploadOptions,
+  ChunkingConfig,
+  PageOptions,
+  PagedResult,
   Operation,
   GenerationConfig,
+  SafetySetting,
 } from "./gemini";
 
 // API types
 export type {
+  ApiErrorCode,
+  ApiErrorDetails,
+  ApiFieldError,
   ApiResponse,
+  ApiResponseMeta,
+  RetryReport,
+  ApiKeyMode,
+  ServerConfigResponse,
   CreateStoreRequest,
   CreateStoreResponse,
   ListStoresResponse,
   QueryRequest,
+  MultiStoreQueryRequest,
   QueryResponseData,
+  QueryStreamEvent,
+  DuplicatePolicy,
+  DuplicateMatch,
   UploadFileResult,
   UploadFilesResponse,
+  ArchiveEntryResult,
+  ArchiveImportResponse,
+  SyncAction,
+  SyncManifestEntry,
+  SyncItem,
+  SyncResponse,
+  StoreManifestDocument,
+  StoreManifest,
+  RestoreDocumentResult,
+  RestoreStoreResponse,
+  OperationStatusResponse,
+  ReplaceDocumentResponse,
   ListDocumentsResponse,
   ErrorResponse,
 } from "./api";
@@ -40,6 +72,15 @@ export type {
   DocumentsState,
   QueryState,
   QueryHistoryItem,
+  QuerySettingsSnapshot,
+  PresetSettings,
+  SettingsPreset,
+  SettingsPresetFile,
+  PresetsState,
   QueryResult,
+  ChatMessage,
+  ChatThread,
+  UploadsState,
+  UploadJob,
   AppStore,
 } from "./store";
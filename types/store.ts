@@ -4,7 +4,15 @@
  * Zustand 상태 관리에 사용되는 타입 정의
  */
 
-import type { FileSearchStore, FileSearchDocument } from "./gemini";
+import type {
+  FileSearchStore,
+  FileSearchDocument,
+  GroundingMetadata,
+  GenerationConfig,
+  SafetySetting,
+  ChunkingConfig,
+} from "./gemini";
+import type { ApiKeyMode, ServerConfigResponse } from "./api";
 
 /**
  * UI State Slice
@@ -37,6 +45,8 @@ export interface StoresState {
   lastUpdated: number | null;
   /** 캐시 만료 시간 (5분) */
   cacheTTL: number;
+  /** 스토어별 기본 청킹 설정 (스토어 이름 → 설정) */
+  chunkingDefaults: Record<string, ChunkingConfig>;
 
   /** Actions */
   setStores: (stores: FileSearchStore[]) => void;
@@ -45,6 +55,10 @@ export interface StoresState {
   removeStore: (displayName: string) => void;
   clearStores: () => void;
   isCacheValid: () => boolean;
+  setChunkingDefaults: (
+    storeName: string,
+    config: ChunkingConfig | null
+  ) => void;
 }
 
 /**
@@ -73,22 +87,95 @@ export interface DocumentsState {
  * RAG 쿼리 상태 관리
  */
 export interface QueryState {
-  /** 쿼리 히스토리 */
+  /** 쿼리 히스토리 (최신순, API 키를 지워도 유지) */
   history: QueryHistoryItem[];
   /** 현재 쿼리 결과 */
   currentResult: QueryResult | null;
-  /** 최대 히스토리 개수 */
+  /** 스토어별 최대 히스토리 개수 */
   maxHistorySize: number;
+  /** 대화 스레드 목록 (모든 스토어) */
+  threads: ChatThread[];
+  /** 스토어별 활성 스레드 ID */
+  activeThreadIds: Record<string, string | null>;
+  /** 워크스페이스 스토어별 함께 검색할 스토어 ID 목록 (없으면 해당 스토어만) */
+  selectedStoreIds: Record<string, string[]>;
 
   /** Actions */
   addToHistory: (item: QueryHistoryItem) => void;
+  removeFromHistory: (id: string) => void;
   setCurrentResult: (result: QueryResult | null) => void;
-  clearHistory: () => void;
+  /** storeName을 지정하면 해당 스토어의 히스토리만 삭제 */
+  clearHistory: (storeName?: string) => void;
   clearCurrentResult: () => void;
+  createThread: (storeName: string, title?: string) => string;
+  renameThread: (threadId: string, title: string) => void;
+  deleteThread: (threadId: string) => void;
+  setActiveThread: (storeName: string, threadId: string | null) => void;
+  addMessage: (threadId: string, message: ChatMessage) => void;
+  updateMessage: (
+    threadId: string,
+    messageId: string,
+    patch: Partial<ChatMessage>
+  ) => void;
+  setSelectedStoreIds: (storeName: string, storeIds: string[]) => void;
+}
+
+/**
+ * Chat Message
+ * 대화 스레드의 한 메시지
+ */
+export interface ChatMessage {
+  /** 고유 ID */
+  id: string;
+  /** 발화자 역할 */
+  role: "user" | "model";
+  /** 메시지 텍스트 */
+  text: string;
+  /** 그라운딩 메타데이터 (model 메시지) */
+  groundingMetadata?: GroundingMetadata | null;
+  /** 오류로 끝난 메시지 여부 (다음 요청 contents에서 제외) */
+  isError?: boolean;
+  /** 타임스탬프 */
+  timestamp: number;
+}
+
+/**
+ * Chat Thread
+ * 스토어별 대화 스레드
+ */
+export interface ChatThread {
+  /** 고유 ID */
+  id: string;
+  /** 스토어 이름 */
+  storeName: string;
+  /** 스레드 제목 (비어 있으면 기본 제목 표시) */
+  title: string;
+  /** 메시지 목록 (오래된 순) */
+  messages: ChatMessage[];
+  /** 생성 시각 */
+  createdAt: number;
+  /** 마지막 업데이트 시각 */
+  updatedAt: number;
+}
+
+/**
+ * Query Settings Snapshot
+ * 쿼리 실행 당시의 고급 설정
+ */
+export interface QuerySettingsSnapshot {
+  /** 시스템 지시 */
+  systemInstruction?: string;
+  /** 생성 설정 */
+  generationConfig?: GenerationConfig;
+  /** 안전 설정 */
+  safetySettings?: SafetySetting[];
+  /** 메타데이터 필터 */
+  metadataFilter?: string;
 }
 
 /**
  * Query History Item
+ * 모델/설정/그라운딩 정보는 이전 버전에서 저장한 항목에는 없을 수 있음
  */
 export interface QueryHistoryItem {
   /** 고유 ID */
@@ -99,8 +186,16 @@ export interface QueryHistoryItem {
   response: string;
   /** 타임스탬프 */
   timestamp: number;
-  /** 스토어 이름 */
+  /** 스토어 이름 (쿼리를 실행한 워크스페이스) */
   storeName: string;
+  /** 함께 검색한 스토어 ID 목록 (여러 스토어를 검색한 경우) */
+  storeIds?: string[];
+  /** 사용한 모델 */
+  model?: string;
+  /** 사용한 고급 설정 */
+  settings?: QuerySettingsSnapshot;
+  /** 그라운딩 메타데이터 (인용 표시용) */
+  groundingMetadata?: GroundingMetadata | null;
 }
 
 /**
@@ -115,6 +210,51 @@ export interface QueryResult {
   timestamp: number;
 }
 
+/**
+ * Upload Job
+ * 업로드 후 인덱싱이 진행 중인 파일 하나
+ */
+export interface UploadJob {
+  /** 작업 ID */
+  id: string;
+  /** 업로드한 스토어 이름 */
+  storeName: string;
+  /** 파일 이름 */
+  fileName: string;
+  /** 인덱싱 operation 이름 */
+  operationName: string;
+  /** 인덱싱 상태 */
+  status: "processing" | "done" | "failed";
+  /** 에러 메시지 (실패 시) */
+  error?: string;
+  /** 생성된 문서 이름 (완료 시) */
+  documentName?: string;
+  /** 생성 시간 */
+  createdAt: number;
+  /** 마지막 상태 갱신 시간 */
+  updatedAt: number;
+}
+
+/**
+ * Uploads State Slice
+ * 업로드 인덱싱 작업 상태 관리 (페이지 이동 후에도 유지)
+ */
+export interface UploadsState {
+  /** 업로드 작업 목록 */
+  uploadJobs: UploadJob[];
+
+  /** Actions */
+  addUploadJobs: (
+    jobs: Array<Pick<UploadJob, "storeName" | "fileName" | "operationName">>
+  ) => void;
+  updateUploadJob: (
+    id: string,
+    patch: Partial<Pick<UploadJob, "status" | "error" | "documentName">>
+  ) => void;
+  removeUploadJob: (id: string) => void;
+  clearFinishedUploadJobs: (storeName: string) => void;
+}
+
 /**
  * API Key State Slice
  * API 키 상태 관리
@@ -122,9 +262,14 @@ export interface QueryResult {
 export interface ApiKeyState {
   /** API 키 */
   apiKey: string | null;
+  /** 서버 API 키 모드 (GET /api/config 응답 전에는 null, 저장하지 않음) */
+  apiKeyMode: ApiKeyMode | null;
+  /** server 모드에서 본인 키를 사용할 수 있는지 여부 */
+  allowByok: boolean;
 
   /** Actions */
   setApiKey: (key: string) => void;
+  setServerConfig: (config: ServerConfigResponse) => void;
   clearApiKey: () => void;
   hasApiKey: () => boolean;
 }
@@ -153,6 +298,81 @@ export interface ModelState {
   setTopK: (topK: number | undefined) => void;
   metadataFilter: string;
   setMetadataFilter: (filter: string) => void;
+  /** 안전 설정 (카테고리별 차단 임계값, 없으면 모델 기본값) */
+  safetySettings: SafetySetting[];
+  setSafetySettings: (settings: SafetySetting[]) => void;
+}
+
+/**
+ * Preset Settings
+ * 프리셋에 저장되는 워크스페이스 설정
+ */
+export interface PresetSettings {
+  /** 모델 */
+  model: string;
+  /** 시스템 지시 */
+  systemInstruction: string;
+  /** 생성 설정 (고급 설정에서 편집하는 항목) */
+  generationConfig: Pick<
+    GenerationConfig,
+    "temperature" | "maxOutputTokens" | "topP" | "topK"
+  >;
+  /** 안전 설정 */
+  safetySettings: SafetySetting[];
+  /** 메타데이터 필터 */
+  metadataFilter: string;
+}
+
+/**
+ * Settings Preset
+ * 이름이 붙은 워크스페이스 설정 묶음
+ */
+export interface SettingsPreset extends PresetSettings {
+  /** 고유 ID */
+  id: string;
+  /** 프리셋 이름 (고유) */
+  name: string;
+  /** 생성 시각 */
+  createdAt: number;
+  /** 마지막 수정 시각 */
+  updatedAt: number;
+}
+
+/**
+ * Settings Preset File
+ * 프리셋 JSON 가져오기/내보내기 형식 (ID와 시각은 포함하지 않음)
+ */
+export interface SettingsPresetFile {
+  presetsVersion: 1;
+  exportedAt: string;
+  presets: Array<PresetSettings & { name: string }>;
+}
+
+/**
+ * Presets State Slice
+ * 설정 프리셋 관리 (API 키를 지워도 유지)
+ */
+export interface PresetsState {
+  /** 프리셋 목록 */
+  presets: SettingsPreset[];
+  /** 스토어별 기본 프리셋 ID (워크스페이스를 열 때 적용) */
+  defaultPresetIds: Record<string, string>;
+  /** 마지막으로 적용한 프리셋 ID */
+  activePresetId: string | null;
+
+  /** Actions */
+  /** 같은 이름의 프리셋이 있으면 설정을 덮어씀 */
+  savePreset: (name: string, settings: PresetSettings) => string;
+  updatePreset: (
+    id: string,
+    patch: Partial<PresetSettings & { name: string }>
+  ) => void;
+  deletePreset: (id: string) => void;
+  /** 프리셋 설정을 현재 워크스페이스 설정으로 적용 */
+  applyPreset: (id: string) => void;
+  setDefaultPreset: (storeName: string, id: string | null) => void;
+  /** 같은 이름의 프리셋은 덮어쓰고 가져온 개수 반환 */
+  importPresets: (presets: Array<PresetSettings & { name: string }>) => number;
 }
 
 /**
@@ -175,6 +395,8 @@ export type AppStore = UIState &
   StoresState &
   DocumentsState &
   QueryState &
+  UploadsState &
   ApiKeyState &
   ModelState &
+  PresetsState &
   HydrationState;